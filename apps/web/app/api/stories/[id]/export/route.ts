@@ -0,0 +1,120 @@
+import { randomUUID } from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { bundleExportFiles, parseToStory, ValidationError, type ExportResult } from '@storygraph/core';
+import { activeStoryStore } from '../../../../../lib/story-store';
+import { rateLimit, requireAuth } from '../../../../../lib/api-guards';
+import { getExporterRegistry } from '../../../../../lib/exporters';
+import { addRequestIdHeader, errorResponse, ok } from '../../../../../lib/http';
+import { getTokenHashPrefix, logRequestSummary, logWithRequest, shouldLogOptions } from '../../../../../lib/logger';
+
+/** Query parameters of the route itself; any others are options of the target */
+const ROUTE_PARAMS = new Set(['target', 'versionId']);
+
+function loadStoryContent(id: string, versionId?: string): { content: string; versionId: string } | null {
+  if (versionId) {
+    const version = activeStoryStore.getVersion(id, versionId);
+    if (!version) return null;
+    return { content: version.content, versionId: version.versionId };
+  }
+  const story = activeStoryStore.get(id);
+  if (!story) return null;
+  return { content: story.content, versionId: story.latestVersionId };
+}
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const started = performance.now();
+  const tokenHashPrefix = getTokenHashPrefix(request.headers.get('authorization'));
+  const { requestId, headers } = addRequestIdHeader();
+  const finish = (response: Response, fields?: Record<string, unknown>) => {
+    logRequestSummary({
+      requestId,
+      route: '/api/stories/[id]/export',
+      method: 'GET',
+      status: response.status,
+      durationMs: Math.round(performance.now() - started),
+      storyId: params.id,
+      versionId: fields?.versionId as string | undefined,
+      tokenHashPrefix,
+    });
+    return response;
+  };
+  try {
+    const auth = requireAuth(request, requestId);
+    if (auth) return finish(auth);
+    const limitedRate = rateLimit(request, { maxTokens: 10, windowMs: 10_000, requestId });
+    if (limitedRate) return finish(limitedRate);
+
+    const query = new URL(request.url).searchParams;
+    const registry = await getExporterRegistry();
+    const target = query.get('target');
+    if (!target || !registry.has(target)) {
+      const message = target ? `Unknown export target: ${target}` : 'Missing target';
+      return finish(errorResponse('bad_request', message, 400, { targets: registry.targets() }, requestId));
+    }
+
+    const storyContent = loadStoryContent(params.id, query.get('versionId') ?? undefined);
+    if (!storyContent) return finish(errorResponse('not_found', 'Story not found', 404, undefined, requestId));
+
+    const options: Record<string, string> = {};
+    for (const [name, value] of query) {
+      if (!ROUTE_PARAMS.has(name)) options[name] = value;
+    }
+
+    const story = parseToStory(storyContent.content);
+    let result: ExportResult;
+    try {
+      result = registry.export(target, story, options);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return finish(errorResponse('invalid_options', error.message, 400, { issues: error.issues }, requestId), {
+          versionId: storyContent.versionId,
+        });
+      }
+      throw error;
+    }
+
+    // Several files go out as one zip named after the story
+    const file = bundleExportFiles(story, result);
+    const mediaType =
+      result.files.length > 1 ? 'application/zip' : (registry.get(target)?.mediaType ?? 'application/octet-stream');
+    logWithRequest('stories:export', requestId, {
+      storyId: params.id,
+      versionId: storyContent.versionId,
+      target,
+      files: result.files.length,
+      warnings: result.warnings.length,
+      durationMs: Math.round(performance.now() - started),
+    });
+    const body = typeof file.contents === 'string' ? file.contents : new Uint8Array(file.contents);
+    return finish(
+      new NextResponse(body, {
+        status: 200,
+        headers: {
+          ...headers,
+          'content-type': typeof file.contents === 'string' ? `${mediaType}; charset=utf-8` : mediaType,
+          'content-disposition': `attachment; filename="${file.name.replace(/["\\\r\n]/g, '_')}"`,
+          'x-export-warnings': String(result.warnings.length),
+        },
+      }),
+      { versionId: storyContent.versionId }
+    );
+  } catch (error) {
+    return finish(errorResponse('export_failed', (error as Error).message, 500, undefined, requestId));
+  }
+}
+
+export function OPTIONS() {
+  const started = performance.now();
+  const response = ok();
+  const durationMs = Math.round(performance.now() - started);
+  if (shouldLogOptions(response.status, durationMs)) {
+    logRequestSummary({
+      requestId: response.headers.get('x-request-id') ?? randomUUID(),
+      route: '/api/stories/[id]/export',
+      method: 'OPTIONS',
+      status: response.status,
+      durationMs,
+    });
+  }
+  return response;
+}
@@ -42,10 +42,10 @@ export async function POST(request: Request, { params }: { params: { id: string
     if (limitedRate) return finish(limitedRate);
 
     const body = limited ?? {};
-    const target = typeof body.target === 'string' ? body.target : undefined;
+    const choiceId = typeof body.choiceId === 'string' ? body.choiceId : undefined;
     const versionId = typeof body.versionId === 'string' ? body.versionId : undefined;
     const state = body.state as RuntimeSnapshot | undefined;
-    if (!target) return finish(errorResponse('invalid_request', 'target is required', 400, undefined, requestId), 400);
+    if (!choiceId) return finish(errorResponse('invalid_request', 'choiceId is required', 400, undefined, requestId), 400);
     if (!state) return finish(errorResponse('invalid_request', 'state is required', 400, undefined, requestId), 400);
 
     const storyContent = loadStoryContent(params.id, versionId);
@@ -54,10 +54,16 @@ export async function POST(request: Request, { params }: { params: { id: string
     const runtime = hydrate(loadRuntimeFromContent(storyContent.content, { storyId: params.id }).story, state, {
       storyId: params.id,
     });
-    const result = runtimeChoose(runtime, target);
+    const result = runtimeChoose(runtime, choiceId);
     if (result.error) {
       return finish(
-        errorResponse(result.error.code, result.error.message, 400, { nodeId: result.error.nodeId }, requestId),
+        errorResponse(
+          result.error.code,
+          result.error.message,
+          400,
+          { nodeId: result.error.nodeId, ...result.error.data },
+          requestId
+        ),
         400,
         { versionId: storyContent.versionId }
       );
@@ -67,7 +73,7 @@ export async function POST(request: Request, { params }: { params: { id: string
     logWithRequest('play:choose', requestId, {
       storyId: params.id,
       versionId: storyContent.versionId,
-      target,
+      choiceId,
       durationMs: Math.round(performance.now() - started),
     });
     return finish(
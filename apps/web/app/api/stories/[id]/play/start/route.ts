@@ -3,7 +3,14 @@ import { activeStoryStore } from '../../../../../../lib/story-store';
 import { parseJsonWithLimit, rateLimit, requireAuth } from '../../../../../../lib/api-guards';
 import { errorResponse, jsonResponse, ok } from '../../../../../../lib/http';
 import { getTokenHashPrefix, logRequestSummary, logWithRequest, shouldLogOptions } from '../../../../../../lib/logger';
-import { loadRuntimeFromContent, snapshot, start as runtimeStart, type RuntimeSnapshot } from '@storygraph/core';
+import {
+  hydrate,
+  loadRuntimeFromContent,
+  resume,
+  snapshot,
+  start as runtimeStart,
+  type RuntimeSnapshot,
+} from '@storygraph/core';
 
 function loadStoryContent(id: string, versionId?: string): { content: string; versionId: string } | null {
   if (versionId) {
@@ -46,8 +53,11 @@ export async function POST(request: Request, { params }: { params: { id: string
     const storyContent = loadStoryContent(params.id, versionId);
     if (!storyContent) return finish(errorResponse('not_found', 'Story not found', 404, undefined, requestId), 404);
 
-    const runtime = loadRuntimeFromContent(storyContent.content, { storyId: params.id });
-    const result = runtimeStart(runtime);
+    // A saved state resumes where it left off instead of starting over
+    const state = body.state as RuntimeSnapshot | undefined;
+    const loaded = loadRuntimeFromContent(storyContent.content, { storyId: params.id });
+    const runtime = state ? hydrate(loaded.story, state, { storyId: params.id }) : loaded;
+    const result = state ? resume(runtime) : runtimeStart(runtime);
     if (result.error) {
       return finish(
         errorResponse(result.error.code, result.error.message, 400, { nodeId: result.error.nodeId }, requestId),
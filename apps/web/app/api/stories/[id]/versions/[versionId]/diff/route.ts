@@ -0,0 +1,112 @@
+import { randomUUID } from 'node:crypto';
+import { diffStories, parseToStory } from '@storygraph/core';
+import { activeStoryStore } from '../../../../../../../lib/story-store';
+import { rateLimit, requireAuth } from '../../../../../../../lib/api-guards';
+import {
+  getTokenHashPrefix,
+  logRequestSummary,
+  shouldLogOptions,
+} from '../../../../../../../lib/logger';
+import { errorResponse, jsonResponse, ok } from '../../../../../../../lib/http';
+
+/**
+ * GET /api/stories/[id]/versions/[versionId]/diff?against=<versionId>
+ * Semantic diff from another version (default: the latest) to this one
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string; versionId: string } }
+) {
+  const requestId = randomUUID();
+  const started = performance.now();
+  const tokenHashPrefix = getTokenHashPrefix(request.headers.get('authorization'));
+
+  const finish = (response: Response) => {
+    logRequestSummary({
+      requestId,
+      route: '/api/stories/[id]/versions/[versionId]/diff',
+      method: 'GET',
+      status: response.status,
+      durationMs: Math.round(performance.now() - started),
+      storyId: params.id,
+      versionId: params.versionId,
+      tokenHashPrefix,
+    });
+    return response;
+  };
+
+  try {
+    const auth = requireAuth(request, requestId);
+    if (auth) return finish(auth);
+    const limitedRate = rateLimit(request, { requestId });
+    if (limitedRate) return finish(limitedRate);
+
+    // Check if story exists
+    const story = activeStoryStore.get(params.id);
+    if (!story) {
+      return finish(errorResponse('not_found', 'Story not found', 404, undefined, requestId));
+    }
+
+    const version = activeStoryStore.getVersion(params.id, params.versionId);
+    if (!version) {
+      return finish(errorResponse('not_found', 'Version not found', 404, undefined, requestId));
+    }
+
+    const againstId = new URL(request.url).searchParams.get('against') || story.latestVersionId;
+    const against = activeStoryStore.getVersion(params.id, againstId);
+    if (!against) {
+      return finish(
+        errorResponse(
+          'not_found',
+          'Version to compare against not found',
+          404,
+          undefined,
+          requestId
+        )
+      );
+    }
+
+    return finish(
+      jsonResponse(
+        {
+          storyId: params.id,
+          versionId: version.versionId,
+          version: version.version,
+          against: { versionId: against.versionId, version: against.version },
+          diff: diffStories(parseToStory(against.content), parseToStory(version.content)),
+        },
+        { requestId }
+      )
+    );
+  } catch (error) {
+    const err = error as Error;
+    if (err.name === 'DatabaseUnavailableError') {
+      return finish(
+        errorResponse(
+          'store_unavailable',
+          'Database is busy, please retry',
+          503,
+          undefined,
+          requestId
+        )
+      );
+    }
+    return finish(errorResponse('internal_error', err.message, 500, undefined, requestId));
+  }
+}
+
+export function OPTIONS() {
+  const started = performance.now();
+  const response = ok();
+  const durationMs = Math.round(performance.now() - started);
+  if (shouldLogOptions(response.status, durationMs)) {
+    logRequestSummary({
+      requestId: response.headers.get('x-request-id') ?? randomUUID(),
+      route: '/api/stories/[id]/versions/[versionId]/diff',
+      method: 'OPTIONS',
+      status: response.status,
+      durationMs,
+    });
+  }
+  return response;
+}
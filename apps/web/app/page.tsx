@@ -289,6 +289,7 @@ function NodeList({
           <option value="passage">passage</option>
           <option value="choice">choice</option>
           <option value="condition">condition</option>
+          <option value="random">random</option>
           <option value="variable">variable</option>
           <option value="include">include</option>
           <option value="comment">comment</option>
@@ -3,7 +3,14 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import type { RuntimeFrame, RuntimeSnapshot } from '@storygraph/core';
+import {
+  inferVariableTypes,
+  parseToStory,
+  type RuntimeChoice,
+  type RuntimeFrame,
+  type RuntimeSnapshot,
+  type VariableType,
+} from '@storygraph/core';
 import { VariablePanel } from '../../../components/VariablePanel';
 import { EventLog } from '../../../components/EventLog';
 
@@ -34,6 +41,7 @@ export default function PlayPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [storyTitle, setStoryTitle] = useState<string>('Story');
+  const [variableTypes, setVariableTypes] = useState<Record<string, VariableType>>({});
   const [eventLog, setEventLog] = useState<RuntimeEvent[]>([]);
   const [savedGames, setSavedGames] = useState<SavedGame[]>([]);
   const [showSaveModal, setShowSaveModal] = useState(false);
@@ -53,7 +61,7 @@ export default function PlayPage() {
     }
   }, [storyId]);
 
-  // Fetch story title
+  // Fetch story title and variable types
   useEffect(() => {
     fetch(`/api/stories/${storyId}`)
       .then((res) => res.json())
@@ -61,6 +69,9 @@ export default function PlayPage() {
         if (data.story?.title) {
           setStoryTitle(data.story.title);
         }
+        if (data.story?.content) {
+          setVariableTypes(inferVariableTypes(parseToStory(data.story.content)));
+        }
       })
       .catch(() => {
         // Ignore errors
@@ -113,18 +124,18 @@ export default function PlayPage() {
     startGame();
   }, [startGame]);
 
-  const makeChoice = async (target: string, choiceText: string) => {
+  const makeChoice = async (choice: RuntimeChoice) => {
     if (!state) return;
     setLoading(true);
     setError(null);
 
-    addEvent('choice_made', frame?.nodeId, { target, text: choiceText });
+    addEvent('choice_made', frame?.nodeId, { target: choice.target, text: choice.text });
 
     try {
       const res = await fetch(`/api/stories/${storyId}/play/choose`, {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ target, state, versionId }),
+        body: JSON.stringify({ choiceId: choice.id, state, versionId }),
       });
       const data = (await res.json()) as PlayResponse & { error?: string; message?: string };
       if (!res.ok) throw new Error(data.message ?? data.error ?? 'Failed to choose');
@@ -146,6 +157,33 @@ export default function PlayPage() {
     }
   };
 
+  const undoChoice = async () => {
+    if (!state) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/stories/${storyId}/play/undo`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ state, versionId }),
+      });
+      const data = (await res.json()) as PlayResponse & { error?: string; message?: string };
+      if (!res.ok) throw new Error(data.message ?? data.error ?? 'Failed to undo');
+
+      setFrame(data.frame);
+      setState(data.state);
+      setVersionId(data.versionId);
+
+      addEvent('choice_undone', data.frame.nodeId);
+    } catch (err) {
+      setError((err as Error).message);
+      addEvent('error', undefined, { message: (err as Error).message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleSaveGame = () => {
     if (!state || !versionId || !saveName.trim()) return;
 
@@ -172,11 +210,10 @@ export default function PlayPage() {
 
     try {
       // Resume from saved state
-      const res = await fetch(`/api/stories/${storyId}/play/choose`, {
+      const res = await fetch(`/api/stories/${storyId}/play/start`, {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
         body: JSON.stringify({
-          target: save.state.currentNodeId,
           state: save.state,
           versionId: save.versionId,
         }),
@@ -250,7 +287,7 @@ export default function PlayPage() {
                   {frame.choices.map((choice) => (
                     <button
                       key={choice.id}
-                      onClick={() => makeChoice(choice.target, choice.text)}
+                      onClick={() => makeChoice(choice)}
                       disabled={loading}
                       className="play-choice"
                     >
@@ -267,6 +304,13 @@ export default function PlayPage() {
           )}
 
           <div className="play-actions">
+            <button
+              onClick={undoChoice}
+              disabled={loading || !state?.history?.length}
+              className="btn btn-secondary"
+            >
+              Undo
+            </button>
             <button onClick={startGame} disabled={loading} className="btn btn-secondary">
               Restart
             </button>
@@ -291,7 +335,7 @@ export default function PlayPage() {
         </div>
 
         <aside className="play-sidebar">
-          <VariablePanel variables={frame?.variables ?? {}} />
+          <VariablePanel variables={frame?.variables ?? {}} types={variableTypes} />
           <EventLog events={eventLog} maxEvents={100} />
         </aside>
       </div>
@@ -1,11 +1,14 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import {
+  inferVariableTypes,
   loadRuntimeFromContent,
   start,
   choose,
+  resume,
+  rewind,
   snapshot,
   hydrate,
   type RuntimeFrame,
@@ -99,7 +102,7 @@ export default function DemoPlayPage() {
 
         addEvent('choice_made', frame.nodeId, { choiceIndex, choiceText: choice.text });
 
-        const result = choose(runtime, choice.target);
+        const result = choose(runtime, choice.id);
 
         if (result.error || !result.frame) {
           throw new Error(result.error?.message ?? 'Invalid choice');
@@ -122,6 +125,21 @@ export default function DemoPlayPage() {
     [runtime, frame, addEvent]
   );
 
+  const undoChoice = useCallback(() => {
+    if (!runtime) return;
+    setError(null);
+
+    const result = rewind(runtime);
+    if (result.error || !result.frame) {
+      setError(result.error?.message ?? 'Nothing to undo');
+      return;
+    }
+
+    setFrame(result.frame);
+    setState(snapshot(runtime));
+    addEvent('choice_undone', result.frame.nodeId);
+  }, [runtime, addEvent]);
+
   const handleSaveGame = useCallback(() => {
     if (!state) return;
 
@@ -148,8 +166,8 @@ export default function DemoPlayPage() {
         const baseRt = loadRuntimeFromContent(DEMO_STORY_YAML);
         const rt = hydrate(baseRt.story, save.state);
 
-        // Navigate to the saved node to get the current frame
-        const result = start(rt, save.state.currentNodeId ?? undefined);
+        // Rebuild the current frame without re-entering the node
+        const result = resume(rt);
 
         if (result.error || !result.frame) {
           throw new Error('Failed to restore game state');
@@ -180,13 +198,11 @@ export default function DemoPlayPage() {
     startGame();
   }, [startGame]);
 
-  // Format variables for display
-  const variables: Record<string, string | number | boolean> = {};
-  if (state?.variables) {
-    for (const [key, value] of Object.entries(state.variables)) {
-      variables[key] = value as string | number | boolean;
-    }
-  }
+  const variables = state?.variables ?? {};
+  const variableTypes = useMemo(
+    () => (runtime ? inferVariableTypes(runtime.story) : {}),
+    [runtime]
+  );
 
   return (
     <main className="play-page">
@@ -265,6 +281,13 @@ export default function DemoPlayPage() {
 
           {frame && !frame.ending && (
             <div className="play-actions">
+              <button
+                onClick={undoChoice}
+                className="btn btn-secondary"
+                disabled={!state?.history?.length}
+              >
+                Undo
+              </button>
               <button
                 onClick={() => setShowSaveModal(true)}
                 className="btn btn-secondary"
@@ -287,7 +310,7 @@ export default function DemoPlayPage() {
         </div>
 
         <div className="play-sidebar">
-          <VariablePanel variables={variables} />
+          <VariablePanel variables={variables} types={variableTypes} />
           <EventLog events={eventLog} />
           {frame && (
             <WhatsNext
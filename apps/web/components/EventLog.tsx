@@ -51,6 +51,8 @@ export function EventLog({ events, collapsed = false, maxEvents = 50 }: EventLog
         return '←';
       case 'choice_made':
         return '◆';
+      case 'choice_undone':
+        return '↶';
       case 'variable_set':
         return '=';
       case 'condition_evaluated':
@@ -69,6 +71,7 @@ export function EventLog({ events, collapsed = false, maxEvents = 50 }: EventLog
       case 'node_exit':
         return 'event-exit';
       case 'choice_made':
+      case 'choice_undone':
         return 'event-choice';
       case 'variable_set':
         return 'event-variable';
@@ -1,26 +1,36 @@
 'use client';
 
 import { useState } from 'react';
+import type { VariableType, VariableValue } from '@storygraph/core';
 
 interface VariablePanelProps {
-  variables: Record<string, string | number | boolean>;
+  variables: Record<string, VariableValue>;
+  /** Static types inferred from the story (see inferVariableTypes) */
+  types?: Record<string, VariableType>;
   collapsed?: boolean;
 }
 
 /**
- * Displays runtime variables in a collapsible panel.
+ * Displays runtime variables in a collapsible panel, each with its
+ * inferred type when known.
  */
-export function VariablePanel({ variables, collapsed = false }: VariablePanelProps) {
+export function VariablePanel({ variables, types = {}, collapsed = false }: VariablePanelProps) {
   const [isCollapsed, setIsCollapsed] = useState(collapsed);
   const entries = Object.entries(variables);
 
-  const formatValue = (value: string | number | boolean): string => {
+  const formatValue = (value: VariableValue): string => {
     if (typeof value === 'boolean') return value ? 'true' : 'false';
     if (typeof value === 'string') return `"${value}"`;
+    if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+    if (typeof value === 'object') {
+      const entries = Object.entries(value).map(([key, entry]) => `${key}: ${formatValue(entry)}`);
+      return `{${entries.join(', ')}}`;
+    }
     return String(value);
   };
 
-  const getValueClass = (value: string | number | boolean): string => {
+  const getValueClass = (value: VariableValue): string => {
+    if (typeof value === 'object') return 'var-collection';
     if (typeof value === 'boolean') return 'var-boolean';
     if (typeof value === 'number') return 'var-number';
     return 'var-string';
@@ -48,7 +58,10 @@ export function VariablePanel({ variables, collapsed = false }: VariablePanelPro
             <ul className="variable-list">
               {entries.map(([key, value]) => (
                 <li key={key} className="variable-item">
-                  <span className="variable-name">{key}</span>
+                  <span className="variable-name">
+                    {key}
+                    {types[key] && <span className="variable-type">{types[key]}</span>}
+                  </span>
                   <span className={`variable-value ${getValueClass(value)}`}>
                     {formatValue(value)}
                   </span>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import type { FieldChange, StoryDiff } from '@storygraph/core';
 
 interface Version {
   versionId: string;
@@ -24,6 +25,11 @@ export function VersionHistory({ storyId, currentVersionId, onRevert }: VersionH
   const [error, setError] = useState<string | null>(null);
   const [selectedVersion, setSelectedVersion] = useState<Version | null>(null);
   const [loadingContent, setLoadingContent] = useState(false);
+  const [view, setView] = useState<'content' | 'changes'>('content');
+  const [againstId, setAgainstId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<StoryDiff | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [diffError, setDiffError] = useState<string | null>(null);
 
   // Fetch version list
   useEffect(() => {
@@ -47,6 +53,38 @@ export function VersionHistory({ storyId, currentVersionId, onRevert }: VersionH
     fetchVersions();
   }, [storyId]);
 
+  // Fetch the diff from the version compared against to the selected one
+  const selectedVersionId = selectedVersion?.versionId;
+  useEffect(() => {
+    if (view !== 'changes' || !selectedVersionId || !againstId) return;
+    let cancelled = false;
+
+    async function fetchDiff() {
+      setLoadingDiff(true);
+      setDiffError(null);
+      try {
+        const response = await fetch(
+          `/api/stories/${storyId}/versions/${selectedVersionId}/diff?against=${againstId}`
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to compare versions: ${response.status}`);
+        }
+        const data = await response.json();
+        if (!cancelled) setDiff(data.diff as StoryDiff);
+      } catch (err) {
+        if (!cancelled)
+          setDiffError(err instanceof Error ? err.message : 'Failed to compare versions');
+      } finally {
+        if (!cancelled) setLoadingDiff(false);
+      }
+    }
+
+    fetchDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [storyId, view, selectedVersionId, againstId]);
+
   // Fetch version content when selected
   const handleSelectVersion = async (version: Version) => {
     if (selectedVersion?.versionId === version.versionId) {
@@ -54,6 +92,11 @@ export function VersionHistory({ storyId, currentVersionId, onRevert }: VersionH
       return;
     }
 
+    // Compare with the version before it, or with the current one for the oldest
+    const index = versions.findIndex((v) => v.versionId === version.versionId);
+    setAgainstId(versions[index + 1]?.versionId ?? currentVersionId);
+    setDiff(null);
+
     // If we already have content, just select
     if (version.content) {
       setSelectedVersion(version);
@@ -68,7 +111,7 @@ export function VersionHistory({ storyId, currentVersionId, onRevert }: VersionH
         throw new Error(`Failed to load version content: ${response.status}`);
       }
       const data = await response.json();
-      const versionWithContent = { ...version, content: data.version.content };
+      const versionWithContent = { ...version, content: data.content };
 
       // Update in list
       setVersions((prev) =>
@@ -159,14 +202,50 @@ export function VersionHistory({ storyId, currentVersionId, onRevert }: VersionH
             <span className="muted">{formatDate(selectedVersion.createdAt)}</span>
           </div>
 
-          {loadingContent ? (
+          <div className="version-preview-tabs">
+            <button
+              onClick={() => setView('content')}
+              className={`btn btn-small ${view === 'content' ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              Content
+            </button>
+            <button
+              onClick={() => setView('changes')}
+              className={`btn btn-small ${view === 'changes' ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              Changes
+            </button>
+            {view === 'changes' && (
+              <label className="version-compare">
+                <span className="muted">Compared with</span>
+                <select value={againstId ?? ''} onChange={(e) => setAgainstId(e.target.value)}>
+                  {versions
+                    .filter((v) => v.versionId !== selectedVersion.versionId)
+                    .map((v) => (
+                      <option key={v.versionId} value={v.versionId}>
+                        v{v.version}
+                        {v.versionId === currentVersionId ? ' (current)' : ''}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {loadingContent || (view === 'changes' && loadingDiff) ? (
             <div className="version-preview-loading">
               <div className="spinner-small" />
-              <span>Loading content...</span>
+              <span>{loadingContent ? 'Loading content...' : 'Comparing versions...'}</span>
             </div>
           ) : (
             <>
-              <pre className="version-preview-content">{selectedVersion.content}</pre>
+              {view === 'content' ? (
+                <pre className="version-preview-content">{selectedVersion.content}</pre>
+              ) : diffError ? (
+                <span className="alert error">{diffError}</span>
+              ) : (
+                diff && <StoryDiffView diff={diff} />
+              )}
 
               {selectedVersion.versionId !== currentVersionId && onRevert && (
                 <div className="version-preview-actions">
@@ -188,3 +267,117 @@ export function VersionHistory({ storyId, currentVersionId, onRevert }: VersionH
     </div>
   );
 }
+
+const formatValue = (value: unknown) => {
+  const text = JSON.stringify(value) ?? '';
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+};
+
+function FieldChangeItem({ change }: { change: FieldChange }) {
+  const sign = change.kind === 'added' ? '+' : change.kind === 'removed' ? '−' : '~';
+  return (
+    <li className={`diff-${change.kind}`}>
+      {sign} <code>{change.path}</code>
+      {': '}
+      {change.kind === 'added'
+        ? formatValue(change.after)
+        : change.kind === 'removed'
+          ? formatValue(change.before)
+          : `${formatValue(change.before)} → ${formatValue(change.after)}`}
+    </li>
+  );
+}
+
+/**
+ * Renders a semantic story diff: meta, variables, nodes with their field
+ * changes, and edges.
+ */
+function StoryDiffView({ diff }: { diff: StoryDiff }) {
+  if (diff.identical) {
+    return (
+      <div className="version-history-empty">
+        <span className="muted">No differences between these versions</span>
+      </div>
+    );
+  }
+
+  const { added, removed, modified } = diff.nodes;
+  const edges = [
+    ...diff.edges.added.map((edge) => ({ edge, kind: 'added' as const })),
+    ...diff.edges.removed.map((edge) => ({ edge, kind: 'removed' as const })),
+  ];
+
+  return (
+    <div className="version-diff">
+      {diff.meta.length > 0 && (
+        <section>
+          <h4>Details</h4>
+          <ul>
+            {diff.meta.map((change) => (
+              <FieldChangeItem key={change.path} change={change} />
+            ))}
+          </ul>
+        </section>
+      )}
+      {diff.variables.length > 0 && (
+        <section>
+          <h4>Variables</h4>
+          <ul>
+            {diff.variables.map((change) => (
+              <FieldChangeItem key={change.path} change={change} />
+            ))}
+          </ul>
+        </section>
+      )}
+      {added.length + removed.length + modified.length > 0 && (
+        <section>
+          <h4>
+            Nodes{' '}
+            <span className="muted">
+              ({added.length} added, {removed.length} removed, {modified.length} modified)
+            </span>
+          </h4>
+          <ul>
+            {added.map((node) => (
+              <li key={`+${node.id}`} className="diff-added">
+                + <code>{node.id}</code> <span className="muted">{node.type}</span>
+              </li>
+            ))}
+            {removed.map((node) => (
+              <li key={`-${node.id}`} className="diff-removed">
+                − <code>{node.id}</code> <span className="muted">{node.type}</span>
+              </li>
+            ))}
+            {modified.map((node) => (
+              <li key={`~${node.id}`} className="diff-changed">
+                ~ <code>{node.id}</code> <span className="muted">{node.type}</span>
+                <ul>
+                  {node.changes.map((change) => (
+                    <FieldChangeItem key={change.path} change={change} />
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+      {edges.length > 0 && (
+        <section>
+          <h4>Connections</h4>
+          <ul>
+            {edges.map(({ edge, kind }, index) => (
+              <li key={index} className={`diff-${kind}`}>
+                {kind === 'added' ? '+' : '−'} <code>{edge.source}</code> →{' '}
+                <code>{edge.target}</code>{' '}
+                <span className="muted">
+                  {edge.type}
+                  {edge.label ? `: ${edge.label}` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ import '@xyflow/react/dist/style.css';
 
 import type { Story } from '@storygraph/core';
 import { nodeTypes } from './nodes';
+import { edgeTypes } from './edges';
 import { storyToFlow, type StoryFlowNode, type StoryFlowEdge } from './utils/storyToFlow';
 
 interface StoryCanvasProps {
@@ -95,6 +96,8 @@ export function StoryCanvas({
         return '#8b5cf6';
       case 'conditionNode':
         return '#f97316';
+      case 'randomNode':
+        return '#ec4899';
       case 'variableNode':
         return '#22c55e';
       case 'includeNode':
@@ -134,6 +137,7 @@ export function StoryCanvas({
         onNodeClick={handleNodeClick}
         onPaneClick={handlePaneClick}
         nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
         fitView
         fitViewOptions={{ padding: 0.2 }}
         nodesDraggable={!readOnly}
@@ -0,0 +1,69 @@
+'use client';
+
+import { memo } from 'react';
+import { BaseEdge, EdgeLabelRenderer, getSmoothStepPath, type EdgeProps } from '@xyflow/react';
+import type { StoryFlowEdge } from '../utils/storyToFlow';
+
+const EFFECT_COLOR = '#22c55e'; // green, matches variable nodes
+
+/**
+ * Choice edge that lists the state changes applied when the choice is taken,
+ * rendered like the assignments on a variable node.
+ */
+function EffectEdgeComponent({
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  markerEnd,
+  label,
+  data,
+}: EdgeProps<StoryFlowEdge>) {
+  const [path, labelX, labelY] = getSmoothStepPath({
+    sourceX,
+    sourceY,
+    targetX,
+    targetY,
+    sourcePosition,
+    targetPosition,
+  });
+  const effects = data?.effects ?? [];
+
+  return (
+    <>
+      <BaseEdge path={path} style={style} {...(markerEnd ? { markerEnd } : {})} />
+      <EdgeLabelRenderer>
+        <div
+          className="nodrag nopan"
+          style={{
+            position: 'absolute',
+            transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+            backgroundColor: '#0f172a',
+            border: `1px solid ${EFFECT_COLOR}66`,
+            borderRadius: 6,
+            padding: '3px 6px',
+            fontSize: 10,
+            pointerEvents: 'all',
+          }}
+        >
+          {label && <div style={{ color: '#e2e8f0', marginBottom: 2 }}>{label}</div>}
+          <div style={{ fontFamily: 'monospace' }}>
+            {effects.slice(0, 3).map((effect, idx) => (
+              <div key={idx} style={{ color: '#86efac', padding: '1px 0' }}>
+                {effect}
+              </div>
+            ))}
+            {effects.length > 3 && (
+              <div style={{ color: '#64748b' }}>+{effects.length - 3} more</div>
+            )}
+          </div>
+        </div>
+      </EdgeLabelRenderer>
+    </>
+  );
+}
+
+export const EffectEdge = memo(EffectEdgeComponent);
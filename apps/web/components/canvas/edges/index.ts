@@ -0,0 +1,12 @@
+import type { EdgeTypes } from '@xyflow/react';
+import { EffectEdge } from './EffectEdge';
+
+/**
+ * Custom edge types for React Flow.
+ * These map to the edgeTypes prop of ReactFlow.
+ */
+export const edgeTypes: EdgeTypes = {
+  effectEdge: EffectEdge,
+};
+
+export { EffectEdge };
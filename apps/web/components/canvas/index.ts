@@ -1,5 +1,6 @@
 export { StoryCanvas } from './StoryCanvas';
 export { nodeTypes } from './nodes';
+export { edgeTypes } from './edges';
 export { storyToFlow, extractPositionUpdates } from './utils/storyToFlow';
 export { calculateLayout, mergeWithExistingPositions } from './utils/layoutEngine';
 export { usePositionSync } from './hooks/usePositionSync';
@@ -0,0 +1,101 @@
+'use client';
+
+import { memo } from 'react';
+import { Handle, Position } from '@xyflow/react';
+
+interface RandomNodeProps {
+  data: {
+    label: string;
+    storyNode: {
+      id: string;
+      type: 'random';
+      branches?: Array<{ target: string; weight?: number; label?: string }>;
+    };
+  };
+  selected?: boolean;
+}
+
+const RANDOM_COLOR = '#ec4899'; // pink
+
+function RandomNodeComponent({ data, selected }: RandomNodeProps) {
+  const { storyNode } = data;
+  const branches = storyNode.branches ?? [];
+  const total = branches.reduce((sum, b) => sum + (b.weight ?? 1), 0);
+
+  return (
+    <div
+      className="story-node"
+      style={{
+        backgroundColor: selected ? RANDOM_COLOR : `${RANDOM_COLOR}22`,
+        borderColor: RANDOM_COLOR,
+        borderStyle: 'solid',
+        borderWidth: 2,
+        borderRadius: 8,
+        padding: '8px 12px',
+        minWidth: 160,
+        maxWidth: 240,
+        boxShadow: selected ? `0 0 0 2px ${RANDOM_COLOR}66` : 'none',
+        transition: 'box-shadow 0.15s ease',
+      }}
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        style={{
+          background: RANDOM_COLOR,
+          width: 10,
+          height: 10,
+          border: '2px solid white',
+        }}
+      />
+
+      <div
+        style={{
+          fontSize: 10,
+          fontWeight: 600,
+          textTransform: 'uppercase',
+          letterSpacing: '0.05em',
+          color: selected ? 'white' : RANDOM_COLOR,
+          marginBottom: 4,
+        }}
+      >
+        random
+      </div>
+
+      <div style={{ fontWeight: 600, marginBottom: 4, color: selected ? 'white' : '#e2e8f0' }}>
+        {storyNode.id}
+      </div>
+
+      {branches.map((branch, idx) => (
+        <div
+          key={idx}
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            gap: 8,
+            fontSize: 10,
+            color: selected ? 'rgba(255,255,255,0.9)' : '#94a3b8',
+          }}
+        >
+          <span>{branch.label ?? branch.target}</span>
+          <span style={{ fontFamily: 'monospace' }}>
+            {Math.round(((branch.weight ?? 1) / total) * 100)}%
+          </span>
+        </div>
+      ))}
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        style={{
+          background: RANDOM_COLOR,
+          width: 10,
+          height: 10,
+          border: '2px solid white',
+        }}
+      />
+    </div>
+  );
+}
+
+export const RandomNode = memo(RandomNodeComponent);
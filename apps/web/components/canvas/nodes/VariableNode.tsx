@@ -10,6 +10,9 @@ interface VariableNodeProps {
       id: string;
       type: 'variable';
       set?: Record<string, unknown>;
+      add?: Record<string, unknown>;
+      remove?: Record<string, unknown>;
+      clear?: string[];
       next?: string;
     };
   };
@@ -20,8 +23,18 @@ const VARIABLE_COLOR = '#22c55e'; // green
 
 function VariableNodeComponent({ data, selected }: VariableNodeProps) {
   const { storyNode } = data;
-  const variables = storyNode.set ?? {};
-  const entries = Object.entries(variables);
+  const entries = [
+    ...Object.entries(storyNode.set ?? {}).map(
+      ([key, value]) => `${key} = ${JSON.stringify(value)}`
+    ),
+    ...Object.entries(storyNode.add ?? {}).map(
+      ([key, value]) => `${key} + ${JSON.stringify(value)}`
+    ),
+    ...Object.entries(storyNode.remove ?? {}).map(
+      ([key, value]) => `${key} - ${JSON.stringify(value)}`
+    ),
+    ...(storyNode.clear ?? []).map((key) => `clear ${key}`),
+  ];
 
   return (
     <div
@@ -69,7 +82,7 @@ function VariableNodeComponent({ data, selected }: VariableNodeProps) {
 
       {entries.length > 0 ? (
         <div style={{ fontSize: 11, fontFamily: 'monospace' }}>
-          {entries.slice(0, 3).map(([key, value], idx) => (
+          {entries.slice(0, 3).map((entry, idx) => (
             <div
               key={idx}
               style={{
@@ -77,7 +90,7 @@ function VariableNodeComponent({ data, selected }: VariableNodeProps) {
                 padding: '1px 0',
               }}
             >
-              {key} = {JSON.stringify(value)}
+              {entry}
             </div>
           ))}
           {entries.length > 3 && (
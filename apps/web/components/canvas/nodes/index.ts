@@ -2,6 +2,7 @@ import type { NodeTypes } from '@xyflow/react';
 import { PassageNode } from './PassageNode';
 import { ChoiceNode } from './ChoiceNode';
 import { ConditionNode } from './ConditionNode';
+import { RandomNode } from './RandomNode';
 import { VariableNode } from './VariableNode';
 import { IncludeNode } from './IncludeNode';
 import { CommentNode } from './CommentNode';
@@ -14,9 +15,18 @@ export const nodeTypes: NodeTypes = {
   passageNode: PassageNode,
   choiceNode: ChoiceNode,
   conditionNode: ConditionNode,
+  randomNode: RandomNode,
   variableNode: VariableNode,
   includeNode: IncludeNode,
   commentNode: CommentNode,
 };
 
-export { PassageNode, ChoiceNode, ConditionNode, VariableNode, IncludeNode, CommentNode };
+export {
+  PassageNode,
+  ChoiceNode,
+  ConditionNode,
+  RandomNode,
+  VariableNode,
+  IncludeNode,
+  CommentNode,
+};
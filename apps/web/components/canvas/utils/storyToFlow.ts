@@ -1,5 +1,5 @@
 import type { Node, Edge } from '@xyflow/react';
-import type { Story, StoryNode } from '@storygraph/core';
+import type { Story, StoryNode, Edge as StoryEdge } from '@storygraph/core';
 import { calculateLayout, mergeWithExistingPositions } from './layoutEngine';
 
 export interface StoryFlowNode extends Node {
@@ -13,6 +13,8 @@ export interface StoryFlowEdge extends Edge {
   data?: {
     label?: string | undefined;
     edgeType?: string | undefined;
+    /** State changes applied when a choice edge is taken */
+    effects?: string[] | undefined;
   };
 }
 
@@ -47,14 +49,20 @@ export function storyToFlow(story: Story): {
     id: `${edge.source}-${edge.target}-${index}`,
     source: edge.source,
     target: edge.target,
-    type: 'smoothstep',
+    type: hasEffects(edge) ? 'effectEdge' : 'smoothstep',
     animated: edge.label === 'condition',
-    label: edge.label !== 'next' ? edge.label : undefined,
+    label:
+      edge.type === 'random'
+        ? randomEdgeLabel(edge)
+        : edge.label !== 'next'
+          ? edge.label
+          : undefined,
     data: {
       label: edge.label,
-      edgeType: edge.label,
+      edgeType: edge.type === 'random' ? edge.type : edge.label,
+      effects: describeEffects(edge),
     },
-    style: getEdgeStyle(edge.label),
+    style: getEdgeStyle(edge.type === 'random' ? edge.type : edge.label),
   }));
 
   return { nodes, edges };
@@ -71,6 +79,8 @@ function mapNodeType(type: string): string {
       return 'choiceNode';
     case 'condition':
       return 'conditionNode';
+    case 'random':
+      return 'randomNode';
     case 'variable':
       return 'variableNode';
     case 'include':
@@ -82,6 +92,38 @@ function mapNodeType(type: string): string {
   }
 }
 
+/**
+ * Whether a choice edge changes state when taken.
+ */
+function hasEffects(edge: StoryEdge): boolean {
+  return Boolean(
+    edge.set || edge.increment || edge.decrement || edge.add || edge.remove || edge.clear
+  );
+}
+
+/**
+ * Describe choice effects as `name = value`, `name += n`, `name -= n`,
+ * `name + items`, `name - items` and `clear name` lines.
+ */
+function describeEffects(edge: StoryEdge): string[] {
+  return [
+    ...Object.entries(edge.set ?? {}).map(([key, value]) => `${key} = ${JSON.stringify(value)}`),
+    ...Object.entries(edge.increment ?? {}).map(([key, delta]) => `${key} += ${delta}`),
+    ...Object.entries(edge.decrement ?? {}).map(([key, delta]) => `${key} -= ${delta}`),
+    ...Object.entries(edge.add ?? {}).map(([key, value]) => `${key} + ${JSON.stringify(value)}`),
+    ...Object.entries(edge.remove ?? {}).map(([key, value]) => `${key} - ${JSON.stringify(value)}`),
+    ...(edge.clear ?? []).map((key) => `clear ${key}`),
+  ];
+}
+
+/**
+ * Label a random edge with its weight.
+ */
+function randomEdgeLabel(edge: StoryEdge): string {
+  const weight = `×${edge.weight ?? 1}`;
+  return edge.label ? `${edge.label} ${weight}` : weight;
+}
+
 /**
  * Get edge styling based on edge type.
  */
@@ -93,6 +135,8 @@ function getEdgeStyle(label?: string): React.CSSProperties {
       return { stroke: '#f97316', strokeWidth: 2, strokeDasharray: '5,5' };
     case 'return':
       return { stroke: '#6b7280', strokeWidth: 1, strokeDasharray: '2,2' };
+    case 'random':
+      return { stroke: '#ec4899', strokeWidth: 1.5, strokeDasharray: '6,3' };
     default:
       return { stroke: '#94a3b8', strokeWidth: 1.5 };
   }
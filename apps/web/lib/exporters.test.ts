@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { configuredExporterPlugins, loadExporterRegistry } from './exporters';
+
+describe('exporters', () => {
+  it('reads plugin names from a comma-separated list', () => {
+    expect(configuredExporterPlugins(' storygraph-pdf, @acme/storygraph-fdx ,')).toEqual([
+      'storygraph-pdf',
+      '@acme/storygraph-fdx',
+    ]);
+    expect(configuredExporterPlugins('')).toEqual([]);
+  });
+
+  it('registers plugins after the built-in exporters', async () => {
+    const registry = await loadExporterRegistry(['storygraph-pdf'], async () => ({
+      default: {
+        exporter: { target: 'pdf', export: () => ({ files: [], warnings: [] }) },
+        description: 'Printable PDF',
+        extension: 'pdf',
+        mediaType: 'application/pdf',
+      },
+    }));
+    expect(registry.targets()).toEqual(expect.arrayContaining(['ink', 'json', 'outline']));
+    expect(registry.targets().at(-1)).toBe('pdf');
+
+    await expect(loadExporterRegistry(['empty'], async () => ({}))).rejects.toThrow(
+      "Exporter plugin 'empty' has no 'exporters' or default export"
+    );
+  });
+});
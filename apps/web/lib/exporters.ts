@@ -0,0 +1,41 @@
+import {
+  createExporterRegistry,
+  registerExporterPlugin,
+  type ExporterRegistry,
+} from '@storygraph/core';
+
+/**
+ * Exporter plugin packages named in STORYGRAPH_EXPORTERS (comma-separated),
+ * resolved from the server's node_modules.
+ */
+export function configuredExporterPlugins(value = process.env.STORYGRAPH_EXPORTERS ?? ''): string[] {
+  return value
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * A registry with the built-in exporters and the given plugins.
+ */
+export async function loadExporterRegistry(
+  plugins: string[],
+  load: (name: string) => Promise<unknown> = (name) => import(/* webpackIgnore: true */ name)
+): Promise<ExporterRegistry> {
+  const registry = createExporterRegistry();
+  for (const name of plugins) {
+    registerExporterPlugin(registry, name, await load(name));
+  }
+  return registry;
+}
+
+let registry: Promise<ExporterRegistry> | undefined;
+
+/**
+ * The server's registry, loaded once. A plugin that fails to load fails
+ * every export until the server restarts with a fixed configuration.
+ */
+export function getExporterRegistry(): Promise<ExporterRegistry> {
+  registry ??= loadExporterRegistry(configuredExporterPlugins());
+  return registry;
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, afterEach } from 'vitest';
-import { execSync } from 'node:child_process';
-import { existsSync, unlinkSync, readFileSync } from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import { existsSync, unlinkSync, readFileSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
@@ -10,21 +11,13 @@ const __dirname = dirname(__filename);
 const CLI_PATH = join(__dirname, '../dist/index.js');
 const FIXTURES_PATH = join(__dirname, 'fixtures');
 
-function runCli(args: string[]): { stdout: string; stderr: string; exitCode: number } {
-  try {
-    const stdout = execSync(`node "${CLI_PATH}" ${args.map((a) => `"${a}"`).join(' ')}`, {
-      encoding: 'utf-8',
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-    return { stdout, stderr: '', exitCode: 0 };
-  } catch (error) {
-    const err = error as { stdout?: string; stderr?: string; status?: number };
-    return {
-      stdout: err.stdout ?? '',
-      stderr: err.stderr ?? '',
-      exitCode: err.status ?? 1,
-    };
-  }
+function runCli(
+  args: string[],
+  cwd?: string,
+  input?: string
+): { stdout: string; stderr: string; exitCode: number } {
+  const result = spawnSync('node', [CLI_PATH, ...args], { encoding: 'utf-8', cwd, input });
+  return { stdout: result.stdout, stderr: result.stderr, exitCode: result.status ?? 1 };
 }
 
 describe('CLI', () => {
@@ -76,6 +69,14 @@ describe('CLI', () => {
       expect(result.stdout + result.stderr).toContain('Cannot read file');
     });
 
+    it('validates a project directory', () => {
+      const result = runCli(['validate', join(FIXTURES_PATH, 'project')]);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Validating project');
+      expect(result.stdout).toContain('Chapters: 2');
+      expect(result.stdout).toContain('Story is valid');
+    });
+
     it('shows error when file path is missing', () => {
       const result = runCli(['validate']);
       expect(result.exitCode).toBe(1);
@@ -93,6 +94,15 @@ describe('CLI', () => {
       expect(result.stdout).toContain('Choices:');
     });
 
+    it('shows statistics for a project directory', () => {
+      const result = runCli(['stats', join(FIXTURES_PATH, 'project')]);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Statistics for: Test Project');
+      expect(result.stdout).toContain('Chapters: 2');
+      expect(result.stdout).toContain('Variable types:');
+      expect(result.stdout).toContain('lantern: boolean');
+    });
+
     it('shows error when file path is missing', () => {
       const result = runCli(['stats']);
       expect(result.exitCode).toBe(1);
@@ -100,6 +110,414 @@ describe('CLI', () => {
     });
   });
 
+  describe('export', () => {
+    it('exports a story to Ink', () => {
+      const result = runCli(['export', join(FIXTURES_PATH, 'valid-story.yaml'), '--format=ink']);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('// Test Story');
+      expect(result.stdout).toContain('-> start\n');
+      expect(result.stdout).toContain('=== start ===\nThis is the beginning of the test story.');
+      expect(result.stdout).toContain('* [Continue]\n  -> middle');
+    });
+
+    it('exports a story to Twee', () => {
+      const result = runCli(['export', join(FIXTURES_PATH, 'valid-story.yaml'), '--format=twee']);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain(':: StoryTitle\nTest Story');
+      expect(result.stdout).toContain('[[Continue|middle]]');
+    });
+
+    it('exports a playable HTML page with the runtime and story inlined', () => {
+      const result = runCli(['export', join(FIXTURES_PATH, 'valid-story.yaml'), '--format=html']);
+      expect(result.exitCode).toBe(0);
+      const page = result.stdout;
+      expect(page).toContain('<html lang="en" data-theme="dark">');
+      expect(page).toContain("default-src 'none'");
+      expect(page).toContain('<title>Test Story</title>');
+      expect(page).toContain('--sg-accent:');
+
+      const config = page.match(/<script type="application\/json" id="sg-config">(.*)<\/script>/);
+      expect(JSON.parse(config![1])).toEqual({
+        storageKey: 'storygraph:test-story',
+        theme: 'dark',
+      });
+      const story = page.match(/<script type="application\/json" id="sg-story">(.*)<\/script>/);
+      expect(Object.keys(JSON.parse(story![1]).nodes)).toEqual(['ending', 'middle', 'start']);
+
+      // Everything is inline: no external scripts, styles or links
+      expect(page).not.toMatch(/<script[^>]* src=|<link |href=/);
+      expect(page.match(/<script>\n([\s\S]*)<\/script>/)![1]).toContain('sg-passage');
+    });
+
+    it('sets the theme of the HTML page', () => {
+      const file = join(FIXTURES_PATH, 'valid-story.yaml');
+      const sepia = runCli(['export', file, '--format=html', '--theme=sepia']);
+      expect(sepia.stdout).toContain('<html lang="en" data-theme="sepia">');
+
+      const unknown = runCli(['export', file, '--format=html', '--theme=neon']);
+      expect(unknown.exitCode).toBe(1);
+      expect(unknown.stderr).toContain('Unknown theme: neon');
+    });
+
+    it('keeps the static outline as its own format', () => {
+      const result = runCli([
+        'export',
+        join(FIXTURES_PATH, 'valid-story.yaml'),
+        '--format=outline',
+      ]);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('<title>Test Story - Story Outline</title>');
+    });
+
+    it('writes an EPUB archive to the output file', () => {
+      const file = join(FIXTURES_PATH, 'valid-story.yaml');
+      const outputPath = join(FIXTURES_PATH, 'test-output.epub');
+      try {
+        const result = runCli(['export', file, '--format=epub', '-o', outputPath]);
+        expect(result.exitCode).toBe(0);
+        const archive = readFileSync(outputPath);
+        expect(archive.subarray(30, 38).toString()).toBe('mimetype');
+        expect(archive.toString('latin1')).toContain('<dc:creator>Test Author</dc:creator>');
+      } finally {
+        if (existsSync(outputPath)) unlinkSync(outputPath);
+      }
+
+      const missing = runCli(['export', file, '--format=epub']);
+      expect(missing.exitCode).toBe(1);
+      expect(missing.stderr).toContain('epub export needs an output file (-o)');
+    });
+
+    it('exports a story to Yarn Spinner', () => {
+      const result = runCli(['export', join(FIXTURES_PATH, 'valid-story.yaml'), '--format=yarn']);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('// title: Test Story');
+      expect(result.stdout).toContain('title: start\n---\n');
+      expect(result.stdout).toContain('-> Continue\n    <<jump middle>>');
+    });
+
+    it('rejects unknown formats', () => {
+      const result = runCli(['export', join(FIXTURES_PATH, 'valid-story.yaml'), '--format=pdf']);
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Unknown format: pdf');
+    });
+
+    it('lists every registered target', () => {
+      const result = runCli(['export', '--list']);
+      expect(result.exitCode).toBe(0);
+      for (const target of ['json', 'html', 'outline', 'ink', 'renpy', 'epub', 'voiceover']) {
+        expect(result.stdout).toMatch(new RegExp(`^  ${target} +\\S`, 'm'));
+      }
+    });
+
+    it('writes several files into a directory or a zip file', () => {
+      const file = join(FIXTURES_PATH, 'valid-story.yaml');
+      const dir = mkdtempSync(join(tmpdir(), 'storygraph-export-'));
+      try {
+        const renpy = runCli(['export', file, '--format=renpy', '-o', join(dir, 'game')]);
+        expect(renpy.exitCode).toBe(0);
+        expect(readFileSync(join(dir, 'game', 'script.rpy'), 'utf-8')).toContain('label start:');
+        expect(existsSync(join(dir, 'game', 'variables.rpy'))).toBe(true);
+
+        const voiceover = runCli(['export', file, '--format=voiceover', '-o', join(dir, 'vo.zip')]);
+        expect(voiceover.exitCode).toBe(0);
+        const archive = readFileSync(join(dir, 'vo.zip')).toString('latin1');
+        expect(archive.startsWith('PK\x03\x04')).toBe(true);
+        expect(archive).toContain('test-story.csv');
+        expect(archive).toContain('test-story.html');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+
+      const missing = runCli(['export', file, '--format=voiceover']);
+      expect(missing.exitCode).toBe(1);
+      expect(missing.stderr).toContain('voiceover export writes 3 files');
+    });
+
+    it('loads exporter plugins named in storygraph.config.json', () => {
+      const plugin = join(FIXTURES_PATH, 'plugin');
+      const list = runCli(['export', '--list'], plugin);
+      expect(list.stdout).toContain('The start passage, shouted');
+
+      const result = runCli(
+        ['export', join(FIXTURES_PATH, 'valid-story.yaml'), '--format=shout'],
+        plugin
+      );
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('THIS IS THE BEGINNING OF THE TEST STORY.');
+    });
+
+    it('reports targets that write no files', () => {
+      const result = runCli(
+        ['export', join(FIXTURES_PATH, 'valid-story.yaml'), '--format=silent'],
+        join(FIXTURES_PATH, 'plugin')
+      );
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Error: silent export wrote no files');
+    });
+
+    it('rejects options the target does not take', () => {
+      const result = runCli([
+        'export',
+        join(FIXTURES_PATH, 'valid-story.yaml'),
+        '--format=ink',
+        '--theme=dark',
+      ]);
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Invalid options for ink');
+
+      for (const format of ['ink', 'json', 'html']) {
+        const file = join(FIXTURES_PATH, 'valid-story.yaml');
+        expect(runCli(['export', file, `--format=${format}`, '--tier=1']).exitCode).toBe(1);
+      }
+    });
+  });
+
+  describe('play', () => {
+    const story = join(FIXTURES_PATH, 'key-door.yaml');
+
+    it('plays choices read from piped input', () => {
+      const result = runCli(['play', story], undefined, '1\n:vars\n1\n');
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain(
+        'The Locked Door\n\nA hall with an alcove and a heavy door.\n\n' +
+          '  1. Search the alcove\n  2. Open the door\n'
+      );
+      expect(result.stdout).toContain(
+        '> Search the alcove\n\nBehind a loose brick you find a key.'
+      );
+      expect(result.stdout).toContain('has_key = true\nsearches = 1\n');
+      expect(result.stdout).toContain('The door swings open onto the night.\n\n— The End —\n');
+    });
+
+    it('undoes choices and traces runtime events', () => {
+      const result = runCli(['play', story, '--trace'], undefined, '1\n:undo\n:vars\n2\n');
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('has_key = false\nsearches = 0\n');
+      expect(result.stdout).toContain('The door is locked.');
+      expect(result.stderr).toContain('· ev_variables [search]: variables updated');
+      expect(result.stderr).toContain('· ev_condition [door]: condition has_key -> false');
+    });
+
+    it('saves and loads games', () => {
+      const saves = mkdtempSync(join(tmpdir(), 'storygraph-saves-'));
+      try {
+        const args = ['play', story, `--saves=${saves}`];
+        const saved = runCli(args, undefined, '1\n:save keyed\n');
+        expect(saved.stdout).toContain("Saved 'keyed'");
+        expect(existsSync(join(saves, 'keyed.json'))).toBe(true);
+
+        const loaded = runCli(args, undefined, ':load keyed\n:vars\n:undo\n:vars\n');
+        expect(loaded.exitCode).toBe(0);
+        expect(loaded.stdout).toContain(
+          "Loaded 'keyed'\n\nBehind a loose brick you find a key.\n\n  1. Try the door\n"
+        );
+        expect(loaded.stdout).toContain('has_key = true');
+        expect(loaded.stdout).toMatch(/Search the alcove[\s\S]*has_key = false/);
+
+        const missing = runCli(args, undefined, ':load nothing\n');
+        expect(missing.exitCode).toBe(1);
+        expect(missing.stderr).toContain("No save named 'nothing'");
+      } finally {
+        rmSync(saves, { recursive: true, force: true });
+      }
+    });
+
+    it('jumps to nodes only with --debug', () => {
+      const refused = runCli(['play', story], undefined, ':goto outside\n');
+      expect(refused.exitCode).toBe(1);
+      expect(refused.stderr).toContain(':goto is a debug command; run play with --debug');
+
+      const jumped = runCli(['play', story, '--debug'], undefined, ':goto outside\n');
+      expect(jumped.exitCode).toBe(0);
+      expect(jumped.stdout).toContain('— The End —');
+    });
+
+    it('stops scripts at the first line it cannot use', () => {
+      const result = runCli(['play', story], undefined, '7\n1\n');
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Enter a choice from 1 to 2, or :help');
+      expect(result.stdout).not.toContain('Search the alcove\n\nBehind');
+    });
+  });
+
+  describe('test', () => {
+    const tests = join(FIXTURES_PATH, 'story-tests');
+
+    it('runs the tests of a file against the story it names', () => {
+      const result = runCli(['test', join(tests, 'key-door.test.yaml')]);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/✓ escapes with the key \(\d+ms\)/);
+      expect(result.stdout).toContain('Tests: 2 passed, 0 failed, 2 total');
+    });
+
+    it('reports failures with expected and actual values', () => {
+      const result = runCli(['test', tests, `--story=${join(FIXTURES_PATH, 'key-door.yaml')}`]);
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toContain(
+        '  ✗ starting with the key opens the door\n' +
+          '      expect node: Unexpected node\n' +
+          '      - expected: "locked"\n' +
+          '      + actual:   "outside"\n'
+      );
+      expect(result.stdout).toContain('Tests: 2 passed, 1 failed, 3 total');
+
+      const noStory = runCli(['test', join(tests, 'regressions.test.json')]);
+      expect(noStory.exitCode).toBe(1);
+      expect(noStory.stdout).toContain('No story: set `story` in the test file or pass --story');
+    });
+
+    it('writes a JUnit report', () => {
+      const result = runCli(['test', join(tests, 'key-door.test.yaml'), '--reporter=junit']);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites /);
+      expect(result.stdout).toContain('tests="2" failures="0" errors="0"');
+      expect(result.stdout).toContain('<testcase name="escapes with the key" classname="');
+
+      const outputPath = join(FIXTURES_PATH, 'test-output.xml');
+      try {
+        const written = runCli([
+          'test',
+          tests,
+          `--story=${join(FIXTURES_PATH, 'key-door.yaml')}`,
+          '--reporter=junit',
+          '-o',
+          outputPath,
+        ]);
+        expect(written.exitCode).toBe(1);
+        expect(written.stdout).toContain(`✓ JUnit report written to: ${outputPath}`);
+        expect(readFileSync(outputPath, 'utf-8')).toContain(
+          '<failure message="Unexpected node" type="node">'
+        );
+      } finally {
+        if (existsSync(outputPath)) unlinkSync(outputPath);
+      }
+    });
+  });
+
+  describe('explore', () => {
+    it('reports full coverage of a story every play can finish', () => {
+      const result = runCli(['explore', join(FIXTURES_PATH, 'key-door.yaml')]);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Nodes: 6/6 (100%)');
+      expect(result.stdout).toContain('Endings: 1/1 (100%)');
+      expect(result.stdout).toContain('✓ No soft-locks or unreachable endings');
+    });
+
+    it('reports soft-locks and what no play reaches', () => {
+      const result = runCli(['explore', join(FIXTURES_PATH, 'catch-22.yaml')]);
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toContain('Choices: 2/3 (67%)');
+      expect(result.stdout).toContain('hall: no ending can be reached (after: start)');
+      expect(result.stdout).toContain('locked: no ending can be reached (after: Open the door)');
+      expect(result.stdout).toContain('Unreachable endings:\n  outside\n');
+      expect(result.stdout).toContain('hall #2: Take the key from behind the door');
+    });
+
+    it('prints the report as JSON and honours the limits', () => {
+      const result = runCli(['explore', join(FIXTURES_PATH, 'key-door.yaml'), '--json']);
+      expect(JSON.parse(result.stdout)).toMatchObject({ complete: true, softLocks: [] });
+
+      const limited = runCli([
+        'explore',
+        join(FIXTURES_PATH, 'key-door.yaml'),
+        '--max-depth=1',
+        '--json',
+      ]);
+      expect(limited.exitCode).toBe(0);
+      expect(JSON.parse(limited.stdout)).toMatchObject({ complete: false, depth: 1 });
+
+      const invalid = runCli(['explore', join(FIXTURES_PATH, 'key-door.yaml'), '--max-states=0']);
+      expect(invalid.exitCode).toBe(1);
+      expect(invalid.stderr).toContain('--max-states must be a positive integer');
+    });
+  });
+
+  describe('fuzz', () => {
+    it('passes a story every run can finish', () => {
+      const result = runCli(['fuzz', join(FIXTURES_PATH, 'key-door.yaml'), '--runs=20']);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/\(20 runs, seed \d+\)/);
+      expect(result.stdout).toContain('✓ No failures found');
+    });
+
+    it('shrinks failures and saves them as story tests', () => {
+      const outputPath = join(FIXTURES_PATH, 'fuzz-output.test.yaml');
+      try {
+        const args = ['fuzz', join(FIXTURES_PATH, 'maze.yaml'), '--runs=30', '--seed=1'];
+        const result = runCli([...args, '-o', outputPath]);
+        expect(result.exitCode).toBe(1);
+        expect(result.stdout).toContain('RT001_MISSING_NODE [cellar]: Node not found');
+        expect(result.stdout).toContain('        1. Go north\n        2. Enter the cellar\n');
+        expect(result.stdout).toContain(`✓ 1 story test(s) written to: ${outputPath}`);
+        expect(runCli([...args, '--json']).stdout).toContain('"seed": "1:1"');
+
+        const replayed = runCli(['test', outputPath]);
+        expect(replayed.exitCode).toBe(1);
+        expect(replayed.stdout).toContain('steps[1] runtime: RT001_MISSING_NODE: Node not found');
+      } finally {
+        if (existsSync(outputPath)) unlinkSync(outputPath);
+      }
+    });
+  });
+
+  describe('diff', () => {
+    const before = join(FIXTURES_PATH, 'key-door.yaml');
+    const after = join(FIXTURES_PATH, 'key-door-v2.yaml');
+
+    it('lists node, field and edge changes', () => {
+      const result = runCli(['diff', before, after]);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('  + window (passage)\n');
+      expect(result.stdout).toContain(
+        '  ~ hall (passage)\n      + choices[0].condition: "searches < 3"\n'
+      );
+      expect(result.stdout).toContain(
+        '      ~ content: "Behind a loose brick you find a key." → "Behind a loose brick you find a rusty key."'
+      );
+      expect(result.stdout).toContain('  + locked → window (choice: Climb out of the window)');
+      expect(result.stdout).toContain(
+        'Nodes: 1 added, 0 removed, 3 modified; edges: 1 added, 0 removed'
+      );
+
+      expect(runCli(['diff', before, before]).stdout).toContain('✓ No differences');
+    });
+
+    it('prints the diff as JSON', () => {
+      const result = runCli(['diff', after, before, '--json']);
+      expect(result.exitCode).toBe(0);
+      const diff = JSON.parse(result.stdout);
+      expect(diff.nodes.removed.map((node: { id: string }) => node.id)).toEqual(['window']);
+      expect(diff.edges.removed).toMatchObject([{ source: 'locked', target: 'window' }]);
+    });
+  });
+
+  describe('import', () => {
+    it('imports a Twee story and reports what it dropped', () => {
+      const result = runCli(['import', join(FIXTURES_PATH, 'story.twee')]);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('title: The Cellar');
+      expect(result.stdout).toContain('top_stairs:');
+      expect(result.stderr).toContain("IMP001 [top_stairs]: Unsupported macro 'audio'");
+      expect(result.stderr).toContain("IMP004 [top_stairs]: Link to missing passage 'Nowhere'");
+    });
+
+    it('reads .yarn files as Yarn Spinner', () => {
+      const result = runCli(['import', join(FIXTURES_PATH, 'dialogue.yarn')]);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('title: The Ferry');
+      expect(result.stdout).toContain('crossing:');
+      expect(result.stderr).toContain(
+        "IMP001 [start_after]: Yarn 'fade_out' in 'Start' is not supported and was dropped"
+      );
+    });
+
+    it('rejects unknown formats', () => {
+      const result = runCli(['import', join(FIXTURES_PATH, 'story.twee'), '--format=ink']);
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Unknown format: ink. Use twee or yarn.');
+    });
+  });
+
   describe('create', () => {
     const outputPath = join(FIXTURES_PATH, 'test-output.yaml');
 
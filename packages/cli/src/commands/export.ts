@@ -1,185 +1,159 @@
 /**
- * Export command - exports a story to various formats
+ * Export command - exports a story with any registered exporter
+ *
+ * The registry holds the core exporters, the CLI's own html target, and
+ * exporters from the plugin packages listed in storygraph.config.json.
  */
 
 import * as fs from 'node:fs';
-import { parseToStory, type Story, type StoryNode } from '@storygraph/core';
-
-export type ExportFormat = 'json' | 'html';
+import * as path from 'node:path';
+import { createRequire } from 'node:module';
+import { pathToFileURL } from 'node:url';
+import { z } from 'zod';
+import {
+  bundleExportFiles,
+  createExporterRegistry,
+  getExportFileName,
+  parseToStory,
+  registerExporterPlugin,
+  type ExporterRegistry,
+  type ExportWarning,
+} from '@storygraph/core';
+import { PLAYER_THEMES, renderPlayablePage, type PlayerTheme } from '../player/page.js';
+
+/** Config file naming exporter plugins, read from the working directory */
+export const CONFIG_FILE = 'storygraph.config.json';
 
 export interface ExportOptions {
-  format: ExportFormat;
+  /** A registered export target */
+  format: string;
+  /** Output file; a `.zip` file or a directory for targets that write several files */
   output?: string | undefined;
+  /** Target-specific options, e.g. `theme` for `html` */
+  targetOptions?: Record<string, string> | undefined;
+}
+
+/** Options of the html target */
+interface PlayableExportOptions {
+  theme?: PlayerTheme | undefined;
 }
 
 /**
- * Export a story to the specified format.
+ * A registry with the built-in exporters, the CLI's html target and the
+ * plugins named in the config file of `cwd`.
+ *
+ * @throws Error if the config file is invalid or a plugin fails to load
+ */
+export async function loadExporterRegistry(cwd = process.cwd()): Promise<ExporterRegistry> {
+  const registry = createExporterRegistry();
+  registry.register<PlayableExportOptions>({
+    exporter: {
+      target: 'html',
+      export: (story, options) => {
+        const page = renderPlayablePage(story, { theme: options?.theme });
+        return {
+          files: [{ name: getExportFileName(story, 'html'), contents: page.contents }],
+          warnings: page.warnings,
+        };
+      },
+    },
+    description: `Playable web page (--theme=${PLAYER_THEMES.join('|')})`,
+    extension: 'html',
+    mediaType: 'text/html',
+    options: z
+      .object({
+        theme: z
+          .string()
+          .refine(
+            (theme): theme is PlayerTheme => (PLAYER_THEMES as readonly string[]).includes(theme),
+            (theme) => ({ message: `Unknown theme: ${theme}. Use ${PLAYER_THEMES.join(', ')}.` })
+          )
+          .optional(),
+      })
+      .strict(),
+  });
+
+  const configPath = path.resolve(cwd, CONFIG_FILE);
+  if (!fs.existsSync(configPath)) return registry;
+
+  let config: { exporters?: unknown };
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${error instanceof Error ? error.message : error}`);
+  }
+  const plugins = config.exporters ?? [];
+  if (!Array.isArray(plugins) || plugins.some((name) => typeof name !== 'string')) {
+    throw new Error(`Invalid ${CONFIG_FILE}: "exporters" must be a list of package names`);
+  }
+
+  // Plugins resolve from the config file, like the project's own imports
+  const require = createRequire(configPath);
+  for (const name of plugins as string[]) {
+    let module: unknown;
+    try {
+      module = await import(pathToFileURL(require.resolve(name)).href);
+    } catch (error) {
+      throw new Error(
+        `Cannot load exporter plugin '${name}': ${error instanceof Error ? error.message : error}`
+      );
+    }
+    registerExporterPlugin(registry, name, module);
+  }
+  return registry;
+}
+
+/**
+ * Export a story with a registered target.
+ *
+ * A single text file goes to stdout without an output path. Binary files
+ * need one; several files are zipped when it ends in `.zip` and written
+ * into it as a directory otherwise.
+ *
+ * @throws Error if the target returns no files
  */
 export function exportStory(
   filePath: string,
+  registry: ExporterRegistry,
   options: ExportOptions
 ): {
-  content: string;
+  content: string | Uint8Array;
   outputPath: string | null;
+  warnings: ExportWarning[];
 } {
   // Read and parse
   const content = fs.readFileSync(filePath, 'utf-8');
   const story = parseToStory(content);
 
-  let exported: string;
-  switch (options.format) {
-    case 'json':
-      exported = exportToJson(story);
-      break;
-    case 'html':
-      exported = exportToHtml(story);
-      break;
-    default:
-      throw new Error(`Unknown format: ${options.format}`);
+  const result = registry.export(options.format, story, options.targetOptions);
+  const { files, warnings } = result;
+  if (files.length === 0) {
+    throw new Error(`${options.format} export wrote no files`);
   }
 
-  // Write if output path specified
-  let outputPath: string | null = null;
-  if (options.output) {
-    fs.writeFileSync(options.output, exported, 'utf-8');
-    outputPath = options.output;
+  if (!options.output) {
+    if (files.length > 1) {
+      throw new Error(
+        `${options.format} export writes ${files.length} files and needs an output directory or .zip file (-o)`
+      );
+    }
+    if (typeof files[0].contents !== 'string') {
+      throw new Error(`${options.format} export needs an output file (-o)`);
+    }
+    return { content: files[0].contents, outputPath: null, warnings };
   }
 
-  return { content: exported, outputPath };
-}
-
-/**
- * Export story to JSON format.
- */
-function exportToJson(story: Story): string {
-  const data = {
-    version: story.version,
-    meta: story.meta,
-    variables: Object.fromEntries(story.variables),
-    nodes: story.getAllNodes().map((node) => ({
-      ...node,
-      position: undefined, // Strip position data for cleaner export
-    })),
-    edges: story.getEdges(),
-    stats: {
-      nodeCount: story.nodeCount,
-      wordCount: story.getWordCount(),
-      characterCount: story.getCharacterCount(),
-      choiceCount: story.getChoiceCount(),
-      endingCount: story.getEndingNodes().length,
-    },
-  };
-  return JSON.stringify(data, null, 2);
-}
-
-/**
- * Export story to HTML outline format.
- */
-function exportToHtml(story: Story): string {
-  const title = story.meta.title ?? 'Untitled Story';
-  const author = story.meta.author ?? 'Unknown';
-  const nodes = story.getAllNodes();
-  const startNode = story.getStartNode();
-
-  const nodeHtml = nodes
-    .map((node) => {
-      const isStart = node.id === startNode?.id;
-      const isEnding = node.type === 'passage' && 'ending' in node && node.ending;
-      const badges = [
-        isStart ? '<span class="badge start">START</span>' : '',
-        isEnding ? '<span class="badge ending">END</span>' : '',
-      ]
-        .filter(Boolean)
-        .join(' ');
-
-      return `
-    <div class="node ${node.type}" id="node-${node.id}">
-      <h3>${escapeHtml(node.id)} ${badges}</h3>
-      <p class="type">Type: ${node.type}</p>
-      ${getNodeContent(node)}
-      ${getNodeChoices(node)}
-    </div>`;
-    })
-    .join('\n');
-
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${escapeHtml(title)} - Story Outline</title>
-  <style>
-    body { font-family: system-ui, sans-serif; max-width: 800px; margin: 0 auto; padding: 2rem; background: #1a1a2e; color: #eee; }
-    h1 { color: #10b981; }
-    h2 { color: #6ee7b7; border-bottom: 1px solid #334155; padding-bottom: 0.5rem; }
-    h3 { color: #f0fdf4; margin-bottom: 0.5rem; }
-    .meta { color: #94a3b8; margin-bottom: 2rem; }
-    .node { background: #1e293b; padding: 1rem; margin: 1rem 0; border-radius: 0.5rem; border-left: 4px solid #334155; }
-    .node.passage { border-left-color: #10b981; }
-    .node.choice { border-left-color: #3b82f6; }
-    .node.condition { border-left-color: #f59e0b; }
-    .node.variable { border-left-color: #8b5cf6; }
-    .type { color: #64748b; font-size: 0.875rem; margin: 0.25rem 0; }
-    .content { background: #0f172a; padding: 1rem; border-radius: 0.25rem; margin: 0.5rem 0; white-space: pre-wrap; }
-    .choices { margin-top: 0.5rem; }
-    .choices li { margin: 0.25rem 0; }
-    .choices a { color: #60a5fa; text-decoration: none; }
-    .choices a:hover { text-decoration: underline; }
-    .badge { font-size: 0.75rem; padding: 0.125rem 0.5rem; border-radius: 0.25rem; }
-    .badge.start { background: #10b981; color: #000; }
-    .badge.ending { background: #ef4444; color: #fff; }
-    .stats { background: #0f172a; padding: 1rem; border-radius: 0.5rem; margin-top: 2rem; }
-    .stats dt { color: #94a3b8; }
-    .stats dd { color: #10b981; font-weight: bold; margin-left: 0; margin-bottom: 0.5rem; }
-  </style>
-</head>
-<body>
-  <h1>${escapeHtml(title)}</h1>
-  <p class="meta">By ${escapeHtml(author)}</p>
-
-  <h2>Story Nodes (${nodes.length})</h2>
-  ${nodeHtml}
-
-  <h2>Statistics</h2>
-  <dl class="stats">
-    <dt>Total Nodes</dt><dd>${story.nodeCount}</dd>
-    <dt>Word Count</dt><dd>${story.getWordCount().toLocaleString()}</dd>
-    <dt>Character Count</dt><dd>${story.getCharacterCount().toLocaleString()}</dd>
-    <dt>Choices</dt><dd>${story.getChoiceCount()}</dd>
-    <dt>Endings</dt><dd>${story.getEndingNodes().length}</dd>
-  </dl>
-
-  <footer style="margin-top: 2rem; padding-top: 1rem; border-top: 1px solid #334155; color: #64748b; font-size: 0.875rem;">
-    Generated by <a href="https://github.com/mcp-tool-shop-org/StoryGraph" style="color: #10b981;">StoryGraph CLI</a>
-  </footer>
-</body>
-</html>`;
-}
-
-function getNodeContent(node: StoryNode): string {
-  if (node.type === 'passage' && 'content' in node && node.content) {
-    return `<div class="content">${escapeHtml(node.content)}</div>`;
+  if (files.length === 1 || options.output.endsWith('.zip')) {
+    const file = bundleExportFiles(story, result);
+    fs.writeFileSync(options.output, file.contents);
+    return { content: file.contents, outputPath: options.output, warnings };
   }
-  if (node.type === 'condition' && 'condition' in node && typeof node.condition === 'string') {
-    return `<div class="content">if (${escapeHtml(node.condition)})</div>`;
-  }
-  return '';
-}
 
-function getNodeChoices(node: StoryNode): string {
-  if (node.type !== 'passage' || !('choices' in node) || !node.choices?.length) {
-    return '';
+  for (const file of files) {
+    // Project exports name files after chapter paths, which may have folders
+    const target = path.join(options.output, file.name);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, file.contents);
   }
-  const items = node.choices
-    .map((c) => `<li><a href="#node-${c.target}">${escapeHtml(c.text)}</a></li>`)
-    .join('');
-  return `<ul class="choices">${items}</ul>`;
-}
-
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;');
+  return { content: '', outputPath: options.output, warnings };
 }
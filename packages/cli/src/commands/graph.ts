@@ -120,6 +120,13 @@ function getNodeAttributes(node: StoryNode, startNodeId?: string): Record<string
       baseAttrs.color = '"#f59e0b"';
       break;
 
+    case 'random':
+      baseAttrs.shape = 'hexagon';
+      baseAttrs.style = 'filled';
+      baseAttrs.fillcolor = '"#1e293b"';
+      baseAttrs.color = '"#ec4899"';
+      break;
+
     case 'variable':
       baseAttrs.shape = 'ellipse';
       baseAttrs.style = 'filled';
@@ -159,9 +166,14 @@ function getEdgeAttributes(edge: Edge): Record<string, string> {
   }
 
   switch (edge.type) {
-    case 'choice':
+    case 'choice': {
       attrs.color = '"#10b981"';
+      const effects = describeEffects(edge);
+      if (effects.length > 0) {
+        attrs.label = `"${escapeLabel([edge.label ?? '', ...effects].join('\n'))}"`;
+      }
       break;
+    }
     case 'condition':
       attrs.color = edge.branch === 'true' ? '"#10b981"' : '"#ef4444"';
       attrs.style = 'dashed';
@@ -169,6 +181,13 @@ function getEdgeAttributes(edge: Edge): Record<string, string> {
         attrs.label = `"${edge.branch}"`;
       }
       break;
+    case 'random':
+      attrs.color = '"#ec4899"';
+      attrs.style = 'dashed';
+      attrs.label = edge.label
+        ? `"${escapeLabel(edge.label)} (${edge.weight})"`
+        : `"weight ${edge.weight}"`;
+      break;
     case 'next':
       attrs.color = '"#64748b"';
       break;
@@ -181,6 +200,20 @@ function getEdgeAttributes(edge: Edge): Record<string, string> {
   return attrs;
 }
 
+/**
+ * Describe a choice edge's state changes, one per line.
+ */
+function describeEffects(edge: Edge): string[] {
+  return [
+    ...Object.entries(edge.set ?? {}).map(([key, value]) => `${key} = ${JSON.stringify(value)}`),
+    ...Object.entries(edge.increment ?? {}).map(([key, delta]) => `${key} += ${delta}`),
+    ...Object.entries(edge.decrement ?? {}).map(([key, delta]) => `${key} -= ${delta}`),
+    ...Object.entries(edge.add ?? {}).map(([key, value]) => `${key} + ${JSON.stringify(value)}`),
+    ...Object.entries(edge.remove ?? {}).map(([key, value]) => `${key} - ${JSON.stringify(value)}`),
+    ...(edge.clear ?? []).map((key) => `clear ${key}`),
+  ];
+}
+
 /**
  * Escape a string for use as a DOT identifier.
  */
@@ -0,0 +1,59 @@
+/**
+ * Import command - converts other interactive fiction formats to .story
+ */
+
+import * as fs from 'node:fs';
+import {
+  parseToStory,
+  serializeStory,
+  serializeWithHeader,
+  tweeImporter,
+  yarnImporter,
+  type ImportIssue,
+} from '@storygraph/core';
+
+export type ImportFormat = 'twee' | 'yarn';
+
+export interface ImportOptions {
+  format: ImportFormat;
+  output?: string | undefined;
+}
+
+/**
+ * Import a file in the specified format.
+ */
+export function importStory(
+  filePath: string,
+  options: ImportOptions
+): {
+  content: string;
+  outputPath: string | null;
+  issues: ImportIssue[];
+} {
+  const source = fs.readFileSync(filePath, 'utf-8');
+
+  let result;
+  switch (options.format) {
+    case 'twee':
+      result = tweeImporter.import(source);
+      break;
+    case 'yarn':
+      result = yarnImporter.import(source);
+      break;
+    default:
+      throw new Error(`Unknown format: ${options.format}`);
+  }
+
+  // Round-trip through the parser so the result is checked like any .story file
+  const story = parseToStory(serializeStory(result.document));
+  const content = serializeWithHeader(story);
+
+  // Write if output path specified
+  let outputPath: string | null = null;
+  if (options.output) {
+    fs.writeFileSync(options.output, content, 'utf-8');
+    outputPath = options.output;
+  }
+
+  return { content, outputPath, issues: result.issues };
+}
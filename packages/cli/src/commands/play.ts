@@ -0,0 +1,236 @@
+/**
+ * Play command - plays a story in the terminal
+ *
+ * A PlaySession drives the runtime one input line at a time: a choice
+ * number, or a meta-command starting with `:`. It prints through callbacks,
+ * so the command can read a terminal or a piped script alike.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  choose,
+  createRuntime,
+  deserializeSaveData,
+  loadGame,
+  resume,
+  rewind,
+  saveGame,
+  serializeSaveData,
+  start,
+  type RuntimeError,
+  type RuntimeFrame,
+  type RuntimeOptions,
+  type RuntimeResult,
+  type RuntimeState,
+  type Story,
+} from '@storygraph/core';
+
+/** Directory saves go to when no other is given, relative to the working directory */
+export const DEFAULT_SAVE_DIR = '.storygraph/saves';
+
+const SAVE_NAME = /^[\w-]{1,64}$/;
+
+/** Reported when the runtime returns neither a result nor an error */
+const UNKNOWN_ERROR: RuntimeError = {
+  code: 'RT999_UNKNOWN',
+  message: 'The runtime returned no result',
+};
+
+export interface PlayOptions {
+  /** Print the runtime events of each step */
+  trace?: boolean | undefined;
+  /** Allow debug-only commands such as `:goto` */
+  debug?: boolean | undefined;
+  /** Directory for `:save` and `:load` */
+  saveDir?: string | undefined;
+}
+
+export interface PlayOutput {
+  /** Story text, choices and command results */
+  print(line: string): void;
+  /** Runtime events, with `--trace` */
+  trace(line: string): void;
+  /** Runtime errors and rejected input */
+  error(line: string): void;
+}
+
+/**
+ * How a session stands after a line of input: still playing, quit by the
+ * player, or stopped by a runtime error or input it could not use.
+ */
+export type PlayStatus = 'playing' | 'quit' | 'failed';
+
+const HELP = [
+  'Commands:',
+  '  <number>        Take a choice',
+  '  :vars           Show variables',
+  '  :save <name>    Save the game',
+  '  :load <name>    Load a saved game',
+  '  :undo           Take back the last choice',
+  '  :goto <node>    Jump to a node (with --debug; clears undo history)',
+  '  :help           Show this help',
+  '  :quit           Stop playing',
+];
+
+export class PlaySession {
+  private state: RuntimeState;
+  private frame: RuntimeFrame | undefined;
+
+  constructor(
+    private story: Story,
+    private runtimeOptions: RuntimeOptions,
+    private options: PlayOptions,
+    private output: PlayOutput
+  ) {
+    this.state = createRuntime(story, runtimeOptions);
+  }
+
+  /**
+   * Print the title and the first frame.
+   */
+  begin(): PlayStatus {
+    this.output.print(this.story.meta.title);
+    return this.show(start(this.state));
+  }
+
+  /**
+   * Handle one line of input.
+   */
+  handle(input: string): PlayStatus {
+    const line = input.trim();
+    if (line === '') return 'playing';
+    if (line.startsWith(':')) {
+      const [command, ...rest] = line.slice(1).split(/\s+/);
+      return this.command(command, rest.join(' '));
+    }
+
+    const choices = this.frame?.choices ?? [];
+    const index = /^\d+$/.test(line) ? Number(line) - 1 : -1;
+    const choice = choices[index];
+    if (!choice) {
+      this.output.error(
+        choices.length > 0
+          ? `Enter a choice from 1 to ${choices.length}, or :help`
+          : 'There are no choices here; try :undo, :load or :quit'
+      );
+      return 'failed';
+    }
+    this.output.print(`> ${choice.text}`);
+    return this.show(choose(this.state, choice.id));
+  }
+
+  private command(command: string, argument: string): PlayStatus {
+    switch (command) {
+      case 'vars': {
+        const variables = Object.entries(this.state.variables);
+        if (variables.length === 0) this.output.print('(no variables)');
+        for (const [name, value] of variables) {
+          this.output.print(`${name} = ${JSON.stringify(value)}`);
+        }
+        return 'playing';
+      }
+      case 'save':
+        return this.save(argument);
+      case 'load':
+        return this.load(argument);
+      case 'undo':
+        return this.show(rewind(this.state));
+      case 'goto':
+        if (!this.options.debug) {
+          this.output.error(':goto is a debug command; run play with --debug');
+          return 'failed';
+        }
+        if (!this.story.hasNode(argument)) {
+          this.output.error(`No node '${argument}' in this story`);
+          return 'failed';
+        }
+        return this.show(start(this.state, argument));
+      case 'help':
+        for (const line of HELP) this.output.print(line);
+        return 'playing';
+      case 'quit':
+      case 'q':
+        return 'quit';
+      default:
+        this.output.error(`Unknown command :${command}; try :help`);
+        return 'failed';
+    }
+  }
+
+  private save(name: string): PlayStatus {
+    if (!SAVE_NAME.test(name)) {
+      this.output.error('Save names are letters, digits, _ and -');
+      return 'failed';
+    }
+    const file = this.savePath(name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(
+      file,
+      serializeSaveData(saveGame(this.state, { saveName: name, includeHistory: true }))
+    );
+    this.output.print(`Saved '${name}'`);
+    return 'playing';
+  }
+
+  private load(name: string): PlayStatus {
+    if (!SAVE_NAME.test(name)) {
+      this.output.error('Save names are letters, digits, _ and -');
+      return 'failed';
+    }
+    let json: string;
+    try {
+      json = fs.readFileSync(this.savePath(name), 'utf-8');
+    } catch (_error) {
+      this.output.error(`No save named '${name}'`);
+      return 'failed';
+    }
+
+    let loaded: ReturnType<typeof loadGame>;
+    try {
+      loaded = loadGame(this.story, deserializeSaveData(json), this.runtimeOptions);
+    } catch (error) {
+      this.output.error(`Cannot load '${name}': ${error instanceof Error ? error.message : error}`);
+      return 'failed';
+    }
+    if (!loaded.state) return this.fail(loaded.error ?? UNKNOWN_ERROR);
+
+    this.state = loaded.state;
+    this.output.print(`Loaded '${name}'`);
+    return this.show(resume(this.state));
+  }
+
+  private savePath(name: string): string {
+    return path.resolve(this.options.saveDir ?? DEFAULT_SAVE_DIR, `${name}.json`);
+  }
+
+  private show(result: RuntimeResult): PlayStatus {
+    if (!result.frame) return this.fail(result.error ?? UNKNOWN_ERROR);
+    const frame = result.frame;
+    this.frame = frame;
+
+    if (this.options.trace) {
+      for (const event of frame.events) {
+        const where = event.nodeId ? ` [${event.nodeId}]` : '';
+        this.output.trace(`· ${event.code}${where}: ${event.message}`);
+      }
+    }
+
+    this.output.print('');
+    if (frame.text.trim()) this.output.print(frame.text.trimEnd());
+    if (frame.ending) {
+      this.output.print('');
+      this.output.print('— The End —');
+    } else {
+      this.output.print('');
+      frame.choices.forEach((choice, index) => this.output.print(`  ${index + 1}. ${choice.text}`));
+    }
+    return 'playing';
+  }
+
+  private fail(error: RuntimeError): PlayStatus {
+    const where = error.nodeId ? ` [${error.nodeId}]` : '';
+    this.output.error(`${error.code}${where}: ${error.message}`);
+    return 'failed';
+  }
+}
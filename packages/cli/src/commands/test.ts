@@ -0,0 +1,77 @@
+/**
+ * Test command - runs scripted story tests
+ *
+ * Test files are `*.test.yaml`, `*.test.yml` or `*.test.json`; each names
+ * its story relative to itself, or the command supplies one with --story.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  parseStoryTestFile,
+  runStoryTests,
+  type RuntimeOptions,
+  type Story,
+  type StoryTestSuite,
+} from '@storygraph/core';
+
+export const TEST_FILE_PATTERN = /\.test\.(ya?ml|json)$/;
+
+export interface TestRunOptions {
+  /** Story for test files that don't name one */
+  story?: string | undefined;
+  /** Loads a story file or project to run */
+  load(target: string): { story: Story; runtimeOptions: RuntimeOptions };
+}
+
+/**
+ * Test files among the given paths; directories are searched recursively.
+ */
+export function findTestFiles(targets: string[]): string[] {
+  const files: string[] = [];
+  const visit = (target: string, explicit: boolean) => {
+    if (fs.statSync(target).isDirectory()) {
+      for (const entry of fs.readdirSync(target).sort()) {
+        if (entry === 'node_modules' || entry.startsWith('.')) continue;
+        visit(path.join(target, entry), false);
+      }
+    } else if (explicit || TEST_FILE_PATTERN.test(target)) {
+      files.push(target);
+    }
+  };
+  for (const target of targets) visit(target, true);
+  return files;
+}
+
+/**
+ * Run test files, one suite per file. A file whose tests or story can't be
+ * loaded becomes a suite with an error instead of results.
+ */
+export function runTestFiles(files: string[], options: TestRunOptions): StoryTestSuite[] {
+  const stories = new Map<string, ReturnType<TestRunOptions['load']>>();
+
+  return files.map((file): StoryTestSuite => {
+    try {
+      const tests = parseStoryTestFile(fs.readFileSync(file, 'utf-8'));
+      const storyPath = tests.story
+        ? path.resolve(path.dirname(file), tests.story)
+        : options.story && path.resolve(options.story);
+      if (!storyPath) {
+        throw new Error('No story: set `story` in the test file or pass --story');
+      }
+
+      let loaded = stories.get(storyPath);
+      if (!loaded) {
+        loaded = options.load(storyPath);
+        stories.set(storyPath, loaded);
+      }
+      return { name: file, results: runStoryTests(loaded.story, tests, loaded.runtimeOptions) };
+    } catch (error) {
+      return {
+        name: file,
+        results: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+}
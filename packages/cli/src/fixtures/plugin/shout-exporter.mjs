@@ -0,0 +1,16 @@
+// A local exporter plugin: the start passage in capitals
+export default {
+  exporter: {
+    target: 'shout',
+    export(story) {
+      const start = story.getStartNode();
+      return {
+        files: [{ name: 'shout.txt', contents: `${start.content.toUpperCase()}\n` }],
+        warnings: [],
+      };
+    },
+  },
+  description: 'The start passage, shouted',
+  extension: 'txt',
+  mediaType: 'text/plain',
+};
@@ -0,0 +1,12 @@
+// A local exporter plugin that writes nothing
+export default {
+  exporter: {
+    target: 'silent',
+    export() {
+      return { files: [], warnings: [] };
+    },
+  },
+  description: 'Writes no files',
+  extension: 'txt',
+  mediaType: 'text/plain',
+};
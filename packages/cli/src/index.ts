@@ -6,17 +6,41 @@
  */
 
 import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as readline from 'node:readline';
 import {
   parseToStory,
   validateStory,
+  validateProject,
   serializeWithHeader,
+  inferVariableTypes,
   Story,
+  StoryProject,
   ParseError,
   ValidationError,
+  PROJECT_MANIFEST_FILE,
+  createStoryLoader,
+  diffStories,
+  exploreStory,
+  fuzzStory,
+  formatStoryTestFailure,
+  serializeStoryTestFile,
+  writeJUnitReport,
+  type Edge,
+  type ExploreReport,
+  type ExporterRegistry,
+  type FieldChange,
+  type FuzzReport,
   type Issue,
+  type RuntimeOptions,
+  type StoryDiff,
+  type ValidationResult,
 } from '@storygraph/core';
-import { exportStory, type ExportFormat } from './commands/export.js';
+import { exportStory, loadExporterRegistry } from './commands/export.js';
+import { importStory, type ImportFormat } from './commands/import.js';
 import { generateGraph } from './commands/graph.js';
+import { PlaySession, type PlayOptions } from './commands/play.js';
+import { findTestFiles, runTestFiles } from './commands/test.js';
 
 // =============================================================================
 // CLI Colors (ANSI)
@@ -38,31 +62,116 @@ function color(text: string, ...codes: string[]): string {
   return codes.join('') + text + colors.reset;
 }
 
+// =============================================================================
+// Story Loading
+// =============================================================================
+
+/**
+ * Return the manifest path if the argument names a project: either a
+ * directory holding story.project.yaml or a *.project.yaml file.
+ */
+function findProjectManifest(target: string): string | null {
+  try {
+    if (fs.statSync(target).isDirectory()) {
+      return path.join(target, PROJECT_MANIFEST_FILE);
+    }
+  } catch (_error) {
+    return null;
+  }
+  return target.endsWith('.project.yaml') ? target : null;
+}
+
+/**
+ * Load a project with chapter paths resolved against the manifest.
+ */
+function loadProject(manifestPath: string): StoryProject {
+  return StoryProject.load(manifestPath, (file) => fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Load a story or project to run: the story the runtime starts in, with a
+ * loader for the files its include nodes name.
+ */
+function loadRunnableStory(target: string): { story: Story; runtimeOptions: RuntimeOptions } {
+  const manifestPath = findProjectManifest(target);
+  if (manifestPath) {
+    const project = loadProject(manifestPath);
+    return {
+      story: project.getEntryChapter(),
+      runtimeOptions: { loader: project.createLoader(), storyPath: project.entryFile },
+    };
+  }
+  return {
+    story: parseToStory(fs.readFileSync(target, 'utf-8')),
+    runtimeOptions: {
+      loader: createStoryLoader((file) => fs.readFileSync(file, 'utf-8')),
+      storyPath: path.resolve(target),
+    },
+  };
+}
+
+/**
+ * Whether an error came from the file system (missing file, permissions).
+ */
+function isFileError(error: unknown): error is NodeJS.ErrnoException {
+  return error instanceof Error && typeof (error as NodeJS.ErrnoException).code === 'string';
+}
+
+/**
+ * Read `--name=N` options that take a positive integer. Prints an error and
+ * returns undefined when one is invalid.
+ */
+function parseCounts(args: string[], names: string[]): Record<string, number> | undefined {
+  const counts: Record<string, number> = {};
+  for (const name of names) {
+    const arg = args.find((a) => a.startsWith(`--${name}=`));
+    if (!arg) continue;
+    const value = Number(arg.slice(name.length + 3));
+    if (!Number.isInteger(value) || value < 1) {
+      console.error(color(`Error: --${name} must be a positive integer`, colors.red));
+      return undefined;
+    }
+    counts[name] = value;
+  }
+  return counts;
+}
+
 // =============================================================================
 // Commands
 // =============================================================================
 
 /**
- * Validate a story file.
+ * Validate a story file or project directory.
  */
 async function validate(filePath: string): Promise<number> {
-  console.log(color(`\nValidating: ${filePath}\n`, colors.cyan));
+  const manifestPath = findProjectManifest(filePath);
+  console.log(color(`\nValidating${manifestPath ? ' project' : ''}: ${filePath}\n`, colors.cyan));
 
   // Read file
-  let content: string;
-  try {
-    content = fs.readFileSync(filePath, 'utf-8');
-  } catch (_error) {
-    console.error(color(`Error: Cannot read file: ${filePath}`, colors.red));
-    return 1;
+  let content = '';
+  if (!manifestPath) {
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch (_error) {
+      console.error(color(`Error: Cannot read file: ${filePath}`, colors.red));
+      return 1;
+    }
   }
 
   // Parse
   let story: Story;
+  let project: StoryProject | null = null;
   try {
-    story = parseToStory(content);
+    if (manifestPath) {
+      project = loadProject(manifestPath);
+      story = project.toStory();
+    } else {
+      story = parseToStory(content);
+    }
   } catch (error) {
-    if (error instanceof ParseError) {
+    if (isFileError(error)) {
+      console.error(color(`Error: Cannot read file: ${error.path ?? filePath}`, colors.red));
+    } else if (error instanceof ParseError) {
       console.error(color(`Parse Error: ${error.message}`, colors.red));
       if (error.line !== undefined) {
         console.error(color(`  at line ${error.line + 1}`, colors.dim));
@@ -79,10 +188,10 @@ async function validate(filePath: string): Promise<number> {
   }
 
   // Validate
-  const result = validateStory(story);
+  const result: ValidationResult = project ? validateProject(project) : validateStory(story);
 
   // Print results
-  printValidationResult(result.issues, story);
+  printValidationResult(result.issues, story, project);
 
   console.log(color(`\nValidation complete in ${result.durationMs.toFixed(2)}ms`, colors.dim));
   console.log(
@@ -103,7 +212,7 @@ async function validate(filePath: string): Promise<number> {
 /**
  * Print validation issues grouped by severity.
  */
-function printValidationResult(issues: Issue[], story: Story): void {
+function printValidationResult(issues: Issue[], story: Story, project: StoryProject | null): void {
   const errors = issues.filter((i) => i.severity === 'error');
   const warnings = issues.filter((i) => i.severity === 'warning');
   const infos = issues.filter((i) => i.severity === 'info');
@@ -134,6 +243,7 @@ function printValidationResult(issues: Issue[], story: Story): void {
 
   // Print stats
   console.log(color('Statistics:', colors.cyan, colors.bold));
+  if (project) console.log(`  Chapters: ${project.getChapterFiles().length}`);
   console.log(`  Nodes: ${story.nodeCount}`);
   console.log(`  Words: ${story.getWordCount()}`);
   console.log(`  Choices: ${story.getChoiceCount()}`);
@@ -203,14 +313,21 @@ async function create(title: string, outputPath: string): Promise<number> {
 }
 
 /**
- * Show statistics for a story file.
+ * Show statistics for a story file or project directory.
  */
 async function stats(filePath: string): Promise<number> {
   // Read and parse
   let story: Story;
+  let project: StoryProject | null = null;
   try {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    story = parseToStory(content);
+    const manifestPath = findProjectManifest(filePath);
+    if (manifestPath) {
+      project = loadProject(manifestPath);
+      story = project.toStory();
+    } else {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      story = parseToStory(content);
+    }
   } catch (error) {
     console.error(color(`Error: ${error instanceof Error ? error.message : error}`, colors.red));
     return 1;
@@ -218,6 +335,7 @@ async function stats(filePath: string): Promise<number> {
 
   console.log(color(`\nStatistics for: ${story.meta.title}\n`, colors.cyan, colors.bold));
   console.log(`  Author: ${story.meta.author ?? '(not set)'}`);
+  if (project) console.log(`  Chapters: ${project.getChapterFiles().length}`);
   console.log(`  Nodes: ${story.nodeCount}`);
   console.log(`  Words: ${story.getWordCount().toLocaleString()}`);
   console.log(`  Characters: ${story.getCharacterCount().toLocaleString()}`);
@@ -231,6 +349,7 @@ async function stats(filePath: string): Promise<number> {
   const passages = story.getNodesByType('passage').length;
   const choices = story.getNodesByType('choice').length;
   const conditions = story.getNodesByType('condition').length;
+  const randoms = story.getNodesByType('random').length;
   const variables = story.getNodesByType('variable').length;
   const includes = story.getNodesByType('include').length;
   const comments = story.getNodesByType('comment').length;
@@ -238,11 +357,23 @@ async function stats(filePath: string): Promise<number> {
   console.log(`  Passages: ${passages}`);
   if (choices > 0) console.log(`  Choices: ${choices}`);
   if (conditions > 0) console.log(`  Conditions: ${conditions}`);
+  if (randoms > 0) console.log(`  Random branches: ${randoms}`);
   if (variables > 0) console.log(`  Variables: ${variables}`);
   if (includes > 0) console.log(`  Includes: ${includes}`);
   if (comments > 0) console.log(`  Comments: ${comments}`);
   console.log();
 
+  // Inferred variable types
+  const types = Object.entries(inferVariableTypes(story));
+  if (types.length > 0) {
+    console.log(color('Variable types:', colors.cyan));
+    for (const [name, type] of types) {
+      const declared = story.variables.has(name) ? '' : color(' (inferred)', colors.dim);
+      console.log(`  ${name}: ${type}${declared}`);
+    }
+    console.log();
+  }
+
   return 0;
 }
 
@@ -255,6 +386,30 @@ async function runExport(args: string[]): Promise<number> {
   const formatArg = args.find((a) => a.startsWith('--format='));
   const outputArg = args.find((a) => a === '-o') ? args[args.indexOf('-o') + 1] : undefined;
 
+  // Other --name=value arguments are options of the target
+  const targetOptions: Record<string, string> = {};
+  for (const arg of args) {
+    const option = /^--([\w-]+)=(.*)$/.exec(arg);
+    if (option && option[1] !== 'format') targetOptions[option[1]] = option[2];
+  }
+
+  let registry: ExporterRegistry;
+  try {
+    registry = await loadExporterRegistry();
+  } catch (error) {
+    console.error(color(`Error: ${error instanceof Error ? error.message : error}`, colors.red));
+    return 1;
+  }
+
+  if (args.includes('--list')) {
+    console.log(color('Export targets:', colors.bold));
+    for (const registration of registry.list()) {
+      const target = registration.exporter.target.padEnd(14);
+      console.log(`  ${color(target, colors.cyan)}${registration.description}`);
+    }
+    return 0;
+  }
+
   if (!filePath) {
     console.error(color('Error: Missing file path', colors.red));
     usage();
@@ -262,19 +417,26 @@ async function runExport(args: string[]): Promise<number> {
   }
 
   if (!formatArg) {
-    console.error(color('Error: Missing --format=<json|html>', colors.red));
+    console.error(color(`Error: Missing --format=<${registry.targets().join('|')}>`, colors.red));
     usage();
     return 1;
   }
 
-  const format = formatArg.replace('--format=', '') as ExportFormat;
-  if (!['json', 'html'].includes(format)) {
-    console.error(color(`Error: Unknown format: ${format}. Use json or html.`, colors.red));
+  const format = formatArg.replace('--format=', '');
+  if (!registry.has(format)) {
+    console.error(
+      color(`Error: Unknown format: ${format}. Use ${registry.targets().join(', ')}.`, colors.red)
+    );
     return 1;
   }
 
   try {
-    const result = exportStory(filePath, { format, output: outputArg });
+    const result = exportStory(filePath, registry, { format, output: outputArg, targetOptions });
+
+    for (const warning of result.warnings) {
+      const where = warning.nodeId ? ` [${warning.nodeId}]` : '';
+      console.error(color(`⚠ ${warning.code}${where}: ${warning.message}`, colors.yellow));
+    }
 
     if (result.outputPath) {
       console.log(color(`✓ Exported to: ${result.outputPath}`, colors.green));
@@ -284,6 +446,64 @@ async function runExport(args: string[]): Promise<number> {
 
     return 0;
   } catch (error) {
+    if (error instanceof ValidationError) {
+      console.error(color(`Validation Error: ${error.message}`, colors.red));
+      for (const issue of error.issues) {
+        console.error(color(`  - ${issue.path}: ${issue.message}`, colors.dim));
+      }
+      return 1;
+    }
+    console.error(color(`Error: ${error instanceof Error ? error.message : error}`, colors.red));
+    return 1;
+  }
+}
+
+/**
+ * Import a story from another format.
+ */
+async function runImport(args: string[]): Promise<number> {
+  // Parse arguments
+  const filePath = args.find((a) => !a.startsWith('-'));
+  const formatArg = args.find((a) => a.startsWith('--format='));
+  const outputArg = args.find((a) => a === '-o') ? args[args.indexOf('-o') + 1] : undefined;
+
+  if (!filePath) {
+    console.error(color('Error: Missing file path', colors.red));
+    usage();
+    return 1;
+  }
+
+  // Without --format, .yarn files are read as Yarn and anything else as Twee
+  const format = (formatArg?.replace('--format=', '') ??
+    (filePath.endsWith('.yarn') ? 'yarn' : 'twee')) as ImportFormat;
+  if (format !== 'twee' && format !== 'yarn') {
+    console.error(color(`Error: Unknown format: ${format}. Use twee or yarn.`, colors.red));
+    return 1;
+  }
+
+  try {
+    const result = importStory(filePath, { format, output: outputArg });
+
+    for (const issue of result.issues) {
+      const where = issue.nodeId ? ` [${issue.nodeId}]` : '';
+      console.error(color(`⚠ ${issue.code}${where}: ${issue.message}`, colors.yellow));
+    }
+
+    if (result.outputPath) {
+      console.log(color(`✓ Imported to: ${result.outputPath}`, colors.green));
+    } else {
+      console.log(result.content);
+    }
+
+    return 0;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      console.error(color(`Validation Error: ${error.message}`, colors.red));
+      for (const issue of error.issues) {
+        console.error(color(`  - ${issue.path}: ${issue.message}`, colors.dim));
+      }
+      return 1;
+    }
     console.error(color(`Error: ${error instanceof Error ? error.message : error}`, colors.red));
     return 1;
   }
@@ -324,6 +544,468 @@ async function runGraph(args: string[]): Promise<number> {
   }
 }
 
+/**
+ * Play a story in the terminal. Input comes line by line from stdin, so a
+ * piped script plays the same as a person at the keyboard; without a
+ * terminal, the first rejected line or runtime error stops with exit code 1.
+ */
+async function runPlay(args: string[]): Promise<number> {
+  // Parse arguments
+  const filePath = args.find((a) => !a.startsWith('-'));
+  const seedArg = args.find((a) => a.startsWith('--seed='));
+  const savesArg = args.find((a) => a.startsWith('--saves='));
+  const options: PlayOptions = {
+    trace: args.includes('--trace'),
+    debug: args.includes('--debug'),
+    saveDir: savesArg?.replace('--saves=', ''),
+  };
+
+  if (!filePath) {
+    console.error(color('Error: Missing file path', colors.red));
+    usage();
+    return 1;
+  }
+
+  let story: Story;
+  let runtimeOptions: RuntimeOptions;
+  try {
+    ({ story, runtimeOptions } = loadRunnableStory(filePath));
+  } catch (error) {
+    if (isFileError(error)) {
+      console.error(color(`Error: Cannot read file: ${error.path ?? filePath}`, colors.red));
+    } else if (error instanceof ParseError) {
+      console.error(color(`Parse Error: ${error.message}`, colors.red));
+    } else if (error instanceof ValidationError) {
+      console.error(color(`Validation Error: ${error.message}`, colors.red));
+      for (const issue of error.issues) {
+        console.error(color(`  - ${issue.path}: ${issue.message}`, colors.dim));
+      }
+    } else {
+      console.error(color(`Error: ${error instanceof Error ? error.message : error}`, colors.red));
+    }
+    return 1;
+  }
+  if (seedArg) runtimeOptions.seed = seedArg.replace('--seed=', '');
+
+  const interactive = process.stdin.isTTY === true;
+  const session = new PlaySession(story, runtimeOptions, options, {
+    print: (line) => console.log(line),
+    trace: (line) => console.error(color(line, colors.dim)),
+    error: (line) => console.error(color(line, colors.red)),
+  });
+  if (session.begin() === 'failed') return 1;
+
+  const input = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    terminal: interactive,
+  });
+  input.setPrompt('> ');
+  if (interactive) input.prompt();
+
+  let exitCode = 0;
+  for await (const line of input) {
+    const status = session.handle(line);
+    if (status === 'quit') break;
+    if (status === 'failed' && !interactive) {
+      exitCode = 1;
+      break;
+    }
+    if (interactive) input.prompt();
+  }
+  input.close();
+  return exitCode;
+}
+
+/**
+ * Run story test files and report the results as text or JUnit XML.
+ */
+async function runTest(args: string[]): Promise<number> {
+  // Parse arguments
+  const outputArg = args.find((a) => a === '-o') ? args[args.indexOf('-o') + 1] : undefined;
+  const targets = args.filter((a, i) => !a.startsWith('-') && args[i - 1] !== '-o');
+  const storyArg = args.find((a) => a.startsWith('--story='));
+  const reporter = args.find((a) => a.startsWith('--reporter='))?.replace('--reporter=', '');
+
+  if (targets.length === 0) {
+    console.error(color('Error: Missing test file path', colors.red));
+    usage();
+    return 1;
+  }
+  if (reporter !== undefined && reporter !== 'text' && reporter !== 'junit') {
+    console.error(color(`Error: Unknown reporter: ${reporter}. Use text or junit.`, colors.red));
+    return 1;
+  }
+
+  let files: string[];
+  try {
+    files = findTestFiles(targets);
+  } catch (error) {
+    if (isFileError(error)) {
+      console.error(color(`Error: Cannot read file: ${error.path}`, colors.red));
+      return 1;
+    }
+    throw error;
+  }
+  if (files.length === 0) {
+    console.error(color('Error: No test files found (*.test.yaml, *.test.json)', colors.red));
+    return 1;
+  }
+
+  const suites = runTestFiles(files, {
+    story: storyArg?.replace('--story=', ''),
+    load: loadRunnableStory,
+  });
+  const failed = suites.some((suite) => suite.error || suite.results.some((r) => !r.passed));
+
+  if (reporter === 'junit') {
+    const report = writeJUnitReport(suites);
+    if (!outputArg) {
+      process.stdout.write(report);
+      return failed ? 1 : 0;
+    }
+    fs.writeFileSync(outputArg, report);
+  }
+
+  let passed = 0;
+  let total = 0;
+  for (const suite of suites) {
+    console.log(color(suite.name, colors.bold));
+    if (suite.error) {
+      console.log(color(`  ✗ Error: ${suite.error}`, colors.red));
+      total += 1;
+    }
+    for (const result of suite.results) {
+      total += 1;
+      if (result.passed) {
+        passed += 1;
+        console.log(
+          `  ${color('✓', colors.green)} ${result.name} ${color(`(${Math.round(result.durationMs)}ms)`, colors.dim)}`
+        );
+        continue;
+      }
+      console.log(color(`  ✗ ${result.name}`, colors.red));
+      for (const failure of result.failures) {
+        const [heading, ...diff] = formatStoryTestFailure(failure);
+        console.log(`      ${heading}`);
+        for (const line of diff) {
+          console.log(`      ${color(line, line.startsWith('-') ? colors.green : colors.red)}`);
+        }
+      }
+    }
+  }
+
+  console.log(
+    `\nTests: ${color(`${passed} passed`, colors.green)}, ` +
+      `${color(`${total - passed} failed`, total > passed ? colors.red : colors.dim)}, ${total} total`
+  );
+  if (reporter === 'junit' && outputArg) {
+    console.log(color(`✓ JUnit report written to: ${outputArg}`, colors.green));
+  }
+  return failed ? 1 : 0;
+}
+
+/**
+ * Explore every reachable state of a story and report coverage, soft-locks
+ * and what no play can reach. Exits with 1 for soft-locks, runtime errors
+ * and endings no play reaches.
+ */
+async function runExplore(args: string[]): Promise<number> {
+  // Parse arguments
+  const filePath = args.find((a) => !a.startsWith('-'));
+  const json = args.includes('--json');
+  const limits = parseCounts(args, ['max-depth', 'max-states', 'samples']);
+  if (!limits) return 1;
+
+  if (!filePath) {
+    console.error(color('Error: Missing file path', colors.red));
+    usage();
+    return 1;
+  }
+
+  let report: ExploreReport;
+  try {
+    const { story, runtimeOptions } = loadRunnableStory(filePath);
+    report = exploreStory(story, {
+      ...runtimeOptions,
+      maxDepth: limits['max-depth'],
+      maxStates: limits['max-states'],
+      randomSamples: limits['samples'],
+    });
+  } catch (error) {
+    if (isFileError(error)) {
+      console.error(color(`Error: Cannot read file: ${error.path ?? filePath}`, colors.red));
+    } else {
+      console.error(color(`Error: ${error instanceof Error ? error.message : error}`, colors.red));
+    }
+    return 1;
+  }
+  // Past the limits an unreached ending may still be reachable, so only a
+  // complete exploration fails on one
+  const failed =
+    report.softLocks.length > 0 ||
+    report.errors.length > 0 ||
+    (report.complete && report.unreachableEndings.length > 0);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return failed ? 1 : 0;
+  }
+
+  const after = (path: string[]) =>
+    color(` (after: ${path.length > 0 ? path.join(' → ') : 'start'})`, colors.dim);
+  const percent = ({ reached, total }: { reached: number; total: number }) =>
+    `${reached}/${total}${total > 0 ? ` (${Math.round((reached / total) * 100)}%)` : ''}`;
+
+  console.log(color(`\nExploring: ${filePath}\n`, colors.cyan));
+  console.log(color('Coverage:', colors.cyan, colors.bold));
+  console.log(`  Nodes: ${percent(report.coverage.nodes)}`);
+  console.log(`  Choices: ${percent(report.coverage.choices)}`);
+  console.log(`  Endings: ${percent(report.coverage.endings)}`);
+  console.log(
+    `  States: ${report.states} (${report.transitions} transitions, depth ${report.depth})`
+  );
+
+  if (report.softLocks.length > 0) {
+    console.log(color('\nSoft-locks:', colors.red, colors.bold));
+    for (const lock of report.softLocks) {
+      const what = lock.kind === 'dead-end' ? 'every choice is hidden' : 'no ending can be reached';
+      console.log(`  ${lock.nodeId}: ${what}${after(lock.choices)}`);
+    }
+  }
+  if (report.errors.length > 0) {
+    console.log(color('\nRuntime errors:', colors.red, colors.bold));
+    for (const { error, choices } of report.errors) {
+      const where = error.nodeId ? color(` [${error.nodeId}]`, colors.dim) : '';
+      console.log(`  ${error.code}${where}: ${error.message}${after(choices)}`);
+    }
+  }
+  if (report.unreachableEndings.length > 0) {
+    console.log(color('\nUnreachable endings:', colors.red, colors.bold));
+    for (const nodeId of report.unreachableEndings) console.log(`  ${nodeId}`);
+  }
+  if (report.unreachableNodes.length > 0) {
+    console.log(color('\nUnreachable nodes:', colors.yellow, colors.bold));
+    for (const nodeId of report.unreachableNodes) console.log(`  ${nodeId}`);
+  }
+  if (report.unreachableChoices.length > 0) {
+    console.log(color('\nUnreachable choices:', colors.yellow, colors.bold));
+    for (const choice of report.unreachableChoices) {
+      console.log(`  ${choice.nodeId} #${choice.index + 1}: ${choice.text}`);
+    }
+  }
+
+  if (!report.complete) {
+    console.log(
+      color(
+        '\n⚠ Exploration stopped at the depth or state limit; unreached items may still be reachable',
+        colors.yellow
+      )
+    );
+  }
+  console.log(
+    failed
+      ? color('\n✗ Exploration found problems', colors.red, colors.bold)
+      : color('\n✓ No soft-locks or unreachable endings', colors.green, colors.bold)
+  );
+  return failed ? 1 : 0;
+}
+
+/**
+ * Play a story with random choices and report the failures found, each
+ * shrunk to a minimal choice sequence. With -o, the sequences are saved as
+ * story tests. Exits with 1 when any run fails.
+ */
+async function runFuzz(args: string[]): Promise<number> {
+  // Parse arguments
+  const filePath = args.find((a, i) => !a.startsWith('-') && args[i - 1] !== '-o');
+  const outputArg = args.find((a) => a === '-o') ? args[args.indexOf('-o') + 1] : undefined;
+  const seedArg = args.find((a) => a.startsWith('--seed='));
+  const json = args.includes('--json');
+  const counts = parseCounts(args, ['runs', 'max-choices']);
+  if (!counts) return 1;
+
+  if (!filePath) {
+    console.error(color('Error: Missing file path', colors.red));
+    usage();
+    return 1;
+  }
+
+  // Without a seed, pick one and print it so the runs can be repeated
+  const seed = seedArg?.replace('--seed=', '') ?? String(Math.floor(Math.random() * 1_000_000));
+  let report: FuzzReport;
+  try {
+    const { story, runtimeOptions } = loadRunnableStory(filePath);
+    report = fuzzStory(story, {
+      ...runtimeOptions,
+      seed,
+      runs: counts['runs'],
+      maxChoices: counts['max-choices'],
+    });
+  } catch (error) {
+    if (isFileError(error)) {
+      console.error(color(`Error: Cannot read file: ${error.path ?? filePath}`, colors.red));
+    } else {
+      console.error(color(`Error: ${error instanceof Error ? error.message : error}`, colors.red));
+    }
+    return 1;
+  }
+  const failed = report.failures.length > 0;
+
+  if (outputArg && failed) {
+    const output = path.resolve(outputArg);
+    const storyPath = path.relative(path.dirname(output), path.resolve(filePath));
+    fs.mkdirSync(path.dirname(output), { recursive: true });
+    fs.writeFileSync(
+      output,
+      serializeStoryTestFile({
+        story: storyPath.split(path.sep).join('/'),
+        tests: report.failures.map((failure) => failure.test),
+      })
+    );
+  }
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+    return failed ? 1 : 0;
+  }
+
+  console.log(color(`\nFuzzing: ${filePath} (${report.runs} runs, seed ${seed})\n`, colors.cyan));
+  console.log(
+    `  Runs: ${report.endings} reached an ending, ${report.cutOff} stopped at the choice limit, ` +
+      `${report.runs - report.endings - report.cutOff} failed`
+  );
+  console.log(`  Choices: ${report.choices}`);
+
+  if (failed) {
+    console.log(color('\nFailures:', colors.red, colors.bold));
+    for (const failure of report.failures) {
+      const where = failure.nodeId ? color(` [${failure.nodeId}]`, colors.dim) : '';
+      console.log(`  ${color('✗', colors.red)} ${failure.code}${where}: ${failure.message}`);
+      console.log(
+        color(
+          `      ${failure.occurrences} run(s); first after ${failure.foundAfter} choices, ` +
+            `shrunk to ${failure.choices.length} (seed ${failure.seed}):`,
+          colors.dim
+        )
+      );
+      failure.choices.forEach((text, index) => console.log(`        ${index + 1}. ${text}`));
+    }
+    if (outputArg) {
+      console.log(
+        color(`\n✓ ${report.failures.length} story test(s) written to: ${outputArg}`, colors.green)
+      );
+    }
+  }
+
+  console.log(
+    failed
+      ? color('\n✗ Fuzzing found failures', colors.red, colors.bold)
+      : color('\n✓ No failures found', colors.green, colors.bold)
+  );
+  return failed ? 1 : 0;
+}
+
+/**
+ * Load a story file, or a whole project, for commands that read all of it.
+ */
+function loadWholeStory(target: string): Story {
+  const manifestPath = findProjectManifest(target);
+  if (manifestPath) return loadProject(manifestPath).toStory();
+  return parseToStory(fs.readFileSync(target, 'utf-8'));
+}
+
+/**
+ * Compare two versions of a story by nodes, fields, edges, variables and
+ * meta rather than by line.
+ */
+async function runDiff(args: string[]): Promise<number> {
+  // Parse arguments
+  const [beforePath, afterPath] = args.filter((a) => !a.startsWith('-'));
+  const json = args.includes('--json');
+  const positions = args.includes('--positions');
+
+  if (!beforePath || !afterPath) {
+    console.error(color('Error: diff needs two stories to compare', colors.red));
+    usage();
+    return 1;
+  }
+
+  let diff: StoryDiff;
+  try {
+    diff = diffStories(loadWholeStory(beforePath), loadWholeStory(afterPath), { positions });
+  } catch (error) {
+    if (isFileError(error)) {
+      console.error(color(`Error: Cannot read file: ${error.path}`, colors.red));
+    } else {
+      console.error(color(`Error: ${error instanceof Error ? error.message : error}`, colors.red));
+    }
+    return 1;
+  }
+
+  if (json) {
+    console.log(JSON.stringify(diff, null, 2));
+    return 0;
+  }
+
+  const value = (v: unknown) => {
+    const text = JSON.stringify(v);
+    return text.length > 60 ? `${text.slice(0, 59)}…` : text;
+  };
+  const printChange = (change: FieldChange, indent: string) => {
+    if (change.kind === 'added') {
+      console.log(color(`${indent}+ ${change.path}: ${value(change.after)}`, colors.green));
+    } else if (change.kind === 'removed') {
+      console.log(color(`${indent}- ${change.path}: ${value(change.before)}`, colors.red));
+    } else {
+      console.log(
+        color(
+          `${indent}~ ${change.path}: ${value(change.before)} → ${value(change.after)}`,
+          colors.yellow
+        )
+      );
+    }
+  };
+  const edge = (e: Edge) => `${e.source} → ${e.target} (${e.type}${e.label ? `: ${e.label}` : ''})`;
+
+  console.log(color(`\nComparing: ${beforePath} → ${afterPath}`, colors.cyan));
+  if (diff.identical) {
+    console.log(color('\n✓ No differences', colors.green, colors.bold));
+    return 0;
+  }
+
+  if (diff.meta.length > 0) {
+    console.log(color('\nMeta:', colors.cyan, colors.bold));
+    for (const change of diff.meta) printChange(change, '  ');
+  }
+  if (diff.variables.length > 0) {
+    console.log(color('\nVariables:', colors.cyan, colors.bold));
+    for (const change of diff.variables) printChange(change, '  ');
+  }
+
+  const { added, removed, modified } = diff.nodes;
+  if (added.length + removed.length + modified.length > 0) {
+    console.log(color('\nNodes:', colors.cyan, colors.bold));
+    for (const node of added) console.log(color(`  + ${node.id} (${node.type})`, colors.green));
+    for (const node of removed) console.log(color(`  - ${node.id} (${node.type})`, colors.red));
+    for (const node of modified) {
+      console.log(color(`  ~ ${node.id} (${node.type})`, colors.yellow));
+      for (const change of node.changes) printChange(change, '      ');
+    }
+  }
+  if (diff.edges.added.length + diff.edges.removed.length > 0) {
+    console.log(color('\nEdges:', colors.cyan, colors.bold));
+    for (const e of diff.edges.added) console.log(color(`  + ${edge(e)}`, colors.green));
+    for (const e of diff.edges.removed) console.log(color(`  - ${edge(e)}`, colors.red));
+  }
+
+  console.log(
+    `\nNodes: ${added.length} added, ${removed.length} removed, ${modified.length} modified; ` +
+      `edges: ${diff.edges.added.length} added, ${diff.edges.removed.length} removed`
+  );
+  return 0;
+}
+
 /**
  * Print usage information.
  */
@@ -336,18 +1018,43 @@ ${color('Usage:', colors.bold)}
   storygraph <command> [options]
 
 ${color('Commands:', colors.bold)}
-  validate <file>                     Validate a .story file
+  validate <file|dir>                 Validate a .story file or project directory
   create <title> <file>               Create a new story file
-  stats <file>                        Show statistics for a story
-  export <file> --format=<fmt> [-o]   Export story (formats: json, html)
+  stats <file|dir>                    Show statistics for a story or project
+  export <file> --format=<fmt> [-o]   Export story; --<option>=<value> sets target options
+  export --list                       List export targets, including configured plugins
+  import <file> [--format=<fmt>] [-o] Import a Twine (twee) or Yarn Spinner (yarn) story
   graph <file> [-o output.dot]        Generate Graphviz DOT file
+  play <file|dir> [--trace] [--seed=] Play a story; :help lists commands like :save and :undo
+                                      --debug enables :goto, --saves=<dir> sets the save folder
+  test <file|dir>... [--story=<file>] Run story tests (*.test.yaml); --reporter=junit [-o] for CI
+  explore <file|dir> [--json]         Play every reachable state; report coverage and soft-locks
+                                      --max-depth=, --max-states= and --samples= set limits
+  fuzz <file|dir> [--runs=] [--seed=] Play random choices; shrink failures, saved as tests with -o
+                                      --max-choices= limits each run; --json prints the report
+  diff <old> <new> [--json]           Compare two versions by node, field, edge and variable
+                                      --positions also reports nodes moved in the editor
 
 ${color('Examples:', colors.bold)}
   storygraph validate story.yaml
+  storygraph validate my-project/
   storygraph create "My Story" my-story.yaml
   storygraph stats story.yaml
   storygraph export story.yaml --format=html -o story.html
+  storygraph export story.yaml --format=html --theme=sepia -o story.html
+  storygraph export story.yaml --format=ink -o story.ink
+  storygraph export story.yaml --format=epub -o story.epub
+  storygraph export story.yaml --format=renpy -o game/
+  storygraph export story.yaml --format=voiceover -o recording.zip
+  storygraph import story.twee -o story.yaml
+  storygraph import dialogue.yarn -o story.yaml
   storygraph graph story.yaml -o story.dot
+  storygraph play story.yaml --trace
+  storygraph test tests/ --reporter=junit -o junit.xml
+  storygraph explore story.yaml --max-states=50000
+  storygraph fuzz story.yaml --runs=500 --seed=42 -o tests/fuzz.test.yaml
+  storygraph diff old.yaml story.yaml
+  printf '1\\n2\\n' | storygraph play story.yaml
 
 ${color('More info:', colors.dim)}
   https://github.com/mcp-tool-shop-org/storygraph
@@ -405,10 +1112,34 @@ async function main(): Promise<void> {
       exitCode = await runExport(args.slice(1));
       break;
 
+    case 'import':
+      exitCode = await runImport(args.slice(1));
+      break;
+
     case 'graph':
       exitCode = await runGraph(args.slice(1));
       break;
 
+    case 'play':
+      exitCode = await runPlay(args.slice(1));
+      break;
+
+    case 'test':
+      exitCode = await runTest(args.slice(1));
+      break;
+
+    case 'explore':
+      exitCode = await runExplore(args.slice(1));
+      break;
+
+    case 'fuzz':
+      exitCode = await runFuzz(args.slice(1));
+      break;
+
+    case 'diff':
+      exitCode = await runDiff(args.slice(1));
+      break;
+
     case 'help':
     case '--help':
     case '-h':
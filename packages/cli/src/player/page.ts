@@ -0,0 +1,163 @@
+/**
+ * Playable HTML page - one self-contained file with the player bundle,
+ * the story and the theme styles inlined
+ */
+
+import * as fs from 'node:fs';
+import { addWarning, getExportFileName, type ExportWarning, type Story } from '@storygraph/core';
+import type { PlayerConfig } from './player.js';
+
+export const PLAYER_THEMES = ['dark', 'light', 'sepia'] as const;
+
+export type PlayerTheme = (typeof PLAYER_THEMES)[number];
+
+export interface PlayablePageOptions {
+  theme?: PlayerTheme | undefined;
+}
+
+const BUNDLE_URL = new URL('./bundle.js', import.meta.url);
+
+/**
+ * Render a story as a playable page.
+ *
+ * Include nodes play within this story only, since the page has no access to
+ * other files; each one that names a file is reported as EXP003.
+ */
+export function renderPlayablePage(
+  story: Story,
+  options: PlayablePageOptions = {}
+): { contents: string; warnings: ExportWarning[] } {
+  const warnings: ExportWarning[] = [];
+  for (const node of story.getAllNodes()) {
+    if (node.type === 'include') {
+      addWarning(warnings, {
+        code: 'EXP003',
+        message: `Include of "${node.path}" is not bundled; it plays within this story only`,
+        nodeId: node.id,
+        details: { path: node.path },
+      });
+    }
+  }
+
+  const title = story.meta.title;
+  const theme = options.theme ?? 'dark';
+  const config: PlayerConfig = {
+    storageKey: `storygraph:${getExportFileName(story, 'html').replace(/\.html$/, '')}`,
+    theme,
+  };
+  const themeOptions = PLAYER_THEMES.map(
+    (name) => `<option value="${name}">${name[0].toUpperCase()}${name.slice(1)}</option>`
+  ).join('');
+
+  const contents = `<!DOCTYPE html>
+<html lang="en" data-theme="${theme}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; img-src data:">
+  <meta name="generator" content="StoryGraph CLI">
+  <title>${escapeHtml(title)}</title>
+  <style>
+${PLAYER_STYLES}
+  </style>
+</head>
+<body>
+  <main>
+    <header>
+      <h1>${escapeHtml(title)}</h1>
+      ${story.meta.author ? `<p class="sg-author">By ${escapeHtml(story.meta.author)}</p>` : ''}
+      <nav class="sg-toolbar" aria-label="Game">
+        <button id="sg-undo" type="button" disabled>Undo</button>
+        <button id="sg-save" type="button">Save</button>
+        <button id="sg-load" type="button" disabled>Load</button>
+        <button id="sg-restart" type="button">Restart</button>
+        <label>Theme <select id="sg-theme">${themeOptions}</select></label>
+      </nav>
+    </header>
+    <article id="sg-passage" aria-live="polite"></article>
+    <ol id="sg-choices"></ol>
+    <p id="sg-status" role="status"></p>
+    <noscript>This story needs JavaScript to play.</noscript>
+  </main>
+  <script type="application/json" id="sg-config">${scriptJson(config)}</script>
+  <script type="application/json" id="sg-story">${scriptJson(story.toDocument())}</script>
+  <script>
+${readPlayerBundle().replace(/<\/(script)/gi, '<\\/$1')}
+  </script>
+</body>
+</html>
+`;
+  return { contents, warnings };
+}
+
+function readPlayerBundle(): string {
+  if (!fs.existsSync(BUNDLE_URL)) {
+    throw new Error('Player bundle not found; run "npm run build" in packages/cli');
+  }
+  return fs.readFileSync(BUNDLE_URL, 'utf-8');
+}
+
+/** JSON that cannot close its script element early */
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Page styles. Themes only set the --sg-* variables, so a page can be
+ * restyled by overriding them in one place.
+ */
+const PLAYER_STYLES = `    :root, [data-theme="dark"] {
+      --sg-background: #1a1a2e;
+      --sg-surface: #1e293b;
+      --sg-text: #eeeeee;
+      --sg-muted: #94a3b8;
+      --sg-accent: #10b981;
+      --sg-accent-text: #000000;
+      --sg-error: #f87171;
+      --sg-font: Georgia, 'Times New Roman', serif;
+      --sg-ui-font: system-ui, sans-serif;
+      --sg-width: 42rem;
+    }
+    [data-theme="light"] {
+      --sg-background: #f8fafc;
+      --sg-surface: #e2e8f0;
+      --sg-text: #0f172a;
+      --sg-muted: #475569;
+      --sg-accent: #047857;
+      --sg-accent-text: #ffffff;
+      --sg-error: #b91c1c;
+    }
+    [data-theme="sepia"] {
+      --sg-background: #f4ecd8;
+      --sg-surface: #e8dcc0;
+      --sg-text: #3b2f2f;
+      --sg-muted: #7a6650;
+      --sg-accent: #8b4513;
+      --sg-accent-text: #fdf6e3;
+      --sg-error: #a52a2a;
+    }
+    body { margin: 0; background: var(--sg-background); color: var(--sg-text); font-family: var(--sg-font); line-height: 1.6; }
+    main { max-width: var(--sg-width); margin: 0 auto; padding: 2rem 1.25rem; }
+    h1 { color: var(--sg-accent); margin-bottom: 0.25rem; }
+    .sg-author { color: var(--sg-muted); margin-top: 0; }
+    .sg-toolbar { display: flex; flex-wrap: wrap; gap: 0.5rem; align-items: center; font-family: var(--sg-ui-font); font-size: 0.875rem; }
+    .sg-toolbar label { color: var(--sg-muted); margin-left: auto; }
+    .sg-toolbar button, .sg-toolbar select { background: var(--sg-surface); color: var(--sg-text); border: 1px solid var(--sg-muted); border-radius: 0.25rem; padding: 0.25rem 0.75rem; font: inherit; cursor: pointer; }
+    .sg-toolbar button:disabled { opacity: 0.5; cursor: default; }
+    #sg-passage { margin-top: 2rem; white-space: pre-line; font-size: 1.125rem; }
+    #sg-passage.sg-error { color: var(--sg-error); }
+    .sg-end { color: var(--sg-muted); font-style: italic; text-align: center; }
+    #sg-choices { list-style: none; padding: 0; }
+    #sg-choices li { margin: 0.5rem 0; }
+    #sg-choices button { width: 100%; text-align: left; background: var(--sg-surface); color: var(--sg-text); border: 1px solid transparent; border-radius: 0.5rem; padding: 0.75rem 1rem; font: inherit; cursor: pointer; }
+    #sg-choices button:hover, #sg-choices button:focus { border-color: var(--sg-accent); outline: none; }
+    #sg-choices kbd { display: inline-block; min-width: 1.5rem; margin-right: 0.75rem; color: var(--sg-accent); font-family: var(--sg-ui-font); font-weight: bold; }
+    #sg-status { color: var(--sg-muted); font-family: var(--sg-ui-font); font-size: 0.875rem; min-height: 1.25rem; }`;
@@ -0,0 +1,251 @@
+/**
+ * Browser player for the playable HTML export.
+ *
+ * esbuild bundles this file with @storygraph/core into dist/player/bundle.js,
+ * and the exported page inlines that bundle next to the story JSON. The page
+ * works offline: saves and the chosen theme live in localStorage.
+ */
+
+import {
+  Story,
+  choose,
+  createRuntime,
+  deserializeSaveData,
+  loadGame,
+  resume,
+  rewind,
+  saveGame,
+  serializeSaveData,
+  start,
+  type RuntimeResult,
+  type RuntimeState,
+  type StoryDocument,
+} from '@storygraph/core';
+
+/** Settings the exported page passes to the player */
+export interface PlayerConfig {
+  /** localStorage key prefix, also used as the runtime story ID */
+  storageKey: string;
+  /** Theme used until the reader picks another one */
+  theme: string;
+}
+
+class Player {
+  private state: RuntimeState;
+  private readonly passage = element('sg-passage');
+  private readonly choices = element('sg-choices');
+  private readonly status = element('sg-status');
+  private readonly undoButton = element<HTMLButtonElement>('sg-undo');
+  private readonly loadButton = element<HTMLButtonElement>('sg-load');
+
+  constructor(
+    private readonly story: Story,
+    private readonly config: PlayerConfig
+  ) {
+    this.state = createRuntime(story, { storyId: config.storageKey });
+  }
+
+  /** Continue the last session, or start from the beginning. */
+  begin(): void {
+    const autosave = this.read('autosave');
+    if (autosave && this.restore(autosave)) {
+      this.show(resume(this.state));
+    } else {
+      this.restart();
+    }
+    this.loadButton.disabled = this.read('save') === null;
+  }
+
+  restart(): void {
+    this.state = createRuntime(this.story, { storyId: this.config.storageKey });
+    this.show(start(this.state));
+  }
+
+  pick(choiceId: string): void {
+    this.show(choose(this.state, choiceId));
+  }
+
+  undo(): void {
+    if (this.state.history.length > 0) this.show(rewind(this.state));
+  }
+
+  save(): void {
+    const data = saveGame(this.state, { saveName: 'Quick save', includeHistory: true });
+    if (this.write('save', serializeSaveData(data))) {
+      this.loadButton.disabled = false;
+      this.report('Game saved.');
+    } else {
+      this.report('Saving is not available in this browser.');
+    }
+  }
+
+  load(): void {
+    const saved = this.read('save');
+    if (saved && this.restore(saved)) {
+      this.show(resume(this.state));
+      this.report('Game loaded.');
+    }
+  }
+
+  /** Move focus between choices; `step` is 1 for the next one, -1 for the previous. */
+  focusChoice(step: number): void {
+    const buttons = Array.from(this.choices.querySelectorAll('button'));
+    if (buttons.length === 0) return;
+    const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    const next = current === -1 ? 0 : (current + step + buttons.length) % buttons.length;
+    buttons[next].focus();
+  }
+
+  /** Take the choice shown with number `index + 1`, if there is one. */
+  pickNumbered(index: number): void {
+    const button = this.choices.querySelectorAll('button')[index];
+    button?.click();
+  }
+
+  private restore(json: string): boolean {
+    try {
+      const data = deserializeSaveData(json);
+      const loaded = loadGame(this.story, data, { storyId: this.config.storageKey });
+      if (!loaded.state) {
+        this.report(`Could not load the save: ${loaded.error?.message ?? 'unknown error'}`);
+        return false;
+      }
+      this.state = loaded.state;
+      return true;
+    } catch (error) {
+      this.report(`Could not load the save: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  private show(result: RuntimeResult): void {
+    this.passage.replaceChildren();
+    this.choices.replaceChildren();
+    this.report('');
+
+    if (result.error || !result.frame) {
+      this.passage.append(paragraph(result.error?.message ?? 'The story stopped unexpectedly.'));
+      this.passage.classList.add('sg-error');
+      this.addChoice('Restart', () => this.restart());
+      return;
+    }
+
+    const frame = result.frame;
+    this.passage.classList.remove('sg-error');
+    for (const block of frame.text.split(/\n\s*\n/)) {
+      if (block.trim()) this.passage.append(paragraph(block.trim()));
+    }
+    frame.choices.forEach((choice) => this.addChoice(choice.text, () => this.pick(choice.id)));
+    if (frame.choices.length === 0) {
+      const end = paragraph(frame.ending ? 'The End' : 'There are no choices left.');
+      end.className = 'sg-end';
+      this.passage.append(end);
+      this.addChoice('Play again', () => this.restart());
+    }
+
+    this.undoButton.disabled = this.state.history.length === 0;
+    const data = saveGame(this.state, { saveName: 'Autosave', includeHistory: true });
+    this.write('autosave', serializeSaveData(data));
+    this.choices.querySelector('button')?.focus();
+  }
+
+  private addChoice(text: string, onSelect: () => void): void {
+    const item = document.createElement('li');
+    const button = document.createElement('button');
+    const key = document.createElement('kbd');
+    const count = this.choices.children.length + 1;
+    key.textContent = count <= 9 ? String(count) : '';
+    button.append(key, document.createTextNode(text));
+    button.addEventListener('click', onSelect);
+    item.append(button);
+    this.choices.append(item);
+  }
+
+  private report(message: string): void {
+    this.status.textContent = message;
+  }
+
+  private read(slot: string): string | null {
+    try {
+      return localStorage.getItem(`${this.config.storageKey}:${slot}`);
+    } catch {
+      return null;
+    }
+  }
+
+  private write(slot: string, value: string): boolean {
+    try {
+      localStorage.setItem(`${this.config.storageKey}:${slot}`, value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+function element<T extends HTMLElement = HTMLElement>(id: string): T {
+  const found = document.getElementById(id);
+  if (!found) throw new Error(`Missing #${id} in the page`);
+  return found as T;
+}
+
+function paragraph(text: string): HTMLParagraphElement {
+  const p = document.createElement('p');
+  p.textContent = text;
+  return p;
+}
+
+function readJson<T>(id: string): T {
+  return JSON.parse(element(id).textContent ?? '') as T;
+}
+
+function applyTheme(config: PlayerConfig, select: HTMLSelectElement): void {
+  const key = `${config.storageKey}:theme`;
+  let theme = config.theme;
+  try {
+    theme = localStorage.getItem(key) ?? theme;
+  } catch {
+    // Storage can be blocked for file:// pages; keep the default theme
+  }
+  document.documentElement.dataset.theme = theme;
+  select.value = theme;
+  select.addEventListener('change', () => {
+    document.documentElement.dataset.theme = select.value;
+    try {
+      localStorage.setItem(key, select.value);
+    } catch {
+      // Same as above: the theme just is not remembered
+    }
+  });
+}
+
+function main(): void {
+  const config = readJson<PlayerConfig>('sg-config');
+  const player = new Player(Story.fromDocument(readJson<StoryDocument>('sg-story')), config);
+
+  applyTheme(config, element<HTMLSelectElement>('sg-theme'));
+  element('sg-undo').addEventListener('click', () => player.undo());
+  element('sg-save').addEventListener('click', () => player.save());
+  element('sg-load').addEventListener('click', () => player.load());
+  element('sg-restart').addEventListener('click', () => player.restart());
+
+  document.addEventListener('keydown', (event) => {
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+    const target = event.target as HTMLElement | null;
+    if (target?.tagName === 'SELECT' || target?.tagName === 'INPUT') return;
+    if (event.key >= '1' && event.key <= '9') {
+      player.pickNumbered(Number(event.key) - 1);
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowRight') {
+      player.focusChoice(1);
+    } else if (event.key === 'ArrowUp' || event.key === 'ArrowLeft') {
+      player.focusChoice(-1);
+    } else {
+      return;
+    }
+    event.preventDefault();
+  });
+
+  player.begin();
+}
+
+main();
@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest';
 import { parseToStory, serializeStoryInstance, validateStory, type Issue } from './index.js';
+import {
+  createRuntime,
+  start,
+  choose,
+  snapshot,
+  hydrate,
+  type RuntimeState,
+} from '../runtime/index.js';
 
 function validatorOrderComparator(a: Issue, b: Issue): number {
   const rank: Record<Issue['severity'], number> = { error: 0, warning: 1, info: 2 };
@@ -174,4 +182,56 @@ ${nodes.join('\n')}`;
     expect(result.valid).toBe(true);
     expect(duration).toBeLessThan(400);
   });
+
+  it('replays seeded random branches bit-for-bit', () => {
+    const yaml = `version: "1.0"
+meta:
+  title: Coin
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Flip
+    choices:
+      - text: flip
+        target: flip
+  flip:
+    type: random
+    id: flip
+    branches:
+      - target: heads
+      - target: tails
+  heads:
+    type: passage
+    id: heads
+    content: Heads
+    choices:
+      - text: again
+        target: flip
+  tails:
+    type: passage
+    id: tails
+    content: Tails
+    choices:
+      - text: again
+        target: flip
+`;
+    const story = parseToStory(yaml);
+    const flip = (rt: RuntimeState) => choose(rt, rt.offeredChoices[0].id);
+    const run = (seed: number) => {
+      const rt = createRuntime(story, { seed });
+      start(rt);
+      return Array.from({ length: 20 }, () => flip(rt).frame?.nodeId);
+    };
+
+    expect(run(2024)).toEqual(run(2024));
+
+    const rt = createRuntime(story, { seed: 2024 });
+    start(rt);
+    flip(rt);
+    const replay = hydrate(story, JSON.parse(JSON.stringify(snapshot(rt))));
+    expect(flip(replay)).toEqual(flip(rt));
+    expect(validateStory(story).valid).toBe(true);
+  });
 });
@@ -0,0 +1,150 @@
+/**
+ * Tests for the semantic story diff
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from './serializer.js';
+import { diffStories } from './diff.js';
+
+const BEFORE = `version: "1.0"
+meta:
+  title: The Cave
+variables:
+  torch: false
+  gold: 0
+nodes:
+  mouth:
+    type: passage
+    id: mouth
+    start: true
+    content: The mouth of a cave.
+    position: { x: 0, y: 0 }
+    choices:
+      - text: Go in
+        target: dark
+      - text: Leave
+        target: home
+  dark:
+    type: passage
+    id: dark
+    content: It is dark.
+    ending: true
+  home:
+    type: passage
+    id: home
+    content: You go home.
+    ending: true
+`;
+
+const AFTER = `version: "1.0"
+meta:
+  title: The Deep Cave
+  author: Sam
+variables:
+  torch: true
+  lamp_oil: 3
+nodes:
+  home:
+    type: passage
+    id: home
+    content: You go home.
+    ending: true
+  mouth:
+    type: passage
+    id: mouth
+    start: true
+    content: The mouth of a deep cave.
+    position: { x: 200, y: 40 }
+    choices:
+      - text: Light the torch and go in
+        target: lit
+        condition: torch
+      - text: Leave
+        target: home
+  lit:
+    type: passage
+    id: lit
+    content: Your torch shows the way.
+    ending: true
+`;
+
+describe('diffStories', () => {
+  it('reports meta, variable, node, field and edge changes', () => {
+    const diff = diffStories(parseToStory(BEFORE), parseToStory(AFTER));
+
+    expect(diff.identical).toBe(false);
+    expect(diff.meta).toEqual([
+      { path: 'title', kind: 'changed', before: 'The Cave', after: 'The Deep Cave' },
+      { path: 'author', kind: 'added', after: 'Sam' },
+    ]);
+    expect(diff.variables).toEqual([
+      { path: 'torch', kind: 'changed', before: false, after: true },
+      { path: 'gold', kind: 'removed', before: 0 },
+      { path: 'lamp_oil', kind: 'added', after: 3 },
+    ]);
+    expect(diff.nodes.added.map((node) => node.id)).toEqual(['lit']);
+    expect(diff.nodes.removed.map((node) => node.id)).toEqual(['dark']);
+    expect(diff.nodes.modified).toEqual([
+      {
+        id: 'mouth',
+        type: 'passage',
+        changes: [
+          {
+            path: 'content',
+            kind: 'changed',
+            before: 'The mouth of a cave.',
+            after: 'The mouth of a deep cave.',
+          },
+          {
+            path: 'choices[0].text',
+            kind: 'changed',
+            before: 'Go in',
+            after: 'Light the torch and go in',
+          },
+          { path: 'choices[0].target', kind: 'changed', before: 'dark', after: 'lit' },
+          { path: 'choices[0].condition', kind: 'added', after: 'torch' },
+        ],
+      },
+    ]);
+    expect(diff.edges.added).toMatchObject([{ source: 'mouth', target: 'lit', type: 'choice' }]);
+    expect(diff.edges.removed).toMatchObject([{ source: 'mouth', target: 'dark', type: 'choice' }]);
+  });
+
+  it('ignores node order and, unless asked, positions', () => {
+    const story = parseToStory(BEFORE);
+    const moved = parseToStory(BEFORE.replace('x: 0, y: 0', 'x: 50, y: 50'));
+    const reordered = parseToStory(
+      BEFORE.replace(/ {2}dark:[\s\S]*?ending: true\n/, '') +
+        '  dark:\n    type: passage\n    id: dark\n    content: It is dark.\n    ending: true\n'
+    );
+
+    expect(diffStories(story, reordered).identical).toBe(true);
+    expect(diffStories(story, moved).identical).toBe(true);
+    expect(diffStories(story, moved, { positions: true }).nodes.modified).toEqual([
+      {
+        id: 'mouth',
+        type: 'passage',
+        changes: [
+          { path: 'position.x', kind: 'changed', before: 0, after: 50 },
+          { path: 'position.y', kind: 'changed', before: 0, after: 50 },
+        ],
+      },
+    ]);
+  });
+
+  it('matches edges by connection, counting duplicates', () => {
+    const twice = parseToStory(
+      BEFORE.replace(
+        '      - text: Leave\n',
+        '      - text: Run home\n        target: home\n      - text: Leave\n'
+      )
+    );
+    const diff = diffStories(parseToStory(BEFORE), twice);
+    expect(diff.edges.added).toMatchObject([{ source: 'mouth', target: 'home', type: 'choice' }]);
+    expect(diff.edges.removed).toEqual([]);
+    expect(diff.nodes.modified[0].changes).toEqual([
+      { path: 'choices[1].text', kind: 'changed', before: 'Leave', after: 'Run home' },
+      { path: 'choices[2]', kind: 'added', after: { text: 'Leave', target: 'home' } },
+    ]);
+  });
+});
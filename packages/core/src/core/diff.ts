@@ -0,0 +1,168 @@
+/**
+ * Story Diff
+ *
+ * Compares two stories by meaning rather than by line: nodes are matched
+ * by ID, so reordering them in the file changes nothing, and each change
+ * is reported at the field that changed (`content`, `choices[1].condition`).
+ * Edges are compared as the connections they make, so a choice whose text
+ * changes is a field change, not a removed and an added edge.
+ */
+
+import type { Edge } from './edges.js';
+import type { NodeType, StoryNode } from './nodes.js';
+import type { Story } from './story.js';
+import type { NodeId } from './types.js';
+
+export interface DiffOptions {
+  /** Report node positions too; layout moves are left out by default */
+  positions?: boolean | undefined;
+}
+
+/**
+ * A value that was added, removed or changed. `before` is missing for an
+ * added value and `after` for a removed one.
+ */
+export interface FieldChange {
+  /** Field path, such as `title`, `choices[1].condition` or a variable name */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NodeDiff {
+  id: NodeId;
+  /** Type in the newer story */
+  type: NodeType;
+  changes: FieldChange[];
+}
+
+export interface StoryDiff {
+  /** True when the stories differ in nothing the diff reports */
+  identical: boolean;
+  meta: FieldChange[];
+  variables: FieldChange[];
+  nodes: { added: StoryNode[]; removed: StoryNode[]; modified: NodeDiff[] };
+  edges: { added: Edge[]; removed: Edge[] };
+}
+
+/**
+ * Compare two versions of a story.
+ *
+ * @param a - The older story
+ * @param b - The newer story
+ */
+export function diffStories(a: Story, b: Story, options: DiffOptions = {}): StoryDiff {
+  const meta = diffValues(a.meta, b.meta);
+  const variables = diffValues(Object.fromEntries(a.variables), Object.fromEntries(b.variables));
+
+  const added: StoryNode[] = [];
+  const removed: StoryNode[] = [];
+  const modified: NodeDiff[] = [];
+  for (const node of a.getAllNodes()) {
+    if (!b.hasNode(node.id)) removed.push(node);
+  }
+  for (const node of b.getAllNodes()) {
+    const before = a.getNode(node.id);
+    if (!before) {
+      added.push(node);
+      continue;
+    }
+    const changes = diffValues(comparable(before, options), comparable(node, options));
+    if (changes.length > 0) modified.push({ id: node.id, type: node.type, changes });
+  }
+
+  const edges = {
+    added: subtractEdges(b.getEdges(), a.getEdges()),
+    removed: subtractEdges(a.getEdges(), b.getEdges()),
+  };
+
+  return {
+    identical:
+      meta.length === 0 &&
+      variables.length === 0 &&
+      added.length === 0 &&
+      removed.length === 0 &&
+      modified.length === 0 &&
+      edges.added.length === 0 &&
+      edges.removed.length === 0,
+    meta,
+    variables,
+    nodes: { added, removed, modified },
+    edges,
+  };
+}
+
+/** Node fields that count as changes: all but the ID, and the position unless asked */
+function comparable(node: StoryNode, options: DiffOptions): Record<string, unknown> {
+  const { id: _id, position, ...fields } = node;
+  return options.positions ? { ...fields, position } : fields;
+}
+
+/**
+ * Changes between two values, down to the fields of objects and the items
+ * of object lists. Lists of plain values, such as tags, change as a whole.
+ */
+function diffValues(before: unknown, after: unknown, path = ''): FieldChange[] {
+  if (isRecord(before) && isRecord(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) =>
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+  if (isObjectList(before) && isObjectList(after) && before.length + after.length > 0) {
+    const length = Math.max(before.length, after.length);
+    return Array.from({ length }, (_, index) =>
+      diffValues(before[index], after[index], `${path}[${index}]`)
+    ).flat();
+  }
+
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ path, kind: 'added', after }];
+  if (after === undefined) return [{ path, kind: 'removed', before }];
+  if (equal(before, after)) return [];
+  return [{ path, kind: 'changed', before, after }];
+}
+
+/**
+ * Edges of `edges` that `other` lacks. Edges match by source, target, type
+ * and branch; each can be matched once, so a second choice to the same
+ * target counts.
+ */
+function subtractEdges(edges: Edge[], other: Edge[]): Edge[] {
+  const counts = new Map<string, number>();
+  for (const edge of other) counts.set(edgeKey(edge), (counts.get(edgeKey(edge)) ?? 0) + 1);
+  return edges.filter((edge) => {
+    const count = counts.get(edgeKey(edge)) ?? 0;
+    if (count === 0) return true;
+    counts.set(edgeKey(edge), count - 1);
+    return false;
+  });
+}
+
+function edgeKey(edge: Edge): string {
+  return JSON.stringify([edge.source, edge.target, edge.type, edge.branch ?? null]);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isObjectList(value: unknown): value is unknown[] {
+  return Array.isArray(value) && value.every(isRecord);
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => equal(item, b[index]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && equal(a[key], b[key]))
+    );
+  }
+  return false;
+}
@@ -8,7 +8,7 @@
 
 import { z } from 'zod';
 import { NodeIdSchema } from './types.js';
-import type { StoryNode, Choice } from './nodes.js';
+import { VariableMutationsSchema, type StoryNode, type Choice } from './nodes.js';
 
 // =============================================================================
 // Edge Types
@@ -20,6 +20,7 @@ import type { StoryNode, Choice } from './nodes.js';
 export const EdgeTypeSchema = z.enum([
   'choice',      // From a choice selection
   'condition',   // From a condition branch (true/false)
+  'random',      // From a weighted random branch
   'next',        // Direct continuation (variable node, etc.)
   'return',      // Return from include
 ]);
@@ -51,6 +52,12 @@ export const EdgeSchema = z.object({
 
   /** For choice edges, the condition (if any) */
   condition: z.string().max(256).optional(),
+
+  /** For random edges, the branch weight */
+  weight: z.number().optional(),
+
+  /** For choice edges, state changes applied when the choice is taken */
+  ...VariableMutationsSchema.shape,
 });
 
 export type Edge = z.infer<typeof EdgeSchema>;
@@ -101,6 +108,19 @@ export function extractEdgesFromNode(node: StoryNode): Edge[] {
       });
       break;
 
+    case 'random':
+      // Random nodes have one edge per weighted branch
+      for (const branch of node.branches) {
+        edges.push({
+          source: node.id,
+          target: branch.target,
+          type: 'random',
+          label: branch.label,
+          weight: branch.weight ?? 1,
+        });
+      }
+      break;
+
     case 'variable':
       // Variable nodes have a single next edge
       edges.push({
@@ -139,6 +159,12 @@ function createChoiceEdge(sourceId: string, choice: Choice): Edge {
     type: 'choice',
     label: choice.text,
     condition: choice.condition,
+    ...(choice.set ? { set: choice.set } : {}),
+    ...(choice.increment ? { increment: choice.increment } : {}),
+    ...(choice.decrement ? { decrement: choice.decrement } : {}),
+    ...(choice.add ? { add: choice.add } : {}),
+    ...(choice.remove ? { remove: choice.remove } : {}),
+    ...(choice.clear ? { clear: choice.clear } : {}),
   };
 }
 
@@ -193,6 +219,10 @@ export function getNodeTargets(node: StoryNode): string[] {
       targets.push(node.ifTrue, node.ifFalse);
       break;
 
+    case 'random':
+      targets.push(...node.branches.map((b) => b.target));
+      break;
+
     case 'variable':
       targets.push(node.next);
       break;
@@ -2,6 +2,9 @@ import { describe, it, expect } from 'vitest';
 import {
   evaluateExpression,
   evaluateExpressionValue,
+  getExpressionVariables,
+  inferExpressionType,
+  isPureFunction,
   validateExpression,
 } from './expression-parser.js';
 
@@ -210,11 +213,11 @@ describe('expression-parser', () => {
       });
 
       it('does not allow property access', () => {
-        // Property access syntax should fail to parse
-        // Note: we can't actually pass objects as variables due to VariableValue type,
-        // but the parser itself rejects property access syntax regardless
-        expect(evaluateExpression('obj.prop', {})).toBe(false);
-        expect(evaluateExpression('arr[0]', {})).toBe(false);
+        // Property access syntax should fail to parse, even on list and map variables
+        const vars = { obj: { prop: 'x' }, arr: ['x'] };
+        expect(evaluateExpression('obj.prop', vars)).toBe(false);
+        expect(evaluateExpression('arr[0]', vars)).toBe(false);
+        expect(evaluateExpression('"constructor" in obj', vars)).toBe(false);
       });
 
       it('does not allow function calls', () => {
@@ -308,4 +311,200 @@ describe('expression-parser', () => {
       expect(evaluateExpression('var_name_123 == 3', { var_name_123: 3 })).toBe(true);
     });
   });
+
+  describe('random functions', () => {
+    function sequence(...values: number[]) {
+      let i = 0;
+      const random = () => values[i++ % values.length];
+      return { random, draws: () => i };
+    }
+
+    it('draws integers with random(min, max)', () => {
+      expect(evaluateExpressionValue('random(1, 6)', {}, sequence(0))).toBe(1);
+      expect(evaluateExpressionValue('random(1, 6)', {}, sequence(0.999))).toBe(6);
+      expect(evaluateExpressionValue('random(low, 3)', { low: 3 }, sequence(0.5))).toBe(3);
+    });
+
+    it('rolls probabilities with chance(p)', () => {
+      expect(evaluateExpression('chance(0.5)', {}, sequence(0.2))).toBe(true);
+      expect(evaluateExpression('chance(0.5)', {}, sequence(0.7))).toBe(false);
+      expect(evaluateExpression('chance(0)', {}, sequence(0))).toBe(false);
+    });
+
+    it('composes with other operators', () => {
+      const source = sequence(0.5, 0.1);
+      expect(evaluateExpression('random(1, 10) + 1 >= 6 && chance(0.2)', {}, source)).toBe(true);
+      expect(source.draws()).toBe(2);
+    });
+
+    it('does not draw for short-circuited operands', () => {
+      const source = sequence(0.1);
+      expect(evaluateExpression('false && chance(0.5)', {}, source)).toBe(false);
+      expect(evaluateExpression('true || chance(0.5)', {}, source)).toBe(true);
+      expect(source.draws()).toBe(0);
+    });
+
+    it('fails without a random source', () => {
+      expect(evaluateExpression('chance(1)', {})).toBe(false);
+      expect(() => evaluateExpressionValue('random(1, 2)', {})).toThrow(/random source/);
+    });
+
+    it('validates calls without evaluating them', () => {
+      expect(validateExpression('random(1, max_roll) > 3').valid).toBe(true);
+      expect(validateExpression('chance()').error).toMatch(/expects 1 argument/);
+      expect(validateExpression('roll(1, 6)').error).toMatch(/Unknown function 'roll'/);
+      expect(validateExpression('random(1, 6').valid).toBe(false);
+    });
+  });
+
+  describe('lists and maps', () => {
+    const vars = {
+      inventory: ['sword', 'torch'],
+      trust: { alice: 3, bob: 0 },
+      name: 'hero',
+    };
+
+    it('tests membership with in', () => {
+      expect(evaluateExpression('"sword" in inventory', vars)).toBe(true);
+      expect(evaluateExpression('"shield" in inventory', vars)).toBe(false);
+      expect(evaluateExpression('!("shield" in inventory)', vars)).toBe(true);
+      expect(evaluateExpression('"alice" in trust', vars)).toBe(true);
+      expect(evaluateExpression('"carol" in trust', vars)).toBe(false);
+      expect(evaluateExpression('"er" in name', vars)).toBe(true);
+      expect(evaluateExpression('"sword" in missing', vars)).toBe(false);
+    });
+
+    it('binds in tighter than && and ||', () => {
+      expect(evaluateExpression('"torch" in inventory && len(inventory) == 2', vars)).toBe(true);
+      expect(evaluateExpression('"shield" in inventory || "bob" in trust', vars)).toBe(true);
+    });
+
+    it('counts items with len()', () => {
+      expect(evaluateExpressionValue('len(inventory)', vars)).toBe(2);
+      expect(evaluateExpressionValue('len(trust)', vars)).toBe(2);
+      expect(evaluateExpressionValue('len(name)', vars)).toBe(4);
+      expect(evaluateExpressionValue('len(missing)', vars)).toBe(0);
+      expect(() => evaluateExpressionValue('len(5)', vars)).toThrow(
+        /len\(\) argument 1 must be a list/
+      );
+    });
+
+    it('rejects in against scalars', () => {
+      expect(() => evaluateExpressionValue('1 in 5', vars)).toThrow(/'in' needs a list/);
+    });
+
+    it('does not treat in as a variable', () => {
+      expect(getExpressionVariables('"sword" in inventory').map((v) => v.name)).toEqual([
+        'inventory',
+      ]);
+      expect(validateExpression('"sword" in').valid).toBe(false);
+    });
+  });
+
+  describe('built-in functions', () => {
+    const vars = { gold: 7, debt: -3, name: 'Hero', bag: ['rope'] };
+    const counts: Record<string, number> = { start: 2, cave: 0 };
+    const options = { visits: (id: string) => counts[id] ?? 0 };
+
+    it('does math', () => {
+      expect(evaluateExpressionValue('min(gold, 5, 9)', vars)).toBe(5);
+      expect(evaluateExpressionValue('max(gold, 10)', vars)).toBe(10);
+      expect(evaluateExpressionValue('abs(debt)', vars)).toBe(3);
+      expect(evaluateExpressionValue('floor(gold / 2)', vars)).toBe(3);
+      expect(evaluateExpressionValue('clamp(gold, 0, 5)', vars)).toBe(5);
+      expect(evaluateExpressionValue('clamp(debt, 0, 5)', vars)).toBe(0);
+    });
+
+    it('handles strings and collections', () => {
+      expect(evaluateExpression('lower(name) == "hero"', vars)).toBe(true);
+      expect(evaluateExpression('contains(bag, "rope")', vars)).toBe(true);
+      expect(evaluateExpression('contains(name, "er")', vars)).toBe(true);
+    });
+
+    it('reads visit counts', () => {
+      expect(evaluateExpression('visited("start")', {}, options)).toBe(true);
+      expect(evaluateExpression('visited("cave")', {}, options)).toBe(false);
+      expect(evaluateExpressionValue('visits("start") + 1', {}, options)).toBe(3);
+      expect(() => evaluateExpressionValue('visits("start")', {})).toThrow(/visit counts/);
+    });
+
+    it('checks argument types', () => {
+      expect(() => evaluateExpressionValue('abs(name)', vars)).toThrow(
+        /abs\(\) argument 1 must be a number, got string/
+      );
+      expect(() => evaluateExpressionValue('max(1, "2")', vars)).toThrow(/argument 2/);
+      expect(validateExpression('lower(3)').error).toMatch(/must be a string/);
+      expect(validateExpression('visited(start)').valid).toBe(true);
+    });
+
+    it('reports unknown functions and wrong arity', () => {
+      expect(validateExpression('round(gold)').error).toMatch(/Unknown function 'round'/);
+      expect(validateExpression('min(1)').error).toMatch(/expects at least 2 argument/);
+      expect(validateExpression('clamp(1, 2)').error).toMatch(/expects 3 argument/);
+      expect(validateExpression('toString()').error).toMatch(/Unknown function/);
+    });
+
+    it('knows which calls are pure', () => {
+      expect(isPureFunction('visited')).toBe(true);
+      expect(isPureFunction('min')).toBe(true);
+      expect(isPureFunction('chance')).toBe(false);
+      expect(isPureFunction('constructor')).toBe(false);
+    });
+  });
+
+  describe('inferExpressionType', () => {
+    const types = {
+      gold: 'number',
+      name: 'string',
+      brave: 'boolean',
+      bag: 'list',
+      mystery: 'unknown',
+    } as const;
+    const messages = (expression: string) =>
+      inferExpressionType(expression, types).issues.map((i) => i.message);
+
+    it('infers result types', () => {
+      expect(inferExpressionType('gold + 1', types).type).toBe('number');
+      expect(inferExpressionType('name + gold', types).type).toBe('string');
+      expect(inferExpressionType('gold > 3 && brave', types).type).toBe('boolean');
+      expect(inferExpressionType('len(bag)', types).type).toBe('number');
+      expect(inferExpressionType('gold || name', types).type).toBe('unknown');
+    });
+
+    it('reports operands of the wrong type', () => {
+      expect(messages('gold > "ten"')).toEqual([
+        "'>' needs numbers, got number and string at position 5",
+      ]);
+      expect(messages('name == 3')).toEqual(["'==' compares string with number at position 5"]);
+      expect(messages('"rope" in gold')).toEqual([
+        "'in' needs a list, map or string on the right, got number at position 7",
+      ]);
+      expect(messages('-name')).toEqual(["'-' needs a number, got string at position 0"]);
+      expect(messages('abs(bag)')).toEqual([
+        'abs() argument 1 must be a number, got list at position 0',
+      ]);
+    });
+
+    it('accepts unknown and missing values', () => {
+      expect(messages('mystery > 3 && gold != null')).toEqual([]);
+      expect(messages('"rope" in bag && lower(name) == "hero"')).toEqual([]);
+    });
+
+    it('reports undeclared variables', () => {
+      const { issues } = inferExpressionType('gold > 1 && has_key', types);
+      expect(issues).toEqual([
+        {
+          kind: 'undeclared',
+          message: "Undeclared variable 'has_key' at position 12",
+          position: 12,
+          variable: 'has_key',
+        },
+      ]);
+    });
+
+    it('throws on syntax errors', () => {
+      expect(() => inferExpressionType('gold >', types)).toThrow(/Unexpected token/);
+      expect(() => inferExpressionType('round(gold)', types)).toThrow(/Unknown function/);
+    });
+  });
 });
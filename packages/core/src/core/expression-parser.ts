@@ -0,0 +1,1192 @@
+/**
+ * Safe Expression Parser
+ *
+ * A secure AST-based expression evaluator that replaces the dangerous `new Function()` approach.
+ * Supports: variables, comparisons, boolean logic, arithmetic, parentheses and
+ * calls to a fixed set of built-in functions.
+ *
+ * Grammar (simplified):
+ *   Expression     -> LogicalOr
+ *   LogicalOr      -> LogicalAnd ('||' LogicalAnd)*
+ *   LogicalAnd     -> Equality ('&&' Equality)*
+ *   Equality       -> Comparison (('==' | '===' | '!=' | '!==') Comparison)*
+ *   Comparison     -> Additive (('<' | '<=' | '>' | '>=' | 'in') Additive)*
+ *   Additive       -> Multiplicative (('+' | '-') Multiplicative)*
+ *   Multiplicative -> Unary (('*' | '/' | '%') Unary)*
+ *   Unary          -> ('!' | '-')? Primary
+ *   Primary        -> Number | String | Boolean | Call | Identifier | '(' Expression ')'
+ *   Call           -> Identifier '(' (Expression (',' Expression)*)? ')'
+ *
+ * `item in list` tests list membership, `key in map` tests for a map key and
+ * `part in text` tests for a substring.
+ *
+ * Calls are limited to the built-ins in FUNCTIONS (min, max, abs, floor, clamp,
+ * lower, contains, visited, visits, len, random, chance). Arguments are
+ * checked against each function's parameter types before it runs.
+ *
+ * parseExpressionTree builds a syntax tree over the same grammar for
+ * translation, and inferExpressionType checks it statically against
+ * variable types instead of values.
+ *
+ * `&&` and `||` short-circuit: the skipped operand is still parsed (so syntax
+ * errors surface) but its function calls are not run and draw no random numbers.
+ */
+
+import type { VariableType, VariableValue } from './types.js';
+
+// =============================================================================
+// Token Types
+// =============================================================================
+
+type TokenType =
+  | 'NUMBER'
+  | 'STRING'
+  | 'BOOLEAN'
+  | 'IDENTIFIER'
+  | 'OPERATOR'
+  | 'LPAREN'
+  | 'RPAREN'
+  | 'COMMA'
+  | 'EOF';
+
+interface Token {
+  type: TokenType;
+  value: string | number | boolean;
+  position: number;
+}
+
+// =============================================================================
+// Lexer
+// =============================================================================
+
+const OPERATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '!',
+];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < input.length) {
+    // Skip whitespace
+    if (/\s/.test(input[pos])) {
+      pos++;
+      continue;
+    }
+
+    // Numbers (integer and decimal)
+    if (/\d/.test(input[pos]) || (input[pos] === '.' && /\d/.test(input[pos + 1] ?? ''))) {
+      const start = pos;
+      let hasDecimal = false;
+      while (pos < input.length && (/\d/.test(input[pos]) || (input[pos] === '.' && !hasDecimal))) {
+        if (input[pos] === '.') hasDecimal = true;
+        pos++;
+      }
+      const numStr = input.slice(start, pos);
+      tokens.push({ type: 'NUMBER', value: parseFloat(numStr), position: start });
+      continue;
+    }
+
+    // String literals (single or double quotes)
+    if (input[pos] === '"' || input[pos] === "'") {
+      const quote = input[pos];
+      const start = pos;
+      pos++; // Skip opening quote
+      let str = '';
+      while (pos < input.length && input[pos] !== quote) {
+        if (input[pos] === '\\' && pos + 1 < input.length) {
+          pos++;
+          const escapeMap: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\' };
+          str += escapeMap[input[pos]] ?? input[pos];
+        } else {
+          str += input[pos];
+        }
+        pos++;
+      }
+      if (input[pos] !== quote) {
+        throw new ExpressionError(`Unterminated string at position ${start}`, start);
+      }
+      pos++; // Skip closing quote
+      tokens.push({ type: 'STRING', value: str, position: start });
+      continue;
+    }
+
+    // Operators (check longer ones first)
+    const opMatch = OPERATORS.find((op) => input.slice(pos, pos + op.length) === op);
+    if (opMatch) {
+      tokens.push({ type: 'OPERATOR', value: opMatch, position: pos });
+      pos += opMatch.length;
+      continue;
+    }
+
+    // Parentheses
+    if (input[pos] === '(') {
+      tokens.push({ type: 'LPAREN', value: '(', position: pos });
+      pos++;
+      continue;
+    }
+    if (input[pos] === ')') {
+      tokens.push({ type: 'RPAREN', value: ')', position: pos });
+      pos++;
+      continue;
+    }
+    if (input[pos] === ',') {
+      tokens.push({ type: 'COMMA', value: ',', position: pos });
+      pos++;
+      continue;
+    }
+
+    // Boolean literals and identifiers
+    if (/[a-zA-Z_$]/.test(input[pos])) {
+      const start = pos;
+      while (pos < input.length && /[a-zA-Z0-9_$]/.test(input[pos])) {
+        pos++;
+      }
+      const word = input.slice(start, pos);
+      if (word === 'true') {
+        tokens.push({ type: 'BOOLEAN', value: true, position: start });
+      } else if (word === 'false') {
+        tokens.push({ type: 'BOOLEAN', value: false, position: start });
+      } else if (word === 'in') {
+        tokens.push({ type: 'OPERATOR', value: word, position: start });
+      } else if (word === 'null' || word === 'undefined') {
+        // Treat null/undefined as identifier that will resolve to undefined
+        tokens.push({ type: 'IDENTIFIER', value: word, position: start });
+      } else {
+        tokens.push({ type: 'IDENTIFIER', value: word, position: start });
+      }
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${input[pos]}' at position ${pos}`, pos);
+  }
+
+  tokens.push({ type: 'EOF', value: '', position: pos });
+  return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public position?: number
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type ExpressionValue = VariableValue | null | undefined;
+
+/**
+ * Evaluation context beyond variables.
+ */
+export interface ExpressionOptions {
+  /**
+   * Source of floats in [0, 1) for random() and chance().
+   * The runtime passes its seeded PRNG; without one those functions fail.
+   */
+  random?: (() => number) | undefined;
+
+  /**
+   * Visit count of a node, for visited() and visits().
+   * Without it those functions fail.
+   */
+  visits?: ((nodeId: string) => number) | undefined;
+}
+
+/**
+ * Argument types checked before a built-in function runs.
+ * `collection` accepts lists, maps and strings.
+ */
+type ParamType = 'number' | 'string' | 'collection' | 'any';
+
+interface ExpressionFunction {
+  /** Argument types; the last one repeats for variadic functions */
+  params: ParamType[];
+  /** Allowed argument count as [min, max] */
+  arity: [number, number];
+  /** Type of the result, for static type checks */
+  returns: VariableType;
+  /** Whether the call leaves all state alone (random draws advance the PRNG) */
+  pure: boolean;
+  call(args: ExpressionValue[], options: ExpressionOptions, position: number): ExpressionValue;
+}
+
+/**
+ * Built-in functions callable from expressions.
+ * This table is the whole sandbox: no other calls can be made.
+ */
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  /** min(a, b, ...) - smallest number */
+  min: {
+    params: ['number'],
+    arity: [2, Infinity],
+    returns: 'number',
+    pure: true,
+    call: (args) => Math.min(...args.map(Number)),
+  },
+
+  /** max(a, b, ...) - largest number */
+  max: {
+    params: ['number'],
+    arity: [2, Infinity],
+    returns: 'number',
+    pure: true,
+    call: (args) => Math.max(...args.map(Number)),
+  },
+
+  /** abs(n) - absolute value */
+  abs: {
+    params: ['number'],
+    arity: [1, 1],
+    returns: 'number',
+    pure: true,
+    call: ([n]) => Math.abs(Number(n)),
+  },
+
+  /** floor(n) - round down to an integer */
+  floor: {
+    params: ['number'],
+    arity: [1, 1],
+    returns: 'number',
+    pure: true,
+    call: ([n]) => Math.floor(Number(n)),
+  },
+
+  /** clamp(n, low, high) - n limited to [low, high] */
+  clamp: {
+    params: ['number', 'number', 'number'],
+    arity: [3, 3],
+    returns: 'number',
+    pure: true,
+    call: ([n, low, high]) => Math.min(Math.max(Number(n), Number(low)), Number(high)),
+  },
+
+  /** lower(text) - lowercase copy of a string */
+  lower: {
+    params: ['string'],
+    arity: [1, 1],
+    returns: 'string',
+    pure: true,
+    call: ([text]) => (text === undefined || text === null ? '' : String(text).toLowerCase()),
+  },
+
+  /** contains(collection, item) - same as `item in collection` */
+  contains: {
+    params: ['collection', 'any'],
+    arity: [2, 2],
+    returns: 'boolean',
+    pure: true,
+    call: ([collection, item], _options, position) => contains(collection, item, position),
+  },
+
+  /** visited("node_id") - whether the reader has entered a node */
+  visited: {
+    params: ['string'],
+    arity: [1, 1],
+    returns: 'boolean',
+    pure: true,
+    call: ([nodeId], options, position) => countVisits('visited', nodeId, options, position) > 0,
+  },
+
+  /** visits("node_id") - how often the reader has entered a node */
+  visits: {
+    params: ['string'],
+    arity: [1, 1],
+    returns: 'number',
+    pure: true,
+    call: ([nodeId], options, position) => countVisits('visits', nodeId, options, position),
+  },
+
+  /** len(x) - number of items in a list, entries in a map or characters in a string */
+  len: {
+    params: ['collection'],
+    arity: [1, 1],
+    returns: 'number',
+    pure: true,
+    call([value]) {
+      if (value === undefined || value === null) return 0;
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      return Object.keys(value as object).length;
+    },
+  },
+
+  /** random(min, max) - integer in [min, max], inclusive */
+  random: {
+    params: ['number', 'number'],
+    arity: [2, 2],
+    returns: 'number',
+    pure: false,
+    call([min, max], options, position) {
+      const low = Math.ceil(Math.min(Number(min), Number(max)));
+      const high = Math.floor(Math.max(Number(min), Number(max)));
+      if (!Number.isFinite(low) || !Number.isFinite(high) || low > high) {
+        throw new ExpressionError(
+          `random() needs a numeric range containing an integer at position ${position}`,
+          position
+        );
+      }
+      return low + Math.floor(drawRandom('random', options, position) * (high - low + 1));
+    },
+  },
+
+  /** chance(p) - true with probability p (0..1) */
+  chance: {
+    params: ['number'],
+    arity: [1, 1],
+    returns: 'boolean',
+    pure: false,
+    call([p], options, position) {
+      const probability = Number(p);
+      if (Number.isNaN(probability)) {
+        throw new ExpressionError(
+          `chance() needs a numeric probability at position ${position}`,
+          position
+        );
+      }
+      return drawRandom('chance', options, position) < probability;
+    },
+  },
+};
+
+function drawRandom(name: string, options: ExpressionOptions, position: number): number {
+  if (!options.random) {
+    throw new ExpressionError(
+      `${name}() is only available with a random source (at position ${position})`,
+      position
+    );
+  }
+  return options.random();
+}
+
+function countVisits(
+  name: string,
+  nodeId: ExpressionValue,
+  options: ExpressionOptions,
+  position: number
+): number {
+  if (!options.visits) {
+    throw new ExpressionError(
+      `${name}() is only available with visit counts (at position ${position})`,
+      position
+    );
+  }
+  return options.visits(String(nodeId));
+}
+
+/**
+ * Check call arguments against a function's parameter types.
+ * Unknown values (undefined, e.g. in a dry run) pass; functions handle them.
+ */
+function checkArguments(
+  name: string,
+  fn: ExpressionFunction,
+  args: ExpressionValue[],
+  position: number
+): void {
+  args.forEach((arg, index) => {
+    if (arg === undefined || arg === null) return;
+    const expected = fn.params[Math.min(index, fn.params.length - 1)];
+    const actual = Array.isArray(arg) ? 'list' : typeof arg === 'object' ? 'map' : typeof arg;
+    const ok =
+      expected === 'any' ||
+      expected === actual ||
+      (expected === 'collection' && ['list', 'map', 'string'].includes(actual));
+    if (!ok) {
+      const wanted = expected === 'collection' ? 'a list, map or string' : `a ${expected}`;
+      throw new ExpressionError(
+        `${name}() argument ${index + 1} must be ${wanted}, got ${actual} at position ${position}`,
+        position
+      );
+    }
+  });
+}
+
+/**
+ * Whether `name` is a built-in function that leaves all state alone.
+ * random() and chance() are built in but advance the PRNG.
+ */
+export function isPureFunction(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name) && FUNCTIONS[name].pure;
+}
+
+/**
+ * Membership test behind the `in` operator.
+ * Missing collections contain nothing.
+ */
+function contains(collection: ExpressionValue, item: ExpressionValue, position: number): boolean {
+  if (collection === undefined || collection === null) return false;
+  if (Array.isArray(collection)) return collection.some((entry) => entry === item);
+  if (typeof collection === 'object') {
+    return Object.prototype.hasOwnProperty.call(collection, String(item));
+  }
+  if (typeof collection === 'string') return collection.includes(String(item));
+  throw new ExpressionError(
+    `'in' needs a list, map or string on the right at position ${position}`,
+    position
+  );
+}
+
+class Parser {
+  private tokens: Token[];
+  private pos = 0;
+  private variables: Record<string, VariableValue>;
+  private options: ExpressionOptions;
+  /** Depth of short-circuited operands being parsed without side effects */
+  private skipping = 0;
+
+  constructor(
+    tokens: Token[],
+    variables: Record<string, VariableValue>,
+    options: ExpressionOptions = {},
+    dryRun = false
+  ) {
+    this.tokens = tokens;
+    this.variables = variables;
+    this.options = options;
+    if (dryRun) this.skipping = 1;
+  }
+
+  parse(): ExpressionValue {
+    const result = this.parseLogicalOr();
+    if (this.peek().type !== 'EOF') {
+      throw new ExpressionError(
+        `Unexpected token '${this.peek().value}' at position ${this.peek().position}`,
+        this.peek().position
+      );
+    }
+    return result;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos] ?? { type: 'EOF', value: '', position: -1 };
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    this.pos++;
+    return token;
+  }
+
+  /**
+   * Parse an operand, suppressing function calls when it won't be used.
+   */
+  private parseSkippable(skip: boolean, parse: () => ExpressionValue): ExpressionValue {
+    if (!skip) return parse();
+    this.skipping++;
+    try {
+      return parse();
+    } finally {
+      this.skipping--;
+    }
+  }
+
+  private parseLogicalOr(): ExpressionValue {
+    let left = this.parseLogicalAnd();
+
+    while (this.peek().type === 'OPERATOR' && this.peek().value === '||') {
+      this.advance();
+      const right = this.parseSkippable(!!left, () => this.parseLogicalAnd());
+      left = left || right;
+    }
+
+    return left;
+  }
+
+  private parseLogicalAnd(): ExpressionValue {
+    let left = this.parseEquality();
+
+    while (this.peek().type === 'OPERATOR' && this.peek().value === '&&') {
+      this.advance();
+      const right = this.parseSkippable(!left, () => this.parseEquality());
+      left = left && right;
+    }
+
+    return left;
+  }
+
+  private parseEquality(): ExpressionValue {
+    let left = this.parseComparison();
+
+    while (
+      this.peek().type === 'OPERATOR' &&
+      ['==', '===', '!=', '!=='].includes(this.peek().value as string)
+    ) {
+      const op = this.advance().value as string;
+      const right = this.parseComparison();
+
+      switch (op) {
+        case '==':
+          left = left == right;
+          break;
+        case '===':
+          left = left === right;
+          break;
+        case '!=':
+          left = left != right;
+          break;
+        case '!==':
+          left = left !== right;
+          break;
+      }
+    }
+
+    return left;
+  }
+
+  private parseComparison(): ExpressionValue {
+    let left = this.parseAdditive();
+
+    while (
+      this.peek().type === 'OPERATOR' &&
+      ['<', '<=', '>', '>=', 'in'].includes(this.peek().value as string)
+    ) {
+      const token = this.advance();
+      const op = token.value as string;
+      const right = this.parseAdditive();
+
+      if (op === 'in') {
+        left = contains(right, left, token.position);
+        continue;
+      }
+
+      // Type safety: ensure we're comparing comparable types
+      const leftNum = typeof left === 'number' ? left : Number(left);
+      const rightNum = typeof right === 'number' ? right : Number(right);
+
+      switch (op) {
+        case '<':
+          left = leftNum < rightNum;
+          break;
+        case '<=':
+          left = leftNum <= rightNum;
+          break;
+        case '>':
+          left = leftNum > rightNum;
+          break;
+        case '>=':
+          left = leftNum >= rightNum;
+          break;
+      }
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): ExpressionValue {
+    let left = this.parseMultiplicative();
+
+    while (this.peek().type === 'OPERATOR' && ['+', '-'].includes(this.peek().value as string)) {
+      const op = this.advance().value as string;
+      const right = this.parseMultiplicative();
+
+      if (op === '+') {
+        // String concatenation or numeric addition
+        if (typeof left === 'string' || typeof right === 'string') {
+          left = String(left) + String(right);
+        } else {
+          left = Number(left) + Number(right);
+        }
+      } else {
+        left = Number(left) - Number(right);
+      }
+    }
+
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionValue {
+    let left = this.parseUnary();
+
+    while (
+      this.peek().type === 'OPERATOR' &&
+      ['*', '/', '%'].includes(this.peek().value as string)
+    ) {
+      const op = this.advance().value as string;
+      const right = this.parseUnary();
+
+      const leftNum = Number(left);
+      const rightNum = Number(right);
+
+      switch (op) {
+        case '*':
+          left = leftNum * rightNum;
+          break;
+        case '/':
+          left = rightNum === 0 ? NaN : leftNum / rightNum;
+          break;
+        case '%':
+          left = rightNum === 0 ? NaN : leftNum % rightNum;
+          break;
+      }
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionValue {
+    if (this.peek().type === 'OPERATOR' && this.peek().value === '!') {
+      this.advance();
+      const value = this.parseUnary();
+      return !value;
+    }
+
+    if (this.peek().type === 'OPERATOR' && this.peek().value === '-') {
+      this.advance();
+      const value = this.parseUnary();
+      return -Number(value);
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionValue {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'NUMBER':
+        this.advance();
+        return token.value as number;
+
+      case 'STRING':
+        this.advance();
+        return token.value as string;
+
+      case 'BOOLEAN':
+        this.advance();
+        return token.value as boolean;
+
+      case 'IDENTIFIER': {
+        this.advance();
+        const name = token.value as string;
+        if (this.peek().type === 'LPAREN') {
+          return this.parseCall(name, token.position);
+        }
+        if (name === 'null') return null;
+        if (name === 'undefined') return undefined;
+        // Look up variable - return undefined if not found (safe default)
+        if (Object.prototype.hasOwnProperty.call(this.variables, name)) {
+          return this.variables[name] as ExpressionValue;
+        }
+        return undefined;
+      }
+
+      case 'LPAREN': {
+        this.advance(); // consume '('
+        const expr = this.parseLogicalOr();
+        if (this.peek().type !== 'RPAREN') {
+          throw new ExpressionError(
+            `Expected ')' at position ${this.peek().position}`,
+            this.peek().position
+          );
+        }
+        this.advance(); // consume ')'
+        return expr;
+      }
+
+      default:
+        throw new ExpressionError(
+          `Unexpected token '${token.value}' at position ${token.position}`,
+          token.position
+        );
+    }
+  }
+
+  private parseCall(name: string, position: number): ExpressionValue {
+    this.advance(); // consume '('
+    const args: ExpressionValue[] = [];
+    if (this.peek().type !== 'RPAREN') {
+      args.push(this.parseLogicalOr());
+      while (this.peek().type === 'COMMA') {
+        this.advance();
+        args.push(this.parseLogicalOr());
+      }
+    }
+    if (this.peek().type !== 'RPAREN') {
+      throw new ExpressionError(
+        `Expected ')' at position ${this.peek().position}`,
+        this.peek().position
+      );
+    }
+    this.advance(); // consume ')'
+
+    const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!fn) {
+      throw new ExpressionError(`Unknown function '${name}' at position ${position}`, position);
+    }
+    const [min, max] = fn.arity;
+    if (args.length < min || args.length > max) {
+      const expected =
+        min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+      throw new ExpressionError(
+        `${name}() expects ${expected} argument(s), got ${args.length} at position ${position}`,
+        position
+      );
+    }
+
+    checkArguments(name, fn, args, position);
+
+    if (this.skipping > 0) return undefined;
+    return fn.call(args, this.options, position);
+  }
+}
+
+// =============================================================================
+// Syntax Tree
+// =============================================================================
+
+/**
+ * Parsed form of an expression, for tools that translate or analyse
+ * expressions instead of evaluating them (type checks, exporters).
+ * Positions are offsets into the expression source.
+ */
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null; position: number }
+  | { type: 'variable'; name: string; position: number }
+  | { type: 'unary'; operator: '!' | '-'; operand: ExpressionNode; position: number }
+  | {
+      type: 'binary';
+      operator: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+      position: number;
+    }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+/**
+ * Binary operators by precedence level, loosest first.
+ */
+const BINARY_LEVELS = [
+  ['||'],
+  ['&&'],
+  ['==', '===', '!=', '!=='],
+  ['<', '<=', '>', '>=', 'in'],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+/**
+ * Binding strength of an operator: higher binds tighter.
+ * Unary operators bind tighter than every binary one.
+ */
+export function getOperatorPrecedence(operator: string, unary = false): number {
+  if (unary) return BINARY_LEVELS.length;
+  return BINARY_LEVELS.findIndex((level) => level.includes(operator));
+}
+
+/**
+ * Builds an ExpressionNode tree over the same grammar as Parser.
+ */
+class TreeBuilder {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  build(): ExpressionNode {
+    const result = this.parseBinary(0);
+    if (this.peek().type !== 'EOF') {
+      throw new ExpressionError(
+        `Unexpected token '${this.peek().value}' at position ${this.peek().position}`,
+        this.peek().position
+      );
+    }
+    return result;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos] ?? { type: 'EOF', value: '', position: -1 };
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    this.pos++;
+    return token;
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level === BINARY_LEVELS.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    while (
+      this.peek().type === 'OPERATOR' &&
+      BINARY_LEVELS[level].includes(this.peek().value as string)
+    ) {
+      const token = this.advance();
+      const right = this.parseBinary(level + 1);
+      left = {
+        type: 'binary',
+        operator: token.value as string,
+        left,
+        right,
+        position: token.position,
+      };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.type === 'OPERATOR' && (token.value === '!' || token.value === '-')) {
+      this.advance();
+      const operand = this.parseUnary();
+      return { type: 'unary', operator: token.value, operand, position: token.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'NUMBER':
+      case 'STRING':
+      case 'BOOLEAN':
+        this.advance();
+        return { type: 'literal', value: token.value, position: token.position };
+
+      case 'IDENTIFIER': {
+        this.advance();
+        const name = token.value as string;
+        if (this.peek().type === 'LPAREN') return this.parseCall(name, token.position);
+        if (name === 'null' || name === 'undefined') {
+          return { type: 'literal', value: null, position: token.position };
+        }
+        return { type: 'variable', name, position: token.position };
+      }
+
+      case 'LPAREN': {
+        this.advance();
+        const node = this.parseBinary(0);
+        this.expectClosingParen();
+        return node;
+      }
+
+      default:
+        throw new ExpressionError(
+          `Unexpected token '${token.value}' at position ${token.position}`,
+          token.position
+        );
+    }
+  }
+
+  private parseCall(name: string, position: number): ExpressionNode {
+    this.advance(); // consume '('
+    const args: ExpressionNode[] = [];
+    if (this.peek().type !== 'RPAREN') {
+      args.push(this.parseBinary(0));
+      while (this.peek().type === 'COMMA') {
+        this.advance();
+        args.push(this.parseBinary(0));
+      }
+    }
+    this.expectClosingParen();
+
+    const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!fn) {
+      throw new ExpressionError(`Unknown function '${name}' at position ${position}`, position);
+    }
+    const [min, max] = fn.arity;
+    if (args.length < min || args.length > max) {
+      const expected =
+        min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+      throw new ExpressionError(
+        `${name}() expects ${expected} argument(s), got ${args.length} at position ${position}`,
+        position
+      );
+    }
+    return { type: 'call', name, args, position };
+  }
+
+  private expectClosingParen(): void {
+    if (this.peek().type !== 'RPAREN') {
+      throw new ExpressionError(
+        `Expected ')' at position ${this.peek().position}`,
+        this.peek().position
+      );
+    }
+    this.advance();
+  }
+}
+
+// =============================================================================
+// Type Inference
+// =============================================================================
+
+/**
+ * Static type of an expression.
+ * `unknown` covers variables of unknown type and operands that may be
+ * either of two types (e.g. `a || b`); nothing is reported against it.
+ */
+export type ExpressionType = VariableType | 'null' | 'unknown';
+
+/**
+ * A problem found while type checking an expression.
+ */
+export interface ExpressionTypeIssue {
+  kind: 'mismatch' | 'undeclared';
+  message: string;
+
+  /** Offset into the expression */
+  position: number;
+
+  /** For undeclared issues, the variable name */
+  variable?: string | undefined;
+}
+
+function isKnownType(type: ExpressionType): boolean {
+  return type !== 'unknown' && type !== 'null';
+}
+
+/**
+ * Compute the type of a tree node, collecting issues along the way.
+ */
+function inferNodeType(
+  node: ExpressionNode,
+  types: Record<string, ExpressionType>,
+  issues: ExpressionTypeIssue[]
+): ExpressionType {
+  const mismatch = (message: string) => {
+    issues.push({
+      kind: 'mismatch',
+      message: `${message} at position ${node.position}`,
+      position: node.position,
+    });
+  };
+
+  switch (node.type) {
+    case 'literal':
+      return node.value === null ? 'null' : (typeof node.value as VariableType);
+
+    case 'variable':
+      if (!Object.prototype.hasOwnProperty.call(types, node.name)) {
+        issues.push({
+          kind: 'undeclared',
+          message: `Undeclared variable '${node.name}' at position ${node.position}`,
+          position: node.position,
+          variable: node.name,
+        });
+        return 'unknown';
+      }
+      return types[node.name];
+
+    case 'unary': {
+      const operand = inferNodeType(node.operand, types, issues);
+      if (node.operator === '!') return 'boolean';
+      if (isKnownType(operand) && operand !== 'number') {
+        mismatch(`'-' needs a number, got ${operand}`);
+      }
+      return 'number';
+    }
+
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      node.args.forEach((argument, index) => {
+        const arg = inferNodeType(argument, types, issues);
+        if (!isKnownType(arg)) return;
+        const expected = fn.params[Math.min(index, fn.params.length - 1)];
+        const ok =
+          expected === 'any' ||
+          expected === arg ||
+          (expected === 'collection' && ['list', 'map', 'string'].includes(arg));
+        if (!ok) {
+          const wanted = expected === 'collection' ? 'a list, map or string' : `a ${expected}`;
+          mismatch(`${node.name}() argument ${index + 1} must be ${wanted}, got ${arg}`);
+        }
+      });
+      return fn.returns;
+    }
+
+    case 'binary': {
+      const { operator: op } = node;
+      const left = inferNodeType(node.left, types, issues);
+      const right = inferNodeType(node.right, types, issues);
+      const needNumbers = () => {
+        if (
+          (isKnownType(left) && left !== 'number') ||
+          (isKnownType(right) && right !== 'number')
+        ) {
+          mismatch(`'${op}' needs numbers, got ${left} and ${right}`);
+        }
+      };
+
+      switch (op) {
+        case '||':
+        case '&&':
+          return left === right ? left : 'unknown';
+        case '==':
+        case '===':
+        case '!=':
+        case '!==':
+          if (isKnownType(left) && isKnownType(right) && left !== right) {
+            mismatch(`'${op}' compares ${left} with ${right}`);
+          }
+          return 'boolean';
+        case 'in':
+          if (isKnownType(right) && right !== 'list' && right !== 'map' && right !== 'string') {
+            mismatch(`'in' needs a list, map or string on the right, got ${right}`);
+          }
+          return 'boolean';
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          needNumbers();
+          return 'boolean';
+        case '+':
+          if (left === 'string' || right === 'string') return 'string';
+          needNumbers();
+          return 'number';
+        default:
+          needNumbers();
+          return 'number';
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Safely evaluate an expression string against a set of variables.
+ *
+ * @param expression - The expression to evaluate
+ * @param variables - Variables available in the expression context
+ * @param options - Evaluation context (e.g. the random source)
+ * @returns The boolean result of the expression (truthy/falsy coerced to boolean)
+ *
+ * @example
+ * ```ts
+ * evaluateExpression('score > 10', { score: 15 }) // true
+ * evaluateExpression('flag === true && coins >= 5', { flag: true, coins: 10 }) // true
+ * evaluateExpression('name == "hero"', { name: 'hero' }) // true
+ * ```
+ */
+export function evaluateExpression(
+  expression: string,
+  variables: Record<string, VariableValue>,
+  options?: ExpressionOptions
+): boolean {
+  try {
+    const tokens = tokenize(expression);
+    const parser = new Parser(tokens, variables, options);
+    const result = parser.parse();
+    return !!result;
+  } catch (_error) {
+    // On parse errors, return false (safe default)
+    // This maintains backward compatibility with the old new Function() behavior
+    return false;
+  }
+}
+
+/**
+ * Evaluate an expression and return its raw value (not coerced to boolean).
+ *
+ * @param expression - The expression to evaluate
+ * @param variables - Variables available in the expression context
+ * @param options - Evaluation context (e.g. the random source)
+ * @returns The result of the expression evaluation
+ * @throws ExpressionError if the expression is invalid
+ */
+export function evaluateExpressionValue(
+  expression: string,
+  variables: Record<string, VariableValue>,
+  options?: ExpressionOptions
+): ExpressionValue {
+  const tokens = tokenize(expression);
+  const parser = new Parser(tokens, variables, options);
+  return parser.parse();
+}
+
+/**
+ * List the variables an expression reads, with their positions.
+ * Function names are not included.
+ *
+ * @throws ExpressionError if the expression cannot be tokenized
+ */
+export function getExpressionVariables(
+  expression: string
+): Array<{ name: string; position: number }> {
+  const tokens = tokenize(expression);
+  const variables: Array<{ name: string; position: number }> = [];
+  tokens.forEach((token, index) => {
+    if (token.type !== 'IDENTIFIER') return;
+    if (token.value === 'null' || token.value === 'undefined') return;
+    if (tokens[index + 1]?.type === 'LPAREN') return;
+    variables.push({ name: token.value as string, position: token.position });
+  });
+  return variables;
+}
+
+/**
+ * Validate an expression without evaluating it.
+ *
+ * @param expression - The expression to validate
+ * @returns true if the expression is syntactically valid
+ */
+export function validateExpression(expression: string): { valid: boolean; error?: string } {
+  try {
+    const tokens = tokenize(expression);
+    // Dry run: check syntax and calls without evaluating any function
+    new Parser(tokens, {}, {}, true).parse();
+    return { valid: true };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Infer the static type of an expression and report operands of the wrong
+ * type and variables missing from `types`.
+ *
+ * @param expression - The expression to check
+ * @param types - Known variables and their types
+ * @throws ExpressionError if the expression is syntactically invalid
+ *
+ * @example
+ * ```ts
+ * inferExpressionType('gold > "ten"', { gold: 'number' })
+ * // { type: 'boolean', issues: [{ kind: 'mismatch', message: "'>' needs numbers, ..." }] }
+ * ```
+ */
+export function inferExpressionType(
+  expression: string,
+  types: Record<string, ExpressionType>
+): { type: ExpressionType; issues: ExpressionTypeIssue[] } {
+  const issues: ExpressionTypeIssue[] = [];
+  const type = inferNodeType(parseExpressionTree(expression), types, issues);
+  return { type, issues };
+}
+
+/**
+ * Parse an expression into a syntax tree without evaluating it.
+ * Calls are checked against the built-ins and their argument counts.
+ *
+ * @throws ExpressionError if the expression is invalid
+ */
+export function parseExpressionTree(expression: string): ExpressionNode {
+  return new TreeBuilder(tokenize(expression)).build();
+}
@@ -6,6 +6,9 @@
 export {
   NodeIdSchema,
   VariableNameSchema,
+  ScalarValueSchema,
+  ListValueSchema,
+  MapValueSchema,
   VariableValueSchema,
   StoryMetaSchema,
   PositionSchema,
@@ -13,7 +16,12 @@ export {
   CURRENT_FORMAT_VERSION,
   type NodeId,
   type VariableName,
+  type ScalarValue,
+  type ListValue,
+  type MapValue,
   type VariableValue,
+  type VariableType,
+  getVariableType,
   type StoryMeta,
   type Position,
   type FormatVersion,
@@ -21,19 +29,25 @@ export {
 
 // Nodes
 export {
+  VariableMutationsSchema,
   ChoiceSchema,
   PassageNodeSchema,
   ChoiceNodeSchema,
   ConditionNodeSchema,
+  RandomBranchSchema,
+  RandomNodeSchema,
   VariableNodeSchema,
   IncludeNodeSchema,
   CommentNodeSchema,
   StoryNodeSchema,
   NODE_TYPES,
+  type VariableMutations,
   type Choice,
   type PassageNode,
   type ChoiceNode,
   type ConditionNode,
+  type RandomBranch,
+  type RandomNode,
   type VariableNode,
   type IncludeNode,
   type CommentNode,
@@ -61,6 +75,15 @@ export {
   type StoryDocument,
 } from './story.js';
 
+// Diff
+export {
+  diffStories,
+  type DiffOptions,
+  type FieldChange,
+  type NodeDiff,
+  type StoryDiff,
+} from './diff.js';
+
 // Services
 export {
   StoryService,
@@ -87,8 +110,79 @@ export {
 export {
   Validator,
   validateStory,
+  validateProject,
+  type ValidatorOptions,
   type Severity,
   type IssueCategory,
   type Issue,
   type ValidationResult,
 } from './validator.js';
+
+// Type checking
+export { getStoryMutations, inferVariableTypes, checkMutationTypes } from './typecheck.js';
+
+// Projects
+export {
+  PROJECT_MANIFEST_FILE,
+  ProjectManifestSchema,
+  StoryProject,
+  parseProjectManifest,
+  type ProjectManifest,
+  type ResolvedInclude,
+  type VariableDeclaration,
+} from './project.js';
+
+// Expressions
+export type {
+  ExpressionNode,
+  ExpressionOptions,
+  ExpressionType,
+  ExpressionTypeIssue,
+} from './expression-parser.js';
+export {
+  evaluateExpression,
+  evaluateExpressionValue,
+  getExpressionVariables,
+  getOperatorPrecedence,
+  inferExpressionType,
+  parseExpressionTree,
+  isPureFunction,
+  validateExpression,
+  ExpressionError,
+} from './expression-parser.js';
+
+// Templates
+export type { TemplatePart, TemplateIssue } from './template.js';
+export {
+  parseTemplate,
+  renderTemplate,
+  validateTemplate,
+  hasTemplateSyntax,
+  TemplateError,
+} from './template.js';
+
+// Story files and qualified node IDs
+export type { StoryLoader, StoryReader } from './loader.js';
+export {
+  createStoryLoader,
+  resolveStoryPath,
+  qualifyNodeId,
+  parseQualifiedNodeId,
+  FILE_SEPARATOR,
+} from './loader.js';
+
+// Translatable strings
+export type {
+  SourceString,
+  StoryTranslation,
+  TranslationEntry,
+  TranslationFileOptions,
+} from './strings.js';
+export {
+  extractStrings,
+  getTranslationKey,
+  hashSourceText,
+  localizeStory,
+  selectTranslation,
+  translateString,
+} from './strings.js';
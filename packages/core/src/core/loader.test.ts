@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createStoryLoader,
+  parseQualifiedNodeId,
+  qualifyNodeId,
+  resolveStoryPath,
+} from './loader.js';
+
+const CHAPTER = `version: "1.0"
+meta:
+  title: Chapter
+nodes:
+  intro:
+    type: passage
+    id: intro
+    start: true
+    content: Chapter intro
+    ending: true
+`;
+
+describe('resolveStoryPath', () => {
+  it('resolves relative to the including file', () => {
+    expect(resolveStoryPath('two.story', 'chapters/one.story')).toBe('chapters/two.story');
+    expect(resolveStoryPath('../main.story', 'chapters/one.story')).toBe('main.story');
+    expect(resolveStoryPath('./a/./b.story', 'root.story')).toBe('a/b.story');
+  });
+
+  it('keeps absolute paths rooted', () => {
+    expect(resolveStoryPath('/stories/a.story', 'x/y.story')).toBe('/stories/a.story');
+    expect(resolveStoryPath('b.story', '/stories/a.story')).toBe('/stories/b.story');
+  });
+
+  it('normalizes backslashes', () => {
+    expect(resolveStoryPath('chapters\\two.story', null)).toBe('chapters/two.story');
+  });
+});
+
+describe('qualified node ids', () => {
+  it('round-trips file and node', () => {
+    const id = qualifyNodeId('chapters/two.story', 'intro');
+    expect(id).toBe('chapters/two.story#intro');
+    expect(parseQualifiedNodeId(id)).toEqual({ file: 'chapters/two.story', nodeId: 'intro' });
+  });
+
+  it('leaves root story ids unqualified', () => {
+    expect(qualifyNodeId(null, 'intro')).toBe('intro');
+    expect(parseQualifiedNodeId('intro')).toEqual({ file: undefined, nodeId: 'intro' });
+  });
+});
+
+describe('createStoryLoader', () => {
+  it('parses once and caches by path', () => {
+    let reads = 0;
+    const loader = createStoryLoader(() => {
+      reads++;
+      return CHAPTER;
+    });
+    const first = loader.load('chapter.story');
+    const second = loader.load('chapter.story');
+    expect(first).toBe(second);
+    expect(reads).toBe(1);
+
+    loader.clear();
+    loader.load('chapter.story');
+    expect(reads).toBe(2);
+  });
+
+  it('propagates read failures', () => {
+    const loader = createStoryLoader((file) => {
+      throw new Error(`ENOENT: ${file}`);
+    });
+    expect(() => loader.load('missing.story')).toThrow('ENOENT');
+  });
+});
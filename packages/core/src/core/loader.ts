@@ -0,0 +1,137 @@
+/**
+ * Story Loader
+ *
+ * Resolves and loads the external .story files referenced by include nodes.
+ * The loader is storage-agnostic: callers supply a `read` function (file
+ * system, fetch cache, in-memory map) so the runtime stays usable in the
+ * browser. Parsed stories are cached by resolved path.
+ */
+
+import type { Story } from './story.js';
+import { parseToStory } from './serializer.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Reads the raw YAML content of a resolved story path.
+ * Should throw if the file does not exist.
+ */
+export type StoryReader = (file: string) => string;
+
+/**
+ * Resolves include paths and loads the stories they point to.
+ */
+export interface StoryLoader {
+  /**
+   * Resolve an include path relative to the file containing the include node.
+   *
+   * @param path - The `path` field of the include node
+   * @param fromFile - Resolved path of the including file, or null for an unnamed root story
+   * @returns A normalized path used as the file's identity
+   */
+  resolve(path: string, fromFile: string | null): string;
+
+  /**
+   * Load a story by resolved path. Implementations should cache results.
+   *
+   * @throws Error if the file cannot be read or parsed
+   */
+  load(file: string): Story;
+}
+
+// =============================================================================
+// Qualified Node IDs
+// =============================================================================
+
+/**
+ * Separator between a file path and a node ID in qualified IDs.
+ * Node IDs cannot contain '#', so the split is unambiguous.
+ */
+export const FILE_SEPARATOR = '#';
+
+/**
+ * Namespace a node ID with the file it belongs to.
+ * Nodes of the root story (file === null) keep their plain ID.
+ *
+ * @example
+ * ```ts
+ * qualifyNodeId('chapters/two.story', 'intro') // 'chapters/two.story#intro'
+ * qualifyNodeId(null, 'intro') // 'intro'
+ * ```
+ */
+export function qualifyNodeId(file: string | null, nodeId: string): string {
+  return file ? `${file}${FILE_SEPARATOR}${nodeId}` : nodeId;
+}
+
+/**
+ * Split a possibly-qualified node ID into file and node parts.
+ * Unqualified IDs return `file: undefined` so callers can apply their own default.
+ */
+export function parseQualifiedNodeId(id: string): { file: string | undefined; nodeId: string } {
+  const index = id.lastIndexOf(FILE_SEPARATOR);
+  if (index === -1) return { file: undefined, nodeId: id };
+  return { file: id.slice(0, index), nodeId: id.slice(index + 1) };
+}
+
+// =============================================================================
+// Path Resolution
+// =============================================================================
+
+/**
+ * Resolve `path` against the directory of `fromFile` using POSIX semantics.
+ * Backslashes are normalized so Windows-authored includes resolve the same way.
+ */
+export function resolveStoryPath(path: string, fromFile: string | null): string {
+  const normalized = path.replace(/\\/g, '/');
+  const isAbsolute = normalized.startsWith('/');
+  const base = !isAbsolute && fromFile ? fromFile.replace(/\\/g, '/').split('/').slice(0, -1) : [];
+  const rooted = isAbsolute || (base.length > 0 && base[0] === '');
+  const segments: string[] = [];
+
+  for (const segment of [...base, ...normalized.split('/')]) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+
+  const joined = segments.join('/');
+  return rooted ? `/${joined}` : joined;
+}
+
+// =============================================================================
+// Default Loader
+// =============================================================================
+
+/**
+ * Create a caching loader backed by a `read` function.
+ *
+ * @example
+ * ```ts
+ * const loader = createStoryLoader((file) => fs.readFileSync(file, 'utf-8'));
+ * const rt = createRuntime(story, { loader, storyPath: 'stories/main.story' });
+ * ```
+ */
+export function createStoryLoader(read: StoryReader): StoryLoader & { clear(): void } {
+  const cache = new Map<string, Story>();
+
+  return {
+    resolve: resolveStoryPath,
+
+    load(file: string): Story {
+      const cached = cache.get(file);
+      if (cached) return cached;
+      const story = parseToStory(read(file));
+      cache.set(file, story);
+      return story;
+    },
+
+    clear(): void {
+      cache.clear();
+    },
+  };
+}
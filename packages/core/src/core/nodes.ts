@@ -6,7 +6,44 @@
  */
 
 import { z } from 'zod';
-import { NodeIdSchema, PositionSchema, VariableNameSchema, VariableValueSchema } from './types.js';
+import {
+  ListValueSchema,
+  NodeIdSchema,
+  PositionSchema,
+  ScalarValueSchema,
+  VariableNameSchema,
+  VariableValueSchema,
+} from './types.js';
+
+// =============================================================================
+// Variable Mutations - Shared by variable nodes and choices
+// =============================================================================
+
+/**
+ * State changes applied in order: set, increment, decrement, add, remove,
+ * then clear.
+ */
+export const VariableMutationsSchema = z.object({
+  /** Variable assignments to make */
+  set: z.record(VariableNameSchema, VariableValueSchema).optional(),
+
+  /** Variables to increment (by 1 or specified amount) */
+  increment: z.record(VariableNameSchema, z.number()).optional(),
+
+  /** Variables to decrement (by 1 or specified amount) */
+  decrement: z.record(VariableNameSchema, z.number()).optional(),
+
+  /** Items to add to lists (a value or list of values) or entries to merge into maps */
+  add: z.record(VariableNameSchema, VariableValueSchema).optional(),
+
+  /** Items to remove from lists or keys to remove from maps */
+  remove: z.record(VariableNameSchema, z.union([ScalarValueSchema, ListValueSchema])).optional(),
+
+  /** Lists and maps to empty */
+  clear: z.array(VariableNameSchema).optional(),
+});
+
+export type VariableMutations = z.infer<typeof VariableMutationsSchema>;
 
 // =============================================================================
 // Choice - A single option within a passage or choice node
@@ -28,6 +65,9 @@ export const ChoiceSchema = z.object({
 
   /** Whether selecting this choice should be tracked (for analytics) */
   tracked: z.boolean().optional(),
+
+  /** State changes applied when the reader takes this choice */
+  ...VariableMutationsSchema.shape,
 });
 
 export type Choice = z.infer<typeof ChoiceSchema>;
@@ -67,6 +107,9 @@ export const PassageNodeSchema = BaseNodeSchema.extend({
   /** The narrative content shown to the reader */
   content: z.string().min(1).max(65536),
 
+  /** Character who speaks the content; paragraphs starting with `NAME:` name their own */
+  speaker: z.string().min(1).max(64).optional(),
+
   /** Choices available after reading this passage */
   choices: z.array(ChoiceSchema).min(0).max(20).optional(),
 
@@ -122,6 +165,39 @@ export const ConditionNodeSchema = BaseNodeSchema.extend({
 
 export type ConditionNode = z.infer<typeof ConditionNodeSchema>;
 
+// -----------------------------------------------------------------------------
+// Random Node - Weighted random branch
+// -----------------------------------------------------------------------------
+
+/**
+ * One outcome of a random node.
+ */
+export const RandomBranchSchema = z.object({
+  /** Target node if this branch is picked */
+  target: NodeIdSchema,
+
+  /** Relative weight (defaults to 1) */
+  weight: z.number().positive().max(1_000_000).optional(),
+
+  /** Optional label shown in the editor and graph */
+  label: z.string().max(256).optional(),
+});
+
+export type RandomBranch = z.infer<typeof RandomBranchSchema>;
+
+/**
+ * A random node picks one branch with probability proportional to its weight.
+ * Picks come from the runtime's seeded PRNG, so replays are deterministic.
+ */
+export const RandomNodeSchema = BaseNodeSchema.extend({
+  type: z.literal('random'),
+
+  /** The possible outcomes */
+  branches: z.array(RandomBranchSchema).min(1).max(20),
+});
+
+export type RandomNode = z.infer<typeof RandomNodeSchema>;
+
 // -----------------------------------------------------------------------------
 // Variable Node - Set or modify state
 // -----------------------------------------------------------------------------
@@ -133,14 +209,8 @@ export type ConditionNode = z.infer<typeof ConditionNodeSchema>;
 export const VariableNodeSchema = BaseNodeSchema.extend({
   type: z.literal('variable'),
 
-  /** Variable assignments to make */
-  set: z.record(VariableNameSchema, VariableValueSchema).optional(),
-
-  /** Variables to increment (by 1 or specified amount) */
-  increment: z.record(VariableNameSchema, z.number()).optional(),
-
-  /** Variables to decrement (by 1 or specified amount) */
-  decrement: z.record(VariableNameSchema, z.number()).optional(),
+  /** Variable operations to apply */
+  ...VariableMutationsSchema.shape,
 
   /** Target node after variable operations */
   next: NodeIdSchema,
@@ -199,6 +269,7 @@ export const StoryNodeSchema = z.discriminatedUnion('type', [
   PassageNodeSchema,
   ChoiceNodeSchema,
   ConditionNodeSchema,
+  RandomNodeSchema,
   VariableNodeSchema,
   IncludeNodeSchema,
   CommentNodeSchema,
@@ -213,6 +284,7 @@ export const NODE_TYPES = [
   'passage',
   'choice',
   'condition',
+  'random',
   'variable',
   'include',
   'comment',
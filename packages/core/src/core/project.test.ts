@@ -0,0 +1,176 @@
+/**
+ * Tests for multi-file story projects
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StoryProject, parseProjectManifest } from './project.js';
+import { ParseError, ValidationError } from './serializer.js';
+import { validateProject } from './validator.js';
+import { createRuntime, start, choose } from '../runtime/runtime.js';
+
+const MANIFEST = `version: "1.0"
+meta:
+  title: Chaptered
+chapters:
+  - chapters/one.story
+  - chapters/two.story
+variables:
+  gold: 0
+`;
+
+const CHAPTER_ONE = `version: "1.0"
+meta:
+  title: One
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Chapter one begins.
+    choices:
+      - text: On to chapter two
+        target: to_two
+  to_two:
+    type: include
+    id: to_two
+    path: two.story
+    return: finale
+  finale:
+    type: passage
+    id: finale
+    content: Back in chapter one.
+    ending: true
+`;
+
+const CHAPTER_TWO = `version: "1.0"
+meta:
+  title: Two
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Chapter two begins.
+    ending: true
+`;
+
+function load(files: Record<string, string>): StoryProject {
+  return StoryProject.load('project/story.project.yaml', (file) => {
+    const content = files[file];
+    if (content === undefined) throw new Error(`ENOENT: ${file}`);
+    return content;
+  });
+}
+
+const FILES = {
+  'project/story.project.yaml': MANIFEST,
+  'project/chapters/one.story': CHAPTER_ONE,
+  'project/chapters/two.story': CHAPTER_TWO,
+};
+
+describe('parseProjectManifest', () => {
+  it('parses a valid manifest', () => {
+    const manifest = parseProjectManifest(MANIFEST);
+    expect(manifest.chapters).toEqual(['chapters/one.story', 'chapters/two.story']);
+    expect(manifest.variables).toEqual({ gold: 0 });
+  });
+
+  it('rejects manifests without chapters', () => {
+    expect(() => parseProjectManifest('version: "1.0"\nmeta:\n  title: X\nchapters: []\n')).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('StoryProject', () => {
+  it('loads chapters relative to the manifest', () => {
+    const project = load(FILES);
+    expect(project.getChapterFiles()).toEqual([
+      'project/chapters/one.story',
+      'project/chapters/two.story',
+    ]);
+    expect(project.entryFile).toBe('project/chapters/one.story');
+    expect(project.getEntryChapter().meta.title).toBe('One');
+  });
+
+  it('names the file in parse errors', () => {
+    expect(() => load({ ...FILES, 'project/chapters/two.story': 'nodes: [' })).toThrow(
+      /project\/chapters\/two\.story: YAML syntax error/
+    );
+    expect(() => load({ ...FILES, 'project/chapters/two.story': 'nodes: [' })).toThrow(ParseError);
+  });
+
+  it('builds a combined graph with namespaced nodes', () => {
+    const story = load(FILES).toStory();
+    expect(story.meta.title).toBe('Chaptered');
+    expect(story.getStartNode()?.id).toBe('project/chapters/one.story#start');
+    expect(story.getNodesByType('passage').filter((p) => p.start)).toHaveLength(1);
+
+    const include = story.getNode('project/chapters/one.story#to_two');
+    expect(include).toMatchObject({
+      type: 'include',
+      path: 'project/chapters/two.story',
+      entry: 'project/chapters/two.story#start',
+      return: 'project/chapters/one.story#finale',
+    });
+  });
+
+  it('serves chapters to the runtime', () => {
+    const project = load(FILES);
+    const rt = createRuntime(project.getEntryChapter(), {
+      loader: project.createLoader(),
+      storyPath: project.entryFile,
+    });
+    const [toTwo] = start(rt).frame!.choices;
+    const frame = choose(rt, toTwo.id).frame!;
+    expect(frame.nodeId).toBe('finale');
+  });
+});
+
+describe('validateProject', () => {
+  it('accepts a consistent project', () => {
+    const result = validateProject(load(FILES));
+    expect(result.valid).toBe(true);
+    expect(result.issues.map((i) => i.code)).not.toContain('UNREACHABLE_NODE');
+  });
+
+  it('reports broken cross-file include targets', () => {
+    const broken = CHAPTER_ONE.replace('path: two.story', 'path: three.story');
+    const result = validateProject(load({ ...FILES, 'project/chapters/one.story': broken }));
+    const issue = result.issues.find((i) => i.code === 'BROKEN_INCLUDE_TARGET');
+    expect(issue?.nodeId).toBe('project/chapters/one.story#to_two');
+    expect(result.valid).toBe(false);
+  });
+
+  it('reports missing include entry nodes', () => {
+    const broken = CHAPTER_ONE.replace('path: two.story', 'path: two.story\n    entry: nowhere');
+    const result = validateProject(load({ ...FILES, 'project/chapters/one.story': broken }));
+    const issue = result.issues.find((i) => i.code === 'BROKEN_INCLUDE_TARGET');
+    expect(issue?.message).toContain("'nowhere'");
+  });
+
+  it('reports unreachable chapters once', () => {
+    const manifest = MANIFEST.replace(
+      '  - chapters/two.story',
+      '  - chapters/two.story\n  - chapters/orphan.story'
+    );
+    const result = validateProject(
+      load({
+        ...FILES,
+        'project/story.project.yaml': manifest,
+        'project/chapters/orphan.story': CHAPTER_TWO,
+      })
+    );
+    const codes = result.issues.map((i) => i.code);
+    expect(codes).toContain('UNREACHABLE_CHAPTER');
+    expect(codes).not.toContain('UNREACHABLE_NODE');
+  });
+
+  it('reports duplicate variable declarations', () => {
+    const chapter = CHAPTER_TWO.replace('nodes:', 'variables:\n  gold: 10\nnodes:');
+    const result = validateProject(load({ ...FILES, 'project/chapters/two.story': chapter }));
+    const issue = result.issues.find((i) => i.code === 'DUPLICATE_VARIABLE');
+    expect(issue?.message).toContain('conflicting');
+    expect(issue?.details?.variable).toBe('gold');
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Multi-file Story Projects for StoryGraph
+ *
+ * A project splits one narrative across several .story files (chapters)
+ * listed in a manifest, usually `story.project.yaml`. The manifest holds
+ * the shared metadata and variables; chapters are ordinary story documents
+ * that reach each other through include nodes.
+ */
+
+import { z } from 'zod';
+import {
+  FormatVersionSchema,
+  StoryMetaSchema,
+  type StoryMeta,
+  type VariableValue,
+} from './types.js';
+import type { IncludeNode, StoryNode } from './nodes.js';
+import { Story, StoryVariablesSchema } from './story.js';
+import {
+  ParseError,
+  ValidationError,
+  loadYaml,
+  parseToStory,
+  toValidationIssues,
+} from './serializer.js';
+import { qualifyNodeId, resolveStoryPath, type StoryLoader, type StoryReader } from './loader.js';
+
+// =============================================================================
+// Manifest Schema
+// =============================================================================
+
+/**
+ * Default manifest file name looked up in project directories.
+ */
+export const PROJECT_MANIFEST_FILE = 'story.project.yaml';
+
+/**
+ * The project manifest as stored in story.project.yaml.
+ */
+export const ProjectManifestSchema = z.object({
+  /** File format version for compatibility */
+  version: FormatVersionSchema,
+
+  /** Project metadata (used for the combined story) */
+  meta: StoryMetaSchema,
+
+  /** Chapter the story starts in (defaults to the first chapter) */
+  entry: z.string().min(1).max(256).optional(),
+
+  /** Chapter files, relative to the manifest */
+  chapters: z.array(z.string().min(1).max(256)).min(1).max(500),
+
+  /** Variables shared by every chapter */
+  variables: StoryVariablesSchema.optional(),
+});
+
+export type ProjectManifest = z.infer<typeof ProjectManifestSchema>;
+
+/**
+ * Parse a manifest YAML string.
+ *
+ * @throws ParseError if YAML syntax is invalid
+ * @throws ValidationError if the manifest doesn't match the schema
+ */
+export function parseProjectManifest(content: string): ProjectManifest {
+  const result = ProjectManifestSchema.safeParse(loadYaml(content));
+
+  if (!result.success) {
+    throw new ValidationError(
+      `Invalid project manifest: ${result.error.issues.length} validation error(s)`,
+      toValidationIssues(result.error)
+    );
+  }
+
+  return result.data;
+}
+
+// =============================================================================
+// Project Types
+// =============================================================================
+
+/**
+ * Where an include node leads within a project.
+ */
+export interface ResolvedInclude {
+  /** Resolved path of the included file */
+  file: string;
+
+  /** The included chapter, if the file is part of the project */
+  chapter: Story | undefined;
+
+  /** Entry node ID in the included chapter (explicit or its start node) */
+  entry: string | undefined;
+}
+
+/**
+ * A variable declaration and where it came from.
+ */
+export interface VariableDeclaration {
+  name: string;
+  value: VariableValue;
+
+  /** Manifest or chapter path that declares the variable */
+  source: string;
+}
+
+// =============================================================================
+// StoryProject Class
+// =============================================================================
+
+/**
+ * A loaded multi-file project.
+ * Chapters are keyed by their path resolved against the manifest path.
+ */
+export class StoryProject {
+  /** Resolved path of the entry chapter */
+  readonly entryFile: string;
+
+  constructor(
+    readonly manifest: ProjectManifest,
+    readonly manifestPath: string,
+    private readonly chapters: Map<string, Story>
+  ) {
+    this.entryFile = resolveStoryPath(manifest.entry ?? manifest.chapters[0], manifestPath);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Factory Methods
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Load a manifest and every chapter it lists.
+   *
+   * @param manifestPath - Path of the manifest; chapter paths resolve against it
+   * @param read - Reads a file's content (throws if missing)
+   * @throws ParseError or ValidationError naming the offending file
+   */
+  static load(manifestPath: string, read: StoryReader): StoryProject {
+    const manifest = withFileContext(manifestPath, () => parseProjectManifest(read(manifestPath)));
+
+    const chapters = new Map<string, Story>();
+    for (const chapter of manifest.chapters) {
+      const file = resolveStoryPath(chapter, manifestPath);
+      chapters.set(
+        file,
+        withFileContext(file, () => parseToStory(read(file)))
+      );
+    }
+
+    const project = new StoryProject(manifest, manifestPath, chapters);
+    if (!chapters.has(project.entryFile)) {
+      throw new ValidationError(`${manifestPath}: Invalid project manifest`, [
+        {
+          path: 'entry',
+          message: `Entry '${manifest.entry}' is not listed in chapters`,
+          code: 'custom',
+        },
+      ]);
+    }
+    return project;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Chapter Access
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Project metadata from the manifest.
+   */
+  get meta(): StoryMeta {
+    return this.manifest.meta;
+  }
+
+  /**
+   * Resolved chapter paths in manifest order.
+   */
+  getChapterFiles(): string[] {
+    return Array.from(this.chapters.keys());
+  }
+
+  /**
+   * Get a chapter by resolved path.
+   */
+  getChapter(file: string): Story | undefined {
+    return this.chapters.get(file);
+  }
+
+  /**
+   * Get the chapter the story starts in.
+   */
+  getEntryChapter(): Story {
+    const chapter = this.chapters.get(this.entryFile);
+    if (!chapter) {
+      throw new Error(`Entry chapter '${this.entryFile}' is not loaded`);
+    }
+    return chapter;
+  }
+
+  /**
+   * Resolve where an include node in `fromFile` leads.
+   */
+  resolveInclude(fromFile: string, node: IncludeNode): ResolvedInclude {
+    const file = resolveStoryPath(node.path, fromFile);
+    const chapter = this.chapters.get(file);
+    return { file, chapter, entry: node.entry ?? chapter?.getStartNode()?.id };
+  }
+
+  /**
+   * List every variable declaration: shared ones first, then per chapter.
+   */
+  getVariableDeclarations(): VariableDeclaration[] {
+    const declarations: VariableDeclaration[] = [];
+    for (const [name, value] of Object.entries(this.manifest.variables ?? {})) {
+      declarations.push({ name, value, source: this.manifestPath });
+    }
+    for (const [file, chapter] of this.chapters) {
+      for (const [name, value] of chapter.variables) {
+        declarations.push({ name, value, source: file });
+      }
+    }
+    return declarations;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Combined Graph
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Build one story containing every chapter's nodes.
+   *
+   * Node IDs are namespaced as `<file>#<id>` and all targets rewritten to
+   * match. Include nodes get their resolved file as `path` and a namespaced
+   * `entry`, so graph checks can follow them across files. Only the entry
+   * chapter keeps its start flag. Shared variables take precedence over
+   * chapter declarations.
+   */
+  toStory(): Story {
+    const nodes: Record<string, StoryNode> = {};
+    for (const [file, chapter] of this.chapters) {
+      for (const node of chapter.getAllNodes()) {
+        const qualified = this.qualifyNode(file, node);
+        nodes[qualified.id] = qualified;
+      }
+    }
+
+    const variables: Record<string, VariableValue> = {};
+    for (const declaration of this.getVariableDeclarations()) {
+      if (!(declaration.name in variables)) {
+        variables[declaration.name] = declaration.value;
+      }
+    }
+
+    return new Story({
+      version: this.manifest.version,
+      meta: { ...this.manifest.meta },
+      variables,
+      nodes,
+    });
+  }
+
+  /**
+   * Create a runtime loader that serves this project's chapters.
+   */
+  createLoader(): StoryLoader {
+    return {
+      resolve: resolveStoryPath,
+      load: (file: string): Story => {
+        const chapter = this.chapters.get(file);
+        if (!chapter) {
+          throw new Error(`'${file}' is not a chapter of this project`);
+        }
+        return chapter;
+      },
+    };
+  }
+
+  private qualifyNode(file: string, node: StoryNode): StoryNode {
+    const q = (id: string) => qualifyNodeId(file, id);
+    const id = q(node.id);
+
+    switch (node.type) {
+      case 'passage': {
+        const { start, ...rest } = node;
+        return {
+          ...rest,
+          ...(start && file === this.entryFile ? { start } : {}),
+          id,
+          ...(node.choices
+            ? { choices: node.choices.map((c) => ({ ...c, target: q(c.target) })) }
+            : {}),
+        };
+      }
+      case 'choice':
+        return {
+          ...node,
+          id,
+          choices: node.choices.map((c) => ({ ...c, target: q(c.target) })),
+        };
+      case 'condition':
+        return { ...node, id, ifTrue: q(node.ifTrue), ifFalse: q(node.ifFalse) };
+      case 'random':
+        return {
+          ...node,
+          id,
+          branches: node.branches.map((b) => ({ ...b, target: q(b.target) })),
+        };
+      case 'variable':
+        return { ...node, id, next: q(node.next) };
+      case 'include': {
+        const resolved = this.resolveInclude(file, node);
+        const { entry: _entry, return: returnTo, ...rest } = node;
+        return {
+          ...rest,
+          id,
+          path: resolved.file,
+          ...(resolved.entry ? { entry: qualifyNodeId(resolved.file, resolved.entry) } : {}),
+          ...(returnTo ? { return: q(returnTo) } : {}),
+        };
+      }
+      case 'comment':
+        return { ...node, id };
+    }
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Prefix parse and validation errors with the file they came from.
+ */
+function withFileContext<T>(file: string, fn: () => T): T {
+  try {
+    return fn();
+  } catch (error) {
+    if (error instanceof ParseError) {
+      throw new ParseError(`${file}: ${error.message}`, error.line, error.column);
+    }
+    if (error instanceof ValidationError) {
+      throw new ValidationError(`${file}: ${error.message}`, error.issues);
+    }
+    throw error;
+  }
+}
@@ -6,6 +6,7 @@
  */
 
 import * as yaml from 'js-yaml';
+import type { z } from 'zod';
 import { StoryDocumentSchema, type StoryDocument } from './story.js';
 import { Story } from './story.js';
 
@@ -62,10 +63,29 @@ export interface ValidationIssue {
  * @throws ValidationError if document doesn't match schema
  */
 export function parseStory(content: string): StoryDocument {
-  // Parse YAML
-  let data: unknown;
+  const data = loadYaml(content);
+
+  // Validate against schema
+  const result = StoryDocumentSchema.safeParse(data);
+
+  if (!result.success) {
+    throw new ValidationError(
+      `Invalid story document: ${result.error.issues.length} validation error(s)`,
+      toValidationIssues(result.error)
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Load YAML with the JSON-compatible schema used by all StoryGraph files.
+ *
+ * @throws ParseError if YAML syntax is invalid
+ */
+export function loadYaml(content: string): unknown {
   try {
-    data = yaml.load(content, {
+    return yaml.load(content, {
       schema: yaml.JSON_SCHEMA,
       onWarning: (warning) => {
         console.warn('YAML warning:', warning.message);
@@ -81,24 +101,17 @@ export function parseStory(content: string): StoryDocument {
     }
     throw error;
   }
+}
 
-  // Validate against schema
-  const result = StoryDocumentSchema.safeParse(data);
-
-  if (!result.success) {
-    const issues: ValidationIssue[] = result.error.issues.map((issue) => ({
-      path: issue.path.join('.'),
-      message: issue.message,
-      code: issue.code,
-    }));
-
-    throw new ValidationError(
-      `Invalid story document: ${issues.length} validation error(s)`,
-      issues
-    );
-  }
-
-  return result.data;
+/**
+ * Convert Zod issues into serializable validation issues.
+ */
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+    code: issue.code,
+  }));
 }
 
 /**
@@ -209,6 +209,38 @@ describe('Story', () => {
       expect(edges.find(e => e.branch === 'false')?.target).toBe('locked');
     });
 
+    it('surfaces choice effects on edges', () => {
+      const story = Story.create('Test');
+
+      story.setNode({
+        id: 'shop',
+        type: 'passage',
+        content: 'Shop',
+        choices: [{ text: 'Buy', target: 'done', set: { sword: true }, decrement: { gold: 5 } }],
+      });
+
+      const [edge] = story.getEdges();
+      expect(edge.set).toEqual({ sword: true });
+      expect(edge.decrement).toEqual({ gold: 5 });
+      expect(edge).not.toHaveProperty('increment');
+    });
+
+    it('extracts weighted edges from random nodes', () => {
+      const story = Story.create('Test');
+
+      story.setNode({
+        id: 'roll',
+        type: 'random',
+        branches: [{ target: 'hit', weight: 3, label: 'hit' }, { target: 'miss' }],
+      });
+
+      const edges = story.getEdges();
+      expect(edges.map(e => [e.type, e.target, e.weight])).toEqual([
+        ['random', 'hit', 3],
+        ['random', 'miss', 1],
+      ]);
+    });
+
     it('caches edges', () => {
       const story = Story.create('Test');
 
@@ -284,4 +316,25 @@ describe('Serialization roundtrip', () => {
     expect(restored.getStartNode()?.id).toBe('start');
     expect(restored.getEndingNodes().length).toBe(1);
   });
+
+  it('preserves list and map variables and operations', () => {
+    const original = Story.create('Collections');
+    original.variables.set('inventory', ['rope', 'lamp']);
+    original.variables.set('trust', { bob: 0, alice: 2 });
+    original.setNode({
+      id: 'start',
+      type: 'variable',
+      add: { inventory: 'tent', trust: { carol: 1 } },
+      remove: { inventory: ['rope'] },
+      clear: ['trust'],
+      next: 'start',
+    });
+
+    const restored = parseToStory(serializeStoryInstance(original));
+    expect(Object.fromEntries(restored.variables)).toEqual({
+      inventory: ['rope', 'lamp'],
+      trust: { alice: 2, bob: 0 },
+    });
+    expect(restored.getNode('start')).toEqual(original.getNode('start'));
+  });
 });
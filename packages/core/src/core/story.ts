@@ -9,6 +9,7 @@ import { z } from 'zod';
 import {
   StoryMetaSchema,
   FormatVersionSchema,
+  VariableValueSchema,
   CURRENT_FORMAT_VERSION,
   type StoryMeta,
   type FormatVersion,
@@ -28,7 +29,7 @@ import { extractAllEdges, type Edge } from './edges.js';
  */
 export const StoryVariablesSchema = z.record(
   z.string().regex(/^[a-z][a-z0-9_]*$/),
-  z.union([z.string(), z.number(), z.boolean()])
+  VariableValueSchema
 );
 
 export type StoryVariables = z.infer<typeof StoryVariablesSchema>;
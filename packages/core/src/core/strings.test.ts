@@ -0,0 +1,100 @@
+/**
+ * Tests for translatable strings and translation overlays
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from './serializer.js';
+import {
+  extractStrings,
+  hashSourceText,
+  localizeStory,
+  selectTranslation,
+  type StoryTranslation,
+} from './strings.js';
+
+const STORY = `version: "1.0"
+meta:
+  title: The Inn
+  language: en
+nodes:
+  hall:
+    type: passage
+    id: hall
+    start: true
+    content: "You have {gold} gold."
+    choices:
+      - text: Ask for a room
+        target: ask
+      - text: Leave
+        target: hall
+  ask:
+    type: choice
+    id: ask
+    prompt: How long?
+    choices:
+      - text: One night
+        target: hall
+  check:
+    type: condition
+    id: check
+    expression: "true"
+    ifTrue: hall
+    ifFalse: ask
+`;
+
+describe('extractStrings', () => {
+  it('keys every content, prompt and choice text by node ID', () => {
+    const strings = extractStrings(parseToStory(STORY));
+    expect(strings.map((s) => [s.key, s.text])).toEqual([
+      ['hall.content', 'You have {gold} gold.'],
+      ['hall.choices.0', 'Ask for a room'],
+      ['hall.choices.1', 'Leave'],
+      ['ask.prompt', 'How long?'],
+      ['ask.choices.0', 'One night'],
+    ]);
+    expect(strings[0]).toMatchObject({ nodeId: 'hall', field: 'content' });
+    expect(strings[0].hash).toBe(hashSourceText('You have {gold} gold.'));
+  });
+
+  it('hashes text to eight stable hex digits', () => {
+    expect(hashSourceText('Leave')).toMatch(/^[0-9a-f]{8}$/);
+    expect(hashSourceText('Leave')).toBe(hashSourceText('Leave'));
+    expect(hashSourceText('Leave')).not.toBe(hashSourceText('Leave!'));
+  });
+});
+
+describe('localizeStory', () => {
+  const story = parseToStory(STORY);
+  const french: StoryTranslation = {
+    locale: 'fr',
+    entries: {
+      'hall.content': {
+        text: 'Vous avez {gold} pièces.',
+        sourceHash: hashSourceText('You have {gold} gold.'),
+      },
+      'hall.choices.1': { text: 'Partir', sourceHash: hashSourceText('Go away') },
+      'ask.prompt': { text: 'Combien de temps ?', sourceHash: hashSourceText('How long?') },
+    },
+  };
+
+  it('lays current translations over the text and keeps the rest', () => {
+    const localized = localizeStory(story, french);
+    expect(localized.meta.language).toBe('fr');
+    expect(localized.getAllNodeIds()).toEqual(['hall', 'ask', 'check']);
+    expect(localized.getNode('hall')).toMatchObject({
+      content: 'Vous avez {gold} pièces.',
+      // Stale: translated from 'Go away', so the source text stays
+      choices: [{ text: 'Ask for a room' }, { text: 'Leave' }],
+    });
+    expect(localized.getNode('ask')).toMatchObject({ prompt: 'Combien de temps ?' });
+    expect(story.getNode('hall')).toMatchObject({ content: 'You have {gold} gold.' });
+  });
+
+  it('selects a translation by locale or language', () => {
+    const brazil = { locale: 'pt-BR', entries: {} };
+    expect(selectTranslation([brazil, french], 'fr')).toBe(french);
+    expect(selectTranslation([brazil, french], 'fr-CA')).toBe(french);
+    expect(selectTranslation([brazil, french], 'pt')).toBe(brazil);
+    expect(selectTranslation([brazil, french], 'de')).toBeUndefined();
+  });
+});
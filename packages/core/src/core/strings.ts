@@ -0,0 +1,166 @@
+/**
+ * Translatable strings of a story and translation overlays.
+ *
+ * Every passage content, choice prompt and choice text gets a key derived
+ * from its node ID (`intro.content`, `intro.prompt`, `intro.choices.0`).
+ * A translation maps those keys to translated text plus a hash of the
+ * source text it was translated from, so edits to the source show up as
+ * stale translations instead of silently mismatched ones.
+ */
+
+import { Story } from './story.js';
+import type { StoryNode } from './nodes.js';
+
+/**
+ * One piece of display text in the source story.
+ */
+export interface SourceString {
+  /** Stable key derived from the node ID and field */
+  key: string;
+  nodeId: string;
+  /** Where on the node the text lives: `content`, `prompt` or `choices.<index>` */
+  field: string;
+  text: string;
+  /** Hash of `text`; see hashSourceText */
+  hash: string;
+}
+
+export interface TranslationEntry {
+  text: string;
+  /** Hash of the source text this translation was made from */
+  sourceHash: string;
+}
+
+/**
+ * Translated text for one locale, keyed like SourceString.key.
+ * Keys without an entry fall back to the source text.
+ */
+export interface StoryTranslation {
+  /** BCP 47 tag of the translation, e.g. `fr` or `pt-BR` */
+  locale: string;
+  entries: Record<string, TranslationEntry>;
+}
+
+export interface TranslationFileOptions {
+  /** Target locale; omit to write an empty template */
+  locale?: string | undefined;
+  /** Existing translation to fill in; stale entries are marked for review */
+  translation?: StoryTranslation | undefined;
+}
+
+/**
+ * Hash of a source text: FNV-1a over its code points, as 8 hex digits.
+ */
+export function hashSourceText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (const char of text) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Translation key for a field of a node.
+ */
+export function getTranslationKey(nodeId: string, field: string): string {
+  return `${nodeId}.${field}`;
+}
+
+/**
+ * All translatable strings of a story, in node order. Empty prompts are
+ * skipped; comment nodes and logic nodes have no display text.
+ */
+export function extractStrings(story: Story): SourceString[] {
+  const strings: SourceString[] = [];
+  const push = (nodeId: string, field: string, text: string) => {
+    strings.push({
+      key: getTranslationKey(nodeId, field),
+      nodeId,
+      field,
+      text,
+      hash: hashSourceText(text),
+    });
+  };
+
+  for (const node of story.getAllNodes()) {
+    if (node.type === 'passage') push(node.id, 'content', node.content);
+    if (node.type === 'choice' && node.prompt) push(node.id, 'prompt', node.prompt);
+    if (node.type === 'passage' || node.type === 'choice') {
+      (node.choices ?? []).forEach((choice, idx) => push(node.id, `choices.${idx}`, choice.text));
+    }
+  }
+  return strings;
+}
+
+/**
+ * Translated text for a source string, or undefined when the translation
+ * has no entry for it or the entry was made from a different source text.
+ */
+export function translateString(
+  translation: StoryTranslation,
+  key: string,
+  source: string
+): string | undefined {
+  const entry = translation.entries[key];
+  if (!entry || entry.sourceHash !== hashSourceText(source)) return undefined;
+  return entry.text;
+}
+
+/**
+ * Pick the translation for a locale: an exact match first, then one for
+ * the same language (`pt` for `pt-BR` and the other way round).
+ */
+export function selectTranslation(
+  translations: StoryTranslation[],
+  locale: string
+): StoryTranslation | undefined {
+  const language = locale.split('-')[0].toLowerCase();
+  return (
+    translations.find((t) => t.locale.toLowerCase() === locale.toLowerCase()) ??
+    translations.find((t) => t.locale.split('-')[0].toLowerCase() === language)
+  );
+}
+
+/**
+ * A copy of the story with the translation laid over its text. Missing
+ * and stale entries keep the source text. `meta.language` is set to the
+ * translation's locale.
+ */
+export function localizeStory(story: Story, translation: StoryTranslation): Story {
+  const localize = (nodeId: string, field: string, text: string) =>
+    translateString(translation, getTranslationKey(nodeId, field), text) ?? text;
+
+  const localizeNode = (node: StoryNode): StoryNode => {
+    if (node.type === 'passage') {
+      return {
+        ...node,
+        content: localize(node.id, 'content', node.content),
+        ...(node.choices && {
+          choices: node.choices.map((choice, idx) => ({
+            ...choice,
+            text: localize(node.id, `choices.${idx}`, choice.text),
+          })),
+        }),
+      };
+    }
+    if (node.type === 'choice') {
+      return {
+        ...node,
+        ...(node.prompt && { prompt: localize(node.id, 'prompt', node.prompt) }),
+        choices: node.choices.map((choice, idx) => ({
+          ...choice,
+          text: localize(node.id, `choices.${idx}`, choice.text),
+        })),
+      };
+    }
+    return node;
+  };
+
+  return Story.fromDocument({
+    version: story.version,
+    meta: { ...story.meta, language: translation.locale },
+    variables: Object.fromEntries(story.variables),
+    nodes: Object.fromEntries(story.getAllNodes().map((node) => [node.id, localizeNode(node)])),
+  });
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from './serializer.js';
+import { validateStory } from './validator.js';
+import { parseTemplate, renderTemplate, validateTemplate, TemplateError } from './template.js';
+
+describe('renderTemplate', () => {
+  it('leaves plain text untouched', () => {
+    expect(renderTemplate('You wake up.', {})).toBe('You wake up.');
+  });
+
+  it('interpolates expressions', () => {
+    expect(renderTemplate('Gold: {gold}', { gold: 12 })).toBe('Gold: 12');
+    expect(renderTemplate('Next: {gold + 1}, {name == "Ann"}', { gold: 1, name: 'Ann' })).toBe(
+      'Next: 2, true'
+    );
+    expect(renderTemplate('[{missing}]', {})).toBe('[]');
+  });
+
+  it('selects inline conditional branches', () => {
+    const template = "{if has_key}You unlock the door.{else}It's locked.{/if}";
+    expect(renderTemplate(template, { has_key: true })).toBe('You unlock the door.');
+    expect(renderTemplate(template, { has_key: false })).toBe("It's locked.");
+    expect(renderTemplate('A{if x} B{/if}', { x: false })).toBe('A');
+  });
+
+  it('nests conditionals and interpolation', () => {
+    const template = '{if gold > 0}{if gold > 10}Rich: {gold}{else}Some{/if}{else}Broke{/if}';
+    expect(renderTemplate(template, { gold: 20 })).toBe('Rich: 20');
+    expect(renderTemplate(template, { gold: 5 })).toBe('Some');
+    expect(renderTemplate(template, { gold: 0 })).toBe('Broke');
+  });
+
+  it('supports escaped braces and braces in strings', () => {
+    expect(renderTemplate('{{literal}} {"}"}', {})).toBe('{literal} }');
+  });
+
+  it('formats lists and maps', () => {
+    const vars = { bag: ['rope', 'lamp'], trust: { alice: 3 } };
+    expect(renderTemplate('Bag: {bag}. Trust: {trust}', vars)).toBe(
+      'Bag: rope, lamp. Trust: alice: 3'
+    );
+    expect(renderTemplate('{if "lamp" in bag}Light!{/if} ({len(bag)})', vars)).toBe('Light! (2)');
+  });
+
+  it('uses the random source for random()', () => {
+    expect(renderTemplate('Roll: {random(1, 6)}', {}, { random: () => 0.5 })).toBe('Roll: 4');
+  });
+
+  it('throws with positions for invalid templates', () => {
+    expect(() => renderTemplate('Gold: {gold', {})).toThrow(TemplateError);
+    try {
+      renderTemplate('ab {1 +}', {});
+    } catch (error) {
+      expect((error as TemplateError).position).toBeGreaterThan(3);
+    }
+  });
+});
+
+describe('parseTemplate', () => {
+  it('records expression positions', () => {
+    const parts = parseTemplate('Hi {name}!');
+    expect(parts[1]).toEqual({ type: 'expression', expression: 'name', position: 4 });
+  });
+
+  it('rejects unbalanced tags', () => {
+    expect(() => parseTemplate('{if a}x')).toThrow(/Missing '\{\/if\}'/);
+    expect(() => parseTemplate('x{/if}')).toThrow(/without '\{if\}'/);
+    expect(() => parseTemplate('x{else}')).toThrow(/without '\{if\}'/);
+    expect(() => parseTemplate('{if}x{/if}')).toThrow(/Missing condition/);
+    expect(() => parseTemplate('{ }')).toThrow(/Empty expression/);
+  });
+});
+
+describe('validateTemplate', () => {
+  it('reports syntax errors with line and column', () => {
+    const [issue] = validateTemplate('line one\nvalue {1 +}');
+    expect(issue).toMatchObject({ kind: 'syntax', line: 2, column: 8, position: 16 });
+  });
+
+  it('reports unknown variables at their position', () => {
+    const issues = validateTemplate('{if gold > 0}{name}{/if}', new Set(['gold']));
+    expect(issues).toEqual([
+      {
+        kind: 'unknown-variable',
+        message: "Unknown variable 'name'",
+        variable: 'name',
+        position: 14,
+        line: 1,
+        column: 15,
+      },
+    ]);
+  });
+
+  it('reports type errors when given variable types', () => {
+    const types = { gold: 'number', name: 'string' } as const;
+    expect(validateTemplate('{gold + 1} {if name > 3}!{/if}', undefined, types)).toEqual([
+      {
+        kind: 'type-mismatch',
+        message: "'>' needs numbers, got string and number at position 5",
+        position: 20,
+        line: 1,
+        column: 21,
+      },
+    ]);
+  });
+
+  it('accepts function calls', () => {
+    expect(validateTemplate('{random(1, sides)}', new Set(['sides']))).toEqual([]);
+  });
+});
+
+describe('Validator template checks', () => {
+  const story = (content: string) =>
+    parseToStory(`version: "1.0"
+meta:
+  title: Templates
+variables:
+  gold: 0
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: "${content}"
+    choices:
+      - text: "Pay {price}"
+        target: bump
+  bump:
+    type: variable
+    id: bump
+    set:
+      price: 3
+    next: done
+  done:
+    type: passage
+    id: done
+    content: The end is here.
+    ending: true
+`);
+
+  it('accepts declared and assigned variables', () => {
+    const result = validateStory(story('Gold: {gold}'));
+    expect(result.issues.map((i) => i.code)).not.toContain('UNDECLARED_VARIABLE');
+    expect(result.valid).toBe(true);
+  });
+
+  it('reports unknown variables and syntax errors', () => {
+    const unknown = validateStory(story('Gold: {silver}')).issues.find(
+      (i) => i.code === 'UNDECLARED_VARIABLE'
+    );
+    expect(unknown?.details).toMatchObject({ field: 'content', variable: 'silver', column: 8 });
+
+    const result = validateStory(story('{if gold}rich'));
+    expect(result.valid).toBe(false);
+    expect(result.issues.find((i) => i.code === 'TEMPLATE_SYNTAX')?.nodeId).toBe('start');
+  });
+
+  it('reports type errors in template expressions', () => {
+    const mismatch = validateStory(story('{if gold == true}Rich{/if}')).issues.find(
+      (i) => i.code === 'EXPRESSION_TYPE_MISMATCH'
+    );
+    expect(mismatch).toMatchObject({
+      nodeId: 'start',
+      message: expect.stringContaining("Template in 'start' (content 1:10) has a type error"),
+      details: { field: 'content', column: 10 },
+    });
+  });
+});
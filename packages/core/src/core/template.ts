@@ -0,0 +1,397 @@
+/**
+ * Text Templates
+ *
+ * Passage content, choice text and prompts may embed expressions:
+ *
+ *   Gold: {gold}
+ *   {if has_key}You unlock the door.{else}It's locked.{/if}
+ *
+ * `{expr}` interpolates the value of an expression; `{if expr}`, `{else}`
+ * and `{/if}` select text by truthiness and may nest. `{{` and `}}` produce
+ * literal braces. Expressions are evaluated by the safe parser in
+ * expression-parser.ts, so templates accept exactly what conditions do.
+ */
+
+import type { VariableValue } from './types.js';
+import {
+  ExpressionError,
+  evaluateExpressionValue,
+  getExpressionVariables,
+  inferExpressionType,
+  validateExpression,
+  type ExpressionOptions,
+  type ExpressionType,
+} from './expression-parser.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A parsed template segment.
+ * Positions are character offsets into the template source.
+ */
+export type TemplatePart =
+  | { type: 'text'; value: string }
+  | { type: 'expression'; expression: string; position: number }
+  | {
+      type: 'if';
+      condition: string;
+      position: number;
+      then: TemplatePart[];
+      else: TemplatePart[];
+    };
+
+/**
+ * A problem found while checking a template.
+ */
+export interface TemplateIssue {
+  kind: 'syntax' | 'unknown-variable' | 'type-mismatch';
+  message: string;
+
+  /** Offset into the template source */
+  position: number;
+
+  /** 1-based line and column of `position` */
+  line: number;
+  column: number;
+
+  /** For unknown-variable issues, the variable name */
+  variable?: string | undefined;
+}
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public position: number
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+type Tag =
+  | { kind: 'text'; value: string }
+  | { kind: 'expression'; expression: string; position: number; start: number }
+  | { kind: 'if'; expression: string; position: number; start: number }
+  | { kind: 'else'; start: number }
+  | { kind: 'end'; start: number };
+
+/**
+ * Split a template into text runs and `{...}` tags.
+ * Quoted strings inside tags may contain braces.
+ */
+function scan(source: string): Tag[] {
+  const tags: Tag[] = [];
+  let text = '';
+  let pos = 0;
+
+  const flush = () => {
+    if (text) tags.push({ kind: 'text', value: text });
+    text = '';
+  };
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (char === '{' && source[pos + 1] === '{') {
+      text += '{';
+      pos += 2;
+      continue;
+    }
+    if (char === '}' && source[pos + 1] === '}') {
+      text += '}';
+      pos += 2;
+      continue;
+    }
+    if (char !== '{') {
+      text += char;
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+    let end = pos + 1;
+    let quote: string | null = null;
+    while (end < source.length && (quote !== null || source[end] !== '}')) {
+      if (quote !== null && source[end] === '\\') {
+        end += 2;
+        continue;
+      }
+      if (source[end] === '"' || source[end] === "'") {
+        quote = quote === source[end] ? null : (quote ?? source[end]);
+      }
+      end++;
+    }
+    if (end >= source.length) {
+      throw new TemplateError(`Unclosed '{' at position ${start}`, start);
+    }
+
+    flush();
+    const body = source.slice(start + 1, end);
+    const trimmed = body.trim();
+    const offset = start + 1 + (body.length - body.trimStart().length);
+
+    if (trimmed === 'else') {
+      tags.push({ kind: 'else', start });
+    } else if (trimmed === '/if') {
+      tags.push({ kind: 'end', start });
+    } else if (/^if\b/.test(trimmed)) {
+      const expression = trimmed.slice(2).trim();
+      if (!expression) {
+        throw new TemplateError(`Missing condition in '{if}' at position ${start}`, start);
+      }
+      const position = offset + trimmed.indexOf(expression, 2);
+      tags.push({ kind: 'if', expression, position, start });
+    } else if (!trimmed) {
+      throw new TemplateError(`Empty expression at position ${start}`, start);
+    } else {
+      tags.push({ kind: 'expression', expression: trimmed, position: offset, start });
+    }
+    pos = end + 1;
+  }
+
+  flush();
+  return tags;
+}
+
+/**
+ * Parse a template into parts.
+ *
+ * @throws TemplateError on unbalanced tags or unclosed braces
+ */
+export function parseTemplate(source: string): TemplatePart[] {
+  const tags = scan(source);
+  let index = 0;
+
+  const parseBlock = (inside: { start: number } | null): TemplatePart[] => {
+    const parts: TemplatePart[] = [];
+    while (index < tags.length) {
+      const tag = tags[index];
+      if (tag.kind === 'else' || tag.kind === 'end') {
+        if (!inside) {
+          const name = tag.kind === 'else' ? '{else}' : '{/if}';
+          throw new TemplateError(
+            `Unexpected '${name}' without '{if}' at position ${tag.start}`,
+            tag.start
+          );
+        }
+        return parts;
+      }
+
+      index++;
+      if (tag.kind === 'text') {
+        parts.push({ type: 'text', value: tag.value });
+      } else if (tag.kind === 'expression') {
+        parts.push({ type: 'expression', expression: tag.expression, position: tag.position });
+      } else {
+        const then = parseBlock(tag);
+        let otherwise: TemplatePart[] = [];
+        if (tags[index]?.kind === 'else') {
+          index++;
+          otherwise = parseBlock(tag);
+        }
+        if (tags[index]?.kind !== 'end') {
+          throw new TemplateError(`Missing '{/if}' for '{if}' at position ${tag.start}`, tag.start);
+        }
+        index++;
+        parts.push({
+          type: 'if',
+          condition: tag.expression,
+          position: tag.position,
+          then,
+          else: otherwise,
+        });
+      }
+    }
+    return parts;
+  };
+
+  return parseBlock(null);
+}
+
+/**
+ * Whether a string uses any template syntax.
+ * Plain text skips parsing entirely at runtime.
+ */
+export function hasTemplateSyntax(source: string): boolean {
+  return source.includes('{') || source.includes('}}');
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+/**
+ * Render a template against the current variables.
+ * Missing values (undefined/null) render as empty text; lists and maps
+ * render as comma-separated items and `key: value` pairs.
+ *
+ * @throws TemplateError if the template or one of its expressions is invalid
+ */
+export function renderTemplate(
+  source: string,
+  variables: Record<string, VariableValue>,
+  options?: ExpressionOptions
+): string {
+  if (!hasTemplateSyntax(source)) return source;
+  return renderParts(parseTemplate(source), variables, options);
+}
+
+function renderParts(
+  parts: TemplatePart[],
+  variables: Record<string, VariableValue>,
+  options: ExpressionOptions | undefined
+): string {
+  let output = '';
+  for (const part of parts) {
+    switch (part.type) {
+      case 'text':
+        output += part.value;
+        break;
+      case 'expression': {
+        output += formatValue(evaluate(part.expression, part.position, variables, options));
+        break;
+      }
+      case 'if': {
+        const branch = evaluate(part.condition, part.position, variables, options)
+          ? part.then
+          : part.else;
+        output += renderParts(branch, variables, options);
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Text for a template value: empty for missing values, lists as
+ * comma-separated items and maps as `key: value` pairs.
+ */
+export function formatValue(value: ReturnType<typeof evaluateExpressionValue>): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') {
+    return Object.entries(value)
+      .map(([key, entry]) => `${key}: ${entry}`)
+      .join(', ');
+  }
+  return String(value);
+}
+
+function evaluate(
+  expression: string,
+  position: number,
+  variables: Record<string, VariableValue>,
+  options: ExpressionOptions | undefined
+): ReturnType<typeof evaluateExpressionValue> {
+  try {
+    return evaluateExpressionValue(expression, variables, options);
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      const at = position + (error.position ?? 0);
+      throw new TemplateError(`${error.message} (template position ${at})`, at);
+    }
+    throw error;
+  }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Check a template's syntax and, optionally, the variables it reads and the
+ * types of its expressions.
+ *
+ * @param source - The template text
+ * @param knownVariables - Variables that exist; omit to skip unknown-variable checks
+ * @param types - Variable types; omit to skip type checks
+ */
+export function validateTemplate(
+  source: string,
+  knownVariables?: Set<string>,
+  types?: Record<string, ExpressionType>
+): TemplateIssue[] {
+  if (!hasTemplateSyntax(source)) return [];
+
+  let parts: TemplatePart[];
+  try {
+    parts = parseTemplate(source);
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return [issueAt(source, 'syntax', error.message, error.position)];
+    }
+    throw error;
+  }
+
+  const issues: TemplateIssue[] = [];
+  const visit = (list: TemplatePart[]) => {
+    for (const part of list) {
+      if (part.type === 'text') continue;
+      const expression = part.type === 'if' ? part.condition : part.expression;
+      checkExpression(source, expression, part.position, knownVariables, types, issues);
+      if (part.type === 'if') {
+        visit(part.then);
+        visit(part.else);
+      }
+    }
+  };
+  visit(parts);
+  return issues;
+}
+
+function checkExpression(
+  source: string,
+  expression: string,
+  position: number,
+  knownVariables: Set<string> | undefined,
+  types: Record<string, ExpressionType> | undefined,
+  issues: TemplateIssue[]
+): void {
+  const result = validateExpression(expression);
+  if (!result.valid) {
+    issues.push(issueAt(source, 'syntax', result.error ?? 'Invalid expression', position));
+    return;
+  }
+  for (const variable of knownVariables ? getExpressionVariables(expression) : []) {
+    if (knownVariables?.has(variable.name)) continue;
+    issues.push({
+      ...issueAt(
+        source,
+        'unknown-variable',
+        `Unknown variable '${variable.name}'`,
+        position + variable.position
+      ),
+      variable: variable.name,
+    });
+  }
+  if (!types) return;
+
+  // Variables missing from `types` are left to the unknown-variable check
+  for (const issue of inferExpressionType(expression, types).issues) {
+    if (issue.kind !== 'mismatch') continue;
+    issues.push(issueAt(source, 'type-mismatch', issue.message, position + issue.position));
+  }
+}
+
+function issueAt(
+  source: string,
+  kind: TemplateIssue['kind'],
+  message: string,
+  position: number
+): TemplateIssue {
+  const before = source.slice(0, position).split('\n');
+  return {
+    kind,
+    message,
+    position,
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Tests for static variable types
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Story } from './story.js';
+import { checkMutationTypes, inferVariableTypes } from './typecheck.js';
+
+function buildStory(): Story {
+  const story = Story.create('Types');
+  story.variables.set('gold', 10);
+  story.variables.set('bag', ['rope']);
+  story.setNode({
+    id: 'start',
+    type: 'passage',
+    start: true,
+    content: 'Start',
+    choices: [{ text: 'Rest', target: 'camp', set: { rested: true, gold: 'lots' } }],
+  });
+  story.setNode({
+    id: 'camp',
+    type: 'variable',
+    increment: { days: 1 },
+    add: { trust: { alice: 1 } },
+    remove: { bag: 'rope' },
+    clear: ['notes'],
+    next: 'start',
+  });
+  return story;
+}
+
+describe('inferVariableTypes', () => {
+  it('combines declarations with the first assignment of other variables', () => {
+    expect(inferVariableTypes(buildStory())).toEqual({
+      bag: 'list',
+      days: 'number',
+      gold: 'number',
+      rested: 'boolean',
+      trust: 'map',
+    });
+  });
+
+  it('lets declarations win over assignments', () => {
+    const story = buildStory();
+    story.variables.set('days', 'Monday');
+    expect(inferVariableTypes(story).days).toBe('string');
+  });
+});
+
+describe('checkMutationTypes', () => {
+  it('describes mutations that change a variable type', () => {
+    const types = inferVariableTypes(buildStory());
+    expect(checkMutationTypes({ set: { gold: 'lots' } }, types)).toEqual([
+      "sets number 'gold' to string",
+    ]);
+    expect(checkMutationTypes({ add: { bag: 'tent' }, clear: ['gold'] }, types)).toEqual([
+      "removes items from number 'gold'",
+    ]);
+    expect(checkMutationTypes({ increment: { unknown: 1 } }, types)).toEqual([]);
+  });
+});
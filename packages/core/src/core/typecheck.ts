@@ -0,0 +1,96 @@
+/**
+ * Static Type Checking for StoryGraph
+ *
+ * Variables take their type from the `variables` declaration. Variables
+ * that are never declared take the type of their first assignment: `set`
+ * gives the value's type, increment/decrement give `number` and `add`
+ * gives `list` or `map`. Expressions are then checked against these types
+ * by inferExpressionType in the expression parser.
+ */
+
+import type { Story } from './story.js';
+import type { VariableMutations } from './nodes.js';
+import { getVariableType, type VariableType } from './types.js';
+
+/**
+ * Every set of mutations in a story: variable nodes and choice effects.
+ */
+export function getStoryMutations(story: Story): VariableMutations[] {
+  const mutations: VariableMutations[] = [];
+  for (const node of story.getAllNodes()) {
+    if (node.type === 'variable') mutations.push(node);
+    if (node.type === 'passage' || node.type === 'choice') mutations.push(...(node.choices ?? []));
+  }
+  return mutations;
+}
+
+/**
+ * Infer the type of every variable a story declares or assigns.
+ * Variables only ever removed from or cleared have no inferable type and
+ * are left out.
+ */
+export function inferVariableTypes(story: Story): Record<string, VariableType> {
+  const types: Record<string, VariableType> = {};
+  for (const [name, value] of story.variables) {
+    types[name] = getVariableType(value);
+  }
+
+  const assign = (name: string, type: VariableType) => {
+    if (!Object.prototype.hasOwnProperty.call(types, name)) types[name] = type;
+  };
+  for (const { set, increment, decrement, add } of getStoryMutations(story)) {
+    for (const [name, value] of Object.entries(set ?? {})) assign(name, getVariableType(value));
+    for (const name of [...Object.keys(increment ?? {}), ...Object.keys(decrement ?? {})]) {
+      assign(name, 'number');
+    }
+    for (const [name, value] of Object.entries(add ?? {})) {
+      assign(name, getVariableType(value) === 'map' ? 'map' : 'list');
+    }
+  }
+
+  return Object.fromEntries(Object.entries(types).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Describe mutations that do not fit the variable types.
+ * Increments and decrements need numbers, `set` should keep a variable's
+ * type, and add/remove/clear need lists or maps.
+ */
+export function checkMutationTypes(
+  mutations: VariableMutations,
+  types: Record<string, VariableType>
+): string[] {
+  const typeOf = (name: string): VariableType | undefined =>
+    Object.prototype.hasOwnProperty.call(types, name) ? types[name] : undefined;
+
+  const mismatches: string[] = [];
+  for (const [name, value] of Object.entries(mutations.set ?? {})) {
+    const type = typeOf(name);
+    if (type !== undefined && type !== getVariableType(value)) {
+      mismatches.push(`sets ${type} '${name}' to ${getVariableType(value)}`);
+    }
+  }
+  for (const name of [
+    ...Object.keys(mutations.increment ?? {}),
+    ...Object.keys(mutations.decrement ?? {}),
+  ]) {
+    const type = typeOf(name);
+    if (type !== undefined && type !== 'number') {
+      mismatches.push(`changes non-numeric '${name}' arithmetically`);
+    }
+  }
+  for (const [name, value] of Object.entries(mutations.add ?? {})) {
+    const type = typeOf(name);
+    const adding = getVariableType(value) === 'map' ? 'map' : 'list';
+    if (type !== undefined && type !== adding) {
+      mismatches.push(`adds ${adding} items to ${type} '${name}'`);
+    }
+  }
+  for (const name of [...Object.keys(mutations.remove ?? {}), ...(mutations.clear ?? [])]) {
+    const type = typeOf(name);
+    if (type !== undefined && type !== 'list' && type !== 'map') {
+      mismatches.push(`removes items from ${type} '${name}'`);
+    }
+  }
+  return mismatches;
+}
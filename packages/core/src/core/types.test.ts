@@ -8,6 +8,8 @@ import {
   VariableNameSchema,
   StoryMetaSchema,
   PositionSchema,
+  VariableValueSchema,
+  getVariableType,
 } from './types.js';
 
 describe('NodeIdSchema', () => {
@@ -106,3 +108,24 @@ describe('PositionSchema', () => {
     expect(PositionSchema.safeParse({ x: Infinity, y: 0 }).success).toBe(false);
   });
 });
+
+describe('VariableValueSchema', () => {
+  it('accepts scalars, lists and maps', () => {
+    expect(VariableValueSchema.safeParse('hero').success).toBe(true);
+    expect(VariableValueSchema.safeParse(3).success).toBe(true);
+    expect(VariableValueSchema.safeParse(['sword', 2, true]).success).toBe(true);
+    expect(VariableValueSchema.safeParse({ alice: 3, bob: 'wary' }).success).toBe(true);
+  });
+
+  it('rejects nested collections and null', () => {
+    expect(VariableValueSchema.safeParse([['a']]).success).toBe(false);
+    expect(VariableValueSchema.safeParse({ a: { b: 1 } }).success).toBe(false);
+    expect(VariableValueSchema.safeParse(null).success).toBe(false);
+  });
+
+  it('names value types', () => {
+    expect(getVariableType(['a'])).toBe('list');
+    expect(getVariableType({ a: 1 })).toBe('map');
+    expect(getVariableType(false)).toBe('boolean');
+  });
+});
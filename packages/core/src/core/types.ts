@@ -41,16 +41,55 @@ export const VariableNameSchema = z
 export type VariableName = z.infer<typeof VariableNameSchema>;
 
 /**
- * Variable value - the possible values a variable can hold.
+ * Scalar value - a single string, number or boolean.
  */
-export const VariableValueSchema = z.union([
+export const ScalarValueSchema = z.union([
   z.string(),
   z.number(),
   z.boolean(),
 ]);
 
+export type ScalarValue = z.infer<typeof ScalarValueSchema>;
+
+/**
+ * List value - an ordered set of scalars (e.g. an inventory).
+ */
+export const ListValueSchema = z.array(ScalarValueSchema);
+
+export type ListValue = z.infer<typeof ListValueSchema>;
+
+/**
+ * Map value - scalars keyed by string (e.g. a relationship table).
+ */
+export const MapValueSchema = z.record(z.string(), ScalarValueSchema);
+
+export type MapValue = z.infer<typeof MapValueSchema>;
+
+/**
+ * Variable value - the possible values a variable can hold.
+ */
+export const VariableValueSchema = z.union([
+  ScalarValueSchema,
+  ListValueSchema,
+  MapValueSchema,
+]);
+
 export type VariableValue = z.infer<typeof VariableValueSchema>;
 
+/**
+ * Variable type names, as reported by getVariableType().
+ */
+export type VariableType = 'string' | 'number' | 'boolean' | 'list' | 'map';
+
+/**
+ * Get the type name of a variable value.
+ */
+export function getVariableType(value: VariableValue): VariableType {
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'object') return 'map';
+  return typeof value as 'string' | 'number' | 'boolean';
+}
+
 // =============================================================================
 // Story Metadata
 // =============================================================================
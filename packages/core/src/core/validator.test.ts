@@ -0,0 +1,302 @@
+/**
+ * Tests for story validation rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from './serializer.js';
+import { Validator, validateStory } from './validator.js';
+import { hashSourceText } from './strings.js';
+
+const EFFECT_STORY = `version: "1.0"
+meta:
+  title: Shop
+variables:
+  gold: 10
+  name: hero
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: "A merchant waves at you. Gold: {gold}, sword: {has_sword}"
+    choices:
+      - text: Buy a sword
+        target: done
+        set:
+          has_sword: true
+        decrement:
+          gold: 5
+      - text: Rename yourself
+        target: done
+        set:
+          name: 42
+        increment:
+          name: 1
+  done:
+    type: passage
+    id: done
+    content: The merchant nods.
+    ending: true
+`;
+
+describe('Validator choice effects', () => {
+  it('treats variables set by choices as known', () => {
+    const result = validateStory(parseToStory(EFFECT_STORY));
+    expect(result.issues.map((i) => i.code)).not.toContain('UNDECLARED_VARIABLE');
+  });
+
+  it('reports effects that break declared variable types', () => {
+    const result = validateStory(parseToStory(EFFECT_STORY));
+    const messages = result.issues
+      .filter((i) => i.code === 'CHOICE_EFFECT_TYPE_MISMATCH')
+      .map((i) => i.message);
+    expect(messages).toEqual([
+      "Choice 'Rename yourself' in 'start' changes non-numeric 'name' arithmetically",
+      "Choice 'Rename yourself' in 'start' sets string 'name' to number",
+    ]);
+    expect(result.valid).toBe(true);
+  });
+});
+
+const COLLECTION_STORY = `version: "1.0"
+meta:
+  title: Camp
+variables:
+  inventory: [rope]
+  trust:
+    alice: 1
+  gold: 10
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: "You carry {inventory}."
+    choices:
+      - text: Pack up
+        target: pack
+      - text: Sell the rope
+        target: done
+        remove:
+          inventory: rope
+          gold: 1
+  pack:
+    type: variable
+    id: pack
+    add:
+      inventory: [lamp, tent]
+      trust:
+        bob: 2
+      gold: coin
+    clear: [gold]
+    next: done
+  done:
+    type: passage
+    id: done
+    content: You move on.
+    ending: true
+`;
+
+describe('Validator list and map variables', () => {
+  it('accepts collection operations on lists and maps', () => {
+    const result = validateStory(parseToStory(COLLECTION_STORY));
+    expect(result.issues.map((i) => i.code)).not.toContain('NO_STATE_CHANGE');
+    expect(result.valid).toBe(true);
+  });
+
+  it('reports collection operations on scalar variables', () => {
+    const result = validateStory(parseToStory(COLLECTION_STORY));
+    const messages = result.issues
+      .filter(
+        (i) => i.code === 'VARIABLE_TYPE_MISMATCH' || i.code === 'CHOICE_EFFECT_TYPE_MISMATCH'
+      )
+      .map((i) => i.message);
+    expect(messages).toEqual([
+      "Choice 'Sell the rope' in 'start' removes items from number 'gold'",
+      "Variable node 'pack' adds list items to number 'gold'",
+      "Variable node 'pack' removes items from number 'gold'",
+    ]);
+  });
+
+  it('treats clear on its own as a state change', () => {
+    const story = parseToStory(COLLECTION_STORY.replace(/ {4}add:\n(.*\n){4}/, ''));
+    const result = validateStory(story);
+    expect(result.issues.map((i) => i.code)).not.toContain('NO_STATE_CHANGE');
+  });
+});
+
+const CONDITION_STORY = `version: "1.0"
+meta:
+  title: Gate
+variables:
+  gold: 3
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: A gate.
+    choices:
+      - text: Knock
+        target: pure
+  pure:
+    type: condition
+    id: pure
+    expression: visited("start") && clamp(gold, 0, 10) > 2
+    ifTrue: lucky
+    ifFalse: unknown
+  lucky:
+    type: condition
+    id: lucky
+    expression: chance(0.5)
+    ifTrue: done
+    ifFalse: unknown
+  unknown:
+    type: condition
+    id: unknown
+    expression: round(gold) > 2
+    ifTrue: done
+    ifFalse: done
+  done:
+    type: passage
+    id: done
+    content: Done.
+    ending: true
+`;
+
+describe('Validator condition expressions', () => {
+  const result = validateStory(parseToStory(CONDITION_STORY));
+  const codesFor = (nodeId: string) =>
+    result.issues.filter((i) => i.nodeId === nodeId).map((i) => i.code);
+
+  it('treats built-in pure calls as side-effect free', () => {
+    expect(codesFor('pure')).toEqual([]);
+    expect(codesFor('lucky')).toContain('EFFECTFUL_CONDITION');
+  });
+
+  it('reports unknown functions in condition nodes', () => {
+    expect(codesFor('unknown')).toEqual(['EFFECTFUL_CONDITION', 'INVALID_CONDITION']);
+    const issue = result.issues.find((i) => i.code === 'INVALID_CONDITION');
+    expect(issue?.details?.error).toMatch(/Unknown function 'round'/);
+  });
+});
+
+const TYPED_STORY = `version: "1.0"
+meta:
+  title: Ledger
+variables:
+  gold: 10
+  name: hero
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: The ledger is open.
+    choices:
+      - text: Check the purse
+        target: check
+      - text: Pay the toll
+        target: done
+        condition: has_pass || name == 3
+      - text: Count coins
+        target: done
+        condition: coins > 2
+  check:
+    type: condition
+    id: check
+    expression: gold > "ten"
+    ifTrue: count
+    ifFalse: done
+  count:
+    type: variable
+    id: count
+    set:
+      coins: 0
+    next: done
+  done:
+    type: passage
+    id: done
+    content: Done.
+    ending: true
+`;
+
+describe('Validator types', () => {
+  const result = validateStory(parseToStory(TYPED_STORY));
+
+  it('reports type mismatches in conditions', () => {
+    const messages = result.issues
+      .filter((i) => i.code === 'EXPRESSION_TYPE_MISMATCH')
+      .map((i) => i.message);
+    expect(messages).toEqual([
+      "Condition in 'check' has a type error: '>' needs numbers, got number and string at position 5",
+      "Choice condition in 'start' has a type error: '==' compares string with number at position 17",
+    ]);
+  });
+
+  it('reports variables that are neither declared nor assigned', () => {
+    const issues = result.issues.filter((i) => i.code === 'UNDECLARED_VARIABLE');
+    expect(issues).toHaveLength(1);
+    expect(issues[0].details).toMatchObject({ variable: 'has_pass', choiceText: 'Pay the toll' });
+    expect(result.valid).toBe(true);
+  });
+
+  it('checks assignments to undeclared variables against their first type', () => {
+    const story = parseToStory(
+      TYPED_STORY.replace('      coins: 0\n', '      coins: 0\n    increment:\n      name: 1\n')
+    );
+    story.setNode({ id: 'relabel', type: 'variable', set: { coins: 'many' }, next: 'done' });
+    const messages = validateStory(story)
+      .issues.filter((i) => i.code === 'VARIABLE_TYPE_MISMATCH')
+      .map((i) => i.message);
+    expect(messages).toEqual([
+      "Variable node 'count' changes non-numeric 'name' arithmetically",
+      "Variable node 'relabel' sets number 'coins' to string",
+    ]);
+  });
+});
+
+describe('Validator translations', () => {
+  it('reports missing, stale and obsolete translations', () => {
+    const story = parseToStory(EFFECT_STORY);
+    const result = new Validator(story, {
+      translations: [
+        {
+          locale: 'fr',
+          entries: {
+            'start.choices.0': {
+              text: 'Acheter une épée',
+              sourceHash: hashSourceText('Buy a sword'),
+            },
+            'start.choices.1': { text: 'Changer de nom', sourceHash: hashSourceText('Rename') },
+            'done.content': {
+              text: 'Le marchand acquiesce.',
+              sourceHash: hashSourceText('The merchant nods.'),
+            },
+            'gone.content': { text: 'Parti.', sourceHash: hashSourceText('Gone.') },
+          },
+        },
+      ],
+    }).validate();
+    const issues = result.issues.filter((i) => i.category === 'localization');
+    expect(issues.map((i) => [i.code, i.severity, i.message])).toEqual([
+      ['MISSING_TRANSLATION', 'warning', "No 'fr' translation for 'start' (content)"],
+      [
+        'STALE_TRANSLATION',
+        'warning',
+        "The 'fr' translation of 'start' (choices.1) was made from an older source text",
+      ],
+      [
+        'OBSOLETE_TRANSLATION',
+        'info',
+        "The 'fr' translation has text for 'gone.content', which is no longer in the story",
+      ],
+    ]);
+    expect(issues[1].details).toEqual({
+      locale: 'fr',
+      key: 'start.choices.1',
+      sourceHash: hashSourceText('Rename'),
+      hash: hashSourceText('Rename yourself'),
+    });
+  });
+});
@@ -6,10 +6,27 @@
  * - Reference integrity (all targets exist)
  * - Cycle detection (infinite loops)
  * - Best practices (naming, content)
+ * - Static types of variables and expressions
+ * - Cross-file includes and shared state (for multi-file projects)
  */
 
 import type { Story } from './story.js';
+import type { StoryNode } from './nodes.js';
+import type { StoryProject } from './project.js';
+import type { VariableType } from './types.js';
 import { getNodeTargets } from './edges.js';
+import { checkMutationTypes, getStoryMutations, inferVariableTypes } from './typecheck.js';
+import { parseQualifiedNodeId, qualifyNodeId } from './loader.js';
+import {
+  ExpressionError,
+  inferExpressionType,
+  isPureFunction,
+  validateExpression,
+  type ExpressionType,
+  type ExpressionTypeIssue,
+} from './expression-parser.js';
+import { validateTemplate } from './template.js';
+import { extractStrings, type StoryTranslation } from './strings.js';
 
 // =============================================================================
 // Validation Result Types
@@ -28,6 +45,7 @@ export type IssueCategory =
   | 'reference'    // Broken references
   | 'content'      // Content quality
   | 'accessibility' // Accessibility concerns
+  | 'localization' // Translation coverage
   | 'best-practice'; // Style recommendations
 
 /**
@@ -74,6 +92,23 @@ export interface ValidationResult {
   durationMs: number;
 }
 
+/**
+ * Validator configuration.
+ */
+export interface ValidatorOptions {
+  /**
+   * Project the story was combined from (see StoryProject.toStory).
+   * Enables cross-file include, chapter reachability and shared variable checks.
+   */
+  project?: StoryProject | undefined;
+
+  /**
+   * Translation overlays to check against the story's current text.
+   * Enables missing, stale and obsolete translation checks.
+   */
+  translations?: StoryTranslation[] | undefined;
+}
+
 // =============================================================================
 // Validator Class
 // =============================================================================
@@ -83,13 +118,17 @@ export interface ValidationResult {
  */
 export class Validator {
   private issues: Issue[] = [];
+  private types: Record<string, VariableType> = {};
   private static severityRank: Record<Severity, number> = {
     error: 0,
     warning: 1,
     info: 2,
   };
 
-  constructor(private story: Story) {}
+  constructor(
+    private story: Story,
+    private options: ValidatorOptions = {}
+  ) {}
 
   /**
    * Run all validation checks.
@@ -97,6 +136,7 @@ export class Validator {
   validate(): ValidationResult {
     const start = performance.now();
     this.issues = [];
+    this.types = inferVariableTypes(this.story);
 
     // Run all checks
     this.checkStartNode();
@@ -107,8 +147,22 @@ export class Validator {
     this.checkEmptyContent();
     this.checkCycles();
     this.checkChoiceConditions();
+    this.checkExpressionTypes();
+    this.checkTemplates();
+    this.checkChoiceEffects();
+    this.checkRandomBranches();
     this.checkStateAndSideEffects();
 
+    if (this.options.project) {
+      this.checkIncludeTargets(this.options.project);
+      this.checkUnreachableChapters(this.options.project);
+      this.checkDuplicateVariables(this.options.project);
+    }
+
+    for (const translation of this.options.translations ?? []) {
+      this.checkTranslation(translation);
+    }
+
     const end = performance.now();
 
     const sortedIssues = [...this.issues].sort((a, b) => {
@@ -200,11 +254,17 @@ export class Validator {
     const reachable = this.getReachableNodes(startNode.id);
     const allIds = new Set(this.story.getAllNodeIds());
 
+    const reachableChapters = this.getReachableChapters(reachable);
+
     for (const id of allIds) {
       const node = this.story.getNode(id);
       // Skip comment nodes - they're not meant to be reachable
       if (node?.type === 'comment') continue;
 
+      // Whole unreachable chapters are reported once by checkUnreachableChapters
+      const { file } = parseQualifiedNodeId(id);
+      if (this.options.project && file !== undefined && !reachableChapters.has(file)) continue;
+
       if (!reachable.has(id)) {
         this.addIssue({
           code: 'UNREACHABLE_NODE',
@@ -336,10 +396,22 @@ export class Validator {
   }
 
   /**
-   * Check that choice conditions are syntactically valid.
+   * Check that choice conditions and condition-node expressions are valid,
+   * including calls to unknown functions and wrong argument counts.
    */
   private checkChoiceConditions(): void {
     for (const node of this.story.getAllNodes()) {
+      if (node.type === 'condition' && !this.isValidCondition(node.expression)) {
+        this.addIssue({
+          code: 'INVALID_CONDITION',
+          severity: 'warning',
+          category: 'reference',
+          message: `Condition in '${node.id}' may be invalid: ${node.expression}`,
+          nodeId: node.id,
+          details: { condition: node.expression, error: validateExpression(node.expression).error },
+        });
+      }
+
       if (node.type === 'passage' && node.choices) {
         for (const choice of node.choices) {
           if (choice.condition) {
@@ -374,6 +446,162 @@ export class Validator {
     }
   }
 
+  /**
+   * Type check condition expressions against the variable types.
+   * Syntax errors are left to checkChoiceConditions.
+   */
+  private checkExpressionTypes(): void {
+    const types = this.getExpressionTypes();
+
+    const check = (nodeId: string, expression: string, where: string, choiceText?: string) => {
+      let issues: ExpressionTypeIssue[];
+      try {
+        issues = inferExpressionType(expression, types).issues;
+      } catch (error) {
+        if (error instanceof ExpressionError) return;
+        throw error;
+      }
+
+      for (const issue of issues) {
+        const details = {
+          condition: expression,
+          position: issue.position,
+          ...(choiceText !== undefined && { choiceText }),
+        };
+        if (issue.kind === 'mismatch') {
+          this.addIssue({
+            code: 'EXPRESSION_TYPE_MISMATCH',
+            severity: 'warning',
+            category: 'reference',
+            message: `${where} in '${nodeId}' has a type error: ${issue.message}`,
+            nodeId,
+            details,
+          });
+        } else {
+          this.addIssue({
+            code: 'UNDECLARED_VARIABLE',
+            severity: 'warning',
+            category: 'reference',
+            message: `${where} in '${nodeId}' reads undeclared variable '${issue.variable}'`,
+            nodeId,
+            details: { ...details, variable: issue.variable },
+          });
+        }
+      }
+    };
+
+    for (const node of this.story.getAllNodes()) {
+      if (node.type === 'condition') check(node.id, node.expression, 'Condition');
+      if (node.type === 'passage' || node.type === 'choice') {
+        for (const choice of node.choices ?? []) {
+          if (choice.condition) check(node.id, choice.condition, 'Choice condition', choice.text);
+        }
+      }
+    }
+  }
+
+  /**
+   * Check `{...}` templates in passage content, prompts and choice text,
+   * with the same variable and type checks as conditions.
+   */
+  private checkTemplates(): void {
+    const known = this.getKnownVariables();
+    const types = this.getExpressionTypes();
+
+    for (const node of this.story.getAllNodes()) {
+      const fields: Array<[string, string]> = [];
+      if (node.type === 'passage') fields.push(['content', node.content]);
+      if (node.type === 'choice' && node.prompt) fields.push(['prompt', node.prompt]);
+      if (node.type === 'passage' || node.type === 'choice') {
+        (node.choices ?? []).forEach((choice, idx) => {
+          fields.push([`choices[${idx}].text`, choice.text]);
+        });
+      }
+
+      for (const [field, text] of fields) {
+        for (const issue of validateTemplate(text, known, types)) {
+          const where = `${field} ${issue.line}:${issue.column}`;
+          const details = {
+            field,
+            position: issue.position,
+            line: issue.line,
+            column: issue.column,
+          };
+
+          if (issue.kind === 'syntax') {
+            this.addIssue({
+              code: 'TEMPLATE_SYNTAX',
+              severity: 'error',
+              category: 'content',
+              message: `Template error in '${node.id}' (${where}): ${issue.message}`,
+              nodeId: node.id,
+              details,
+            });
+          } else if (issue.kind === 'type-mismatch') {
+            this.addIssue({
+              code: 'EXPRESSION_TYPE_MISMATCH',
+              severity: 'warning',
+              category: 'reference',
+              message: `Template in '${node.id}' (${where}) has a type error: ${issue.message}`,
+              nodeId: node.id,
+              details,
+            });
+          } else {
+            this.addIssue({
+              code: 'UNDECLARED_VARIABLE',
+              severity: 'warning',
+              category: 'reference',
+              message: `Template in '${node.id}' (${where}) uses undeclared variable '${issue.variable}'`,
+              nodeId: node.id,
+              details: { ...details, variable: issue.variable },
+            });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Check that choice side effects match the variable types.
+   */
+  private checkChoiceEffects(): void {
+    for (const node of this.story.getAllNodes()) {
+      if (node.type !== 'passage' && node.type !== 'choice') continue;
+
+      for (const choice of node.choices ?? []) {
+        for (const mismatch of checkMutationTypes(choice, this.types)) {
+          this.addIssue({
+            code: 'CHOICE_EFFECT_TYPE_MISMATCH',
+            severity: 'warning',
+            category: 'reference',
+            message: `Choice '${choice.text}' in '${node.id}' ${mismatch}`,
+            nodeId: node.id,
+            details: { choiceText: choice.text, target: choice.target },
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Check random nodes for branches that make the roll pointless.
+   */
+  private checkRandomBranches(): void {
+    for (const node of this.story.getNodesByType('random')) {
+      const targets = new Set(node.branches.map((b) => b.target));
+      if (targets.size === 1) {
+        this.addIssue({
+          code: 'RANDOM_SINGLE_OUTCOME',
+          severity: 'info',
+          category: 'best-practice',
+          message: `Random node '${node.id}' always leads to '${node.branches[0].target}'`,
+          nodeId: node.id,
+          details: { target: node.branches[0].target },
+        });
+      }
+    }
+  }
+
   /**
    * Check for state-related issues and side effects.
    */
@@ -381,11 +609,15 @@ export class Validator {
     const variableNodes = this.story.getNodesByType('variable');
 
     for (const variable of variableNodes) {
-      const hasSet = variable.set && Object.keys(variable.set).length > 0;
-      const hasInc = variable.increment && Object.keys(variable.increment).length > 0;
-      const hasDec = variable.decrement && Object.keys(variable.decrement).length > 0;
-
-      if (!hasSet && !hasInc && !hasDec) {
+      const changes = [
+        variable.set,
+        variable.increment,
+        variable.decrement,
+        variable.add,
+        variable.remove,
+      ].some((ops) => ops && Object.keys(ops).length > 0);
+
+      if (!changes && !variable.clear?.length) {
         this.addIssue({
           code: 'NO_STATE_CHANGE',
           severity: 'warning',
@@ -395,6 +627,16 @@ export class Validator {
         });
       }
 
+      for (const mismatch of checkMutationTypes(variable, this.types)) {
+        this.addIssue({
+          code: 'VARIABLE_TYPE_MISMATCH',
+          severity: 'warning',
+          category: 'reference',
+          message: `Variable node '${variable.id}' ${mismatch}`,
+          nodeId: variable.id,
+        });
+      }
+
       if (!variable.next) {
         this.addIssue({
           code: 'VARIABLE_NO_NEXT',
@@ -423,16 +665,156 @@ export class Validator {
     }
   }
 
+  /**
+   * Check that every include resolves to a project chapter and entry node.
+   */
+  private checkIncludeTargets(project: StoryProject): void {
+    for (const from of project.getChapterFiles()) {
+      const chapter = project.getChapter(from);
+      if (!chapter) continue;
+
+      for (const include of chapter.getNodesByType('include')) {
+        const nodeId = qualifyNodeId(from, include.id);
+        const resolved = project.resolveInclude(from, include);
+
+        if (!resolved.chapter) {
+          this.addIssue({
+            code: 'BROKEN_INCLUDE_TARGET',
+            severity: 'error',
+            category: 'reference',
+            message: `Include '${nodeId}' references '${include.path}', which is not a chapter of this project`,
+            nodeId,
+            details: { path: include.path, file: resolved.file },
+          });
+        } else if (!resolved.entry) {
+          this.addIssue({
+            code: 'BROKEN_INCLUDE_TARGET',
+            severity: 'error',
+            category: 'reference',
+            message: `Include '${nodeId}' has no entry and '${resolved.file}' has no start node`,
+            nodeId,
+            details: { path: include.path, file: resolved.file },
+          });
+        } else if (!resolved.chapter.hasNode(resolved.entry)) {
+          this.addIssue({
+            code: 'BROKEN_INCLUDE_TARGET',
+            severity: 'error',
+            category: 'reference',
+            message: `Include '${nodeId}' enters non-existent node '${resolved.entry}' in '${resolved.file}'`,
+            nodeId,
+            details: { path: include.path, file: resolved.file, entry: resolved.entry },
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Check for chapters that no path from the entry chapter reaches.
+   */
+  private checkUnreachableChapters(project: StoryProject): void {
+    const startNode = this.story.getStartNode();
+    if (!startNode) return; // Already reported in checkStartNode
+
+    const reachableChapters = this.getReachableChapters(this.getReachableNodes(startNode.id));
+
+    for (const file of project.getChapterFiles()) {
+      if (!reachableChapters.has(file)) {
+        this.addIssue({
+          code: 'UNREACHABLE_CHAPTER',
+          severity: 'warning',
+          category: 'structure',
+          message: `Chapter '${file}' is never included from the entry chapter`,
+          details: { file },
+        });
+      }
+    }
+  }
+
+  /**
+   * Check for variables declared more than once across manifest and chapters.
+   */
+  private checkDuplicateVariables(project: StoryProject): void {
+    const byName = new Map<string, Array<{ source: string; value: unknown }>>();
+    for (const declaration of project.getVariableDeclarations()) {
+      const list = byName.get(declaration.name) ?? [];
+      list.push({ source: declaration.source, value: declaration.value });
+      byName.set(declaration.name, list);
+    }
+
+    for (const [name, declarations] of byName) {
+      if (declarations.length < 2) continue;
+      const conflicting = new Set(declarations.map((d) => JSON.stringify(d.value))).size > 1;
+      this.addIssue({
+        code: 'DUPLICATE_VARIABLE',
+        severity: 'warning',
+        category: 'best-practice',
+        message: `Variable '${name}' is declared in ${declarations.map((d) => d.source).join(', ')}${
+          conflicting ? ' with conflicting initial values' : ''
+        }`,
+        details: { variable: name, declarations },
+      });
+    }
+  }
+
+  /**
+   * Check that a translation covers every string of the story and was made
+   * from its current text.
+   */
+  private checkTranslation(translation: StoryTranslation): void {
+    const { locale, entries } = translation;
+    const keys = new Set<string>();
+
+    for (const string of extractStrings(this.story)) {
+      keys.add(string.key);
+      const entry = entries[string.key];
+      if (!entry) {
+        this.addIssue({
+          code: 'MISSING_TRANSLATION',
+          severity: 'warning',
+          category: 'localization',
+          message: `No '${locale}' translation for '${string.nodeId}' (${string.field})`,
+          nodeId: string.nodeId,
+          details: { locale, key: string.key },
+        });
+      } else if (entry.sourceHash !== string.hash) {
+        this.addIssue({
+          code: 'STALE_TRANSLATION',
+          severity: 'warning',
+          category: 'localization',
+          message: `The '${locale}' translation of '${string.nodeId}' (${string.field}) was made from an older source text`,
+          nodeId: string.nodeId,
+          details: { locale, key: string.key, sourceHash: entry.sourceHash, hash: string.hash },
+        });
+      }
+    }
+
+    for (const key of Object.keys(entries)) {
+      if (keys.has(key)) continue;
+      this.addIssue({
+        code: 'OBSOLETE_TRANSLATION',
+        severity: 'info',
+        category: 'localization',
+        message: `The '${locale}' translation has text for '${key}', which is no longer in the story`,
+        details: { locale, key },
+      });
+    }
+  }
+
   private looksEffectful(expression: string): boolean {
     const trimmed = expression.trim();
     if (trimmed.length === 0) return false;
 
-    // Heuristics: assignments, increment/decrement, function calls with parentheses and no operators
+    // Heuristics: assignments, increment/decrement, calls to anything but pure built-ins
     const assignmentPattern = /(^|[^=!<>])=([^=]|$)/;
     const incDecPattern = /\+\+|--/;
-    const funcCallPattern = /[a-zA-Z_][a-zA-Z0-9_]*\s*\([^)]*\)/;
+    const calls = [...trimmed.matchAll(/([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g)].map((m) => m[1]);
 
-    return assignmentPattern.test(trimmed) || incDecPattern.test(trimmed) || funcCallPattern.test(trimmed);
+    return (
+      assignmentPattern.test(trimmed) ||
+      incDecPattern.test(trimmed) ||
+      calls.some((name) => !isPureFunction(name))
+    );
   }
 
   // ---------------------------------------------------------------------------
@@ -462,7 +844,7 @@ export class Validator {
       const node = this.story.getNode(current);
       if (!node) continue;
 
-      const targets = getNodeTargets(node);
+      const targets = this.getTraversalTargets(node);
       for (const target of targets) {
         if (!visited.has(target)) {
           queue.push(target);
@@ -473,6 +855,54 @@ export class Validator {
     return visited;
   }
 
+  /**
+   * Targets followed for reachability. In a combined project graph, include
+   * nodes also lead to their (namespaced) entry node in the included chapter.
+   */
+  private getTraversalTargets(node: StoryNode): string[] {
+    const targets = getNodeTargets(node);
+    if (this.options.project && node.type === 'include' && node.entry) {
+      targets.push(node.entry);
+    }
+    return targets;
+  }
+
+  /**
+   * Variables declared up front or assigned by any variable node or choice.
+   */
+  private getKnownVariables(): Set<string> {
+    const known = new Set<string>(this.story.variables.keys());
+    for (const { set, increment, decrement, add, remove, clear } of getStoryMutations(this.story)) {
+      for (const ops of [set, increment, decrement, add, remove]) {
+        for (const name of Object.keys(ops ?? {})) known.add(name);
+      }
+      for (const name of clear ?? []) known.add(name);
+    }
+    return known;
+  }
+
+  /**
+   * Types of the known variables for expression checks; `unknown` where
+   * inference found none.
+   */
+  private getExpressionTypes(): Record<string, ExpressionType> {
+    const types: Record<string, ExpressionType> = {};
+    for (const name of this.getKnownVariables()) types[name] = this.types[name] ?? 'unknown';
+    return types;
+  }
+
+  /**
+   * Collect the files of reachable namespaced node IDs.
+   */
+  private getReachableChapters(reachable: Set<string>): Set<string> {
+    const files = new Set<string>();
+    for (const id of reachable) {
+      const { file } = parseQualifiedNodeId(id);
+      if (file !== undefined) files.add(file);
+    }
+    return files;
+  }
+
   /**
    * Detect cycles in the story graph.
    * Returns an array of cycle descriptions.
@@ -546,26 +976,11 @@ export class Validator {
   }
 
   /**
-   * Basic validation of condition syntax.
-   * Full expression parsing would require a dedicated parser.
+   * Validate condition syntax with the expression parser.
    */
   private isValidCondition(condition: string): boolean {
-    // Basic checks - a real implementation would parse the expression
-    const trimmed = condition.trim();
-    if (trimmed.length === 0) return false;
-
-    // Check for balanced parentheses
-    let depth = 0;
-    for (const char of trimmed) {
-      if (char === '(') depth++;
-      if (char === ')') depth--;
-      if (depth < 0) return false;
-    }
-    if (depth !== 0) return false;
-
-    // Check for common patterns
-    const validPattern = /^[a-z_][a-z0-9_]*(\s*(==|!=|>=|<=|>|<|&&|\|\|)\s*(\d+|true|false|"[^"]*"|'[^']*'|[a-z_][a-z0-9_]*))*$/i;
-    return validPattern.test(trimmed) || /^[a-z_][a-z0-9_]*$/i.test(trimmed);
+    if (condition.trim().length === 0) return false;
+    return validateExpression(condition).valid;
   }
 }
 
@@ -580,3 +995,11 @@ export function validateStory(story: Story): ValidationResult {
   const validator = new Validator(story);
   return validator.validate();
 }
+
+/**
+ * Validate a multi-file project as one combined graph.
+ */
+export function validateProject(project: StoryProject): ValidationResult {
+  const validator = new Validator(project.toStory(), { project });
+  return validator.validate();
+}
@@ -0,0 +1,198 @@
+/**
+ * Tests for the ChoiceScript exporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from '../core/serializer.js';
+import { choicescriptExporter } from './choicescript.js';
+
+const STORY = `version: "1.0"
+meta:
+  title: The Vault
+  author: Jo
+variables:
+  gold: 10
+  name: hero
+  bag: [rope]
+nodes:
+  intro:
+    type: passage
+    id: intro
+    start: true
+    content: "Gold: {gold}, twice {gold * 2}.\\nOn.\\n\\n{if gold > 5}Rich{else}Poor{/if}"
+    choices:
+      - text: Pay {min(gold, 5)}
+        target: pay
+        condition: gold >= 5 && !visited("vault")
+        decrement:
+          gold: 5
+      - text: Pack
+        target: roll
+        add:
+          bag: tent
+  pay:
+    type: variable
+    id: pay
+    tags: [vault]
+    set:
+      paid: true
+    next: check
+  check:
+    type: condition
+    id: check
+    tags: [vault]
+    expression: paid || name === "Bo"
+    ifTrue: vault
+    ifFalse: intro
+  roll:
+    type: random
+    id: roll
+    branches:
+      - target: vault
+        weight: 3
+      - target: intro
+  vault:
+    type: passage
+    id: vault
+    tags: [vault]
+    content: "*Inside*, \${name}."
+    ending: true
+`;
+
+describe('choicescriptExporter', () => {
+  const result = choicescriptExporter.export(parseToStory(STORY));
+  const [startup, vault] = result.files.map((f) => f.contents);
+
+  it('writes startup.txt and one scene per tag', () => {
+    expect(choicescriptExporter.target).toBe('choicescript');
+    expect(result.files.map((f) => f.name)).toEqual(['startup.txt', 'vault.txt']);
+    expect(startup).toContain(
+      '*title The Vault\n*author Jo\n*scene_list\n  startup\n  vault\n\n' +
+        '*create implicit_control_flow true\n*create gold 10\n*create name "hero"\n' +
+        '*create paid false\n*create sg_visits_vault 0\n\n*goto intro\n'
+    );
+    expect(startup).not.toContain('*create bag');
+  });
+
+  it('maps passages to labels with text and a *choice block', () => {
+    expect(startup).toContain(
+      '*label intro\n' +
+        '*temp sg_t1 (gold * 2)\n' +
+        'Gold: ${gold}, twice ${sg_t1}.\n*line_break\nOn.\n\n' +
+        '@{(gold > 5) Rich|Poor}\n' +
+        '*temp sg_t2 gold\n*if 5 < sg_t2\n  *set sg_t2 5\n' +
+        '*choice\n' +
+        '  *selectable_if ((gold >= 5) and not((sg_visits_vault > 0))) #Pay ${sg_t2}\n' +
+        '    *set gold -5\n' +
+        '    *goto_scene vault pay\n' +
+        '  #Pack\n' +
+        '    *goto roll\n'
+    );
+    expect(vault).toContain(
+      '*label vault\n*set sg_visits_vault +1\n\u200b*Inside*, $${name}.\n*ending\n'
+    );
+  });
+
+  it('maps variable, condition and random nodes', () => {
+    expect(vault).toContain('*label pay\n*set paid true\n*goto check\n');
+    expect(vault).toContain(
+      '*label check\n*if (paid or (name = "Bo"))\n  *goto vault\n*else\n  *goto_scene startup intro\n'
+    );
+    expect(startup).toContain(
+      '*label roll\n*temp sg_roll 0\n*rand sg_roll 1 4\n' +
+        '*if (sg_roll <= 3)\n  *goto_scene vault vault\n*else\n  *goto intro\n'
+    );
+  });
+
+  it('warns about lists, disabled choices and randomness', () => {
+    expect(result.warnings.map((w) => [w.code, w.nodeId])).toEqual([
+      ['EXP005', 'intro'],
+      ['EXP001', undefined],
+      ['EXP002', undefined],
+      ['EXP002', undefined],
+    ]);
+    expect(result.warnings[1].message).toBe("list variable 'bag' has no ChoiceScript equivalent");
+  });
+
+  it('writes signed changes and inline conditionals that became false', () => {
+    const story = parseToStory(STORY);
+    story.setNode({
+      id: 'pay',
+      type: 'variable',
+      tags: ['vault'],
+      increment: { gold: -5 },
+      decrement: { gold: -2 },
+      next: 'check',
+    });
+    story.setNode({
+      id: 'vault',
+      type: 'passage',
+      tags: ['vault'],
+      content: 'You {if "rope" in bag}climb{else}wait{/if}.',
+      ending: true,
+    });
+    const { files, warnings } = choicescriptExporter.export(story);
+    expect(files[1].contents).toContain('*label pay\n*set gold -5\n*set gold +2\n*goto check\n');
+    expect(files[1].contents).toContain(
+      '*label vault\n*set sg_visits_vault +1\nYou @{(false) climb|wait}.\n*ending\n'
+    );
+    expect(warnings.filter((w) => w.code === 'EXP004')).toEqual([
+      {
+        code: 'EXP004',
+        message: `Expression '"rope" in bag' in 'vault' uses 'in'; it became false`,
+        nodeId: 'vault',
+        details: { expression: '"rope" in bag' },
+      },
+    ]);
+  });
+
+  it('degrades includes, missing targets and unsupported expressions', () => {
+    const story = parseToStory(STORY);
+    story.setNode({
+      id: 'roll',
+      type: 'include',
+      path: 'other.story',
+      entry: 'vault',
+      return: 'intro',
+    });
+    story.setNode({ id: 'pay', type: 'include', path: 'missing.story', return: 'gone' });
+    story.setNode({
+      id: 'check',
+      type: 'condition',
+      expression: 'contains(name, "o")',
+      ifTrue: 'vault',
+      ifFalse: 'vault',
+    });
+    const { files, warnings } = choicescriptExporter.export(story);
+    expect(files[0].contents).toContain('*label roll\n*goto_scene vault vault\n');
+    expect(files[0].contents).toContain('*label pay\n*ending\n');
+    expect(files[0].contents).toContain('*label check\n*if (false)\n');
+    expect(warnings.map((w) => w.code)).toEqual([
+      'EXP005',
+      'EXP003',
+      'EXP001',
+      'EXP004',
+      'EXP003',
+      'EXP001',
+      'EXP002',
+    ]);
+  });
+
+  it('renames reserved variables and labels chapters by file', () => {
+    const story = parseToStory(STORY);
+    story.setNode({
+      id: 'ch1.story#start',
+      type: 'passage',
+      content: '{if visits("start") > 1}Again{/if}',
+      choices: [{ text: 'Back', target: 'intro', set: { round: 2, Gold: 1 } }],
+    });
+    const { files } = choicescriptExporter.export(story);
+    expect(files.map((f) => f.name)).toEqual(['startup.txt', 'vault.txt', 'ch1.txt']);
+    expect(files[0].contents).toContain('*create round_ 0\n');
+    expect(files[0].contents).toContain('*create gold_2 0\n');
+    expect(files[2].contents).toContain(
+      '*label start\n*set sg_visits_start +1\n@{(sg_visits_start > 1) Again|}\n' +
+        '*choice\n  #Back\n    *set round_ 2\n    *set gold_2 1\n    *goto_scene startup intro\n'
+    );
+  });
+});
@@ -0,0 +1,686 @@
+/**
+ * ChoiceScript Exporter
+ *
+ * Translates a story into ChoiceScript scene files for Choice of Games:
+ * - `startup.txt` holds `*title`, `*scene_list` and a `*create` for every
+ *   variable, then jumps to the start node
+ * - nodes are grouped into scenes: one per project chapter, else one per
+ *   node's first tag; untagged nodes stay in `startup`
+ * - passages and choice nodes become `*label`s with text and a `*choice`
+ *   block; conditional options use `*selectable_if`
+ * - variable nodes become `*set`, condition nodes `*if`/`*else` jumps and
+ *   random nodes `*rand` rolls against cumulative weights
+ *
+ * ChoiceScript has no operator precedence, so expressions are fully
+ * parenthesized. Built-ins it lacks are computed into `*temp` variables
+ * on the lines before the statement that uses them. Lists and maps have
+ * no equivalent and degrade with the EXP warnings in docs/spec/export.md.
+ */
+
+import type { Story } from '../core/story.js';
+import type { Choice, StoryNode, VariableMutations } from '../core/nodes.js';
+import type { VariableType, VariableValue } from '../core/types.js';
+import { inferVariableTypes } from '../core/typecheck.js';
+import {
+  ExpressionError,
+  parseExpressionTree,
+  type ExpressionNode,
+} from '../core/expression-parser.js';
+import { parseQualifiedNodeId, qualifyNodeId } from '../core/loader.js';
+import {
+  TemplateError,
+  hasTemplateSyntax,
+  parseTemplate,
+  type TemplatePart,
+} from '../core/template.js';
+import { printExpression, type ExpressionDialect } from './expression.js';
+import {
+  addWarning,
+  type ExportFile,
+  type ExportResult,
+  type ExportWarning,
+  type Exporter,
+} from './types.js';
+
+/** Words ChoiceScript reserves as operators, functions and settings */
+const RESERVED = new Set([
+  'and',
+  'or',
+  'not',
+  'true',
+  'false',
+  'modulo',
+  'round',
+  'length',
+  'log',
+  'timestamp',
+  'implicit_control_flow',
+]);
+
+const OPERATORS: Record<string, string> = {
+  '===': '=',
+  '==': '=',
+  '!==': '!=',
+  '&&': 'and',
+  '||': 'or',
+  '%': 'modulo',
+};
+
+const INDENT = '  ';
+
+/** Keeps text that looks like a command, or like `${`/`@{`, from being read as one */
+const ZERO_WIDTH_SPACE = '\u200b';
+
+/** Raised by the dialect for constructs ChoiceScript cannot express */
+class UnsupportedError extends Error {}
+
+class ChoiceScriptWriter {
+  private warnings: ExportWarning[] = [];
+  private types: Record<string, VariableType>;
+  private names = new Map<string, string>();
+  private taken = new Set<string>();
+  private scenes = new Map<string, string>();
+  private labels = new Map<string, string>();
+  private visitCounters = new Map<string, string>();
+  private undeclared = new Set<string>();
+  private setup: string[] = [];
+  private temp = 0;
+  private usesRandom = false;
+  private usesSelectable = false;
+
+  constructor(private story: Story) {
+    this.types = inferVariableTypes(story);
+    for (const name of Object.keys(this.types)) this.variableName(name);
+
+    const labelsByScene = new Map<string, Set<string>>();
+    for (const node of story.getAllNodes()) {
+      if (node.type === 'comment') continue;
+      const scene = this.sceneFor(node);
+      const taken = labelsByScene.get(scene) ?? new Set<string>();
+      let label = identifier(parseQualifiedNodeId(node.id).nodeId);
+      for (let suffix = 2; taken.has(label); suffix++) label = `${identifier(node.id)}_${suffix}`;
+      taken.add(label);
+      labelsByScene.set(scene, taken);
+      this.scenes.set(node.id, scene);
+      this.labels.set(node.id, label);
+    }
+  }
+
+  write(): ExportResult {
+    const bodies = new Map<string, string[]>();
+    for (const node of this.story.getAllNodes()) {
+      if (node.type === 'comment') continue;
+      bodies.set(node.id, this.writeNode(node));
+    }
+    // Visit counters are known once every expression has been written
+    for (const [nodeId, counter] of this.visitCounters) {
+      bodies.get(nodeId)!.splice(1, 0, `*set ${counter} +1`);
+    }
+
+    const scenes = new Map<string, string[]>([['startup', []]]);
+    for (const [nodeId, lines] of bodies) {
+      const scene = this.scenes.get(nodeId)!;
+      scenes.set(scene, [...(scenes.get(scene) ?? []), lines.join('\n')]);
+    }
+    scenes.get('startup')!.unshift(this.writeStartup([...scenes.keys()]).join('\n'));
+
+    if (this.usesSelectable) {
+      this.warn(
+        'EXP002',
+        'Choices whose condition fails are shown disabled (*selectable_if) instead of hidden'
+      );
+    }
+    if (this.usesRandom) {
+      this.warn(
+        'EXP002',
+        "Random draws use ChoiceScript's own generator; seeded playthroughs will not replay identically"
+      );
+    }
+
+    const files: ExportFile[] = [...scenes].map(([scene, sections]) => ({
+      name: `${scene}.txt`,
+      contents: `${sections.join('\n\n')}\n`,
+    }));
+    return { files, warnings: this.warnings };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Startup and state
+  // ---------------------------------------------------------------------------
+
+  private writeStartup(scenes: string[]): string[] {
+    const { title, author } = this.story.meta;
+    const lines = [`*title ${title}`];
+    if (author) lines.push(`*author ${author}`);
+    lines.push('*scene_list', ...scenes.map((scene) => `${INDENT}${scene}`), '');
+
+    // Lets *if blocks without a *goto fall through to the next line
+    lines.push('*create implicit_control_flow true');
+    for (const [name, type] of Object.entries(this.types)) {
+      if (type === 'list' || type === 'map') {
+        this.warn('EXP001', `${type} variable '${name}' has no ChoiceScript equivalent`, {
+          details: { variable: name },
+        });
+        continue;
+      }
+      const initial: VariableValue =
+        this.story.variables.get(name) ?? { number: 0, string: '', boolean: false }[type];
+      lines.push(`*create ${this.variableName(name)} ${literal(initial)}`);
+    }
+    // Undeclared reads are undefined at runtime; false behaves the same
+    for (const name of this.undeclared) lines.push(`*create ${this.variableName(name)} false`);
+    for (const counter of this.visitCounters.values()) lines.push(`*create ${counter} 0`);
+
+    const start = this.story.getStartNode();
+    lines.push('', start ? this.jump(start.id, 'startup') : '*ending');
+    return lines;
+  }
+
+  private variableName(name: string): string {
+    let script = this.names.get(name);
+    if (script === undefined) {
+      script = this.allocate(identifier(name));
+      this.names.set(name, script);
+    }
+    return script;
+  }
+
+  /**
+   * A unique ChoiceScript variable name. Story variables keep clear of
+   * reserved words and the `sg_`/`choice_` prefixes used by the exporter
+   * and by ChoiceScript itself.
+   */
+  private allocate(base: string, internal = false): string {
+    let name =
+      !internal && (RESERVED.has(base) || base.startsWith('sg_') || base.startsWith('choice_'))
+        ? `${base}_`
+        : base;
+    for (let suffix = 2; this.taken.has(name); suffix++) name = `${base}_${suffix}`;
+    this.taken.add(name);
+    return name;
+  }
+
+  private writeMutations(mutations: VariableMutations, nodeId: string): string[] {
+    const lines: string[] = [];
+    for (const [name, value] of Object.entries(mutations.set ?? {})) {
+      if (typeof value === 'object') {
+        this.dropMutation('set', name, nodeId);
+        continue;
+      }
+      lines.push(`*set ${this.variableName(name)} ${literal(value)}`);
+    }
+    for (const [name, amount] of Object.entries(mutations.increment ?? {})) {
+      lines.push(`*set ${this.variableName(name)} ${amount < 0 ? '-' : '+'}${Math.abs(amount)}`);
+    }
+    for (const [name, amount] of Object.entries(mutations.decrement ?? {})) {
+      lines.push(`*set ${this.variableName(name)} ${amount < 0 ? '+' : '-'}${Math.abs(amount)}`);
+    }
+    for (const [op, changes] of [
+      ['add', mutations.add],
+      ['remove', mutations.remove],
+    ] as const) {
+      for (const name of Object.keys(changes ?? {})) this.dropMutation(op, name, nodeId);
+    }
+    for (const name of mutations.clear ?? []) this.dropMutation('clear', name, nodeId);
+    return lines;
+  }
+
+  private dropMutation(op: string, name: string, nodeId: string): void {
+    this.warn('EXP005', `${op} on '${name}' in '${nodeId}' was dropped`, {
+      nodeId,
+      details: { variable: name, operation: op },
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Nodes
+  // ---------------------------------------------------------------------------
+
+  private writeNode(node: StoryNode): string[] {
+    this.temp = 0;
+    const lines = [`*label ${this.labels.get(node.id)}`];
+
+    switch (node.type) {
+      case 'passage':
+        lines.push(...this.paragraphs(node.content, node.id));
+        lines.push(...this.writeChoices(node, node.choices ?? []));
+        break;
+
+      case 'choice':
+        if (node.prompt) lines.push(...this.paragraphs(node.prompt, node.id));
+        lines.push(...this.writeChoices(node, node.choices));
+        break;
+
+      case 'variable':
+        lines.push(...this.writeMutations(node, node.id));
+        lines.push(this.jump(node.next, node.id));
+        break;
+
+      case 'condition': {
+        const test = this.expression(node.expression, node.id);
+        lines.push(...this.flushSetup(), `*if ${test}`);
+        lines.push(`${INDENT}${this.jump(node.ifTrue, node.id)}`);
+        lines.push('*else');
+        lines.push(`${INDENT}${this.jump(node.ifFalse, node.id)}`);
+        break;
+      }
+
+      case 'random':
+        lines.push(...this.writeRandom(node.id, node.branches));
+        break;
+
+      case 'include':
+        lines.push(this.writeInclude(node));
+        break;
+    }
+
+    return lines;
+  }
+
+  private writeChoices(node: StoryNode, choices: Choice[]): string[] {
+    const options: string[] = [];
+    for (const choice of choices) {
+      let guard = '';
+      if (choice.condition) {
+        this.usesSelectable = true;
+        guard = `*selectable_if ${this.expression(choice.condition, node.id)} `;
+      }
+      options.push(`${INDENT}${guard}#${this.optionText(choice.text, node.id)}`);
+      for (const line of this.writeMutations(choice, node.id)) {
+        options.push(`${INDENT}${INDENT}${line}`);
+      }
+      options.push(`${INDENT}${INDENT}${this.jump(choice.target, node.id)}`);
+    }
+    // StoryGraph ends where a passage offers nothing
+    if (options.length === 0) return ['*ending'];
+    return [...this.flushSetup(), '*choice', ...options];
+  }
+
+  private writeRandom(
+    nodeId: string,
+    branches: Array<{ target: string; weight?: number | undefined }>
+  ): string[] {
+    this.usesRandom = true;
+    if (branches.length === 1) return [this.jump(branches[0].target, nodeId)];
+
+    let weights = branches.map((branch) => branch.weight ?? 1);
+    if (!weights.every(Number.isInteger)) {
+      weights = weights.map((weight) => Math.max(1, Math.round(weight * 100)));
+      this.warn('EXP002', `Random weights in '${nodeId}' were rounded to whole numbers`, {
+        nodeId,
+      });
+    }
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const lines = ['*temp sg_roll 0', `*rand sg_roll 1 ${total}`];
+    let threshold = 0;
+    branches.forEach((branch, index) => {
+      threshold += weights[index];
+      if (index === branches.length - 1) lines.push('*else');
+      else lines.push(`${index === 0 ? '*if' : '*elseif'} (sg_roll <= ${threshold})`);
+      lines.push(`${INDENT}${this.jump(branch.target, nodeId)}`);
+    });
+    return lines;
+  }
+
+  private writeInclude(node: Extract<StoryNode, { type: 'include' }>): string {
+    if (node.entry && this.labels.has(node.entry)) {
+      this.warn('EXP003', `Include '${node.id}' was flattened; it no longer returns`, {
+        nodeId: node.id,
+        details: { path: node.path },
+      });
+      return this.jump(node.entry, node.id);
+    }
+    this.warn('EXP003', `Include of '${node.path}' in '${node.id}' was skipped`, {
+      nodeId: node.id,
+      details: { path: node.path },
+    });
+    return node.return ? this.jump(node.return, node.id) : '*ending';
+  }
+
+  /**
+   * `*goto` within a scene, `*goto_scene` across scenes. `from` is a node ID
+   * or the name of the scene the jump is written in.
+   */
+  private jump(target: string, from: string): string {
+    const label = this.labels.get(target);
+    if (!label) {
+      this.warn('EXP001', `Missing target '${target}' in '${from}' now ends the story`, {
+        nodeId: from,
+        details: { target },
+      });
+      return '*ending';
+    }
+    const scene = this.scenes.get(target)!;
+    const fromScene = this.scenes.get(from) ?? from;
+    return scene === fromScene ? `*goto ${label}` : `*goto_scene ${scene} ${label}`;
+  }
+
+  private sceneFor(node: StoryNode): string {
+    const { file } = parseQualifiedNodeId(node.id);
+    const source = file ? file.replace(/^.*\//, '').replace(/\.[^.]*$/, '') : node.tags?.[0];
+    return source ? identifier(source) : 'startup';
+  }
+
+  /**
+   * Resolve a node ID as an expression in `fromId` sees it: plain IDs
+   * refer to the same file, `path#id` to another one.
+   */
+  private resolveNode(target: string, fromId: string): string | undefined {
+    const { file } = parseQualifiedNodeId(fromId);
+    const local = qualifyNodeId(file ?? null, target);
+    if (this.labels.has(local)) return local;
+    return this.labels.has(target) ? target : undefined;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Text
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lines for passage text: paragraphs separated by blank lines, single
+   * line breaks as `*line_break`. Templates whose `{if}` spans paragraphs
+   * keep the text in one block.
+   */
+  private paragraphs(source: string, nodeId: string): string[] {
+    const chunks = source.split(/\n\s*\n/).filter((chunk) => chunk.trim().length > 0);
+    let parsed: TemplatePart[][];
+    try {
+      parsed = chunks.map((chunk) => this.parse(chunk));
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      parsed = [this.template(source, nodeId)];
+    }
+
+    const lines: string[] = [];
+    for (const parts of parsed) {
+      const text = this.textLines(parts, nodeId);
+      if (lines.length > 0) lines.push('');
+      lines.push(...this.flushSetup(), ...text);
+    }
+    return lines;
+  }
+
+  /**
+   * Text lines for template parts. Values print with `${}`; an `{if}`
+   * becomes `@{(test) a|b}` when both branches are plain text on one line,
+   * otherwise an `*if`/`*else` block.
+   */
+  private textLines(parts: TemplatePart[], nodeId: string): string[] {
+    const lines: string[] = [];
+    let line = '';
+    const flush = () => {
+      if (line.trim()) lines.push(escapeLine(line.trim()));
+      line = '';
+    };
+
+    for (const part of parts) {
+      if (part.type === 'text') {
+        part.value.split(/(\n\s*\n|\n)/).forEach((piece, index) => {
+          if (index % 2 === 0) {
+            line += escapeText(piece);
+            return;
+          }
+          flush();
+          lines.push(piece === '\n' ? '*line_break' : '');
+        });
+      } else if (part.type === 'expression') {
+        line += this.value(part.expression, nodeId);
+      } else {
+        const inline = [part.then, part.else].map((branch) =>
+          branch.every((p) => p.type === 'text' && !/[|{}\n]/.test(p.value))
+            ? branch.map((p) => escapeText((p as { value: string }).value)).join('')
+            : undefined
+        );
+        const test = this.expression(part.condition, nodeId);
+        if (inline[0] !== undefined && inline[1] !== undefined) {
+          line += `@{${test} ${inline[0]}|${inline[1]}}`;
+          continue;
+        }
+        flush();
+        lines.push(...this.flushSetup(), `*if ${test}`);
+        for (const nested of this.textLines(part.then, nodeId)) {
+          lines.push(nested ? `${INDENT}${nested}` : '');
+        }
+        if (part.else.length > 0) {
+          lines.push('*else');
+          for (const nested of this.textLines(part.else, nodeId)) {
+            lines.push(nested ? `${INDENT}${nested}` : '');
+          }
+        }
+      }
+    }
+    flush();
+    return lines;
+  }
+
+  /**
+   * Option text after `#`. Options are one line, so an `{if}` that needs a
+   * block keeps its source text.
+   */
+  private optionText(source: string, nodeId: string): string {
+    const text = source.replace(/\s*\n\s*/g, ' ');
+    const parts = this.template(text, nodeId);
+    const lines = this.textLines(parts, nodeId);
+    if (lines.length === 1 && !lines[0].startsWith('*')) return lines[0];
+    this.warn('EXP007', `Choice text in '${nodeId}' was exported as plain text`, {
+      nodeId,
+      details: { text: source },
+    });
+    return escapeText(text);
+  }
+
+  /** `${name}` for a variable, else a temporary set on the lines before */
+  private value(source: string, nodeId: string): string {
+    const printed = this.expression(source, nodeId);
+    const name = /^\(([a-z][a-z0-9_]*)\)$/.exec(printed)?.[1];
+    if (name && name !== 'true' && name !== 'false') return `\${${name}}`;
+    return `\${${this.temporary(printed)}}`;
+  }
+
+  private template(source: string, nodeId: string): TemplatePart[] {
+    try {
+      return this.parse(source);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      this.warn('EXP007', `Invalid template in '${nodeId}' was exported as plain text`, {
+        nodeId,
+        details: { error: error.message },
+      });
+      return [{ type: 'text', value: source }];
+    }
+  }
+
+  private parse(source: string): TemplatePart[] {
+    return hasTemplateSyntax(source) ? parseTemplate(source) : [{ type: 'text', value: source }];
+  }
+
+  /** A `*temp` holding `value`, set on the setup lines */
+  private temporary(value: string): string {
+    const name = `sg_t${++this.temp}`;
+    this.setup.push(`*temp ${name} ${value}`);
+    return name;
+  }
+
+  private flushSetup(): string[] {
+    const lines = this.setup;
+    this.setup = [];
+    return lines;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A parenthesized ChoiceScript expression. Constructs without an
+   * equivalent make the whole expression false.
+   */
+  private expression(source: string, nodeId: string): string {
+    const setup = this.setup.length;
+    try {
+      const printed = printExpression(parseExpressionTree(source), this.dialect(nodeId));
+      return printed.startsWith('(') && balanced(printed.slice(1, -1)) ? printed : `(${printed})`;
+    } catch (error) {
+      if (!(error instanceof ExpressionError) && !(error instanceof UnsupportedError)) throw error;
+      this.setup.length = setup;
+      const reason =
+        error instanceof UnsupportedError ? error.message : `is invalid: ${error.message}`;
+      this.warn('EXP004', `Expression '${source}' in '${nodeId}' ${reason}; it became false`, {
+        nodeId,
+        details: { expression: source },
+      });
+      return '(false)';
+    }
+  }
+
+  private dialect(nodeId: string): ExpressionDialect {
+    const atom = (node: ExpressionNode, print: (node: ExpressionNode) => string) =>
+      node.type === 'binary' ? `(${print(node)})` : print(node);
+    const isString = (node: ExpressionNode): boolean =>
+      (node.type === 'literal' && typeof node.value === 'string') ||
+      (node.type === 'variable' && this.types[node.name] === 'string') ||
+      (node.type === 'binary' &&
+        node.operator === '+' &&
+        (isString(node.left) || isString(node.right)));
+    const scalar = (name: string) => {
+      const type = this.types[name];
+      if (type === 'list' || type === 'map') {
+        throw new UnsupportedError(`reads ${type} variable '${name}'`);
+      }
+    };
+
+    return {
+      operator: (operator) => OPERATORS[operator] ?? operator,
+      literal: (value) => literal(value ?? false),
+      variable: (name) => {
+        scalar(name);
+        if (!Object.prototype.hasOwnProperty.call(this.types, name)) this.undeclared.add(name);
+        return this.variableName(name);
+      },
+      unary: (node, print) =>
+        node.operator === '!'
+          ? `not(${print(node.operand)})`
+          : `(0 - ${atom(node.operand, print)})`,
+      binary: (node, print) => {
+        if (node.operator === 'in') throw new UnsupportedError("uses 'in'");
+        const operator =
+          node.operator === '+' && (isString(node.left) || isString(node.right))
+            ? '&'
+            : (OPERATORS[node.operator] ?? node.operator);
+        return `${atom(node.left, print)} ${operator} ${atom(node.right, print)}`;
+      },
+      call: (node, print) => {
+        const args = node.args.map((arg) => atom(arg, print));
+        switch (node.name) {
+          case 'min':
+          case 'max': {
+            const result = this.temporary(args[0]);
+            const compare = node.name === 'min' ? '<' : '>';
+            for (const arg of args.slice(1)) {
+              this.setup.push(`*if ${arg} ${compare} ${result}`, `${INDENT}*set ${result} ${arg}`);
+            }
+            return result;
+          }
+          case 'abs': {
+            const result = this.temporary(args[0]);
+            this.setup.push(`*if ${result} < 0`, `${INDENT}*set ${result} (0 - ${result})`);
+            return result;
+          }
+          case 'clamp': {
+            const result = this.temporary(args[0]);
+            this.setup.push(`*if ${result} < ${args[1]}`, `${INDENT}*set ${result} ${args[1]}`);
+            this.setup.push(`*if ${result} > ${args[2]}`, `${INDENT}*set ${result} ${args[2]}`);
+            return result;
+          }
+          case 'floor':
+            // round() rounds halves up, so this is floor for every number
+            return `round(${args[0]} - 0.5)`;
+          case 'len':
+            return `length(${args[0]})`;
+          case 'random': {
+            this.usesRandom = true;
+            const result = this.temporary('0');
+            this.setup.push(`*rand ${result} ${args[0]} ${args[1]}`);
+            return result;
+          }
+          case 'chance': {
+            this.usesRandom = true;
+            const result = this.temporary('0');
+            this.setup.push(`*rand ${result} 1 1000000`);
+            return `(${result} <= (${args[0]} * 1000000))`;
+          }
+          case 'visited':
+          case 'visits': {
+            const [target] = node.args;
+            const resolved =
+              target.type === 'literal' && typeof target.value === 'string'
+                ? this.resolveNode(target.value, nodeId)
+                : undefined;
+            if (!resolved) throw new UnsupportedError(`names an unknown node in ${node.name}()`);
+            let counter = this.visitCounters.get(resolved);
+            if (!counter) {
+              counter = this.allocate(`sg_visits_${this.labels.get(resolved)}`, true);
+              this.visitCounters.set(resolved, counter);
+            }
+            return node.name === 'visited' ? `(${counter} > 0)` : counter;
+          }
+          default:
+            throw new UnsupportedError(`calls ${node.name}(), which ChoiceScript lacks`);
+        }
+      },
+    };
+  }
+
+  private warn(
+    code: string,
+    message: string,
+    extra: { nodeId?: string; details?: Record<string, unknown> } = {}
+  ): void {
+    addWarning(this.warnings, { code, message, ...extra });
+  }
+}
+
+/** A lowercase ChoiceScript identifier; names are case-insensitive */
+function identifier(name: string): string {
+  const id = name.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+  return /^[a-z]/.test(id) ? id : `n_${id}`;
+}
+
+/**
+ * A scalar as a ChoiceScript literal.
+ */
+function literal(value: VariableValue): string {
+  if (typeof value === 'string') return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  return String(value);
+}
+
+/** Whether parentheses in `text` pair up without closing early */
+function balanced(text: string): boolean {
+  let depth = 0;
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')' && --depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+/** Break up `${`, `$!{` and `@{` so plain text never interpolates */
+function escapeText(text: string): string {
+  return text.replace(/([$@]!{0,2})\{/g, `$1${ZERO_WIDTH_SPACE}{`);
+}
+
+/** Keep a text line that starts like a command or option from being read as one */
+function escapeLine(line: string): string {
+  return /^[*#]/.test(line) ? `${ZERO_WIDTH_SPACE}${line}` : line;
+}
+
+/**
+ * Exporter for ChoiceScript (Choice of Games).
+ */
+export const choicescriptExporter: Exporter = {
+  target: 'choicescript',
+  export(story: Story): ExportResult {
+    return new ChoiceScriptWriter(story).write();
+  },
+};
@@ -0,0 +1,176 @@
+/**
+ * Tests for the EPUB exporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from '../core/serializer.js';
+import { epubExporter } from './epub.js';
+
+const STORY = `version: "1.0"
+meta:
+  title: The Vault
+  author: Ann Writer
+  language: en-GB
+  rating: teen
+  description: A short heist.
+  modified: "2024-05-01T12:30:00.000Z"
+variables:
+  gold: 10
+  name: Ann
+  lamp: false
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: "Hello {name}. You have {gold} gold.\\n\\n{if lamp}It is light.{else}It is dark.{/if}"
+    choices:
+      - text: Pay
+        target: pay
+        condition: gold >= 5
+      - text: Fly
+        target: vault
+        condition: name === "Bob"
+      - text: Wait
+        target: check
+  pay:
+    type: variable
+    id: pay
+    decrement:
+      gold: 5
+    next: vault
+  check:
+    type: condition
+    id: check
+    expression: name === "Ann"
+    ifTrue: roll
+    ifFalse: start
+  roll:
+    type: random
+    id: roll
+    branches:
+      - target: vault
+        weight: 3
+        label: Lucky
+      - target: cellar
+  vault:
+    type: passage
+    id: vault
+    content: "Gold <everywhere> & more."
+    ending: true
+  cellar:
+    type: passage
+    id: cellar
+    content: You fall into the cellar.
+    choices:
+      - target: start
+        text: Climb out
+        set:
+          lamp: true
+`;
+
+/** Read the entries of a stored (uncompressed) zip archive */
+function unzip(archive: Uint8Array): Map<string, string> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength;
+    const name = decoder.decode(archive.subarray(offset + 30, start));
+    entries.set(name, decoder.decode(archive.subarray(start, start + size)));
+    offset = start + size;
+  }
+  return entries;
+}
+
+describe('epubExporter', () => {
+  const result = epubExporter.export(parseToStory(STORY));
+  const files = unzip(result.files[0].contents as Uint8Array);
+
+  it('packages an EPUB 3 archive', () => {
+    expect(epubExporter.target).toBe('epub');
+    expect(result.files.map((f) => f.name)).toEqual(['the-vault.epub']);
+    expect([...files.keys()]).toEqual([
+      'mimetype',
+      'META-INF/container.xml',
+      'EPUB/package.opf',
+      'EPUB/nav.xhtml',
+      'EPUB/style.css',
+      'EPUB/title.xhtml',
+      'EPUB/section-1.xhtml',
+      'EPUB/section-2.xhtml',
+      'EPUB/section-3.xhtml',
+      'EPUB/section-4.xhtml',
+    ]);
+    expect(files.get('mimetype')).toBe('application/epub+zip');
+    expect(files.get('META-INF/container.xml')).toContain('full-path="EPUB/package.opf"');
+  });
+
+  it('fills package metadata from the story meta', () => {
+    const opf = files.get('EPUB/package.opf')!;
+    expect(opf).toMatch(/<dc:identifier id="book-id">urn:uuid:[0-9a-f-]{36}<\/dc:identifier>/);
+    expect(opf).toContain('<dc:title>The Vault</dc:title>');
+    expect(opf).toContain('<dc:creator>Ann Writer</dc:creator>');
+    expect(opf).toContain('<dc:language>en-GB</dc:language>');
+    expect(opf).toContain('<meta property="schema:contentRating">teen</meta>');
+    expect(opf).toContain('<meta property="dcterms:modified">2024-05-01T12:30:00Z</meta>');
+    expect(opf).toContain(
+      '<spine>\n    <itemref idref="title"/>\n    <itemref idref="section-1"/>'
+    );
+  });
+
+  it('numbers sections from the start and links choices to them', () => {
+    const start = files.get('EPUB/section-1.xhtml')!;
+    expect(start).toContain('<h2>1</h2>');
+    expect(start).toContain('<p>Hello Ann. You have 10 gold.</p>\n  <p>It is dark.</p>');
+    // The constant condition on name drops "Fly"; "Pay" passes through the variable node
+    expect(start).toContain(
+      '<li><a href="section-2.xhtml">Pay</a> <span class="turn">(turn to 2)</span></li>\n' +
+        '    <li><a href="section-3.xhtml">Wait</a> <span class="turn">(turn to 3)</span></li>'
+    );
+    expect(start).not.toContain('Fly');
+
+    expect(files.get('EPUB/section-2.xhtml')).toContain(
+      '<p>Gold &lt;everywhere&gt; &amp; more.</p>\n  <p class="end">The End</p>'
+    );
+    // check is decided at export time, so "Wait" lands on the random node
+    expect(files.get('EPUB/section-3.xhtml')).toContain(
+      '<p>Let chance decide:</p>\n  <ol class="choices">\n' +
+        '    <li><a href="section-2.xhtml">Lucky (3 in 4)</a>'
+    );
+    expect(files.get('EPUB/section-4.xhtml')).toContain('>Climb out</a>');
+  });
+
+  it('builds the navigation from the start and the endings', () => {
+    const nav = files.get('EPUB/nav.xhtml')!;
+    expect(nav).toContain('<li><a href="section-1.xhtml">Beginning</a></li>');
+    expect(nav).toContain(
+      '<li><span>Endings</span>\n      <ol>\n' +
+        '        <li><a href="section-2.xhtml">2. Gold &lt;everywhere&gt; &amp; more.</a></li>'
+    );
+    expect(nav).toContain('<a epub:type="bodymatter" href="section-1.xhtml">Start</a>');
+  });
+
+  it('warns about state the book cannot keep', () => {
+    expect(result.warnings.map((w) => [w.code, w.nodeId])).toEqual([
+      ['EXP005', 'start'],
+      ['EXP004', 'start'],
+      ['EXP004', 'start'],
+      ['EXP005', 'pay'],
+      ['EXP002', 'roll'],
+      ['EXP005', 'cellar'],
+    ]);
+    expect(result.warnings[0].message).toBe("'start' shows the starting value of {gold}");
+    expect(result.warnings[2].message).toBe(
+      "Condition of choice 'Pay' in 'start' is not enforced; the choice is always offered"
+    );
+  });
+
+  it('gives the same bytes for the same story', () => {
+    const again = epubExporter.export(parseToStory(STORY)).files[0].contents;
+    expect(again).toEqual(result.files[0].contents);
+  });
+});
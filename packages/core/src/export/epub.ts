@@ -0,0 +1,578 @@
+/**
+ * EPUB Exporter
+ *
+ * Turns a story into an EPUB 3 gamebook:
+ * - passages and choice nodes become numbered sections, numbered
+ *   breadth-first from the start node
+ * - choices become links to the section they lead to ("turn to 12")
+ * - the navigation document lists the start and every ending
+ * - package metadata comes from the story's meta
+ *
+ * A book keeps no state, so it reads the story with the starting values.
+ * Variables that no node or choice changes are constants and keep full
+ * fidelity: templates print them and conditions on them are decided at
+ * export time. Anything that depends on changing state, visits or chance
+ * degrades with the EXP warnings in docs/spec/export.md.
+ */
+
+import type { Story } from '../core/story.js';
+import type { Choice, StoryNode, VariableMutations } from '../core/nodes.js';
+import type { VariableValue } from '../core/types.js';
+import { getStoryMutations } from '../core/typecheck.js';
+import {
+  ExpressionError,
+  evaluateExpressionValue,
+  getExpressionVariables,
+  type ExpressionOptions,
+} from '../core/expression-parser.js';
+import {
+  TemplateError,
+  formatValue,
+  hasTemplateSyntax,
+  parseTemplate,
+  type TemplatePart,
+} from '../core/template.js';
+import {
+  addWarning,
+  createIfid,
+  getExportFileName,
+  type ExportFile,
+  type ExportResult,
+  type ExportWarning,
+  type Exporter,
+} from './types.js';
+import { createZip } from './zip.js';
+
+/** dcterms:modified for stories without created/modified dates; keeps exports pure */
+const DEFAULT_MODIFIED = '2000-01-01T00:00:00Z';
+
+const STYLESHEET = `body { font-family: Georgia, serif; line-height: 1.5; margin: 0 5%; }
+h1, h2 { text-align: center; }
+h2 { margin-top: 2em; }
+.author, .begin, .end { text-align: center; }
+.end { font-style: italic; margin-top: 2em; }
+ol.choices { list-style: none; padding: 0; margin-top: 1.5em; }
+ol.choices li { margin: 0.75em 0; }
+.turn { white-space: nowrap; }
+`;
+
+interface Link {
+  text: string;
+  /** Node ID of the section the link leads to */
+  target: string;
+}
+
+interface Section {
+  node: StoryNode;
+  paragraphs: string[];
+  links: Link[];
+  /** Code shown before the links of a condition left to the reader */
+  condition?: string;
+}
+
+type Evaluation = { value: ReturnType<typeof evaluateExpressionValue>; fixed: boolean };
+
+class EpubWriter {
+  private warnings: ExportWarning[] = [];
+  private initial: Record<string, VariableValue>;
+  private changing = new Set<string>();
+  private resolved = new Map<string, string | undefined>();
+  private sections = new Map<string, Section>();
+  private numbers = new Map<string, number>();
+
+  constructor(private story: Story) {
+    this.initial = Object.fromEntries(story.variables);
+    for (const mutations of getStoryMutations(story)) {
+      for (const name of mutatedVariables(mutations)) this.changing.add(name);
+    }
+  }
+
+  write(): ExportResult {
+    const start = this.story.getStartNode();
+    const first = start ? this.resolve(start.id, start.id) : undefined;
+
+    // Number sections breadth-first, so the start is 1 and nearby sections stay close
+    const queue = first ? [first] : [];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (this.numbers.has(id)) continue;
+      this.numbers.set(id, this.numbers.size + 1);
+      const section = this.buildSection(this.story.getNode(id)!);
+      this.sections.set(id, section);
+      for (const link of section.links) queue.push(link.target);
+    }
+
+    const pages: ExportFile[] = [
+      { name: 'EPUB/title.xhtml', contents: this.writeTitlePage() },
+      ...[...this.sections].map(([id, section]) => ({
+        name: `EPUB/${this.sectionFile(id)}`,
+        contents: this.writeSection(section),
+      })),
+    ];
+    const files: ExportFile[] = [
+      { name: 'mimetype', contents: 'application/epub+zip' },
+      { name: 'META-INF/container.xml', contents: CONTAINER },
+      { name: 'EPUB/package.opf', contents: this.writePackage(pages) },
+      { name: 'EPUB/nav.xhtml', contents: this.writeNav() },
+      { name: 'EPUB/style.css', contents: STYLESHEET },
+      ...pages,
+    ];
+
+    return {
+      files: [{ name: getExportFileName(this.story, 'epub'), contents: createZip(files) }],
+      warnings: this.warnings,
+    };
+  }
+
+  // ===========================================================================
+  // Sections
+  // ===========================================================================
+
+  private buildSection(node: StoryNode): Section {
+    switch (node.type) {
+      case 'passage':
+        return {
+          node,
+          paragraphs: paragraphs(this.render(node.content, node.id)),
+          links: this.choiceLinks(node.choices ?? [], node.id),
+        };
+      case 'choice':
+        return {
+          node,
+          paragraphs: node.prompt ? paragraphs(this.render(node.prompt, node.id)) : [],
+          links: this.choiceLinks(node.choices, node.id),
+        };
+      case 'condition': {
+        // Only conditions that depend on changing state become sections
+        const message = `Condition '${node.expression}' in '${node.id}' is left to the reader`;
+        this.warn('EXP004', message, {
+          nodeId: node.id,
+          details: { expression: node.expression },
+        });
+        return {
+          node,
+          paragraphs: [],
+          condition: node.expression,
+          links: this.links(
+            [
+              { text: 'If so', target: node.ifTrue },
+              { text: 'If not', target: node.ifFalse },
+            ],
+            node.id
+          ),
+        };
+      }
+      case 'random': {
+        this.warn('EXP002', `Random node '${node.id}' leaves the pick to the reader`, {
+          nodeId: node.id,
+        });
+        const total = node.branches.reduce((sum, branch) => sum + (branch.weight ?? 1), 0);
+        return {
+          node,
+          paragraphs: ['Let chance decide:'],
+          links: this.links(
+            node.branches.map((branch) => {
+              const odds = `${branch.weight ?? 1} in ${total}`;
+              return {
+                text: branch.label ? `${branch.label} (${odds})` : odds,
+                target: branch.target,
+              };
+            }),
+            node.id
+          ),
+        };
+      }
+      default:
+        // resolve() only stops at the node types above
+        throw new Error(`Node '${node.id}' cannot be a section`);
+    }
+  }
+
+  private choiceLinks(choices: Choice[], nodeId: string): Link[] {
+    const offered: Link[] = [];
+    for (const choice of choices) {
+      if (choice.condition) {
+        const { value, fixed } = this.evaluate(choice.condition, nodeId);
+        if (fixed && !value) continue;
+        if (!fixed) {
+          this.warn(
+            'EXP004',
+            `Condition of choice '${choice.text}' in '${nodeId}' is not enforced; the choice is always offered`,
+            { nodeId, details: { condition: choice.condition } }
+          );
+        }
+      }
+      if (mutatedVariables(choice).length > 0) {
+        const message = `Variable changes of choice '${choice.text}' in '${nodeId}' were dropped`;
+        this.warn('EXP005', message, { nodeId });
+      }
+      offered.push({
+        text: this.render(choice.text.replace(/\s*\n\s*/g, ' '), nodeId),
+        target: choice.target,
+      });
+    }
+    return this.links(offered, nodeId);
+  }
+
+  /** Point links at sections; links that reach no section are dropped. */
+  private links(links: Link[], nodeId: string): Link[] {
+    return links.flatMap((link) => {
+      const target = this.resolve(link.target, nodeId);
+      return target ? [{ text: link.text, target }] : [];
+    });
+  }
+
+  /**
+   * The section a link to `target` lands on. Variable nodes, includes and
+   * conditions on constants have no page of their own; links pass through
+   * them to the next section.
+   */
+  private resolve(target: string, nodeId: string, seen = new Set<string>()): string | undefined {
+    if (this.resolved.has(target)) return this.resolved.get(target);
+    const node = this.story.getNode(target);
+    let section: string | undefined;
+
+    if (!node || node.type === 'comment') {
+      this.warn('EXP001', `Missing target '${target}' in '${nodeId}' was dropped`, {
+        nodeId,
+        details: { target },
+      });
+    } else if (seen.has(target)) {
+      this.warn('EXP006', `Logic nodes from '${nodeId}' loop without reaching a passage`, {
+        nodeId,
+        details: { target },
+      });
+    } else {
+      seen.add(target);
+      switch (node.type) {
+        case 'variable':
+          this.warn('EXP005', `Variable changes in '${node.id}' were dropped`, {
+            nodeId: node.id,
+          });
+          section = this.resolve(node.next, node.id, seen);
+          break;
+        case 'condition': {
+          const { value, fixed } = this.evaluate(node.expression, node.id);
+          section = fixed
+            ? this.resolve(value ? node.ifTrue : node.ifFalse, node.id, seen)
+            : node.id;
+          break;
+        }
+        case 'include': {
+          const entry = node.entry && this.story.getNode(node.entry) ? node.entry : undefined;
+          this.warn(
+            'EXP003',
+            entry
+              ? `Include of '${node.path}' in '${node.id}' continues at its entry; its return is not followed`
+              : `Include of '${node.path}' in '${node.id}' was skipped`,
+            { nodeId: node.id, details: { path: node.path } }
+          );
+          const next = entry ?? node.return;
+          section = next ? this.resolve(next, node.id, seen) : undefined;
+          break;
+        }
+        default:
+          section = node.id;
+      }
+    }
+
+    this.resolved.set(target, section);
+    return section;
+  }
+
+  // ===========================================================================
+  // State
+  // ===========================================================================
+
+  /**
+   * Evaluate an expression with the starting values. The result is fixed
+   * unless it reads a variable the story changes, a visit count or a
+   * random draw.
+   */
+  private evaluate(expression: string, nodeId: string): Evaluation {
+    let fixed = true;
+    const options: ExpressionOptions = {
+      visits: () => {
+        fixed = false;
+        return 0;
+      },
+      random: () => {
+        fixed = false;
+        return 0;
+      },
+    };
+    try {
+      const value = evaluateExpressionValue(expression, this.initial, options);
+      if (getExpressionVariables(expression).some(({ name }) => this.changing.has(name))) {
+        fixed = false;
+      }
+      return { value, fixed };
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      this.warn('EXP004', `Invalid expression '${expression}' in '${nodeId}' was read as false`, {
+        nodeId,
+        details: { error: error.message },
+      });
+      return { value: false, fixed: true };
+    }
+  }
+
+  private render(source: string, nodeId: string): string {
+    if (!hasTemplateSyntax(source)) return source;
+    try {
+      return this.renderParts(parseTemplate(source), nodeId);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      this.warn('EXP007', `Invalid template in '${nodeId}' was exported as plain text`, {
+        nodeId,
+        details: { error: error.message },
+      });
+      return source;
+    }
+  }
+
+  private renderParts(parts: TemplatePart[], nodeId: string): string {
+    let output = '';
+    for (const part of parts) {
+      if (part.type === 'text') {
+        output += part.value;
+      } else if (part.type === 'expression') {
+        const { value, fixed } = this.evaluate(part.expression, nodeId);
+        if (!fixed) {
+          this.warn('EXP005', `'${nodeId}' shows the starting value of {${part.expression}}`, {
+            nodeId,
+            details: { expression: part.expression },
+          });
+        }
+        output += formatValue(value);
+      } else {
+        const { value, fixed } = this.evaluate(part.condition, nodeId);
+        if (!fixed) {
+          this.warn(
+            'EXP004',
+            `{if ${part.condition}} in '${nodeId}' shows the text for the starting values`,
+            { nodeId, details: { condition: part.condition } }
+          );
+        }
+        output += this.renderParts(value ? part.then : part.else, nodeId);
+      }
+    }
+    return output;
+  }
+
+  // ===========================================================================
+  // Documents
+  // ===========================================================================
+
+  private writeSection(section: Section): string {
+    const number = this.numbers.get(section.node.id)!;
+    const body = [`<section id="s${number}">`, `  <h2>${number}</h2>`];
+    for (const text of section.paragraphs) {
+      body.push(`  <p>${escapeXml(text).replace(/\n/g, '<br />')}</p>`);
+    }
+    if (section.condition) {
+      body.push(`  <p>Is <code>${escapeXml(section.condition)}</code> true?</p>`);
+    }
+    if (section.links.length > 0) {
+      body.push('  <ol class="choices">');
+      for (const link of section.links) {
+        const to = this.numbers.get(link.target)!;
+        body.push(
+          `    <li><a href="${this.sectionFile(link.target)}">${escapeXml(link.text)}</a> ` +
+            `<span class="turn">(turn to ${to})</span></li>`
+        );
+      }
+      body.push('  </ol>');
+    } else {
+      body.push('  <p class="end">The End</p>');
+    }
+    body.push('</section>');
+    return this.document(String(number), body.join('\n'));
+  }
+
+  private writeTitlePage(): string {
+    const { title, author, description } = this.story.meta;
+    const body = [`<h1>${escapeXml(title)}</h1>`];
+    if (author) body.push(`<p class="author">${escapeXml(author)}</p>`);
+    if (description) body.push(`<p>${escapeXml(description)}</p>`);
+    const first = [...this.sections.keys()][0];
+    if (first) {
+      body.push(`<p class="begin"><a href="${this.sectionFile(first)}">Begin at 1</a></p>`);
+    }
+    return this.document(title, body.join('\n'));
+  }
+
+  private writeNav(): string {
+    const ids = [...this.sections.keys()];
+    const items = ['    <li><a href="title.xhtml">Title page</a></li>'];
+    if (ids.length > 0) {
+      items.push(`    <li><a href="${this.sectionFile(ids[0])}">Beginning</a></li>`);
+    }
+    const endings = ids.filter((id) => this.sections.get(id)!.links.length === 0);
+    if (endings.length > 0) {
+      items.push('    <li><span>Endings</span>', '      <ol>');
+      for (const id of endings) {
+        const section = this.sections.get(id)!;
+        const label = excerpt(section.paragraphs[0] ?? '');
+        items.push(
+          `        <li><a href="${this.sectionFile(id)}">${this.numbers.get(id)}` +
+            `${label ? `. ${escapeXml(label)}` : ''}</a></li>`
+        );
+      }
+      items.push('      </ol>', '    </li>');
+    }
+
+    const landmarks = ['    <li><a epub:type="titlepage" href="title.xhtml">Title page</a></li>'];
+    if (ids.length > 0) {
+      landmarks.push(
+        `    <li><a epub:type="bodymatter" href="${this.sectionFile(ids[0])}">Start</a></li>`
+      );
+    }
+    return this.document(
+      'Contents',
+      [
+        '<nav epub:type="toc" id="toc">',
+        '  <h1>Contents</h1>',
+        '  <ol>',
+        ...items,
+        '  </ol>',
+        '</nav>',
+        '<nav epub:type="landmarks" hidden="">',
+        '  <ol>',
+        ...landmarks,
+        '  </ol>',
+        '</nav>',
+      ].join('\n')
+    );
+  }
+
+  private writePackage(pages: ExportFile[]): string {
+    const meta = this.story.meta;
+    const metadata = [
+      `<dc:identifier id="book-id">urn:uuid:${createIfid(meta.title).toLowerCase()}</dc:identifier>`,
+      `<dc:title>${escapeXml(meta.title)}</dc:title>`,
+      `<dc:language>${meta.language ?? 'en'}</dc:language>`,
+    ];
+    if (meta.author) metadata.push(`<dc:creator>${escapeXml(meta.author)}</dc:creator>`);
+    if (meta.description) {
+      metadata.push(`<dc:description>${escapeXml(meta.description)}</dc:description>`);
+    }
+    for (const tag of meta.tags ?? []) metadata.push(`<dc:subject>${escapeXml(tag)}</dc:subject>`);
+    if (meta.rating) {
+      metadata.push(`<meta property="schema:contentRating">${meta.rating}</meta>`);
+    }
+    if (meta.version) {
+      metadata.push(`<meta property="schema:version">${escapeXml(meta.version)}</meta>`);
+    }
+    const modified = new Date(meta.modified ?? meta.created ?? DEFAULT_MODIFIED);
+    metadata.push(
+      `<meta property="dcterms:modified">${modified.toISOString().replace(/\.\d+Z$/, 'Z')}</meta>`
+    );
+
+    const manifest = [
+      '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '<item id="style" href="style.css" media-type="text/css"/>',
+    ];
+    const spine: string[] = [];
+    for (const page of pages) {
+      const href = page.name.replace(/^EPUB\//, '');
+      const id = href.replace(/\.xhtml$/, '');
+      manifest.push(`<item id="${id}" href="${href}" media-type="application/xhtml+xml"/>`);
+      spine.push(`<itemref idref="${id}"/>`);
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${meta.language ?? 'en'}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.map((line) => `    ${line}`).join('\n')}
+  </metadata>
+  <manifest>
+${manifest.map((line) => `    ${line}`).join('\n')}
+  </manifest>
+  <spine>
+${spine.map((line) => `    ${line}`).join('\n')}
+  </spine>
+</package>
+`;
+  }
+
+  private document(title: string, body: string): string {
+    const language = this.story.meta.language ?? 'en';
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language}" xml:lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+  }
+
+  private sectionFile(id: string): string {
+    return `section-${this.numbers.get(id)}.xhtml`;
+  }
+
+  private warn(
+    code: string,
+    message: string,
+    extra: { nodeId?: string; details?: Record<string, unknown> } = {}
+  ): void {
+    addWarning(this.warnings, { code, message, ...extra });
+  }
+}
+
+const CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="EPUB/package.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+function mutatedVariables(mutations: VariableMutations): string[] {
+  return [
+    ...Object.keys(mutations.set ?? {}),
+    ...Object.keys(mutations.increment ?? {}),
+    ...Object.keys(mutations.decrement ?? {}),
+    ...Object.keys(mutations.add ?? {}),
+    ...Object.keys(mutations.remove ?? {}),
+    ...(mutations.clear ?? []),
+  ];
+}
+
+/** Paragraphs of passage text: blocks separated by blank lines */
+function paragraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean);
+}
+
+/** The first words of a paragraph, for navigation labels */
+function excerpt(text: string, length = 40): string {
+  const line = text.replace(/\s+/g, ' ');
+  return line.length <= length ? line : `${line.slice(0, length).replace(/\s+\S*$/, '')}…`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Exporter for EPUB 3 gamebooks.
+ */
+export const epubExporter: Exporter = {
+  target: 'epub',
+  export(story: Story): ExportResult {
+    return new EpubWriter(story).write();
+  },
+};
@@ -0,0 +1,42 @@
+/**
+ * Tests for expression translation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseExpressionTree } from '../core/expression-parser.js';
+import { printExpression, type ExpressionDialect } from './expression.js';
+
+const words: ExpressionDialect = {
+  operator: (operator) => ({ '&&': 'and', '||': 'or', '!': 'not' })[operator] ?? operator,
+  literal: (value) => JSON.stringify(value),
+  variable: (name) => `$${name}`,
+  call: (node, print) => `${node.name.toUpperCase()}(${node.args.map(print).join(', ')})`,
+};
+
+const print = (expression: string, dialect = words) =>
+  printExpression(parseExpressionTree(expression), dialect);
+
+describe('printExpression', () => {
+  it('keeps only the parentheses precedence needs', () => {
+    expect(print('(a && b) || c')).toBe('$a and $b or $c');
+    expect(print('a && (b || c)')).toBe('$a and ($b or $c)');
+    expect(print('a - (b - c)')).toBe('$a - ($b - $c)');
+    expect(print('(a - b) - c')).toBe('$a - $b - $c');
+    expect(print('!(a > 1)')).toBe('not ($a > 1)');
+    expect(print('-(-a)')).toBe('-(-$a)');
+  });
+
+  it('prints literals and calls through the dialect', () => {
+    expect(print('max(gold, 2) == null')).toBe('MAX($gold, 2) == null');
+    expect(print('name == "hero"')).toBe('$name == "hero"');
+  });
+
+  it('lets the dialect rewrite binary operators', () => {
+    const swapped: ExpressionDialect = {
+      ...words,
+      binary: (node, print) =>
+        node.operator === 'in' ? `${print(node.right)}.has(${print(node.left)})` : undefined,
+    };
+    expect(print('"rope" in bag && ok', swapped)).toBe('($bag.has("rope")) and $ok');
+  });
+});
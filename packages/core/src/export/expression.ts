@@ -0,0 +1,87 @@
+/**
+ * Expression Translation
+ *
+ * Exporters rewrite StoryGraph expressions into their target's syntax.
+ * printExpression walks the syntax tree from parseExpressionTree and asks a
+ * dialect for the pieces that differ, adding parentheses only where the
+ * source precedence requires them.
+ */
+
+import { getOperatorPrecedence, type ExpressionNode } from '../core/expression-parser.js';
+
+export type CallNode = Extract<ExpressionNode, { type: 'call' }>;
+export type BinaryNode = Extract<ExpressionNode, { type: 'binary' }>;
+export type UnaryNode = Extract<ExpressionNode, { type: 'unary' }>;
+
+/**
+ * Target syntax for printExpression.
+ */
+export interface ExpressionDialect {
+  /** Target spelling of an operator */
+  operator(operator: string, unary: boolean): string;
+
+  /** Target spelling of a literal (null covers `null` and `undefined`) */
+  literal(value: string | number | boolean | null): string;
+
+  /** Target name of a variable */
+  variable(name: string): string;
+
+  /** Translate a built-in call; `print` prints argument nodes */
+  call(node: CallNode, print: (node: ExpressionNode) => string): string;
+
+  /**
+   * Translate a binary node that does not map to an infix operator
+   * (e.g. `in`). Return undefined to use operator().
+   */
+  binary?(node: BinaryNode, print: (node: ExpressionNode) => string): string | undefined;
+
+  /**
+   * Translate a unary node that does not map to a prefix operator
+   * (e.g. a `not(x)` function). Return undefined to use operator().
+   */
+  unary?(node: UnaryNode, print: (node: ExpressionNode) => string): string | undefined;
+}
+
+/**
+ * Print an expression tree in a target dialect.
+ */
+export function printExpression(node: ExpressionNode, dialect: ExpressionDialect): string {
+  const unary = getOperatorPrecedence('', true);
+
+  // Returns the text and how tightly it binds; custom translations (-1)
+  // are always parenthesized when nested.
+  const render = (current: ExpressionNode): [string, number] => {
+    switch (current.type) {
+      case 'literal':
+        return [dialect.literal(current.value), Infinity];
+      case 'variable':
+        return [dialect.variable(current.name), Infinity];
+      case 'call':
+        return [dialect.call(current, print), Infinity];
+      case 'unary': {
+        const custom = dialect.unary?.(current, print);
+        if (custom !== undefined) return [custom, Infinity];
+        const operator = dialect.operator(current.operator, true);
+        const spacer = /\w$/.test(operator) ? ' ' : '';
+        return [`${operator}${spacer}${wrap(current.operand, unary, true)}`, unary];
+      }
+      case 'binary': {
+        const custom = dialect.binary?.(current, print);
+        if (custom !== undefined) return [custom, -1];
+        const precedence = getOperatorPrecedence(current.operator);
+        const left = wrap(current.left, precedence, false);
+        const right = wrap(current.right, precedence, true);
+        return [`${left} ${dialect.operator(current.operator, false)} ${right}`, precedence];
+      }
+    }
+  };
+
+  const wrap = (child: ExpressionNode, parent: number, rightSide: boolean): string => {
+    const [text, precedence] = render(child);
+    return precedence < parent || (rightSide && precedence === parent) ? `(${text})` : text;
+  };
+
+  const print = (current: ExpressionNode): string => render(current)[0];
+
+  return print(node);
+}
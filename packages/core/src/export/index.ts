@@ -1,2 +1,21 @@
 export type { ExportFile, ExportWarning, ExportOptions, ExportResult, Exporter } from './types.js';
-export { addWarning } from './types.js';
+export { addWarning, getExportFileName } from './types.js';
+export type { ExpressionDialect } from './expression.js';
+export { printExpression } from './expression.js';
+export { inkExporter } from './ink.js';
+export { renpyExporter } from './renpy.js';
+export { choicescriptExporter } from './choicescript.js';
+export { tweeExporter } from './twee.js';
+export { yarnExporter } from './yarn.js';
+export { epubExporter } from './epub.js';
+export { voiceoverExporter } from './voiceover.js';
+export { jsonExporter } from './json.js';
+export { outlineExporter } from './outline.js';
+export { createZip } from './zip.js';
+export type { ExporterRegistration } from './registry.js';
+export {
+  ExporterRegistry,
+  createExporterRegistry,
+  registerExporterPlugin,
+  bundleExportFiles,
+} from './registry.js';
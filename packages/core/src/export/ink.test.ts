@@ -0,0 +1,211 @@
+/**
+ * Tests for the Ink exporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from '../core/serializer.js';
+import { inkExporter } from './ink.js';
+
+/** Built-ins, keywords and temporaries Ink defines itself */
+const INK_NAMES = [
+  ...['RANDOM', 'MIN', 'MAX', 'FLOOR', 'LIST_COUNT', 'END'],
+  ...['temp', 'true', 'false', 'and', 'or', 'not', 'mod'],
+];
+
+/**
+ * Names read in logic (`{...}`, `~` lines and diverts) that no VAR, knot,
+ * function or temp declares. Ink refuses to compile any of them.
+ */
+function undeclaredNames(ink: string): string[] {
+  const declared = new Set(INK_NAMES);
+  for (const match of ink.matchAll(/^(?:VAR|=== function|===) (\w+)|~ temp (\w+)/gm)) {
+    declared.add(match[1] ?? match[2]);
+  }
+  const logic = [
+    // Conditions and inline logic, up to the colon before any branch text
+    ...[...ink.matchAll(/(?<!\\)\{([^{}]*)\}/g)].map((match) => match[1].split(':')[0]),
+    ...[...ink.matchAll(/^\s*~(.*)$/gm)].map((match) => match[1]),
+    ...[...ink.matchAll(/-> (\w+)/g)].map((match) => match[1]),
+  ];
+  const names = logic.flatMap(
+    (code) => code.replace(/"[^"]*"/g, '').match(/\b[A-Za-z_]\w*/g) ?? []
+  );
+  return [...new Set(names.filter((name) => !declared.has(name)))];
+}
+
+const STORY = `version: "1.0"
+meta:
+  title: The Vault
+  author: Jo
+variables:
+  gold: 10
+  name: hero
+  bag: [rope]
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: "Gold: {gold}. {if gold > 5}Rich{else}Poor{/if} -> ok"
+    choices:
+      - text: Pay {gold}
+        target: pay
+        condition: gold >= 5 && !visited("vault")
+        decrement:
+          gold: 5
+      - text: Pack
+        target: roll
+        add:
+          bag: tent
+  pay:
+    type: variable
+    id: pay
+    set:
+      paid: true
+    next: check
+  check:
+    type: condition
+    id: check
+    expression: paid && "rope" in bag
+    ifTrue: vault
+    ifFalse: start
+  roll:
+    type: random
+    id: roll
+    branches:
+      - target: vault
+        weight: 3
+      - target: start
+  vault:
+    type: passage
+    id: vault
+    content: "* Inside, {name}."
+    ending: true
+`;
+
+describe('inkExporter', () => {
+  const result = inkExporter.export(parseToStory(STORY));
+  const ink = result.files[0].contents as string;
+  const codes = result.warnings.map((w) => w.code);
+
+  it('names the file after the story', () => {
+    expect(inkExporter.target).toBe('ink');
+    expect(result.files.map((f) => f.name)).toEqual(['the-vault.ink']);
+  });
+
+  it('declares scalar variables and diverts to the start', () => {
+    expect(ink).toContain('// The Vault\n// by Jo\n');
+    expect(ink).toContain('VAR gold = 10\nVAR name = "hero"\nVAR paid = false\n\n-> start\n');
+  });
+
+  it('maps passages to knots with templated text and choices', () => {
+    expect(ink).toContain(
+      '=== start ===\nGold: {gold}. {gold > 5:Rich|Poor} -\\> ok\n' +
+        '+ {gold >= 5 and not (vault > 0)} [Pay {gold}]\n  ~ gold -= 5\n  -> pay\n' +
+        '+ [Pack]\n  -> roll\n'
+    );
+    expect(ink).toContain('=== vault ===\n\\* Inside, {name}.\n-> END');
+  });
+
+  it('maps variable, condition and random nodes', () => {
+    expect(ink).toContain('=== pay ===\n~ paid = true\n-> check');
+    expect(ink).toContain('=== check ===\n{ false:\n  -> vault\n- else:\n  -> start\n}');
+    expect(ink).toContain(
+      '=== roll ===\n~ temp roll = RANDOM(1, 4)\n{\n- roll <= 3: -> vault\n- else: -> start\n}'
+    );
+  });
+
+  it('turns multi-line template conditionals into blocks and escapes markup', () => {
+    const story = parseToStory(STORY);
+    story.setNode({
+      id: 'vault',
+      type: 'passage',
+      content: 'Intro - {if lit}One\n- Two{else}Three{/if} // end',
+      ending: true,
+    });
+    const { contents } = inkExporter.export(story).files[0];
+    expect(contents).toContain('VAR lit = false');
+    expect(contents).toContain(
+      '=== vault ===\nIntro - \n{ lit:\nOne\n\\- Two\n- else:\nThree\n}\n /\\/ end\n-> END'
+    );
+  });
+
+  it('warns about degraded features', () => {
+    expect(codes).toEqual(['EXP005', 'EXP004', 'EXP001', 'EXP002']);
+    expect(result.warnings[0]).toMatchObject({ nodeId: 'start', details: { variable: 'bag' } });
+    expect(result.warnings[2].message).toContain("list variable 'bag'");
+  });
+
+  it('never reads list or map variables it leaves undeclared', () => {
+    const story = parseToStory(STORY);
+    story.variables.set('stats', { str: 3 });
+    story.setNode({
+      id: 'vault',
+      type: 'passage',
+      content: 'You carry {len(bag)} things.{if contains(bag, "tent")} A tent!{/if}',
+      choices: [
+        { text: 'Flex', target: 'start', condition: '"str" in stats' },
+        { text: 'Leave', target: 'start', condition: 'len(bag) > 0 || gold > 0' },
+      ],
+    });
+    const { files, warnings } = inkExporter.export(story);
+
+    expect(undeclaredNames(ink)).toEqual([]);
+    expect(undeclaredNames(files[0].contents as string)).toEqual([]);
+    expect(files[0].contents).toContain('You carry {false} things.{false: A tent!}');
+    expect(files[0].contents).toContain('+ {false} [Flex]');
+    expect(
+      warnings.filter((w) => w.code === 'EXP004' && w.nodeId === 'vault').map((w) => w.message)
+    ).toEqual([
+      "Expression in 'vault' reads dropped list variable 'bag'; it became false",
+      "Expression in 'vault' reads dropped list variable 'bag'; it became false",
+      "Expression in 'vault' reads dropped map variable 'stats'; it became false",
+      "Expression in 'vault' reads dropped list variable 'bag'; it became false",
+    ]);
+  });
+
+  it('warns when double quotes in strings become single quotes', () => {
+    const story = parseToStory(STORY);
+    story.variables.set('motto', 'say "hi"');
+    story.setNode({ id: 'pay', type: 'variable', set: { name: 'the "hero"' }, next: 'check' });
+    const { files, warnings } = inkExporter.export(story);
+
+    expect(files[0].contents).toContain(`VAR motto = "say 'hi'"`);
+    expect(files[0].contents).toContain(`=== pay ===\n~ name = "the 'hero'"`);
+    expect(warnings.filter((w) => w.code === 'EXP002').slice(0, 2)).toMatchObject([
+      { nodeId: 'pay', details: { value: 'the "hero"' } },
+      { details: { value: 'say "hi"', variable: 'motto' } },
+    ]);
+  });
+
+  it('uses once-only choices in knots that cannot be revisited', () => {
+    const story = parseToStory(STORY);
+    story.setNode({
+      id: 'check',
+      type: 'condition',
+      expression: 'paid',
+      ifTrue: 'vault',
+      ifFalse: 'vault',
+    });
+    story.setNode({ id: 'roll', type: 'random', branches: [{ target: 'vault' }] });
+    const { contents } = inkExporter.export(story).files[0];
+    expect(contents).toContain('* {gold >= 5 and not (vault > 0)} [Pay {gold}]');
+    expect(contents).not.toContain('+ ');
+  });
+
+  it('skips includes and adds a fallback when every choice is conditional', () => {
+    const story = parseToStory(STORY);
+    story.setNode({ id: 'roll', type: 'include', path: 'other.story', return: 'vault' });
+    story.setNode({
+      id: 'start',
+      type: 'passage',
+      start: true,
+      content: 'Hi',
+      choices: [{ text: 'Go', target: 'roll', condition: 'round(gold)' }],
+    });
+    const { files, warnings } = inkExporter.export(story);
+    expect(files[0].contents).toContain('=== start ===\nHi\n* {false} [Go]\n  -> roll\n* -> END');
+    expect(files[0].contents).toContain('=== roll ===\n-> vault');
+    expect(warnings.map((w) => w.code)).toEqual(['EXP004', 'EXP004', 'EXP003', 'EXP001']);
+  });
+});
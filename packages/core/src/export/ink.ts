@@ -0,0 +1,525 @@
+/**
+ * Ink Exporter
+ *
+ * Translates a story into one .ink file for inkle's Ink:
+ * - passages and choice nodes become knots; choices become sticky `+`
+ *   options, or once-only `*` options in knots that cannot be revisited
+ * - variable nodes become `~` assignments followed by a divert
+ * - condition nodes become conditional diverts
+ * - random nodes roll RANDOM() against cumulative weights
+ * - `{expr}` and `{if}` templates become Ink inline logic
+ *
+ * Lists, maps and includes have no direct Ink equivalent and degrade with
+ * the EXP warnings in docs/spec/export.md.
+ */
+
+import type { Story } from '../core/story.js';
+import type { Choice, StoryNode, VariableMutations } from '../core/nodes.js';
+import { getVariableType, type VariableType, type VariableValue } from '../core/types.js';
+import { getNodeTargets } from '../core/edges.js';
+import { inferVariableTypes } from '../core/typecheck.js';
+import {
+  ExpressionError,
+  parseExpressionTree,
+  type ExpressionNode,
+} from '../core/expression-parser.js';
+import {
+  TemplateError,
+  hasTemplateSyntax,
+  parseTemplate,
+  type TemplatePart,
+} from '../core/template.js';
+import { printExpression, type ExpressionDialect } from './expression.js';
+import {
+  addWarning,
+  getExportFileName,
+  type ExportResult,
+  type ExportWarning,
+  type Exporter,
+} from './types.js';
+
+/** Words Ink reserves for keywords and built-ins */
+const RESERVED = new Set([
+  'and',
+  'or',
+  'not',
+  'mod',
+  'has',
+  'hasnt',
+  'true',
+  'false',
+  'else',
+  'temp',
+  'return',
+  'function',
+  'list',
+  'var',
+  'const',
+  'ref',
+  'include',
+  'external',
+  'stopping',
+  'cycle',
+  'shuffle',
+  'once',
+]);
+
+const OPERATORS: Record<string, string> = {
+  '===': '==',
+  '!==': '!=',
+  '&&': 'and',
+  '||': 'or',
+  '!': 'not',
+  '%': 'mod',
+};
+
+/** Ink functions emitted on demand for built-ins Ink lacks */
+const HELPERS: Record<string, string> = {
+  sg_abs: ['=== function sg_abs(x) ===', '{ x < 0:', '  ~ return -x', '}', '~ return x'].join('\n'),
+};
+
+/** Raised by the dialect for expressions that can't be exported */
+class UnsupportedError extends Error {}
+
+/**
+ * State for one export run.
+ */
+class InkWriter {
+  private warnings: ExportWarning[] = [];
+  private types: Record<string, VariableType>;
+  private knots = new Map<string, string>();
+  private undeclared = new Set<string>();
+  private helpers = new Set<string>();
+  private usesRandom = false;
+
+  constructor(private story: Story) {
+    this.types = inferVariableTypes(story);
+    const taken = new Set(Object.keys(this.types));
+    for (const node of story.getAllNodes()) {
+      if (node.type === 'comment') continue;
+      let name = node.id.replace(/[^A-Za-z0-9_]/g, '_');
+      if (RESERVED.has(name) || taken.has(name)) name = `${name}_knot`;
+      for (let suffix = 2; taken.has(name); suffix++) name = `${name}_${suffix}`;
+      taken.add(name);
+      this.knots.set(node.id, name);
+    }
+  }
+
+  write(): ExportResult {
+    const body: string[] = [];
+    for (const node of this.story.getAllNodes()) {
+      const knot = this.writeNode(node);
+      if (knot.length > 0) body.push(knot.join('\n'));
+    }
+
+    const header: string[] = [`// ${this.story.meta.title}`];
+    if (this.story.meta.author) header.push(`// by ${this.story.meta.author}`);
+    header.push('');
+    header.push(...this.writeDeclarations());
+
+    const start = this.story.getStartNode();
+    header.push(start ? `-> ${this.knots.get(start.id)}` : '-> END');
+
+    if (this.usesRandom) {
+      this.warn(
+        'EXP002',
+        "Random draws use Ink's own generator; seeded playthroughs will not replay identically"
+      );
+    }
+
+    const sections = [header.join('\n'), ...body];
+    for (const name of this.helpers) sections.push(HELPERS[name]);
+
+    return {
+      files: [
+        { name: getExportFileName(this.story, 'ink'), contents: `${sections.join('\n\n')}\n` },
+      ],
+      warnings: this.warnings,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Declarations and nodes
+  // ---------------------------------------------------------------------------
+
+  private writeDeclarations(): string[] {
+    const lines: string[] = [];
+    for (const [name, type] of Object.entries(this.types)) {
+      if (type === 'list' || type === 'map') {
+        this.warn('EXP001', `${type} variable '${name}' has no Ink equivalent and was dropped`, {
+          details: { variable: name },
+        });
+        continue;
+      }
+      const declared = this.story.variables.get(name);
+      const initial = declared ?? (type === 'number' ? 0 : type === 'string' ? '' : false);
+      lines.push(`VAR ${name} = ${this.literal(initial as VariableValue, { variable: name })}`);
+    }
+    for (const name of this.undeclared) lines.push(`VAR ${name} = false`);
+    if (lines.length > 0) lines.push('');
+    return lines;
+  }
+
+  private writeNode(node: StoryNode): string[] {
+    if (node.type === 'comment') return [];
+    const lines = [`=== ${this.knots.get(node.id)} ===`];
+
+    switch (node.type) {
+      case 'passage':
+        lines.push(...this.text(node.content, node.id).split('\n'));
+        if (node.choices?.length) lines.push(...this.writeChoices(node, node.choices));
+        else lines.push('-> END');
+        break;
+
+      case 'choice':
+        if (node.prompt) lines.push(...this.text(node.prompt, node.id).split('\n'));
+        lines.push(...this.writeChoices(node, node.choices));
+        break;
+
+      case 'variable':
+        lines.push(...this.writeMutations(node, node.id));
+        lines.push(this.divert(node.next, node.id));
+        break;
+
+      case 'condition':
+        lines.push(`{ ${this.expression(node.expression, node.id)}:`);
+        lines.push(`  ${this.divert(node.ifTrue, node.id)}`);
+        lines.push('- else:');
+        lines.push(`  ${this.divert(node.ifFalse, node.id)}`);
+        lines.push('}');
+        break;
+
+      case 'random':
+        lines.push(...this.writeRandom(node.id, node.branches));
+        break;
+
+      case 'include':
+        lines.push(this.writeInclude(node));
+        break;
+    }
+
+    return lines;
+  }
+
+  private writeChoices(node: StoryNode, choices: Choice[]): string[] {
+    const bullet = this.canRevisit(node.id) ? '+' : '*';
+    const lines: string[] = [];
+    for (const choice of choices) {
+      const condition = choice.condition ? `{${this.expression(choice.condition, node.id)}} ` : '';
+      lines.push(`${bullet} ${condition}[${this.text(choice.text, node.id, true)}]`);
+      for (const line of this.writeMutations(choice, node.id)) lines.push(`  ${line}`);
+      lines.push(`  ${this.divert(choice.target, node.id)}`);
+    }
+    // Ink stops with an error when no option is available; StoryGraph ends
+    if (choices.every((choice) => choice.condition)) lines.push(`${bullet} -> END`);
+    return lines;
+  }
+
+  private writeMutations(mutations: VariableMutations, nodeId: string): string[] {
+    const lines: string[] = [];
+    const isScalar = (name: string) => this.types[name] !== 'list' && this.types[name] !== 'map';
+
+    for (const [name, value] of Object.entries(mutations.set ?? {})) {
+      if (isScalar(name) && !['list', 'map'].includes(getVariableType(value))) {
+        lines.push(`~ ${name} = ${this.literal(value, { nodeId })}`);
+      } else {
+        this.dropMutation('set', name, nodeId);
+      }
+    }
+    for (const [op, amounts] of [
+      ['+=', mutations.increment],
+      ['-=', mutations.decrement],
+    ] as const) {
+      for (const [name, amount] of Object.entries(amounts ?? {})) {
+        if (isScalar(name)) lines.push(`~ ${name} ${op} ${amount}`);
+        else this.dropMutation(op === '+=' ? 'increment' : 'decrement', name, nodeId);
+      }
+    }
+    for (const name of Object.keys(mutations.add ?? {})) this.dropMutation('add', name, nodeId);
+    for (const name of Object.keys(mutations.remove ?? {})) {
+      this.dropMutation('remove', name, nodeId);
+    }
+    for (const name of mutations.clear ?? []) this.dropMutation('clear', name, nodeId);
+    return lines;
+  }
+
+  private dropMutation(op: string, name: string, nodeId: string): void {
+    this.warn('EXP005', `'${op}' on list/map variable '${name}' was dropped`, {
+      nodeId,
+      details: { variable: name, operation: op },
+    });
+  }
+
+  private writeRandom(
+    nodeId: string,
+    branches: Array<{ target: string; weight?: number | undefined }>
+  ): string[] {
+    this.usesRandom = true;
+    if (branches.length === 1) return [this.divert(branches[0].target, nodeId)];
+
+    let weights = branches.map((branch) => branch.weight ?? 1);
+    if (!weights.every(Number.isInteger)) {
+      weights = weights.map((weight) => Math.max(1, Math.round(weight * 100)));
+      this.warn('EXP002', `Random weights in '${nodeId}' were rounded to whole numbers`, {
+        nodeId,
+      });
+    }
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const lines = [`~ temp roll = RANDOM(1, ${total})`, '{'];
+    let threshold = 0;
+    branches.forEach((branch, index) => {
+      threshold += weights[index];
+      const test = index === branches.length - 1 ? 'else' : `roll <= ${threshold}`;
+      lines.push(`- ${test}: ${this.divert(branch.target, nodeId)}`);
+    });
+    lines.push('}');
+    return lines;
+  }
+
+  private writeInclude(node: Extract<StoryNode, { type: 'include' }>): string {
+    if (node.entry && this.knots.has(node.entry)) {
+      this.warn('EXP003', `Include '${node.id}' was flattened; it no longer returns`, {
+        nodeId: node.id,
+        details: { path: node.path },
+      });
+      return this.divert(node.entry, node.id);
+    }
+    this.warn('EXP003', `Include of '${node.path}' in '${node.id}' was skipped`, {
+      nodeId: node.id,
+      details: { path: node.path },
+    });
+    return node.return ? this.divert(node.return, node.id) : '-> END';
+  }
+
+  private divert(target: string, nodeId: string): string {
+    const knot = this.knots.get(target);
+    if (knot) return `-> ${knot}`;
+    this.warn('EXP001', `Missing target '${target}' in '${nodeId}' now ends the story`, {
+      nodeId,
+      details: { target },
+    });
+    return '-> END';
+  }
+
+  /**
+   * Whether a node lies on a cycle, so its choices can be offered again.
+   */
+  private canRevisit(nodeId: string): boolean {
+    const seen = new Set<string>();
+    const queue = [...this.targetsOf(nodeId)];
+    while (queue.length > 0) {
+      const current = queue.pop()!;
+      if (current === nodeId) return true;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      queue.push(...this.targetsOf(current));
+    }
+    return false;
+  }
+
+  private targetsOf(nodeId: string): string[] {
+    const node = this.story.getNode(nodeId);
+    if (!node) return [];
+    const targets = getNodeTargets(node);
+    if (node.type === 'include' && node.entry) targets.push(node.entry);
+    return targets;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Text and expressions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Convert template text to Ink. Choice text must stay on one line.
+   */
+  private text(source: string, nodeId: string, inline = false): string {
+    let parts: TemplatePart[];
+    try {
+      parts = hasTemplateSyntax(source) ? parseTemplate(source) : [{ type: 'text', value: source }];
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      this.warn('EXP007', `Invalid template in '${nodeId}' was exported as plain text`, {
+        nodeId,
+        details: { error: error.message },
+      });
+      parts = [{ type: 'text', value: source }];
+    }
+    const text = this.renderParts(parts, nodeId);
+    return inline ? text.replace(/\s*\n\s*/g, ' ') : text;
+  }
+
+  private renderParts(parts: TemplatePart[], nodeId: string, lineStart = true): string {
+    let output = '';
+    for (const part of parts) {
+      if (part.type === 'text') {
+        output += escapeText(part.value, output === '' ? lineStart : output.endsWith('\n'));
+      } else if (part.type === 'expression') {
+        output += `{${this.expression(part.expression, nodeId)}}`;
+      } else {
+        const condition = this.expression(part.condition, nodeId);
+        const inline = [
+          this.renderParts(part.then, nodeId, false),
+          this.renderParts(part.else, nodeId, false),
+        ];
+        if (inline.some((branch) => branch.includes('\n'))) {
+          const block = [`{ ${condition}:`, this.renderParts(part.then, nodeId)];
+          if (part.else.length > 0) block.push('- else:', this.renderParts(part.else, nodeId));
+          block.push('}');
+          output += `\n${block.join('\n')}\n`;
+        } else {
+          const [then, otherwise] = inline;
+          output += otherwise ? `{${condition}:${then}|${otherwise}}` : `{${condition}:${then}}`;
+        }
+      }
+    }
+    return output;
+  }
+
+  private expression(source: string, nodeId: string): string {
+    let tree: ExpressionNode;
+    try {
+      tree = parseExpressionTree(source);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      this.warn('EXP004', `Invalid expression in '${nodeId}' was replaced with false`, {
+        nodeId,
+        details: { expression: source, error: error.message },
+      });
+      return 'false';
+    }
+    try {
+      return printExpression(tree, this.dialect(source, nodeId));
+    } catch (error) {
+      if (!(error instanceof UnsupportedError)) throw error;
+      // Dropped variables have no VAR, so any read of one would not compile
+      this.warn('EXP004', `Expression in '${nodeId}' ${error.message}; it became false`, {
+        nodeId,
+        details: { expression: source },
+      });
+      return 'false';
+    }
+  }
+
+  private dialect(source: string, nodeId: string): ExpressionDialect {
+    const degraded = (reason: string) =>
+      this.warn('EXP004', `Expression in '${nodeId}' ${reason}`, {
+        nodeId,
+        details: { expression: source },
+      });
+    const atom = (node: ExpressionNode, print: (node: ExpressionNode) => string) =>
+      node.type === 'binary' || node.type === 'unary' ? `(${print(node)})` : print(node);
+
+    return {
+      operator: (operator) => OPERATORS[operator] ?? operator,
+      literal: (value) => {
+        if (value !== null) return this.literal(value, { nodeId });
+        degraded('compares with null, which Ink lacks; it became false');
+        return 'false';
+      },
+      variable: (name) => {
+        const type = this.types[name];
+        if (type === 'list' || type === 'map') {
+          throw new UnsupportedError(`reads dropped ${type} variable '${name}'`);
+        }
+        if (type === undefined) this.undeclared.add(name);
+        return name;
+      },
+      binary: (node, print) =>
+        node.operator === 'in'
+          ? `${atom(node.right, print)} ? ${atom(node.left, print)}`
+          : undefined,
+      call: (node, print) => {
+        const args = node.args.map(print);
+        switch (node.name) {
+          case 'min':
+          case 'max':
+            return args.reduceRight((rest, arg) => `${node.name.toUpperCase()}(${arg}, ${rest})`);
+          case 'abs':
+            this.helpers.add('sg_abs');
+            return `sg_abs(${args[0]})`;
+          case 'floor':
+            return `FLOOR(${args[0]})`;
+          case 'clamp':
+            return `MIN(MAX(${args[0]}, ${args[1]}), ${args[2]})`;
+          case 'random':
+            this.usesRandom = true;
+            return `RANDOM(${args[0]}, ${args[1]})`;
+          case 'chance':
+            this.usesRandom = true;
+            return `(RANDOM(1, 10000) <= ${atom(node.args[0], print)} * 10000)`;
+          case 'contains':
+            return `(${atom(node.args[0], print)} ? ${atom(node.args[1], print)})`;
+          case 'visited':
+          case 'visits': {
+            const [target] = node.args;
+            const knot =
+              target.type === 'literal' && typeof target.value === 'string'
+                ? this.knots.get(target.value)
+                : undefined;
+            if (!knot) {
+              degraded(`calls ${node.name}() on an unknown node; it became 0`);
+              return '0';
+            }
+            return node.name === 'visited' ? `(${knot} > 0)` : knot;
+          }
+          case 'len':
+            degraded('calls len(), which only counts Ink lists');
+            return `LIST_COUNT(${args[0]})`;
+          default:
+            degraded(`calls ${node.name}(), which Ink lacks; its argument is used as is`);
+            return args[0];
+        }
+      },
+    };
+  }
+
+  /**
+   * Ink string literals can't hold a double quote, so it becomes a single one.
+   */
+  private literal(value: VariableValue, where: { nodeId?: string; variable?: string }): string {
+    if (typeof value !== 'string') return String(value);
+    if (value.includes('"')) {
+      this.warn('EXP002', `Double quotes in string "${value}" became single quotes`, {
+        ...(where.nodeId ? { nodeId: where.nodeId } : {}),
+        details: { value, ...(where.variable ? { variable: where.variable } : {}) },
+      });
+    }
+    return `"${value.replace(/"/g, "'")}"`;
+  }
+
+  private warn(
+    code: string,
+    message: string,
+    extra: { nodeId?: string; details?: Record<string, unknown> } = {}
+  ): void {
+    addWarning(this.warnings, { code, message, ...extra });
+  }
+}
+
+/**
+ * Escape characters Ink would read as markup. Option, gather and logic
+ * markers only matter at the start of a line.
+ */
+function escapeText(text: string, atLineStart: boolean): string {
+  return text
+    .replace(/[\\{}|[\]#]/g, (char) => `\\${char}`)
+    .replace(/\/\//g, '/\\/')
+    .replace(/->/g, '-\\>')
+    .replace(/<([->])/g, '<\\$1')
+    .replace(
+      /(^|\n)([ \t]*)([*+\-~=])/g,
+      (match, before: string, indent: string, char: string, offset: number) =>
+        offset === 0 && !atLineStart ? match : `${before}${indent}\\${char}`
+    );
+}
+
+/**
+ * Exporter for inkle's Ink scripting language.
+ */
+export const inkExporter: Exporter = {
+  target: 'ink',
+  export(story: Story): ExportResult {
+    return new InkWriter(story).write();
+  },
+};
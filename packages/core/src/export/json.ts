@@ -0,0 +1,40 @@
+/**
+ * JSON Exporter
+ *
+ * The story document without node positions, with its edges and statistics
+ * alongside, for tools that read stories without parsing YAML.
+ */
+
+import type { Story } from '../core/story.js';
+import { getExportFileName, type ExportResult, type Exporter } from './types.js';
+
+function renderJson(story: Story): string {
+  const data = {
+    version: story.version,
+    meta: story.meta,
+    variables: Object.fromEntries(story.variables),
+    nodes: story.getAllNodes().map((node) => ({
+      ...node,
+      position: undefined, // Strip position data for cleaner export
+    })),
+    edges: story.getEdges(),
+    stats: {
+      nodeCount: story.nodeCount,
+      wordCount: story.getWordCount(),
+      characterCount: story.getCharacterCount(),
+      choiceCount: story.getChoiceCount(),
+      endingCount: story.getEndingNodes().length,
+    },
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+export const jsonExporter: Exporter = {
+  target: 'json',
+  export(story: Story): ExportResult {
+    return {
+      files: [{ name: getExportFileName(story, 'json'), contents: renderJson(story) }],
+      warnings: [],
+    };
+  },
+};
@@ -0,0 +1,129 @@
+/**
+ * Outline Exporter
+ *
+ * A static HTML page listing every node with its content and choices, for
+ * reading a story through or printing it, plus the story's statistics.
+ */
+
+import type { StoryNode } from '../core/nodes.js';
+import type { Story } from '../core/story.js';
+import { getExportFileName, type ExportResult, type Exporter } from './types.js';
+
+function renderOutline(story: Story): string {
+  const title = story.meta.title ?? 'Untitled Story';
+  const author = story.meta.author ?? 'Unknown';
+  const nodes = story.getAllNodes();
+  const startNode = story.getStartNode();
+
+  const nodeHtml = nodes
+    .map((node) => {
+      const isStart = node.id === startNode?.id;
+      const isEnding = node.type === 'passage' && 'ending' in node && node.ending;
+      const badges = [
+        isStart ? '<span class="badge start">START</span>' : '',
+        isEnding ? '<span class="badge ending">END</span>' : '',
+      ]
+        .filter(Boolean)
+        .join(' ');
+
+      return `
+    <div class="node ${node.type}" id="node-${node.id}">
+      <h3>${escapeHtml(node.id)} ${badges}</h3>
+      <p class="type">Type: ${node.type}</p>
+      ${getNodeContent(node)}
+      ${getNodeChoices(node)}
+    </div>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)} - Story Outline</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 800px; margin: 0 auto; padding: 2rem; background: #1a1a2e; color: #eee; }
+    h1 { color: #10b981; }
+    h2 { color: #6ee7b7; border-bottom: 1px solid #334155; padding-bottom: 0.5rem; }
+    h3 { color: #f0fdf4; margin-bottom: 0.5rem; }
+    .meta { color: #94a3b8; margin-bottom: 2rem; }
+    .node { background: #1e293b; padding: 1rem; margin: 1rem 0; border-radius: 0.5rem; border-left: 4px solid #334155; }
+    .node.passage { border-left-color: #10b981; }
+    .node.choice { border-left-color: #3b82f6; }
+    .node.condition { border-left-color: #f59e0b; }
+    .node.variable { border-left-color: #8b5cf6; }
+    .type { color: #64748b; font-size: 0.875rem; margin: 0.25rem 0; }
+    .content { background: #0f172a; padding: 1rem; border-radius: 0.25rem; margin: 0.5rem 0; white-space: pre-wrap; }
+    .choices { margin-top: 0.5rem; }
+    .choices li { margin: 0.25rem 0; }
+    .choices a { color: #60a5fa; text-decoration: none; }
+    .choices a:hover { text-decoration: underline; }
+    .badge { font-size: 0.75rem; padding: 0.125rem 0.5rem; border-radius: 0.25rem; }
+    .badge.start { background: #10b981; color: #000; }
+    .badge.ending { background: #ef4444; color: #fff; }
+    .stats { background: #0f172a; padding: 1rem; border-radius: 0.5rem; margin-top: 2rem; }
+    .stats dt { color: #94a3b8; }
+    .stats dd { color: #10b981; font-weight: bold; margin-left: 0; margin-bottom: 0.5rem; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">By ${escapeHtml(author)}</p>
+
+  <h2>Story Nodes (${nodes.length})</h2>
+  ${nodeHtml}
+
+  <h2>Statistics</h2>
+  <dl class="stats">
+    <dt>Total Nodes</dt><dd>${story.nodeCount}</dd>
+    <dt>Word Count</dt><dd>${story.getWordCount().toLocaleString()}</dd>
+    <dt>Character Count</dt><dd>${story.getCharacterCount().toLocaleString()}</dd>
+    <dt>Choices</dt><dd>${story.getChoiceCount()}</dd>
+    <dt>Endings</dt><dd>${story.getEndingNodes().length}</dd>
+  </dl>
+
+  <footer style="margin-top: 2rem; padding-top: 1rem; border-top: 1px solid #334155; color: #64748b; font-size: 0.875rem;">
+    Generated by <a href="https://github.com/mcp-tool-shop-org/StoryGraph" style="color: #10b981;">StoryGraph</a>
+  </footer>
+</body>
+</html>`;
+}
+
+function getNodeContent(node: StoryNode): string {
+  if (node.type === 'passage' && 'content' in node && node.content) {
+    return `<div class="content">${escapeHtml(node.content)}</div>`;
+  }
+  if (node.type === 'condition' && 'condition' in node && typeof node.condition === 'string') {
+    return `<div class="content">if (${escapeHtml(node.condition)})</div>`;
+  }
+  return '';
+}
+
+function getNodeChoices(node: StoryNode): string {
+  if (node.type !== 'passage' || !('choices' in node) || !node.choices?.length) {
+    return '';
+  }
+  const items = node.choices
+    .map((c) => `<li><a href="#node-${c.target}">${escapeHtml(c.text)}</a></li>`)
+    .join('');
+  return `<ul class="choices">${items}</ul>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export const outlineExporter: Exporter = {
+  target: 'outline',
+  export(story: Story): ExportResult {
+    return {
+      files: [{ name: getExportFileName(story, 'html'), contents: renderOutline(story) }],
+      warnings: [],
+    };
+  },
+};
@@ -0,0 +1,141 @@
+/**
+ * Tests for the exporter registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { ValidationError, parseToStory } from '../core/serializer.js';
+import {
+  ExporterRegistry,
+  bundleExportFiles,
+  createExporterRegistry,
+  registerExporterPlugin,
+  type ExporterRegistration,
+} from './registry.js';
+
+const STORY = parseToStory(`version: "1.0"
+meta:
+  title: The Vault
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Hello.
+    ending: true
+`);
+
+const shout: ExporterRegistration<{ times?: number | undefined }> = {
+  exporter: {
+    target: 'shout',
+    export(story, options) {
+      const text = story.getStartNode()!.content.repeat(Number(options?.times ?? 1));
+      return { files: [{ name: 'shout.txt', contents: text.toUpperCase() }], warnings: [] };
+    },
+  },
+  description: 'Shouted start passage',
+  extension: 'txt',
+  mediaType: 'text/plain',
+  options: z.object({ times: z.coerce.number().int().min(1).optional() }).strict(),
+};
+
+describe('ExporterRegistry', () => {
+  it('holds the built-in exporters', () => {
+    const registry = createExporterRegistry();
+    expect(registry.targets()).toEqual([
+      'ink',
+      'renpy',
+      'twee',
+      'yarn',
+      'choicescript',
+      'epub',
+      'voiceover',
+      'json',
+      'outline',
+    ]);
+    expect(registry.get('epub')).toMatchObject({
+      extension: 'epub',
+      mediaType: 'application/epub+zip',
+    });
+    expect(registry.export('yarn', STORY).files[0].name).toBe('the-vault.yarn');
+    expect(registry.export('outline', STORY).files[0].contents).toContain(
+      '<title>The Vault - Story Outline</title>'
+    );
+    expect(JSON.parse(registry.export('json', STORY).files[0].contents as string)).toMatchObject({
+      meta: { title: 'The Vault' },
+      stats: { nodeCount: 1, endingCount: 1 },
+    });
+  });
+
+  it('takes no options on the built-in targets', () => {
+    const registry = createExporterRegistry();
+    for (const target of registry.targets()) {
+      expect(() => registry.export(target, STORY, { tier: '1' })).toThrow(ValidationError);
+    }
+  });
+
+  it('parses options with the target schema', () => {
+    const registry = new ExporterRegistry();
+    registry.register(shout);
+    expect(registry.export('shout', STORY, { times: '2' }).files[0].contents).toBe('HELLO.HELLO.');
+    expect(() => registry.export('shout', STORY, { times: '0' })).toThrow(ValidationError);
+    expect(() => registry.export('shout', STORY, { loud: 'yes' })).toThrow(
+      'Invalid options for shout: 1 validation error(s)'
+    );
+  });
+
+  it('rejects options the target does not declare, and unknown targets', () => {
+    const registry = createExporterRegistry();
+    expect(() => registry.export('ink', STORY, { theme: 'dark' })).toThrow(ValidationError);
+    expect(() => registry.export('pdf', STORY)).toThrow(
+      'Unknown export target: pdf. Use ink, renpy, twee, yarn, choicescript, epub, voiceover, ' +
+        'json, outline.'
+    );
+  });
+
+  it('rejects duplicate and malformed target names', () => {
+    const registry = createExporterRegistry();
+    expect(() =>
+      registry.register({ ...shout, exporter: { ...shout.exporter, target: 'ink' } })
+    ).toThrow("Export target 'ink' is already registered");
+    expect(() =>
+      registry.register({ ...shout, exporter: { ...shout.exporter, target: 'Shout!' } })
+    ).toThrow("Invalid export target name 'Shout!'");
+  });
+});
+
+describe('registerExporterPlugin', () => {
+  it('registers the exporters of a plugin module', () => {
+    const registry = createExporterRegistry();
+    expect(registerExporterPlugin(registry, 'storygraph-shout', { exporters: [shout] })).toEqual([
+      'shout',
+    ]);
+    expect(registry.has('shout')).toBe(true);
+    expect(registerExporterPlugin(new ExporterRegistry(), 'shout', { default: shout })).toEqual([
+      'shout',
+    ]);
+  });
+
+  it('rejects modules without valid registrations', () => {
+    const registry = new ExporterRegistry();
+    expect(() => registerExporterPlugin(registry, 'empty', {})).toThrow(
+      "Exporter plugin 'empty' has no 'exporters' or default export"
+    );
+    expect(() => registerExporterPlugin(registry, 'bare', { default: shout.exporter })).toThrow(
+      "Exporter plugin 'bare' export 0 needs an exporter"
+    );
+  });
+});
+
+describe('bundleExportFiles', () => {
+  it('passes single files through and zips several', () => {
+    const registry = createExporterRegistry();
+    const ink = registry.export('ink', STORY);
+    expect(bundleExportFiles(STORY, ink)).toBe(ink.files[0]);
+
+    const bundle = bundleExportFiles(STORY, registry.export('renpy', STORY));
+    expect(bundle.name).toBe('the-vault.zip');
+    // Local file header signature
+    expect([...(bundle.contents as Uint8Array).slice(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Exporter Registry
+ *
+ * Maps export targets to their exporter, option schema and output file
+ * type, so the CLI and the web app offer the same targets. Built-in
+ * exporters come pre-registered by createExporterRegistry(); plugins are
+ * npm packages whose module exports more registrations (see
+ * registerExporterPlugin). The CLI adds its playable `html` target, which
+ * inlines the CLI's browser player bundle.
+ */
+
+import { z } from 'zod';
+import type { Story } from '../core/story.js';
+import { ValidationError, toValidationIssues } from '../core/serializer.js';
+import { choicescriptExporter } from './choicescript.js';
+import { epubExporter } from './epub.js';
+import { inkExporter } from './ink.js';
+import { jsonExporter } from './json.js';
+import { outlineExporter } from './outline.js';
+import { renpyExporter } from './renpy.js';
+import { tweeExporter } from './twee.js';
+import { voiceoverExporter } from './voiceover.js';
+import { yarnExporter } from './yarn.js';
+import {
+  getExportFileName,
+  type ExportFile,
+  type ExportOptions,
+  type ExportResult,
+  type Exporter,
+} from './types.js';
+import { createZip } from './zip.js';
+
+const TARGET_NAME = /^[a-z][a-z0-9-]*$/;
+
+/** Schema of targets that take no options */
+const NO_OPTIONS = z.object({}).strict();
+
+/**
+ * @typeParam Options - Options the target takes, as its schema parses them
+ */
+export interface ExporterRegistration<Options extends ExportOptions = ExportOptions> {
+  exporter: Exporter<Options>;
+  /** One line describing the target, for target lists */
+  description: string;
+  /** Extension of a single-file result, without the dot */
+  extension: string;
+  /** MIME type of a single-file result */
+  mediaType: string;
+  /** Schema the options are parsed with; targets without one take no options */
+  options?: z.ZodType<Options, z.ZodTypeDef, unknown> | undefined;
+}
+
+/**
+ * Export targets by name, in registration order.
+ */
+export class ExporterRegistry {
+  private registrations = new Map<string, ExporterRegistration>();
+
+  /**
+   * @throws Error if the target name is invalid or already registered
+   */
+  register<Options extends ExportOptions>(registration: ExporterRegistration<Options>): void {
+    const { target } = registration.exporter;
+    if (!TARGET_NAME.test(target)) {
+      throw new Error(
+        `Invalid export target name '${target}': use lowercase letters, digits and -`
+      );
+    }
+    if (this.registrations.has(target)) {
+      throw new Error(`Export target '${target}' is already registered`);
+    }
+    this.registrations.set(target, registration);
+  }
+
+  get(target: string): ExporterRegistration | undefined {
+    return this.registrations.get(target);
+  }
+
+  has(target: string): boolean {
+    return this.registrations.has(target);
+  }
+
+  list(): ExporterRegistration[] {
+    return [...this.registrations.values()];
+  }
+
+  targets(): string[] {
+    return [...this.registrations.keys()];
+  }
+
+  /**
+   * Export a story with a registered target. Options arrive as strings from
+   * command lines and query strings; the target's schema parses them.
+   *
+   * @throws Error for an unknown target
+   * @throws ValidationError if the options don't match the target's schema
+   */
+  export(target: string, story: Story, options: Record<string, unknown> = {}): ExportResult {
+    const registration = this.registrations.get(target);
+    if (!registration) {
+      throw new Error(`Unknown export target: ${target}. Use ${this.targets().join(', ')}.`);
+    }
+
+    const parsed = (registration.options ?? NO_OPTIONS).safeParse(options);
+    if (!parsed.success) {
+      throw new ValidationError(
+        `Invalid options for ${target}: ${parsed.error.issues.length} validation error(s)`,
+        toValidationIssues(parsed.error)
+      );
+    }
+    return registration.exporter.export(story, parsed.data);
+  }
+}
+
+/**
+ * A registry holding the built-in exporters.
+ */
+export function createExporterRegistry(): ExporterRegistry {
+  const registry = new ExporterRegistry();
+  const builtIns: ExporterRegistration[] = [
+    {
+      exporter: inkExporter,
+      description: "inkle's Ink script",
+      extension: 'ink',
+      mediaType: 'text/plain',
+    },
+    {
+      exporter: renpyExporter,
+      description: "Ren'Py script files",
+      extension: 'rpy',
+      mediaType: 'text/plain',
+    },
+    {
+      exporter: tweeExporter,
+      description: 'Twee 3 for Twine (SugarCube 2)',
+      extension: 'twee',
+      mediaType: 'text/plain',
+    },
+    {
+      exporter: yarnExporter,
+      description: 'Yarn Spinner dialogue',
+      extension: 'yarn',
+      mediaType: 'text/plain',
+    },
+    {
+      exporter: choicescriptExporter,
+      description: 'ChoiceScript scene files',
+      extension: 'txt',
+      mediaType: 'text/plain',
+    },
+    {
+      exporter: epubExporter,
+      description: 'EPUB 3 gamebook',
+      extension: 'epub',
+      mediaType: 'application/epub+zip',
+    },
+    {
+      exporter: voiceoverExporter,
+      description: 'Voice-over line list and screenplay',
+      extension: 'csv',
+      mediaType: 'text/csv',
+    },
+    {
+      exporter: jsonExporter,
+      description: 'Story data with statistics',
+      extension: 'json',
+      mediaType: 'application/json',
+    },
+    {
+      exporter: outlineExporter,
+      description: 'HTML outline of every node',
+      extension: 'html',
+      mediaType: 'text/html',
+    },
+  ];
+  for (const registration of builtIns) registry.register(registration);
+  return registry;
+}
+
+/**
+ * Register the exporters a plugin module provides: its `exporters` export,
+ * or its default export, holding one registration or an array of them.
+ *
+ * @param name - Package name of the plugin, for error messages
+ * @returns The registered targets
+ * @throws Error if the module provides no valid registrations
+ */
+export function registerExporterPlugin(
+  registry: ExporterRegistry,
+  name: string,
+  module: unknown
+): string[] {
+  const exports = module as { exporters?: unknown; default?: unknown } | null;
+  const provided = exports?.exporters ?? exports?.default;
+  const registrations = Array.isArray(provided) ? provided : provided ? [provided] : [];
+  if (registrations.length === 0) {
+    throw new Error(`Exporter plugin '${name}' has no 'exporters' or default export`);
+  }
+
+  return registrations.map((registration: unknown, index) => {
+    if (!isRegistration(registration)) {
+      throw new Error(
+        `Exporter plugin '${name}' export ${index} needs an exporter with target and ` +
+          'export(), a description, an extension and a mediaType'
+      );
+    }
+    registry.register(registration);
+    return registration.exporter.target;
+  });
+}
+
+/**
+ * The one file to hand out for a result: the file itself, or a zip of all
+ * files named after the story when there are several.
+ */
+export function bundleExportFiles(story: Story, result: ExportResult): ExportFile {
+  if (result.files.length === 1) return result.files[0];
+  return { name: getExportFileName(story, 'zip'), contents: createZip(result.files) };
+}
+
+function isRegistration(value: unknown): value is ExporterRegistration {
+  const candidate = value as Partial<ExporterRegistration> | null;
+  return (
+    typeof candidate?.exporter?.target === 'string' &&
+    typeof candidate.exporter.export === 'function' &&
+    typeof candidate.description === 'string' &&
+    typeof candidate.extension === 'string' &&
+    typeof candidate.mediaType === 'string' &&
+    (candidate.options === undefined || typeof candidate.options.safeParse === 'function')
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * Tests for the Ren'Py exporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from '../core/serializer.js';
+import { renpyExporter } from './renpy.js';
+
+const STORY = `version: "1.0"
+meta:
+  title: The Vault
+  author: Jo
+variables:
+  gold: 10
+  name: hero
+  bag: [rope]
+nodes:
+  intro:
+    type: passage
+    id: intro
+    start: true
+    content: "Gold: {gold}. {if gold > 5}Rich{else}Poor{/if}\\n\\nWhere to, [{name}]?"
+    choices:
+      - text: Pay {gold}
+        target: pay
+        condition: gold >= 5 && !visited("vault")
+        decrement:
+          gold: 5
+      - text: Pack
+        target: roll
+        add:
+          bag: tent
+  pay:
+    type: variable
+    id: pay
+    set:
+      paid: true
+    remove:
+      bag: rope
+    next: check
+  check:
+    type: condition
+    id: check
+    expression: paid && "rope" in bag
+    ifTrue: vault
+    ifFalse: intro
+  roll:
+    type: random
+    id: roll
+    branches:
+      - target: vault
+        weight: 3
+      - target: intro
+  vault:
+    type: passage
+    id: vault
+    content: 'Inside, "{name}".'
+    ending: true
+`;
+
+describe('renpyExporter', () => {
+  const result = renpyExporter.export(parseToStory(STORY));
+  const [variables, script] = result.files.map((f) => f.contents);
+
+  it('writes a script and a variables file', () => {
+    expect(renpyExporter.target).toBe('renpy');
+    expect(result.files.map((f) => f.name)).toEqual(['variables.rpy', 'script.rpy']);
+    expect(script).toContain('# The Vault by Jo\n\nlabel start:\n    jump intro\n');
+  });
+
+  it('declares variables with defaults and only the helpers in use', () => {
+    expect(variables).toContain(
+      'default bag = ["rope"]\ndefault gold = 10\ndefault name = "hero"\n' +
+        'default paid = False\ndefault sg_visits = {}\n'
+    );
+    expect(variables).toContain('    def sg_add(current, value):');
+    expect(variables).toContain('    def sg_remove(current, value):');
+    expect(variables).not.toContain('def sg_clear');
+  });
+
+  it('maps passages to labels with narration and guarded menus', () => {
+    expect(script).toContain(
+      'label intro:\n' +
+        '    $ sg_text = "Gold: " + sg_format(gold) + ". " + ("Rich" if gold > 5 else "Poor")\n' +
+        '    "[sg_text!q]"\n' +
+        '    menu:\n' +
+        '        "Where to, [[[name]]?"\n' +
+        '        "Pay [gold]" if gold >= 5 and not (sg_visits.get("vault", 0) > 0):\n' +
+        '            $ gold -= 5\n' +
+        '            jump pay\n' +
+        '        "Pack":\n' +
+        '            $ bag = sg_add(bag, "tent")\n' +
+        '            jump roll\n' +
+        '    return\n'
+    );
+    expect(script).toContain(
+      'label vault:\n    $ sg_visit("vault")\n    "Inside, \\"[name]\\"."\n    return'
+    );
+  });
+
+  it('maps variable, condition and random nodes', () => {
+    expect(script).toContain(
+      'label pay:\n    $ paid = True\n    $ bag = sg_remove(bag, "rope")\n    jump check'
+    );
+    expect(script).toContain(
+      'label check:\n    if paid and "rope" in bag:\n        jump vault\n    else:\n        jump intro'
+    );
+    expect(script).toContain(
+      'label roll:\n    $ sg_roll = renpy.random.random() * 4\n' +
+        '    if sg_roll < 3:\n        jump vault\n    else:\n        jump intro'
+    );
+    expect(result.warnings.map((w) => w.code)).toEqual(['EXP002']);
+  });
+
+  it('calls included entries and warns about what it cannot map', () => {
+    const story = parseToStory(STORY);
+    story.setNode({
+      id: 'roll',
+      type: 'include',
+      path: 'other.story',
+      entry: 'vault',
+      return: 'intro',
+    });
+    story.setNode({ id: 'pay', type: 'include', path: 'missing.story', return: 'gone' });
+    story.setNode({
+      id: 'check',
+      type: 'condition',
+      expression: 'gold >',
+      ifTrue: 'vault',
+      ifFalse: 'vault',
+    });
+    const { files, warnings } = renpyExporter.export(story);
+    expect(files[1].contents).toContain('label roll:\n    call vault\n    jump intro');
+    expect(files[1].contents).toContain('label pay:\n    return');
+    expect(files[1].contents).toContain('label check:\n    if False:');
+    expect(warnings.map((w) => w.code)).toEqual(['EXP001', 'EXP003', 'EXP004']);
+  });
+
+  it('writes one file per project chapter and renames keyword variables', () => {
+    const story = parseToStory(STORY);
+    story.setNode({
+      id: 'ch1.story#start',
+      type: 'passage',
+      content: '{if visits("start") > 1}Again{/if}',
+      choices: [{ text: 'Back', target: 'intro', set: { class: 'mage' } }],
+    });
+    const { files } = renpyExporter.export(story);
+    expect(files.map((f) => f.name)).toEqual(['variables.rpy', 'script.rpy', 'ch1.rpy']);
+    expect(files[0].contents).toContain('default class_ = ""');
+    expect(files[2].contents).toContain(
+      'label ch1_story_start:\n' +
+        '    $ sg_visit("ch1_story_start")\n' +
+        '    $ sg_text = ("Again" if sg_visits.get("ch1_story_start", 0) > 1 else "")\n' +
+        '    menu:\n' +
+        '        "[sg_text!q]"\n' +
+        '        "Back":\n' +
+        '            $ class_ = "mage"\n' +
+        '            jump intro\n'
+    );
+  });
+});
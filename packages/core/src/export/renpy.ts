@@ -0,0 +1,709 @@
+/**
+ * Ren'Py Exporter
+ *
+ * Translates a story into Ren'Py script files:
+ * - passages and choice nodes become labels; paragraphs become narration
+ *   and choices a `menu:` whose items carry `if` guards
+ * - variables become `default` declarations, mutations `$` statements
+ * - condition nodes become `if`/`else` jumps, random nodes weighted rolls
+ * - includes become `call`, so an included chapter's endings return
+ *
+ * `script.rpy` holds the labels (project chapters get one file each) and
+ * `variables.rpy` the state plus the small Python helpers the script uses.
+ * Lists and maps are plain Python lists and dicts, so state keeps full
+ * fidelity; only randomness and unresolvable references degrade.
+ */
+
+import type { Story } from '../core/story.js';
+import type { Choice, StoryNode, VariableMutations } from '../core/nodes.js';
+import type { VariableType, VariableValue } from '../core/types.js';
+import { inferVariableTypes } from '../core/typecheck.js';
+import {
+  ExpressionError,
+  parseExpressionTree,
+  type ExpressionNode,
+} from '../core/expression-parser.js';
+import { parseQualifiedNodeId, qualifyNodeId } from '../core/loader.js';
+import {
+  TemplateError,
+  hasTemplateSyntax,
+  parseTemplate,
+  type TemplatePart,
+} from '../core/template.js';
+import { printExpression, type ExpressionDialect } from './expression.js';
+import {
+  addWarning,
+  type ExportFile,
+  type ExportResult,
+  type ExportWarning,
+  type Exporter,
+} from './types.js';
+
+/** Python keywords, which cannot name store variables */
+const PYTHON_KEYWORDS = new Set([
+  'and',
+  'as',
+  'assert',
+  'async',
+  'await',
+  'break',
+  'class',
+  'continue',
+  'def',
+  'del',
+  'elif',
+  'else',
+  'except',
+  'finally',
+  'for',
+  'from',
+  'global',
+  'if',
+  'import',
+  'in',
+  'is',
+  'lambda',
+  'nonlocal',
+  'not',
+  'or',
+  'pass',
+  'raise',
+  'return',
+  'try',
+  'while',
+  'with',
+  'yield',
+]);
+
+const OPERATORS: Record<string, string> = {
+  '===': '==',
+  '!==': '!=',
+  '&&': 'and',
+  '||': 'or',
+  '!': 'not',
+};
+
+/** Python helpers, emitted into variables.rpy when the script uses them */
+const HELPERS: Record<string, string[]> = {
+  sg_format: [
+    'def sg_format(value):',
+    '    if value is None:',
+    '        return ""',
+    '    if isinstance(value, bool):',
+    '        return "true" if value else "false"',
+    '    if isinstance(value, float) and value.is_integer():',
+    '        return str(int(value))',
+    '    if isinstance(value, list):',
+    '        return ", ".join(sg_format(item) for item in value)',
+    '    if isinstance(value, dict):',
+    '        return ", ".join("%s: %s" % (key, sg_format(item)) for key, item in value.items())',
+    '    return str(value)',
+  ],
+  sg_add: [
+    'def sg_add(current, value):',
+    '    if isinstance(value, dict):',
+    '        if current is None:',
+    '            return dict(value)',
+    '        if not isinstance(current, dict):',
+    '            return current',
+    '        merged = dict(current)',
+    '        merged.update(value)',
+    '        return merged',
+    '    if current is None:',
+    '        current = []',
+    '    if not isinstance(current, list):',
+    '        return current',
+    '    result = list(current)',
+    '    for item in value if isinstance(value, list) else [value]:',
+    '        if item not in result:',
+    '            result.append(item)',
+    '    return result',
+  ],
+  sg_remove: [
+    'def sg_remove(current, value):',
+    '    items = value if isinstance(value, list) else [value]',
+    '    if isinstance(current, list):',
+    '        return [item for item in current if item not in items]',
+    '    if isinstance(current, dict):',
+    '        keys = set(sg_format(item) for item in items)',
+    '        return dict((key, item) for key, item in current.items() if key not in keys)',
+    '    return current',
+  ],
+  sg_clear: [
+    'def sg_clear(current):',
+    '    if isinstance(current, list):',
+    '        return []',
+    '    if isinstance(current, dict):',
+    '        return {}',
+    '    return current',
+  ],
+  sg_visit: [
+    'def sg_visit(label):',
+    '    store.sg_visits[label] = store.sg_visits.get(label, 0) + 1',
+  ],
+};
+
+/** Helpers other helpers call */
+const HELPER_DEPENDENCIES: Record<string, string[]> = { sg_remove: ['sg_format'] };
+
+const INDENT = '    ';
+
+/**
+ * State for one export run.
+ */
+class RenpyWriter {
+  private warnings: ExportWarning[] = [];
+  private types: Record<string, VariableType>;
+  private names = new Map<string, string>();
+  private labels = new Map<string, string>();
+  private counted = new Set<string>();
+  private helpers = new Set<string>();
+  private undeclared = new Set<string>();
+  private usesMath = false;
+  private usesRandom = false;
+  private temp = 0;
+
+  constructor(private story: Story) {
+    this.types = inferVariableTypes(story);
+    for (const name of Object.keys(this.types)) this.variableName(name);
+
+    const start = story.getStartNode();
+    // Ren'Py begins at `label start`; keep that name for the start node
+    const taken = new Set<string>(start && start.id !== 'start' ? ['start'] : []);
+    for (const node of story.getAllNodes()) {
+      if (node.type === 'comment') continue;
+      let label = node.id.replace(/[^A-Za-z0-9_]/g, '_');
+      if (taken.has(label)) label = `${label}_`;
+      for (let suffix = 2; taken.has(label); suffix++) label = `${label}_${suffix}`;
+      taken.add(label);
+      this.labels.set(node.id, label);
+    }
+    this.counted = this.collectVisitTargets();
+  }
+
+  write(): ExportResult {
+    const files = new Map<string, string[]>();
+    const start = this.story.getStartNode();
+    if (start && this.labels.get(start.id) !== 'start') {
+      files.set('script.rpy', [`label start:\n${INDENT}jump ${this.labels.get(start.id)}`]);
+    }
+
+    for (const node of this.story.getAllNodes()) {
+      if (node.type === 'comment') continue;
+      const { file } = parseQualifiedNodeId(node.id);
+      const name = file ? file.replace(/\.[^./]*$/, '.rpy') : 'script.rpy';
+      const sections = files.get(name) ?? [];
+      sections.push(this.writeNode(node).join('\n'));
+      files.set(name, sections);
+    }
+
+    const result: ExportFile[] = [
+      { name: 'variables.rpy', contents: `${this.writeVariables().join('\n')}\n` },
+    ];
+    for (const [name, sections] of files) {
+      const header = `# ${this.story.meta.title}${this.story.meta.author ? ` by ${this.story.meta.author}` : ''}`;
+      result.push({ name, contents: `${[header, ...sections].join('\n\n')}\n` });
+    }
+
+    if (this.usesRandom) {
+      this.warn(
+        'EXP002',
+        "Random draws use Ren'Py's own generator; seeded playthroughs will not replay identically"
+      );
+    }
+    return { files: result, warnings: this.warnings };
+  }
+
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+
+  private writeVariables(): string[] {
+    const lines = [`# State for ${this.story.meta.title}`, ''];
+    for (const [name, type] of Object.entries(this.types)) {
+      const declared = this.story.variables.get(name);
+      const initial: VariableValue =
+        declared ?? { number: 0, string: '', boolean: false, list: [], map: {} }[type];
+      lines.push(`default ${this.variableName(name)} = ${pythonValue(initial)}`);
+    }
+    // Undeclared reads are undefined at runtime; None behaves the same
+    for (const name of this.undeclared) lines.push(`default ${this.variableName(name)} = None`);
+    if (this.counted.size > 0) lines.push('default sg_visits = {}');
+
+    const helpers = new Set<string>();
+    for (const name of this.helpers) {
+      for (const dependency of HELPER_DEPENDENCIES[name] ?? []) helpers.add(dependency);
+      helpers.add(name);
+    }
+    if (helpers.size > 0 || this.usesMath) {
+      lines.push('', 'init python:');
+      if (this.usesMath) lines.push(`${INDENT}import math`);
+      for (const name of Object.keys(HELPERS)) {
+        if (!helpers.has(name)) continue;
+        lines.push('');
+        for (const line of HELPERS[name]) lines.push(`${INDENT}${line}`);
+      }
+    }
+    return lines;
+  }
+
+  private variableName(name: string): string {
+    let python = this.names.get(name);
+    if (python === undefined) {
+      python = PYTHON_KEYWORDS.has(name) || name.startsWith('sg_') ? `${name}_` : name;
+      this.names.set(name, python);
+    }
+    return python;
+  }
+
+  private writeMutations(mutations: VariableMutations): string[] {
+    const lines: string[] = [];
+    for (const [name, value] of Object.entries(mutations.set ?? {})) {
+      lines.push(`$ ${this.variableName(name)} = ${pythonValue(value)}`);
+    }
+    for (const [name, amount] of Object.entries(mutations.increment ?? {})) {
+      lines.push(`$ ${this.variableName(name)} += ${amount}`);
+    }
+    for (const [name, amount] of Object.entries(mutations.decrement ?? {})) {
+      lines.push(`$ ${this.variableName(name)} -= ${amount}`);
+    }
+    for (const [op, changes] of [
+      ['sg_add', mutations.add],
+      ['sg_remove', mutations.remove],
+    ] as const) {
+      for (const [name, value] of Object.entries(changes ?? {})) {
+        this.helpers.add(op);
+        const python = this.variableName(name);
+        lines.push(`$ ${python} = ${op}(${python}, ${pythonValue(value)})`);
+      }
+    }
+    for (const name of mutations.clear ?? []) {
+      this.helpers.add('sg_clear');
+      const python = this.variableName(name);
+      lines.push(`$ ${python} = sg_clear(${python})`);
+    }
+    return lines;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Nodes
+  // ---------------------------------------------------------------------------
+
+  private writeNode(node: StoryNode): string[] {
+    this.temp = 0;
+    const label = this.labels.get(node.id)!;
+    const body: string[] = [];
+    if (this.counted.has(node.id)) {
+      this.helpers.add('sg_visit');
+      body.push(`$ sg_visit("${label}")`);
+    }
+
+    switch (node.type) {
+      case 'passage': {
+        const paragraphs = this.paragraphs(node.content, node.id);
+        if (node.choices?.length) {
+          const caption = paragraphs.pop();
+          for (const paragraph of paragraphs) body.push(...paragraph);
+          body.push(...this.writeMenu(node, node.choices, caption));
+        } else {
+          for (const paragraph of paragraphs) body.push(...paragraph);
+          body.push('return');
+        }
+        break;
+      }
+
+      case 'choice': {
+        const caption = node.prompt
+          ? this.say(this.template(node.prompt, node.id), node.id)
+          : undefined;
+        body.push(...this.writeMenu(node, node.choices, caption));
+        break;
+      }
+
+      case 'variable':
+        body.push(...this.writeMutations(node), this.jump(node.next, node.id));
+        break;
+
+      case 'condition':
+        body.push(
+          `if ${this.expression(node.expression, node.id)}:`,
+          `${INDENT}${this.jump(node.ifTrue, node.id)}`,
+          'else:',
+          `${INDENT}${this.jump(node.ifFalse, node.id)}`
+        );
+        break;
+
+      case 'random':
+        body.push(...this.writeRandom(node.id, node.branches));
+        break;
+
+      case 'include':
+        body.push(...this.writeInclude(node));
+        break;
+    }
+
+    return [`label ${label}:`, ...body.map((line) => `${INDENT}${line}`)];
+  }
+
+  /**
+   * A menu whose caption (the last paragraph or the prompt) stays on
+   * screen while the reader picks.
+   */
+  private writeMenu(node: StoryNode, choices: Choice[], caption: string[] | undefined): string[] {
+    const before: string[] = [];
+    const items: string[] = [];
+    if (caption) {
+      before.push(...caption.slice(0, -1));
+      items.push(caption[caption.length - 1]);
+    }
+
+    for (const choice of choices) {
+      const [text, setup] = this.interpolated(this.template(choice.text, node.id, true), node.id);
+      before.push(...setup);
+      const guard = choice.condition ? ` if ${this.expression(choice.condition, node.id)}` : '';
+      items.push(`${text}${guard}:`);
+      for (const line of this.writeMutations(choice)) items.push(`${INDENT}${line}`);
+      items.push(`${INDENT}${this.jump(choice.target, node.id)}`);
+    }
+
+    // A menu without available items is skipped; StoryGraph ends there
+    return [...before, 'menu:', ...items.map((line) => `${INDENT}${line}`), 'return'];
+  }
+
+  private writeRandom(
+    nodeId: string,
+    branches: Array<{ target: string; weight?: number | undefined }>
+  ): string[] {
+    this.usesRandom = true;
+    if (branches.length === 1) return [this.jump(branches[0].target, nodeId)];
+
+    const weights = branches.map((branch) => branch.weight ?? 1);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    const lines = [`$ sg_roll = renpy.random.random() * ${total}`];
+    let threshold = 0;
+    branches.forEach((branch, index) => {
+      threshold += weights[index];
+      if (index === 0) lines.push(`if sg_roll < ${threshold}:`);
+      else if (index < branches.length - 1) lines.push(`elif sg_roll < ${threshold}:`);
+      else lines.push('else:');
+      lines.push(`${INDENT}${this.jump(branch.target, nodeId)}`);
+    });
+    return lines;
+  }
+
+  private writeInclude(node: Extract<StoryNode, { type: 'include' }>): string[] {
+    const after = node.return ? this.jump(node.return, node.id) : 'return';
+    if (node.entry && this.labels.has(node.entry)) {
+      return [`call ${this.labels.get(node.entry)}`, after];
+    }
+    this.warn('EXP003', `Include of '${node.path}' in '${node.id}' was skipped`, {
+      nodeId: node.id,
+      details: { path: node.path },
+    });
+    return [after];
+  }
+
+  private jump(target: string, nodeId: string): string {
+    const label = this.labels.get(target);
+    if (label) return `jump ${label}`;
+    this.warn('EXP001', `Missing target '${target}' in '${nodeId}' now ends the story`, {
+      nodeId,
+      details: { target },
+    });
+    return 'return';
+  }
+
+  /**
+   * Nodes whose visits an expression counts; their labels record visits.
+   */
+  private collectVisitTargets(): Set<string> {
+    const targets = new Set<string>();
+    const scan = (node: ExpressionNode, nodeId: string) => {
+      if (node.type === 'call') {
+        const [target] = node.args;
+        if (
+          (node.name === 'visited' || node.name === 'visits') &&
+          target?.type === 'literal' &&
+          typeof target.value === 'string'
+        ) {
+          const resolved = this.resolveNode(target.value, nodeId);
+          if (resolved) targets.add(resolved);
+        }
+        node.args.forEach((arg) => scan(arg, nodeId));
+      } else if (node.type === 'unary') {
+        scan(node.operand, nodeId);
+      } else if (node.type === 'binary') {
+        scan(node.left, nodeId);
+        scan(node.right, nodeId);
+      }
+    };
+    const scanSource = (source: string, nodeId: string) => {
+      try {
+        scan(parseExpressionTree(source), nodeId);
+      } catch {
+        // Invalid expressions are reported when they are written
+      }
+    };
+    const scanTemplate = (parts: TemplatePart[], nodeId: string) => {
+      for (const part of parts) {
+        if (part.type === 'expression') scanSource(part.expression, nodeId);
+        if (part.type === 'if') {
+          scanSource(part.condition, nodeId);
+          scanTemplate(part.then, nodeId);
+          scanTemplate(part.else, nodeId);
+        }
+      }
+    };
+
+    for (const node of this.story.getAllNodes()) {
+      const texts: string[] = [];
+      if (node.type === 'condition') scanSource(node.expression, node.id);
+      if (node.type === 'passage') texts.push(node.content);
+      if (node.type === 'choice' && node.prompt) texts.push(node.prompt);
+      if (node.type === 'passage' || node.type === 'choice') {
+        for (const choice of node.choices ?? []) {
+          texts.push(choice.text);
+          if (choice.condition) scanSource(choice.condition, node.id);
+        }
+      }
+      for (const text of texts) {
+        try {
+          scanTemplate(parseTemplate(text), node.id);
+        } catch {
+          // Reported when the text is written
+        }
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Resolve a node ID as an expression in `fromId` sees it: plain IDs
+   * refer to the same file, `path#id` to another one.
+   */
+  private resolveNode(target: string, fromId: string): string | undefined {
+    const { file } = parseQualifiedNodeId(fromId);
+    const local = qualifyNodeId(file ?? null, target);
+    if (this.labels.has(local)) return local;
+    return this.labels.has(target) ? target : undefined;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Text
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Split content into paragraphs, each rendered as narration lines.
+   * Templates whose `{if}` spans paragraphs keep the text in one block.
+   */
+  private paragraphs(source: string, nodeId: string): string[][] {
+    const chunks = source.split(/\n\s*\n/).filter((chunk) => chunk.trim().length > 0);
+    let parsed: TemplatePart[][];
+    try {
+      parsed = chunks.map((chunk) => this.parse(chunk));
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      parsed = [this.template(source, nodeId)];
+    }
+    return parsed.map((parts) => this.say(parts, nodeId));
+  }
+
+  private template(source: string, nodeId: string, inline = false): TemplatePart[] {
+    const text = inline ? source.replace(/\s*\n\s*/g, ' ') : source;
+    try {
+      return this.parse(text);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      this.warn('EXP007', `Invalid template in '${nodeId}' was exported as plain text`, {
+        nodeId,
+        details: { error: error.message },
+      });
+      return [{ type: 'text', value: text }];
+    }
+  }
+
+  private parse(source: string): TemplatePart[] {
+    return hasTemplateSyntax(source) ? parseTemplate(source) : [{ type: 'text', value: source }];
+  }
+
+  /**
+   * Narration lines for template parts: any setup, then the say statement.
+   */
+  private say(parts: TemplatePart[], nodeId: string): string[] {
+    const [text, setup] = this.interpolated(parts, nodeId);
+    return [...setup, text];
+  }
+
+  /**
+   * A Ren'Py string for template parts. Plain text and variables use
+   * `[name]` interpolation; anything else is computed into a temporary
+   * first, returned as setup lines.
+   */
+  private interpolated(parts: TemplatePart[], nodeId: string): [string, string[]] {
+    const simple = parts.every(
+      (part) =>
+        part.type === 'text' ||
+        (part.type === 'expression' &&
+          /^[a-z][a-z0-9_]*$/.test(part.expression) &&
+          ['number', 'string'].includes(this.types[part.expression] ?? ''))
+    );
+    if (simple) {
+      const text = parts
+        .map((part) =>
+          part.type === 'text'
+            ? escapeSay(part.value)
+            : `[${this.variableName((part as { expression: string }).expression)}]`
+        )
+        .join('');
+      return [`"${text}"`, []];
+    }
+
+    this.helpers.add('sg_format');
+    const temp = `sg_text${this.temp++ || ''}`;
+    return [`"[${temp}!q]"`, [`$ ${temp} = ${this.pythonText(parts, nodeId)}`]];
+  }
+
+  private pythonText(parts: TemplatePart[], nodeId: string): string {
+    if (parts.length === 0) return '""';
+    return parts
+      .map((part) => {
+        if (part.type === 'text') return JSON.stringify(part.value);
+        if (part.type === 'expression') {
+          return `sg_format(${this.expression(part.expression, nodeId)})`;
+        }
+        const then = this.pythonText(part.then, nodeId);
+        const otherwise = this.pythonText(part.else, nodeId);
+        return `(${then} if ${this.expression(part.condition, nodeId)} else ${otherwise})`;
+      })
+      .join(' + ');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  private expression(source: string, nodeId: string): string {
+    let tree: ExpressionNode;
+    try {
+      tree = parseExpressionTree(source);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      this.warn('EXP004', `Invalid expression in '${nodeId}' was replaced with False`, {
+        nodeId,
+        details: { expression: source, error: error.message },
+      });
+      return 'False';
+    }
+    return printExpression(tree, this.dialect(nodeId));
+  }
+
+  private dialect(nodeId: string): ExpressionDialect {
+    const atom = (node: ExpressionNode, print: (node: ExpressionNode) => string) =>
+      node.type === 'binary' || node.type === 'unary' ? `(${print(node)})` : print(node);
+
+    return {
+      operator: (operator) => OPERATORS[operator] ?? operator,
+      literal: (value) => pythonValue(value),
+      variable: (name) => {
+        if (!Object.prototype.hasOwnProperty.call(this.types, name)) this.undeclared.add(name);
+        return this.variableName(name);
+      },
+      call: (node, print) => {
+        const args = node.args.map(print);
+        switch (node.name) {
+          case 'min':
+          case 'max':
+          case 'abs':
+          case 'len':
+            return `${node.name}(${args.join(', ')})`;
+          case 'floor':
+            this.usesMath = true;
+            return `int(math.floor(${args[0]}))`;
+          case 'clamp':
+            return `min(max(${args[0]}, ${args[1]}), ${args[2]})`;
+          case 'lower':
+            this.helpers.add('sg_format');
+            return `sg_format(${args[0]}).lower()`;
+          case 'contains':
+            return `(${atom(node.args[1], print)} in ${atom(node.args[0], print)})`;
+          case 'random':
+            this.usesRandom = true;
+            return `renpy.random.randint(${args[0]}, ${args[1]})`;
+          case 'chance':
+            this.usesRandom = true;
+            return `(renpy.random.random() < ${args[0]})`;
+          case 'visited':
+          case 'visits': {
+            const [target] = node.args;
+            const resolved =
+              target.type === 'literal' && typeof target.value === 'string'
+                ? this.resolveNode(target.value, nodeId)
+                : undefined;
+            if (!resolved) {
+              this.warn(
+                'EXP004',
+                `${node.name}() in '${nodeId}' names an unknown node; it became 0`,
+                {
+                  nodeId,
+                }
+              );
+              return '0';
+            }
+            const count = `sg_visits.get("${this.labels.get(resolved)}", 0)`;
+            return node.name === 'visited' ? `(${count} > 0)` : count;
+          }
+          default:
+            return `${node.name}(${args.join(', ')})`;
+        }
+      },
+    };
+  }
+
+  private warn(
+    code: string,
+    message: string,
+    extra: { nodeId?: string; details?: Record<string, unknown> } = {}
+  ): void {
+    addWarning(this.warnings, { code, message, ...extra });
+  }
+}
+
+/**
+ * A value as a Python literal.
+ */
+function pythonValue(value: VariableValue | null): string {
+  if (value === null) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(pythonValue).join(', ')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value).map(
+      ([key, entry]) => `${JSON.stringify(key)}: ${pythonValue(entry)}`
+    );
+    return `{${entries.join(', ')}}`;
+  }
+  return String(value);
+}
+
+/**
+ * Escape text for a Ren'Py say string: quotes, backslashes, and the
+ * `[` and `{` that start interpolation and text tags.
+ */
+function escapeSay(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\[/g, '[[')
+    .replace(/\{/g, '{{')
+    .replace(/\n/g, '\\n');
+}
+
+/**
+ * Exporter for Ren'Py visual novel scripts.
+ */
+export const renpyExporter: Exporter = {
+  target: 'renpy',
+  export(story: Story): ExportResult {
+    return new RenpyWriter(story).write();
+  },
+};
@@ -0,0 +1,149 @@
+/**
+ * Tests for the Twee exporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from '../core/serializer.js';
+import { tweeImporter } from '../import/twee.js';
+import { tweeExporter } from './twee.js';
+
+const STORY = `version: "1.0"
+meta:
+  title: The Vault
+variables:
+  gold: 10
+  name: hero
+  bag: [rope]
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    tags: [intro]
+    position: { x: 100, y: 40 }
+    content: "Gold: {gold}. {if gold > 5}Rich{else}Poor{/if}"
+    choices:
+      - text: Pay {gold}
+        target: pay
+        condition: gold >= 5 && !visited("vault")
+        decrement:
+          gold: 5
+      - text: Pack
+        target: roll
+        add:
+          bag: tent
+  pay:
+    type: variable
+    id: pay
+    set:
+      paid: true
+    next: check
+  check:
+    type: condition
+    id: check
+    expression: paid && "rope" in bag
+    ifTrue: vault
+    ifFalse: start
+  roll:
+    type: random
+    id: roll
+    branches:
+      - target: vault
+        weight: 3
+      - target: start
+  vault:
+    type: passage
+    id: vault
+    content: "* Inside, $name //now//."
+    ending: true
+`;
+
+describe('tweeExporter', () => {
+  const result = tweeExporter.export(parseToStory(STORY));
+  const twee = result.files[0].contents as string;
+
+  it('writes the story header and initial state', () => {
+    expect(tweeExporter.target).toBe('twee');
+    expect(result.files.map((f) => f.name)).toEqual(['the-vault.twee']);
+    expect(twee).toMatch(
+      /^:: StoryTitle\nThe Vault\n\n:: StoryData\n\{\n {2}"ifid": "[0-9A-F-]{36}"/
+    );
+    expect(twee).toContain('"format": "SugarCube",');
+    expect(twee).toContain('"start": "start"');
+    expect(twee).toContain(
+      ':: StoryInit\n<<set $bag to ["rope"]>>\n<<set $gold to 10>>\n' +
+        '<<set $name to "hero">>\n<<set $paid to false>>'
+    );
+    expect(twee).toContain(':: Story JavaScript [script]\nsetup.sgFormat = function');
+  });
+
+  it('maps passages with tags, positions, templates and links', () => {
+    expect(twee).toContain(
+      ':: start [intro] {"position":"100,40"}\n' +
+        'Gold: <<print $gold>>. <<if $gold > 5>>Rich<<else>>Poor<</if>>\n\n' +
+        '<<if $gold >= 5 && !(visited("vault") > 0)>>' +
+        '<<link `"Pay " + setup.sgFormat($gold)` "pay">><<set $gold -= 5>><</link>><</if>>\n' +
+        '[[Pack|roll][$bag to setup.sgAdd($bag, "tent")]]'
+    );
+    expect(twee).toContain(':: vault\n"""* Inside, $name //now//."""');
+  });
+
+  it('turns logic nodes into passages that go onward', () => {
+    expect(twee).toContain(':: pay\n<<set $paid to true>>\n<<goto "check">>');
+    expect(twee).toContain(
+      ':: check\n<<if $paid && (setup.sgHas($bag, "rope"))>><<goto "vault">>\n' +
+        '<<else>><<goto "start">>\n<</if>>'
+    );
+    expect(twee).toContain(
+      ':: roll\n<<set _roll to randomFloat(4)>>\n<<if _roll < 3>><<goto "vault">>\n' +
+        '<<else>><<goto "start">>\n<</if>>'
+    );
+    expect(result.warnings.map((w) => w.code)).toEqual(['EXP002', 'EXP002']);
+  });
+
+  it('leaves lines that already hold verbatim quotes unwrapped, with a warning', () => {
+    const story = parseToStory(STORY);
+    story.setNode({
+      id: 'vault',
+      type: 'passage',
+      content: 'A sign reads """//keep out//"""\nPlain words\n<b>Bold</b>',
+      ending: true,
+    });
+    const { files, warnings } = tweeExporter.export(story);
+    expect(files[0].contents).toContain(
+      ':: vault\nA sign reads """//keep out//"""\nPlain words\n"""<b>Bold</b>"""'
+    );
+    expect(warnings.filter((w) => w.code === 'EXP007')).toEqual([
+      {
+        code: 'EXP007',
+        message: "Text in 'vault' may render as SugarCube markup",
+        nodeId: 'vault',
+      },
+    ]);
+  });
+
+  it('gives the same IFID to every export of a story', () => {
+    const again = tweeExporter.export(parseToStory(STORY)).files[0].contents;
+    expect(again).toBe(twee);
+  });
+
+  it('imports back into the same graph', () => {
+    const { document } = tweeImporter.import(twee);
+    expect(Object.keys(document.nodes)).toEqual(['start', 'pay', 'check', 'roll', 'vault']);
+    expect(document.nodes.pay).toEqual({
+      id: 'pay',
+      type: 'variable',
+      set: { paid: true },
+      next: 'check',
+    });
+    expect(document.variables).toEqual({ bag: ['rope'], gold: 10, name: 'hero', paid: false });
+    expect(document.nodes.start).toMatchObject({
+      type: 'passage',
+      start: true,
+      tags: ['intro'],
+      position: { x: 100, y: 40 },
+      content: 'Gold: {gold}. {if gold > 5}Rich{else}Poor{/if}',
+    });
+    expect(document.nodes.vault).toMatchObject({ content: '* Inside, $name //now//.' });
+  });
+});
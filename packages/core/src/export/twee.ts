@@ -0,0 +1,520 @@
+/**
+ * Twee Exporter
+ *
+ * Translates a story into one Twee 3 file for Twine's SugarCube 2 format:
+ * - every node becomes a passage named by its ID, keeping tags and the
+ *   editor position
+ * - choices become `[[text|target][setter]]` links, wrapped in `<<if>>`
+ *   when they have a condition
+ * - variables are initialised in StoryInit; mutations become setters
+ * - `{expr}` and `{if}` templates become `<<print>>` and `<<if>>`
+ * - variable, condition and random nodes become passages that `<<goto>>`
+ *
+ * List and map helpers are emitted into a Story JavaScript passage only
+ * when the story uses them.
+ */
+
+import type { Story } from '../core/story.js';
+import type { Choice, StoryNode, VariableMutations } from '../core/nodes.js';
+import type { VariableType, VariableValue } from '../core/types.js';
+import { inferVariableTypes } from '../core/typecheck.js';
+import {
+  ExpressionError,
+  parseExpressionTree,
+  type ExpressionNode,
+} from '../core/expression-parser.js';
+import {
+  TemplateError,
+  hasTemplateSyntax,
+  parseTemplate,
+  type TemplatePart,
+} from '../core/template.js';
+import { printExpression, type ExpressionDialect } from './expression.js';
+import {
+  addWarning,
+  createIfid,
+  getExportFileName,
+  type ExportResult,
+  type ExportWarning,
+  type Exporter,
+} from './types.js';
+
+/** SugarCube release the StoryData header names */
+const FORMAT_VERSION = '2.37.3';
+
+/** JavaScript helpers, emitted into the Story JavaScript passage when used */
+const HELPERS: Record<string, string[]> = {
+  sgFormat: [
+    'setup.sgFormat = function (value) {',
+    '  if (value === undefined || value === null) return "";',
+    '  if (Array.isArray(value)) return value.join(", ");',
+    '  if (typeof value === "object") {',
+    '    return Object.keys(value).map(function (key) { return key + ": " + value[key]; }).join(", ");',
+    '  }',
+    '  return String(value);',
+    '};',
+  ],
+  sgHas: [
+    'setup.sgHas = function (collection, item) {',
+    '  if (collection === undefined || collection === null) return false;',
+    '  if (Array.isArray(collection)) return collection.includes(item);',
+    '  if (typeof collection === "object") return Object.prototype.hasOwnProperty.call(collection, String(item));',
+    '  return String(collection).includes(String(item));',
+    '};',
+  ],
+  sgLen: [
+    'setup.sgLen = function (value) {',
+    '  if (value === undefined || value === null) return 0;',
+    '  if (typeof value === "object" && !Array.isArray(value)) return Object.keys(value).length;',
+    '  return value.length;',
+    '};',
+  ],
+  sgAdd: [
+    'setup.sgAdd = function (current, value) {',
+    '  if (value !== null && typeof value === "object" && !Array.isArray(value)) {',
+    '    if (current === undefined) return Object.assign({}, value);',
+    '    if (current === null || typeof current !== "object" || Array.isArray(current)) return current;',
+    '    return Object.assign({}, current, value);',
+    '  }',
+    '  if (current === undefined) current = [];',
+    '  if (!Array.isArray(current)) return current;',
+    '  var result = current.slice();',
+    '  [].concat(value).forEach(function (item) { if (!result.includes(item)) result.push(item); });',
+    '  return result;',
+    '};',
+  ],
+  sgRemove: [
+    'setup.sgRemove = function (current, value) {',
+    '  var items = [].concat(value);',
+    '  if (Array.isArray(current)) return current.filter(function (item) { return !items.includes(item); });',
+    '  if (current !== null && typeof current === "object") {',
+    '    var keys = items.map(String);',
+    '    var result = {};',
+    '    Object.keys(current).forEach(function (key) { if (!keys.includes(key)) result[key] = current[key]; });',
+    '    return result;',
+    '  }',
+    '  return current;',
+    '};',
+  ],
+  sgClear: [
+    'setup.sgClear = function (current) {',
+    '  if (Array.isArray(current)) return [];',
+    '  if (current !== null && typeof current === "object") return {};',
+    '  return current;',
+    '};',
+  ],
+};
+
+/** Text that SugarCube would read as markup rather than print */
+const MARKUP =
+  /\$[A-Za-z_]|_[A-Za-z]|''|\/\/|__|==|\^\^|~~|@@|\[\[|\[img\[|<|\/\*|\/%|\{\{\{|"""|&\w+;|^[!*#>|]|^----|^::/;
+
+/**
+ * State for one export run.
+ */
+class TweeWriter {
+  private warnings: ExportWarning[] = [];
+  private types: Record<string, VariableType>;
+  private helpers = new Set<string>();
+  private usesGoto = false;
+  private usesRandom = false;
+
+  constructor(private story: Story) {
+    this.types = inferVariableTypes(story);
+  }
+
+  write(): ExportResult {
+    const passages: string[] = [];
+    for (const node of this.story.getAllNodes()) {
+      if (node.type === 'comment') continue;
+      passages.push(`${this.header(node)}\n${this.writeNode(node).join('\n')}`);
+    }
+
+    const start = this.story.getStartNode();
+    const data = {
+      ifid: createIfid(this.story.meta.title),
+      format: 'SugarCube',
+      'format-version': FORMAT_VERSION,
+      ...(start ? { start: start.id } : {}),
+    };
+    const sections = [
+      `:: StoryTitle\n${this.story.meta.title}`,
+      `:: StoryData\n${JSON.stringify(data, null, 2)}`,
+    ];
+
+    const init = Object.entries(this.types).map(([name, type]) => {
+      const initial: VariableValue =
+        this.story.variables.get(name) ??
+        { number: 0, string: '', boolean: false, list: [], map: {} }[type];
+      return `<<set $${name} to ${JSON.stringify(initial)}>>`;
+    });
+    if (init.length > 0) sections.push(`:: StoryInit\n${init.join('\n')}`);
+
+    if (this.helpers.size > 0) {
+      const script = Object.keys(HELPERS)
+        .filter((name) => this.helpers.has(name))
+        .map((name) => HELPERS[name].join('\n'));
+      sections.push(`:: Story JavaScript [script]\n${script.join('\n\n')}`);
+    }
+
+    if (this.usesGoto) {
+      this.warn(
+        'EXP002',
+        'Variable, condition and random nodes became passages that <<goto>> onward; they appear in the history'
+      );
+    }
+    if (this.usesRandom) {
+      this.warn(
+        'EXP002',
+        "Random draws use SugarCube's generator; seeded playthroughs will not replay identically"
+      );
+    }
+
+    const contents = `${[...sections, ...passages].join('\n\n')}\n`;
+    return {
+      files: [{ name: getExportFileName(this.story, 'twee'), contents }],
+      warnings: this.warnings,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Nodes
+  // ---------------------------------------------------------------------------
+
+  private header(node: StoryNode): string {
+    const tags = node.tags?.length
+      ? ` [${node.tags.map((tag) => tag.replace(/[\s[\]{}\\]+/g, '_')).join(' ')}]`
+      : '';
+    const metadata = node.position
+      ? ` ${JSON.stringify({ position: `${node.position.x},${node.position.y}` })}`
+      : '';
+    return `:: ${node.id}${tags}${metadata}`;
+  }
+
+  private writeNode(node: StoryNode): string[] {
+    switch (node.type) {
+      case 'passage': {
+        const lines = [this.text(node.content, node.id)];
+        if (node.choices?.length) lines.push('', ...this.writeChoices(node.id, node.choices));
+        return lines;
+      }
+
+      case 'choice':
+        return [
+          ...(node.prompt ? [this.text(node.prompt, node.id), ''] : []),
+          ...this.writeChoices(node.id, node.choices),
+        ];
+
+      case 'variable':
+        this.usesGoto = true;
+        return [
+          ...this.writeMutations(node).map((line) => `<<set ${line}>>`),
+          this.goto(node.next, node.id),
+        ];
+
+      case 'condition':
+        this.usesGoto = true;
+        return [
+          `<<if ${this.expression(node.expression, node.id)}>>${this.goto(node.ifTrue, node.id)}`,
+          `<<else>>${this.goto(node.ifFalse, node.id)}`,
+          '<</if>>',
+        ];
+
+      case 'random': {
+        this.usesGoto = true;
+        this.usesRandom = true;
+        if (node.branches.length === 1) return [this.goto(node.branches[0].target, node.id)];
+        const weights = node.branches.map((branch) => branch.weight ?? 1);
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        const lines = [`<<set _roll to randomFloat(${total})>>`];
+        let threshold = 0;
+        node.branches.forEach((branch, index) => {
+          threshold += weights[index];
+          const jump = this.goto(branch.target, node.id);
+          if (index === 0) lines.push(`<<if _roll < ${threshold}>>${jump}`);
+          else if (index < node.branches.length - 1) {
+            lines.push(`<<elseif _roll < ${threshold}>>${jump}`);
+          } else lines.push(`<<else>>${jump}`);
+        });
+        lines.push('<</if>>');
+        return lines;
+      }
+
+      case 'include': {
+        this.usesGoto = true;
+        if (node.entry && this.story.hasNode(node.entry)) {
+          this.warn(
+            'EXP003',
+            `Include of '${node.path}' in '${node.id}' was flattened; it no longer returns`,
+            { nodeId: node.id, details: { path: node.path } }
+          );
+          return [this.goto(node.entry, node.id)];
+        }
+        this.warn('EXP003', `Include of '${node.path}' in '${node.id}' was skipped`, {
+          nodeId: node.id,
+          details: { path: node.path },
+        });
+        return node.return ? [this.goto(node.return, node.id)] : [];
+      }
+
+      case 'comment':
+        return [];
+    }
+  }
+
+  private writeChoices(nodeId: string, choices: Choice[]): string[] {
+    const lines: string[] = [];
+    for (const choice of choices) {
+      if (!this.story.hasNode(choice.target)) {
+        this.warn(
+          'EXP001',
+          `Choice to missing target '${choice.target}' in '${nodeId}' was dropped`,
+          {
+            nodeId,
+            details: { target: choice.target },
+          }
+        );
+        continue;
+      }
+      const setters = this.writeMutations(choice);
+      const text = choice.text.replace(/\s*\n\s*/g, ' ');
+      let link: string;
+      if (hasTemplateSyntax(text) || /[|\]]|->|<-/.test(text)) {
+        // The link macro takes its label as an expression
+        const label = hasTemplateSyntax(text)
+          ? `\`${this.stringExpression(this.template(text, nodeId), nodeId)}\``
+          : JSON.stringify(text);
+        const body = setters.map((setter) => `<<set ${setter}>>`).join('');
+        link = `<<link ${label} ${JSON.stringify(choice.target)}>>${body}<</link>>`;
+      } else {
+        const setter = setters.length ? `[${setters.join('; ')}]` : '';
+        link = `[[${text}|${choice.target}]${setter}]`;
+      }
+      lines.push(
+        choice.condition
+          ? `<<if ${this.expression(choice.condition, nodeId)}>>${link}<</if>>`
+          : link
+      );
+    }
+    return lines;
+  }
+
+  private writeMutations(mutations: VariableMutations): string[] {
+    const lines: string[] = [];
+    for (const [name, value] of Object.entries(mutations.set ?? {})) {
+      lines.push(`$${name} to ${JSON.stringify(value)}`);
+    }
+    for (const [name, amount] of Object.entries(mutations.increment ?? {})) {
+      lines.push(`$${name} += ${amount}`);
+    }
+    for (const [name, amount] of Object.entries(mutations.decrement ?? {})) {
+      lines.push(`$${name} -= ${amount}`);
+    }
+    for (const [helper, changes] of [
+      ['sgAdd', mutations.add],
+      ['sgRemove', mutations.remove],
+    ] as const) {
+      for (const [name, value] of Object.entries(changes ?? {})) {
+        this.helpers.add(helper);
+        lines.push(`$${name} to setup.${helper}($${name}, ${JSON.stringify(value)})`);
+      }
+    }
+    for (const name of mutations.clear ?? []) {
+      this.helpers.add('sgClear');
+      lines.push(`$${name} to setup.sgClear($${name})`);
+    }
+    return lines;
+  }
+
+  private goto(target: string, nodeId: string): string {
+    if (this.story.hasNode(target)) return `<<goto ${JSON.stringify(target)}>>`;
+    this.warn('EXP001', `Missing target '${target}' in '${nodeId}' now ends the story`, {
+      nodeId,
+      details: { target },
+    });
+    return '';
+  }
+
+  // ---------------------------------------------------------------------------
+  // Text
+  // ---------------------------------------------------------------------------
+
+  private template(source: string, nodeId: string): TemplatePart[] {
+    if (!hasTemplateSyntax(source)) return [{ type: 'text', value: source }];
+    try {
+      return parseTemplate(source);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      this.warn('EXP007', `Invalid template in '${nodeId}' was exported as plain text`, {
+        nodeId,
+        details: { error: error.message },
+      });
+      return [{ type: 'text', value: source }];
+    }
+  }
+
+  private text(source: string, nodeId: string): string {
+    return this.renderParts(this.template(source, nodeId), nodeId);
+  }
+
+  private renderParts(parts: TemplatePart[], nodeId: string): string {
+    return parts
+      .map((part) => {
+        if (part.type === 'text') return this.escapeText(part.value, nodeId);
+        if (part.type === 'expression') {
+          const tree = this.tree(part.expression, nodeId);
+          const printed = tree ? printExpression(tree, this.dialect(nodeId)) : 'false';
+          if (
+            tree?.type === 'variable' &&
+            ['number', 'string'].includes(this.types[tree.name] ?? '')
+          ) {
+            return `<<print ${printed}>>`;
+          }
+          this.helpers.add('sgFormat');
+          return `<<print setup.sgFormat(${printed})>>`;
+        }
+        const then = this.renderParts(part.then, nodeId);
+        const otherwise = part.else.length ? `<<else>>${this.renderParts(part.else, nodeId)}` : '';
+        return `<<if ${this.expression(part.condition, nodeId)}>>${then}${otherwise}<</if>>`;
+      })
+      .join('');
+  }
+
+  /**
+   * A JavaScript string expression for template parts, for link labels.
+   */
+  private stringExpression(parts: TemplatePart[], nodeId: string): string {
+    if (parts.length === 0) return '""';
+    return parts
+      .map((part) => {
+        if (part.type === 'text') return JSON.stringify(part.value);
+        if (part.type === 'expression') {
+          this.helpers.add('sgFormat');
+          return `setup.sgFormat(${this.expression(part.expression, nodeId)})`;
+        }
+        const then = this.stringExpression(part.then, nodeId);
+        const otherwise = this.stringExpression(part.else, nodeId);
+        return `(${this.expression(part.condition, nodeId)} ? ${then} : ${otherwise})`;
+      })
+      .join(' + ');
+  }
+
+  /**
+   * Wrap lines that SugarCube would read as markup in verbatim `"""`.
+   */
+  private escapeText(text: string, nodeId: string): string {
+    return text
+      .split('\n')
+      .map((line) => {
+        if (!MARKUP.test(line)) return line;
+        if (line.includes('"""')) {
+          this.warn('EXP007', `Text in '${nodeId}' may render as SugarCube markup`, { nodeId });
+          return line;
+        }
+        return `"""${line}"""`;
+      })
+      .join('\n');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  private tree(source: string, nodeId: string): ExpressionNode | undefined {
+    try {
+      return parseExpressionTree(source);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      this.warn('EXP004', `Invalid expression in '${nodeId}' was replaced with false`, {
+        nodeId,
+        details: { expression: source, error: error.message },
+      });
+      return undefined;
+    }
+  }
+
+  private expression(source: string, nodeId: string): string {
+    const tree = this.tree(source, nodeId);
+    return tree ? printExpression(tree, this.dialect(nodeId)) : 'false';
+  }
+
+  private dialect(nodeId: string): ExpressionDialect {
+    return {
+      operator: (operator) => operator,
+      literal: (value) => (value === null ? 'null' : JSON.stringify(value)),
+      variable: (name) => `$${name}`,
+      binary: (node, print) => {
+        if (node.operator !== 'in') return undefined;
+        this.helpers.add('sgHas');
+        return `setup.sgHas(${print(node.right)}, ${print(node.left)})`;
+      },
+      call: (node, print) => {
+        const args = node.args.map(print);
+        switch (node.name) {
+          case 'min':
+          case 'max':
+          case 'abs':
+          case 'floor':
+            return `Math.${node.name}(${args.join(', ')})`;
+          case 'clamp':
+            return `Math.clamp(${args.join(', ')})`;
+          case 'lower':
+            this.helpers.add('sgFormat');
+            return `setup.sgFormat(${args[0]}).toLowerCase()`;
+          case 'len':
+            this.helpers.add('sgLen');
+            return `setup.sgLen(${args[0]})`;
+          case 'contains':
+            this.helpers.add('sgHas');
+            return `setup.sgHas(${args.join(', ')})`;
+          case 'random':
+            this.usesRandom = true;
+            return `random(${args.join(', ')})`;
+          case 'chance':
+            this.usesRandom = true;
+            return `(randomFloat(1) < ${args[0]})`;
+          case 'visited':
+          case 'visits': {
+            const [target] = node.args;
+            if (
+              target.type !== 'literal' ||
+              typeof target.value !== 'string' ||
+              !this.story.hasNode(target.value)
+            ) {
+              this.warn(
+                'EXP004',
+                `${node.name}() in '${nodeId}' names an unknown node; it became 0`,
+                {
+                  nodeId,
+                }
+              );
+              return '0';
+            }
+            const count = `visited(${JSON.stringify(target.value)})`;
+            return node.name === 'visited' ? `(${count} > 0)` : count;
+          }
+          default:
+            return `${node.name}(${args.join(', ')})`;
+        }
+      },
+    };
+  }
+
+  private warn(
+    code: string,
+    message: string,
+    extra: { nodeId?: string; details?: Record<string, unknown> } = {}
+  ): void {
+    addWarning(this.warnings, { code, message, ...extra });
+  }
+}
+
+/**
+ * Exporter for Twine's Twee 3 source format (SugarCube 2).
+ */
+export const tweeExporter: Exporter = {
+  target: 'twee',
+  export(story: Story): ExportResult {
+    return new TweeWriter(story).write();
+  },
+};
@@ -2,7 +2,8 @@ import type { Story } from '../core/story.js';
 
 export interface ExportFile {
   name: string;
-  contents: string;
+  /** UTF-8 text, or raw bytes for binary files such as archives */
+  contents: string | Uint8Array;
 }
 
 export interface ExportWarning {
@@ -12,20 +13,63 @@ export interface ExportWarning {
   details?: Record<string, unknown>;
 }
 
-export interface ExportOptions {
-  tier?: 0 | 1 | 2;
-}
+/**
+ * Options an exporter takes. Built-in targets take none; targets with
+ * options declare a type for them.
+ */
+export type ExportOptions = object;
 
 export interface ExportResult {
   files: ExportFile[];
   warnings: ExportWarning[];
 }
 
-export interface Exporter {
+/**
+ * @typeParam Options - Options the target takes
+ */
+export interface Exporter<Options extends ExportOptions = ExportOptions> {
   target: string;
-  export(story: Story, options?: ExportOptions): ExportResult;
+  export(story: Story, options?: Options): ExportResult;
 }
 
 export function addWarning(list: ExportWarning[], warning: ExportWarning): void {
   list.push(warning);
 }
+
+/**
+ * File name for a single-file export: the story title as a lowercase slug.
+ */
+export function getExportFileName(story: Story, extension: string): string {
+  const slug = story.meta.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'story'}.${extension}`;
+}
+
+/**
+ * A stable IFID for a story: a UUID derived from its title, so repeated
+ * exports of the same story are recognised as one work.
+ */
+export function createIfid(seed: string): string {
+  let hex = '';
+  for (let round = 0; hex.length < 32; round++) {
+    // FNV-1a over the seed, salted per round
+    let hash = 0x811c9dc5 ^ round;
+    for (const char of seed) {
+      hash ^= char.codePointAt(0)!;
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hex += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `4${hex.slice(13, 16)}`,
+    `${variant}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ]
+    .join('-')
+    .toUpperCase();
+}
@@ -0,0 +1,103 @@
+/**
+ * Tests for the voice-over script exporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from '../core/serializer.js';
+import { hashSourceText } from '../core/strings.js';
+import { voiceoverExporter } from './voiceover.js';
+
+const STORY = `version: "1.0"
+meta:
+  title: The Inn
+  author: Jo
+nodes:
+  street:
+    type: choice
+    id: street
+    prompt: "Guard: Halt!"
+    choices:
+      - text: Run
+        target: hall
+  hall:
+    type: passage
+    id: hall
+    start: true
+    speaker: Innkeeper
+    content: "Welcome, traveller.\\n\\nSALLY: You owe {gold} gold, \\"friend\\".\\n\\nThe fire crackles.\\nIt is warm."
+    choices:
+      - text: Ask for a room
+        target: pay
+      - text: Leave
+        target: street
+  pay:
+    type: variable
+    id: pay
+    set:
+      paid: true
+    next: room
+  room:
+    type: passage
+    id: room
+    content: Upstairs, second door.
+    ending: true
+`;
+
+describe('voiceoverExporter', () => {
+  const story = parseToStory(STORY);
+  const result = voiceoverExporter.export(story);
+  const [csv, tsv, html] = result.files.map((f) => f.contents as string);
+  const welcome = `hall_${hashSourceText('Innkeeper: Welcome, traveller.')}`;
+
+  it('writes a line list per paragraph in story order', () => {
+    expect(voiceoverExporter.target).toBe('voiceover');
+    expect(result.files.map((f) => f.name)).toEqual(['the-inn.csv', 'the-inn.tsv', 'the-inn.html']);
+    expect(csv.split('\r\n').map((row) => row.split(',').slice(0, 3).join(','))).toEqual([
+      'line_id,node_id,speaker',
+      `${welcome},hall,Innkeeper`,
+      `hall_${hashSourceText('SALLY: You owe {gold} gold, "friend".')},hall,SALLY`,
+      `hall_${hashSourceText('Innkeeper: The fire crackles.\nIt is warm.')},hall,Innkeeper`,
+      `room_${hashSourceText(': Upstairs, second door.')},room,`,
+      `street_${hashSourceText('Guard: Halt!')},street,Guard`,
+      '',
+    ]);
+  });
+
+  it('quotes CSV cells and flattens TSV cells', () => {
+    expect(csv).toContain(',SALLY,"You owe {gold} gold, ""friend"".",Run\r\n');
+    expect(csv).toContain(',"Upstairs, second door.",Ask for a room\r\n');
+    expect(tsv).toContain('\tInnkeeper\tThe fire crackles. It is warm.\tRun\r\n');
+    expect(tsv.split('\r\n')[0]).toBe('line_id\tnode_id\tspeaker\ttext\tcontext');
+  });
+
+  it('keeps line IDs when other lines change', () => {
+    const edited = parseToStory(STORY.replace('Welcome, traveller.\\n\\n', 'Evening.\\n\\n'));
+    edited.setNode({ id: 'cellar', type: 'passage', content: 'Dark.', speaker: 'Rat' });
+    const rows = (voiceoverExporter.export(edited).files[0].contents as string).split('\r\n');
+    expect(rows.map((row) => row.split(',')[0]).filter((id) => id.startsWith('room_'))).toEqual([
+      csv.split('\r\n')[4].split(',')[0],
+    ]);
+    expect(rows).not.toContain(expect.stringContaining(welcome));
+  });
+
+  it('writes a printable screenplay with scenes, cues and choices', () => {
+    expect(html).toContain('<title>The Inn – Recording Script</title>');
+    expect(html).toContain('@page { size: letter;');
+    expect(html).toContain(
+      '<section class="scene" id="scene-hall">\n<h2>1. hall</h2>\n<p class="context">After “Run”</p>\n' +
+        `<div class="line" id="${welcome}">\n<span class="line-id">${welcome}</span>\n` +
+        '<p class="character">Innkeeper</p>\n<p class="speech">Welcome, traveller.</p>\n</div>'
+    );
+    expect(html).toContain('<p class="speech">The fire crackles.<br>It is warm.</p>');
+    expect(html).toContain('<p class="action">Upstairs, second door.</p>');
+    expect(html).toContain(
+      '<li>Ask for a room → <a class="goto" href="#scene-room">room</a></li>\n' +
+        '<li>Leave → <a class="goto" href="#scene-street">street</a></li>'
+    );
+    expect(html.indexOf('2. room')).toBeLessThan(html.indexOf('3. street'));
+  });
+
+  it('warns about lines with variable text', () => {
+    expect(result.warnings).toEqual([expect.objectContaining({ code: 'EXP002', nodeId: 'hall' })]);
+  });
+});
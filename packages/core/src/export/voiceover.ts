@@ -0,0 +1,317 @@
+/**
+ * Voice-over Script Exporter
+ *
+ * Turns a story into recording material for an audio team:
+ * - a line list as CSV and TSV: one row per spoken paragraph with its line
+ *   ID, node ID, speaker, text and the choices that lead to it
+ * - a screenplay-style HTML script, laid out for printing to PDF, with
+ *   scenes in story order from the start node
+ *
+ * Paragraphs of passage content and choice prompts are the lines. The
+ * speaker is a `NAME:` prefix on the paragraph, else the passage's
+ * `speaker`; lines without one are narration. Line IDs are the node ID plus
+ * a hash of the speaker and text, so adding, removing or reordering other
+ * lines never renames a recorded file, while rewriting a line gives it a
+ * new ID to record.
+ */
+
+import type { Story } from '../core/story.js';
+import type { StoryNode } from '../core/nodes.js';
+import { hashSourceText } from '../core/strings.js';
+import { hasTemplateSyntax } from '../core/template.js';
+import {
+  addWarning,
+  getExportFileName,
+  type ExportResult,
+  type ExportWarning,
+  type Exporter,
+} from './types.js';
+
+const COLUMNS = ['line_id', 'node_id', 'speaker', 'text', 'context'];
+
+/** `NAME:` at the start of a paragraph; names start with a capital letter */
+const SPEAKER_PREFIX = /^([A-Z][\w .'-]{0,63}):[ \t]+(?=\S)/;
+
+const STYLESHEET = `@page { size: letter; margin: 1in 1in 1in 1.5in; }
+body { font-family: 'Courier Prime', 'Courier New', Courier, monospace; font-size: 12pt; line-height: 1.2; max-width: 6in; margin: 0 auto; }
+.title-page { text-align: center; margin: 3in 0; break-after: page; }
+.title-page h1 { font-size: 12pt; text-transform: uppercase; text-decoration: underline; }
+.scene { margin-top: 2em; }
+.scene h2 { font-size: 12pt; text-transform: uppercase; }
+.context { font-style: italic; }
+.line { position: relative; margin: 1em 0; break-inside: avoid; }
+.line-id { position: absolute; left: -1.4in; width: 1.3in; font-size: 8pt; color: #666; overflow-wrap: anywhere; }
+.character { margin: 0 0 0 2in; text-transform: uppercase; }
+.speech { margin: 0 1.5in 0 1in; }
+.choices { margin: 1em 0 0 1in; padding: 0; list-style: none; }
+.choices li::before { content: '> '; }
+.goto { text-transform: uppercase; }
+`;
+
+interface Line {
+  id: string;
+  nodeId: string;
+  speaker: string;
+  text: string;
+  context: string[];
+}
+
+interface Scene {
+  node: Extract<StoryNode, { type: 'passage' | 'choice' }>;
+  lines: Line[];
+  /** Texts of the choices that lead to the scene */
+  context: string[];
+  /** Choice texts with the scenes they can lead to */
+  choices: Array<{ text: string; targets: string[] }>;
+}
+
+class VoiceScriptWriter {
+  private warnings: ExportWarning[] = [];
+  private scenes = new Map<string, Scene>();
+
+  constructor(private story: Story) {}
+
+  write(): ExportResult {
+    // Scenes breadth-first from the start, then any the start never reaches
+    const start = this.story.getStartNode();
+    const queue = start ? [start.id] : [];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (this.scenes.has(id)) continue;
+      const scene = this.buildScene(id);
+      if (!scene) continue;
+      this.scenes.set(id, scene);
+      for (const choice of scene.choices) queue.push(...choice.targets);
+    }
+    for (const node of this.story.getAllNodes()) {
+      if (this.scenes.has(node.id)) continue;
+      const scene = this.buildScene(node.id);
+      if (scene) this.scenes.set(node.id, scene);
+    }
+
+    const lines = [...this.scenes.values()].flatMap((scene) => scene.lines);
+    return {
+      files: [
+        { name: getExportFileName(this.story, 'csv'), contents: this.writeTable(lines, ',') },
+        { name: getExportFileName(this.story, 'tsv'), contents: this.writeTable(lines, '\t') },
+        { name: getExportFileName(this.story, 'html'), contents: this.writeScript() },
+      ],
+      warnings: this.warnings,
+    };
+  }
+
+  private warn(warning: ExportWarning): void {
+    addWarning(this.warnings, warning);
+  }
+
+  // ===========================================================================
+  // Lines
+  // ===========================================================================
+
+  private buildScene(id: string): Scene | undefined {
+    const node = this.story.getNode(id);
+    if (node?.type !== 'passage' && node?.type !== 'choice') return undefined;
+
+    const text = node.type === 'passage' ? node.content : (node.prompt ?? '');
+    const defaultSpeaker = node.type === 'passage' ? (node.speaker ?? '') : '';
+    const context = this.choicesInto(node.id);
+    const ids = new Set<string>();
+    const lines = paragraphs(text).map((paragraph): Line => {
+      const prefix = SPEAKER_PREFIX.exec(paragraph);
+      const speaker = prefix ? prefix[1].trim() : defaultSpeaker;
+      const spoken = prefix ? paragraph.slice(prefix[0].length) : paragraph;
+
+      const base = `${lineIdBase(node.id)}_${hashSourceText(`${speaker}: ${spoken}`)}`;
+      let lineId = base;
+      for (let n = 2; ids.has(lineId); n++) lineId = `${base}_${n}`;
+      ids.add(lineId);
+
+      if (hasTemplateSyntax(spoken)) {
+        this.warn({
+          code: 'EXP002',
+          message: `Line '${lineId}' has variable text; record a take for each value it can show`,
+          nodeId: node.id,
+          details: { lineId },
+        });
+      }
+      return { id: lineId, nodeId: node.id, speaker, text: spoken, context };
+    });
+
+    return {
+      node,
+      lines,
+      context,
+      choices: (node.choices ?? []).map((choice) => ({
+        text: choice.text,
+        targets: this.scenesFrom(choice.target),
+      })),
+    };
+  }
+
+  /**
+   * Scenes a target leads to: the target itself, or the passages and choice
+   * nodes reached through the logic nodes after it.
+   */
+  private scenesFrom(target: string): string[] {
+    const scenes: string[] = [];
+    const seen = new Set<string>();
+    const walk = (id: string) => {
+      if (seen.has(id)) return;
+      seen.add(id);
+      const node = this.story.getNode(id);
+      if (!node) return;
+      if (node.type === 'passage' || node.type === 'choice') {
+        scenes.push(id);
+        return;
+      }
+      for (const edge of this.story.getOutgoingEdges(id)) walk(edge.target);
+    };
+    walk(target);
+    return scenes;
+  }
+
+  /**
+   * Texts of the choices that lead to a node, directly or through logic nodes.
+   */
+  private choicesInto(nodeId: string): string[] {
+    const texts: string[] = [];
+    const seen = new Set<string>([nodeId]);
+    const walk = (id: string) => {
+      for (const edge of this.story.getIncomingEdges(id)) {
+        if (edge.type === 'choice') {
+          if (edge.label !== undefined && !texts.includes(edge.label)) texts.push(edge.label);
+          continue;
+        }
+        const source = this.story.getNode(edge.source);
+        if (!source || source.type === 'passage' || source.type === 'choice') continue;
+        if (seen.has(source.id)) continue;
+        seen.add(source.id);
+        walk(source.id);
+      }
+    };
+    walk(nodeId);
+    return texts;
+  }
+
+  // ===========================================================================
+  // Files
+  // ===========================================================================
+
+  private writeTable(lines: Line[], delimiter: ',' | '\t'): string {
+    const cell = delimiter === ',' ? csvCell : tsvCell;
+    const rows = [
+      COLUMNS,
+      ...lines.map((line) => [
+        line.id,
+        line.nodeId,
+        line.speaker,
+        line.text,
+        line.context.join(' | '),
+      ]),
+    ];
+    return rows.map((row) => row.map(cell).join(delimiter)).join('\r\n') + '\r\n';
+  }
+
+  private writeScript(): string {
+    const { meta } = this.story;
+    const numbers = new Map([...this.scenes.keys()].map((id, index) => [id, index + 1]));
+    const scenes = [...this.scenes.values()].map((scene) => {
+      const parts = [
+        `<section class="scene" id="${escapeHtml(anchor(scene.node.id))}">`,
+        `<h2>${numbers.get(scene.node.id)}. ${escapeHtml(scene.node.id)}</h2>`,
+      ];
+      if (scene.context.length > 0) {
+        const after = scene.context.map((text) => `“${escapeHtml(text)}”`).join(' or ');
+        parts.push(`<p class="context">After ${after}</p>`);
+      }
+      for (const line of scene.lines) {
+        const text = escapeHtml(line.text).replace(/\n/g, '<br>');
+        parts.push(
+          `<div class="line" id="${escapeHtml(line.id)}">`,
+          `<span class="line-id">${escapeHtml(line.id)}</span>`,
+          ...(line.speaker
+            ? [
+                `<p class="character">${escapeHtml(line.speaker)}</p>`,
+                `<p class="speech">${text}</p>`,
+              ]
+            : [`<p class="action">${text}</p>`]),
+          '</div>'
+        );
+      }
+      if (scene.choices.length > 0) {
+        parts.push('<ul class="choices">');
+        for (const choice of scene.choices) {
+          const targets = choice.targets
+            .map((id) => `<a class="goto" href="#${escapeHtml(anchor(id))}">${escapeHtml(id)}</a>`)
+            .join(' / ');
+          parts.push(`<li>${escapeHtml(choice.text)}${targets ? ` → ${targets}` : ''}</li>`);
+        }
+        parts.push('</ul>');
+      }
+      parts.push('</section>');
+      return parts.join('\n');
+    });
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(meta.language ?? 'en')}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(meta.title)} – Recording Script</title>
+<style>
+${STYLESHEET}</style>
+</head>
+<body>
+<header class="title-page">
+<h1>${escapeHtml(meta.title)}</h1>
+${meta.author ? `<p>by ${escapeHtml(meta.author)}</p>\n` : ''}<p>Recording Script</p>
+</header>
+${scenes.join('\n')}
+</body>
+</html>
+`;
+  }
+}
+
+/** Paragraphs of passage text: blocks separated by blank lines */
+function paragraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean);
+}
+
+/** Node ID as the start of a file-name-safe line ID (project IDs contain `.` and `#`) */
+function lineIdBase(nodeId: string): string {
+  return nodeId.replace(/[^A-Za-z0-9_]+/g, '_');
+}
+
+function anchor(nodeId: string): string {
+  return `scene-${lineIdBase(nodeId)}`;
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** TSV cannot quote, so tabs and line breaks inside a cell become spaces */
+function tsvCell(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Exporter for voice-over recording scripts.
+ */
+export const voiceoverExporter: Exporter = {
+  target: 'voiceover',
+  export(story: Story): ExportResult {
+    return new VoiceScriptWriter(story).write();
+  },
+};
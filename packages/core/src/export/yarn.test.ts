@@ -0,0 +1,174 @@
+/**
+ * Tests for the Yarn Spinner exporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from '../core/serializer.js';
+import { yarnImporter } from '../import/yarn.js';
+import { yarnExporter } from './yarn.js';
+
+const STORY = `version: "1.0"
+meta:
+  title: The Vault
+  author: Jo
+variables:
+  gold: 10
+  name: hero
+  bag: [rope]
+nodes:
+  vault:
+    type: passage
+    id: vault
+    content: "Inside, {name} [laughs]. #rich"
+    ending: true
+  start:
+    type: passage
+    id: start
+    start: true
+    tags: [intro]
+    position: { x: 100, y: 40 }
+    content: "Gold: {gold}.\\n\\n{if gold > 5}Rich{else}Poor{/if}"
+    choices:
+      - text: Pay {min(gold, 5)}
+        target: pay
+        condition: gold >= 5 && !visited("vault")
+        decrement:
+          gold: 5
+      - text: Pack
+        target: roll
+        add:
+          bag: tent
+  pay:
+    type: variable
+    id: pay
+    set:
+      paid: true
+    next: check
+  check:
+    type: condition
+    id: check
+    expression: paid && name === "hero"
+    ifTrue: vault
+    ifFalse: start
+  roll:
+    type: random
+    id: roll
+    position: { x: 300, y: 40 }
+    branches:
+      - target: vault
+        weight: 3
+      - target: start
+`;
+
+describe('yarnExporter', () => {
+  const result = yarnExporter.export(parseToStory(STORY));
+  const yarn = result.files[0].contents as string;
+
+  it('starts with the start node and declares the variables there', () => {
+    expect(yarnExporter.target).toBe('yarn');
+    expect(result.files.map((f) => f.name)).toEqual(['the-vault.yarn']);
+    expect(yarn).toMatch(
+      /^\/\/ title: The Vault\n\/\/ author: Jo\n\ntitle: start\ntags: intro\nposition: 100,40\n---\n/
+    );
+    expect(yarn).toContain(
+      '---\n<<declare $gold = 10>>\n<<declare $name = "hero">>\n' +
+        '<<declare $paid = false>>\n<<declare $sg_roll = 0>>\n'
+    );
+  });
+
+  it('writes lines, <<if>> blocks and guarded options', () => {
+    expect(yarn).toContain(
+      'Gold: {$gold}.\n<<if $gold > 5>>\n    Rich\n<<else>>\n    Poor\n<<endif>>\n' +
+        '-> Pay {min($gold, 5)} <<if $gold >= 5 && !visited("vault")>>\n' +
+        '    <<set $gold to $gold - 5>>\n    <<jump pay>>\n' +
+        '-> Pack\n    <<jump roll>>\n===\n'
+    );
+    expect(yarn).toContain('title: vault\n---\nInside, {$name} \\[laughs\\]. \\#rich\n===');
+  });
+
+  it('turns logic nodes into nodes that jump onward', () => {
+    expect(yarn).toContain('title: pay\n---\n<<set $paid to true>>\n<<jump check>>\n===');
+    expect(yarn).toContain(
+      'title: check\n---\n<<if $paid && $name == "hero">>\n    <<jump vault>>\n' +
+        '<<else>>\n    <<jump start>>\n<<endif>>\n==='
+    );
+    expect(yarn).toContain(
+      'title: roll\nposition: 300,40\n---\n<<set $sg_roll to random() * 4>>\n' +
+        '<<if $sg_roll < 3>>\n    <<jump vault>>\n<<else>>\n    <<jump start>>\n<<endif>>\n==='
+    );
+  });
+
+  it('warns about lists, custom functions and randomness', () => {
+    expect(result.warnings.map((w) => [w.code, w.nodeId])).toEqual([
+      ['EXP005', 'start'],
+      ['EXP001', undefined],
+      ['EXP002', undefined],
+      ['EXP002', undefined],
+    ]);
+    expect(result.warnings[2].message).toBe(
+      'Yarn Spinner has no built-in min(); register them as functions with the Dialogue Runner'
+    );
+  });
+
+  it('turns conditions Yarn cannot express into false', () => {
+    const story = parseToStory(STORY);
+    story.setNode({
+      id: 'check',
+      type: 'condition',
+      expression: 'len(bag) > 0',
+      ifTrue: 'vault',
+      ifFalse: 'start',
+    });
+    story.setNode({
+      id: 'vault',
+      type: 'passage',
+      content: '{if "rope" in bag}Tied.{/if}',
+      choices: [{ text: 'Look', target: 'start', condition: 'paid || visited("cellar")' }],
+    });
+    const { files, warnings } = yarnExporter.export(story);
+    const contents = files[0].contents as string;
+    expect(contents).toContain('title: check\n---\n<<if false>>\n    <<jump vault>>');
+    expect(contents).toContain(
+      'title: vault\n---\n<<if false>>\n    Tied.\n<<endif>>\n-> Look <<if false>>\n'
+    );
+    expect(warnings.filter((w) => w.code === 'EXP004').map((w) => w.message)).toEqual([
+      "Expression '\"rope\" in bag' in 'vault' uses 'in'; it became false",
+      `Expression 'paid || visited("cellar")' in 'vault' names an unknown node in visited(); ` +
+        'it became false',
+      "Expression 'len(bag) > 0' in 'check' reads list variable 'bag'; it became false",
+    ]);
+  });
+
+  it('imports back into the same graph', () => {
+    const { document, issues } = yarnImporter.import(yarn);
+    expect(issues).toEqual([]);
+    expect(document.meta).toEqual({ title: 'The Vault', author: 'Jo' });
+    expect(document.variables).toEqual({ gold: 10, name: 'hero', paid: false });
+    expect(Object.keys(document.nodes)).toEqual(['start', 'vault', 'pay', 'check', 'roll']);
+    expect(document.nodes.start).toEqual({
+      id: 'start',
+      position: { x: 100, y: 40 },
+      tags: ['intro'],
+      type: 'passage',
+      content: 'Gold: {gold}.\n\n{if gold > 5}Rich{else}Poor{/if}',
+      choices: [
+        {
+          text: 'Pay {min(gold, 5)}',
+          target: 'pay',
+          condition: 'gold >= 5 && !visited("vault")',
+          decrement: { gold: 5 },
+        },
+        { text: 'Pack', target: 'roll' },
+      ],
+      start: true,
+    });
+    expect(document.nodes.vault).toMatchObject({ content: 'Inside, {name} [laughs]. #rich' });
+    expect(document.nodes.check).toMatchObject({ expression: 'paid && name === "hero"' });
+    expect(document.nodes.roll).toEqual({
+      id: 'roll',
+      position: { x: 300, y: 40 },
+      type: 'random',
+      branches: [{ target: 'vault', weight: 3 }, { target: 'start' }],
+    });
+  });
+});
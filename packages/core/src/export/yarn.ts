@@ -0,0 +1,450 @@
+/**
+ * Yarn Spinner Exporter
+ *
+ * Translates a story into one `.yarn` file for Yarn Spinner 2:
+ * - every node becomes a Yarn node titled by its ID, with `tags:` and
+ *   `position:` headers; the start node comes first
+ * - passage text becomes lines, one per source line, and `{if}`
+ *   templates `<<if>>` blocks
+ * - choices become `->` options with `<<if>>` guards, their effects
+ *   `<<set>>` commands before the `<<jump>>`
+ * - story variables are declared with `<<declare>>` in the start node
+ * - variable, condition and random nodes become nodes that `<<jump>>` on
+ *
+ * Yarn has no lists or maps; they degrade with the EXP warnings in
+ * docs/spec/export.md. The Yarn importer reads the output back.
+ */
+
+import type { Story } from '../core/story.js';
+import type { Choice, StoryNode, VariableMutations } from '../core/nodes.js';
+import type { VariableType, VariableValue } from '../core/types.js';
+import { inferVariableTypes } from '../core/typecheck.js';
+import { ExpressionError, parseExpressionTree } from '../core/expression-parser.js';
+import { parseQualifiedNodeId, qualifyNodeId } from '../core/loader.js';
+import {
+  TemplateError,
+  hasTemplateSyntax,
+  parseTemplate,
+  type TemplatePart,
+} from '../core/template.js';
+import { printExpression, type ExpressionDialect } from './expression.js';
+import {
+  addWarning,
+  getExportFileName,
+  type ExportResult,
+  type ExportWarning,
+  type Exporter,
+} from './types.js';
+
+const OPERATORS: Record<string, string> = {
+  '===': '==',
+  '!==': '!=',
+};
+
+/** StoryGraph built-ins Yarn Spinner lacks; games register them as functions */
+const CUSTOM_FUNCTIONS = ['min', 'max', 'abs', 'clamp', 'lower', 'contains', 'len'];
+
+const INDENT = '    ';
+
+/** Raised by the dialect for constructs Yarn Spinner cannot express */
+class UnsupportedError extends Error {}
+
+/**
+ * State for one export run.
+ */
+class YarnWriter {
+  private warnings: ExportWarning[] = [];
+  private types: Record<string, VariableType>;
+  private titles = new Map<string, string>();
+  private functions = new Set<string>();
+  private usesRoll = false;
+  private usesRandom = false;
+
+  constructor(private story: Story) {
+    this.types = inferVariableTypes(story);
+    const taken = new Set<string>();
+    for (const node of story.getAllNodes()) {
+      const base = node.id.replace(/[^a-z0-9_]+/g, '_');
+      let title = base;
+      for (let suffix = 2; taken.has(title); suffix++) title = `${base}_${suffix}`;
+      taken.add(title);
+      this.titles.set(node.id, title);
+    }
+  }
+
+  write(): ExportResult {
+    const start = this.story.getStartNode();
+    const nodes = this.story.getAllNodes().filter((node) => node.type !== 'comment');
+    if (start) nodes.sort((a, b) => Number(b.id === start.id) - Number(a.id === start.id));
+
+    const bodies = nodes.map((node) => this.writeNode(node));
+    // Declarations are known once every node has been written
+    if (bodies.length > 0) bodies[0].unshift(...this.declarations());
+
+    if (this.functions.size > 0) {
+      const names = [...this.functions].map((name) => `${name}()`).join(', ');
+      this.warn(
+        'EXP002',
+        `Yarn Spinner has no built-in ${names}; register them as functions with the Dialogue Runner`,
+        { details: { functions: [...this.functions] } }
+      );
+    }
+    if (this.usesRandom) {
+      this.warn(
+        'EXP002',
+        "Random draws use Yarn Spinner's generator; seeded playthroughs will not replay identically"
+      );
+    }
+
+    const { title, author } = this.story.meta;
+    const header = [`// title: ${title}`, ...(author ? [`// author: ${author}`] : [])];
+    const sections = nodes.map((node, index) =>
+      [...this.header(node), '---', ...bodies[index], '==='].join('\n')
+    );
+    return {
+      files: [
+        {
+          name: getExportFileName(this.story, 'yarn'),
+          contents: `${[header.join('\n'), ...sections].join('\n\n')}\n`,
+        },
+      ],
+      warnings: this.warnings,
+    };
+  }
+
+  private declarations(): string[] {
+    const lines: string[] = [];
+    for (const [name, type] of Object.entries(this.types)) {
+      if (type === 'list' || type === 'map') {
+        this.warn('EXP001', `${type} variable '${name}' has no Yarn Spinner equivalent`, {
+          details: { variable: name },
+        });
+        continue;
+      }
+      const initial: VariableValue =
+        this.story.variables.get(name) ?? { number: 0, string: '', boolean: false }[type];
+      lines.push(`<<declare $${name} = ${JSON.stringify(initial)}>>`);
+    }
+    if (this.usesRoll) lines.push('<<declare $sg_roll = 0>>');
+    return lines;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Nodes
+  // ---------------------------------------------------------------------------
+
+  private header(node: StoryNode): string[] {
+    const lines = [`title: ${this.titles.get(node.id)}`];
+    if (node.tags?.length) {
+      lines.push(`tags: ${node.tags.map((tag) => tag.replace(/\s+/g, '_')).join(' ')}`);
+    }
+    if (node.position) lines.push(`position: ${node.position.x},${node.position.y}`);
+    return lines;
+  }
+
+  private writeNode(node: StoryNode): string[] {
+    switch (node.type) {
+      case 'passage':
+        return [
+          ...this.textLines(this.template(node.content, node.id), node.id),
+          ...this.writeChoices(node.id, node.choices ?? []),
+        ];
+
+      case 'choice':
+        return [
+          ...(node.prompt ? this.textLines(this.template(node.prompt, node.id), node.id) : []),
+          ...this.writeChoices(node.id, node.choices),
+        ];
+
+      case 'variable':
+        return [...this.writeMutations(node, node.id), this.jump(node.next, node.id)];
+
+      case 'condition':
+        return [
+          `<<if ${this.expression(node.expression, node.id)}>>`,
+          `${INDENT}${this.jump(node.ifTrue, node.id)}`,
+          '<<else>>',
+          `${INDENT}${this.jump(node.ifFalse, node.id)}`,
+          '<<endif>>',
+        ];
+
+      case 'random': {
+        this.usesRandom = true;
+        if (node.branches.length === 1) return [this.jump(node.branches[0].target, node.id)];
+        this.usesRoll = true;
+        const weights = node.branches.map((branch) => branch.weight ?? 1);
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        const lines = [`<<set $sg_roll to random() * ${total}>>`];
+        let threshold = 0;
+        node.branches.forEach((branch, index) => {
+          threshold += weights[index];
+          if (index === 0) lines.push(`<<if $sg_roll < ${threshold}>>`);
+          else if (index < node.branches.length - 1) {
+            lines.push(`<<elseif $sg_roll < ${threshold}>>`);
+          } else lines.push('<<else>>');
+          lines.push(`${INDENT}${this.jump(branch.target, node.id)}`);
+        });
+        lines.push('<<endif>>');
+        return lines;
+      }
+
+      case 'include':
+        if (node.entry && this.story.hasNode(node.entry)) {
+          this.warn(
+            'EXP003',
+            `Include of '${node.path}' in '${node.id}' was flattened; it no longer returns`,
+            { nodeId: node.id, details: { path: node.path } }
+          );
+          return [this.jump(node.entry, node.id)];
+        }
+        this.warn('EXP003', `Include of '${node.path}' in '${node.id}' was skipped`, {
+          nodeId: node.id,
+          details: { path: node.path },
+        });
+        return node.return ? [this.jump(node.return, node.id)] : ['<<stop>>'];
+
+      case 'comment':
+        return [];
+    }
+  }
+
+  private writeChoices(nodeId: string, choices: Choice[]): string[] {
+    const lines: string[] = [];
+    for (const choice of choices) {
+      if (!this.story.hasNode(choice.target)) {
+        this.warn(
+          'EXP001',
+          `Choice to missing target '${choice.target}' in '${nodeId}' was dropped`,
+          { nodeId, details: { target: choice.target } }
+        );
+        continue;
+      }
+      const guard = choice.condition ? ` <<if ${this.expression(choice.condition, nodeId)}>>` : '';
+      lines.push(`-> ${this.optionText(choice.text, nodeId)}${guard}`);
+      for (const line of this.writeMutations(choice, nodeId)) lines.push(`${INDENT}${line}`);
+      lines.push(`${INDENT}${this.jump(choice.target, nodeId)}`);
+    }
+    return lines;
+  }
+
+  private writeMutations(mutations: VariableMutations, nodeId: string): string[] {
+    const lines: string[] = [];
+    for (const [name, value] of Object.entries(mutations.set ?? {})) {
+      if (typeof value === 'object') {
+        this.dropMutation('set', name, nodeId);
+        continue;
+      }
+      lines.push(`<<set $${name} to ${JSON.stringify(value)}>>`);
+    }
+    for (const [name, amount] of Object.entries(mutations.increment ?? {})) {
+      lines.push(`<<set $${name} to $${name} + ${amount}>>`);
+    }
+    for (const [name, amount] of Object.entries(mutations.decrement ?? {})) {
+      lines.push(`<<set $${name} to $${name} - ${amount}>>`);
+    }
+    for (const [op, changes] of [
+      ['add', mutations.add],
+      ['remove', mutations.remove],
+    ] as const) {
+      for (const name of Object.keys(changes ?? {})) this.dropMutation(op, name, nodeId);
+    }
+    for (const name of mutations.clear ?? []) this.dropMutation('clear', name, nodeId);
+    return lines;
+  }
+
+  private dropMutation(op: string, name: string, nodeId: string): void {
+    this.warn('EXP005', `${op} on '${name}' in '${nodeId}' was dropped`, {
+      nodeId,
+      details: { variable: name, operation: op },
+    });
+  }
+
+  private jump(target: string, nodeId: string): string {
+    const title = this.titles.get(target);
+    if (title) return `<<jump ${title}>>`;
+    this.warn('EXP001', `Missing target '${target}' in '${nodeId}' now ends the story`, {
+      nodeId,
+      details: { target },
+    });
+    return '<<stop>>';
+  }
+
+  /**
+   * Resolve a node ID as an expression in `fromId` sees it: plain IDs
+   * refer to the same file, `path#id` to another one.
+   */
+  private resolveNode(target: string, fromId: string): string | undefined {
+    const { file } = parseQualifiedNodeId(fromId);
+    const local = qualifyNodeId(file ?? null, target);
+    if (this.titles.has(local)) return this.titles.get(local);
+    return this.titles.get(target);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Text
+  // ---------------------------------------------------------------------------
+
+  private template(source: string, nodeId: string): TemplatePart[] {
+    if (!hasTemplateSyntax(source)) return [{ type: 'text', value: source }];
+    try {
+      return parseTemplate(source);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      this.warn('EXP007', `Invalid template in '${nodeId}' was exported as plain text`, {
+        nodeId,
+        details: { error: error.message },
+      });
+      return [{ type: 'text', value: source }];
+    }
+  }
+
+  /**
+   * Yarn lines for template parts: one per non-blank source line, with
+   * `{expr}` inline and each `{if}` as an `<<if>>` block of its own lines.
+   */
+  private textLines(parts: TemplatePart[], nodeId: string): string[] {
+    const lines: string[] = [];
+    let line = '';
+    const flush = () => {
+      if (line.trim()) lines.push(escapeLine(line.trim()));
+      line = '';
+    };
+
+    for (const part of parts) {
+      if (part.type === 'text') {
+        part.value.split('\n').forEach((piece, index) => {
+          if (index > 0) flush();
+          line += escapeText(piece);
+        });
+      } else if (part.type === 'expression') {
+        line += `{${this.expression(part.expression, nodeId)}}`;
+      } else {
+        flush();
+        lines.push(`<<if ${this.expression(part.condition, nodeId)}>>`);
+        for (const nested of this.textLines(part.then, nodeId)) lines.push(`${INDENT}${nested}`);
+        if (part.else.length > 0) {
+          lines.push('<<else>>');
+          for (const nested of this.textLines(part.else, nodeId)) {
+            lines.push(`${INDENT}${nested}`);
+          }
+        }
+        lines.push('<<endif>>');
+      }
+    }
+    flush();
+    return lines;
+  }
+
+  /**
+   * Option text after `->`. Options are one line, so an `{if}` keeps its
+   * source text.
+   */
+  private optionText(source: string, nodeId: string): string {
+    const text = source.replace(/\s*\n\s*/g, ' ');
+    const lines = this.textLines(this.template(text, nodeId), nodeId);
+    if (lines.length === 1 && !lines[0].startsWith('<<')) return lines[0];
+    this.warn('EXP007', `Choice text in '${nodeId}' was exported as plain text`, {
+      nodeId,
+      details: { text: source },
+    });
+    return escapeText(text);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A Yarn expression. Constructs without an equivalent make the whole
+   * expression false.
+   */
+  private expression(source: string, nodeId: string): string {
+    try {
+      return printExpression(parseExpressionTree(source), this.dialect(nodeId));
+    } catch (error) {
+      if (!(error instanceof ExpressionError) && !(error instanceof UnsupportedError)) throw error;
+      const reason =
+        error instanceof UnsupportedError ? error.message : `is invalid: ${error.message}`;
+      this.warn('EXP004', `Expression '${source}' in '${nodeId}' ${reason}; it became false`, {
+        nodeId,
+        details: { expression: source },
+      });
+      return 'false';
+    }
+  }
+
+  private dialect(nodeId: string): ExpressionDialect {
+    return {
+      operator: (operator) => OPERATORS[operator] ?? operator,
+      literal: (value) => (value === null ? 'false' : JSON.stringify(value)),
+      variable: (name) => {
+        const type = this.types[name];
+        if (type === 'list' || type === 'map') {
+          throw new UnsupportedError(`reads ${type} variable '${name}'`);
+        }
+        return `$${name}`;
+      },
+      binary: (node) => {
+        if (node.operator === 'in') throw new UnsupportedError("uses 'in'");
+        return undefined;
+      },
+      call: (node, print) => {
+        const args = node.args.map(print);
+        if (CUSTOM_FUNCTIONS.includes(node.name)) {
+          this.functions.add(node.name);
+          return `${node.name}(${args.join(', ')})`;
+        }
+        switch (node.name) {
+          case 'floor':
+            return `floor(${args[0]})`;
+          case 'random':
+            this.usesRandom = true;
+            return `random_range(${args.join(', ')})`;
+          case 'chance':
+            this.usesRandom = true;
+            return `(random() < ${args[0]})`;
+          case 'visited':
+          case 'visits': {
+            const [target] = node.args;
+            const title =
+              target.type === 'literal' && typeof target.value === 'string'
+                ? this.resolveNode(target.value, nodeId)
+                : undefined;
+            if (!title) throw new UnsupportedError(`names an unknown node in ${node.name}()`);
+            return `${node.name === 'visited' ? 'visited' : 'visited_count'}("${title}")`;
+          }
+          default:
+            throw new UnsupportedError(`calls ${node.name}(), which Yarn Spinner lacks`);
+        }
+      },
+    };
+  }
+
+  private warn(
+    code: string,
+    message: string,
+    extra: { nodeId?: string; details?: Record<string, unknown> } = {}
+  ): void {
+    addWarning(this.warnings, { code, message, ...extra });
+  }
+}
+
+/** Escape characters Yarn reads as markup, commands, tags or comments */
+function escapeText(text: string): string {
+  return text.replace(/[\\{}[\]<>#]/g, '\\$&').replace(/\/\//g, '/\\/');
+}
+
+/** Keep a line that starts like a node delimiter from ending the node */
+function escapeLine(line: string): string {
+  return /^(?:===|---)/.test(line) ? `{""}${line}` : line;
+}
+
+/**
+ * Exporter for Yarn Spinner 2 dialogue files.
+ */
+export const yarnExporter: Exporter = {
+  target: 'yarn',
+  export(story: Story): ExportResult {
+    return new YarnWriter(story).write();
+  },
+};
@@ -0,0 +1,2 @@
+export { writeXliff, parseXliff } from './xliff.js';
+export { writePo, parsePo } from './po.js';
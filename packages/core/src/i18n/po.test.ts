@@ -0,0 +1,98 @@
+/**
+ * Tests for gettext PO translation files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ParseError, parseToStory } from '../core/serializer.js';
+import { hashSourceText } from '../core/strings.js';
+import { parsePo, writePo } from './po.js';
+
+const STORY = `version: "1.0"
+meta:
+  title: The Inn
+  language: en
+nodes:
+  hall:
+    type: passage
+    id: hall
+    start: true
+    content: "The innkeeper says \\"Welcome\\".\\n\\nYou have {gold} gold."
+    choices:
+      - text: Leave
+        target: hall
+`;
+
+describe('writePo', () => {
+  const story = parseToStory(STORY);
+
+  it('writes a template with one entry per string', () => {
+    const po = writePo(story);
+    expect(po).toContain('"Project-Id-Version: The Inn\\n"\n"Language: \\n"\n');
+    expect(po).toContain('"X-Source-Language: en\\n"\n');
+    expect(po).toContain(
+      `#. sg-hash: ${hashSourceText('Leave')}\n#: hall\nmsgctxt "hall.choices.0"\nmsgid "Leave"\nmsgstr ""\n`
+    );
+    expect(po).toContain(
+      'msgctxt "hall.content"\nmsgid ""\n"The innkeeper says \\"Welcome\\".\\n"\n"\\n"\n' +
+        '"You have {gold} gold."\nmsgstr ""\n'
+    );
+  });
+
+  it('fills in a translation and marks stale entries fuzzy', () => {
+    const po = writePo(story, {
+      locale: 'fr',
+      translation: {
+        locale: 'fr',
+        entries: {
+          'hall.choices.0': { text: 'Partir', sourceHash: 'abcdef01' },
+        },
+      },
+    });
+    expect(po).toContain('"Language: fr\\n"');
+    expect(po).toContain(
+      '#. sg-hash: abcdef01\n#: hall\n#, fuzzy\nmsgctxt "hall.choices.0"\nmsgid "Leave"\nmsgstr "Partir"\n'
+    );
+  });
+});
+
+describe('parsePo', () => {
+  const story = parseToStory(STORY);
+
+  it('reads translations back with the hash of their source', () => {
+    const po = writePo(story, { locale: 'fr' })
+      .replace('msgid "Leave"\nmsgstr ""', 'msgid "Leave"\nmsgstr "Partir"')
+      .replace(
+        '"You have {gold} gold."\nmsgstr ""',
+        '"You have {gold} gold."\nmsgstr ""\n"Bienvenue.\\n"\n"\\n"\n"Vous avez {gold} pièces."'
+      );
+    expect(parsePo(po)).toEqual({
+      locale: 'fr',
+      entries: {
+        'hall.content': {
+          text: 'Bienvenue.\n\nVous avez {gold} pièces.',
+          sourceHash: hashSourceText('The innkeeper says "Welcome".\n\nYou have {gold} gold.'),
+        },
+        'hall.choices.0': { text: 'Partir', sourceHash: hashSourceText('Leave') },
+      },
+    });
+  });
+
+  it('keeps the old hash of fuzzy entries until the flag is cleared', () => {
+    const po = writePo(story, {
+      locale: 'fr',
+      translation: {
+        locale: 'fr',
+        entries: { 'hall.choices.0': { text: 'Partir', sourceHash: 'abcdef01' } },
+      },
+    });
+    expect(parsePo(po).entries['hall.choices.0'].sourceHash).toBe('abcdef01');
+    expect(parsePo(po.replace('#, fuzzy\n', '')).entries['hall.choices.0'].sourceHash).toBe(
+      hashSourceText('Leave')
+    );
+  });
+
+  it('rejects files that are not PO or have no language', () => {
+    expect(() => parsePo('Just some text')).toThrow(ParseError);
+    expect(() => parsePo(writePo(story))).toThrow('PO file has no Language header');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * gettext PO files for translating stories.
+ *
+ * Each string becomes an entry whose `msgctxt` is the translation key and
+ * whose `msgid` is the source text. An extracted comment records the hash
+ * of the source the translation was made from; entries whose source has
+ * changed since are written with the `fuzzy` flag, and read back as stale
+ * until a translator clears it.
+ */
+
+import type { Story } from '../core/story.js';
+import { ParseError } from '../core/serializer.js';
+import {
+  extractStrings,
+  hashSourceText,
+  type StoryTranslation,
+  type TranslationEntry,
+  type TranslationFileOptions,
+} from '../core/strings.js';
+
+const HASH_COMMENT = /^#\.\s*sg-hash:\s*([0-9a-f]{8})\s*$/;
+
+/**
+ * Write the story's strings as a PO file, or a POT template without a locale.
+ */
+export function writePo(story: Story, options: TranslationFileOptions = {}): string {
+  const headers = [
+    `Project-Id-Version: ${story.meta.title}`,
+    `Language: ${options.locale ?? ''}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+    'X-Generator: StoryGraph',
+    ...(story.meta.language ? [`X-Source-Language: ${story.meta.language}`] : []),
+  ];
+  const lines = [
+    `# ${story.meta.title.replace(/\n/g, ' ')}`,
+    'msgid ""',
+    'msgstr ""',
+    ...headers.map((header) => quote(`${header}\n`)),
+  ];
+
+  for (const string of extractStrings(story)) {
+    const entry = options.translation?.entries[string.key];
+    const stale = entry !== undefined && entry.sourceHash !== string.hash;
+    lines.push(
+      '',
+      `#. sg-hash: ${entry?.sourceHash ?? string.hash}`,
+      `#: ${string.nodeId}`,
+      ...(stale ? ['#, fuzzy'] : []),
+      `msgctxt ${quote(string.key)}`,
+      ...field('msgid', string.text),
+      ...field('msgstr', entry?.text ?? '')
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Read a translated PO file. Entries without a translation are left out;
+ * the locale comes from the `Language` header.
+ *
+ * @throws ParseError if the file has no entries or no `Language` header
+ */
+export function parsePo(text: string): StoryTranslation {
+  const entries: Record<string, TranslationEntry> = {};
+  let locale: string | undefined;
+  let sawEntry = false;
+
+  let current: Partial<Record<'msgctxt' | 'msgid' | 'msgstr', string>> = {};
+  let active: 'msgctxt' | 'msgid' | 'msgstr' | undefined;
+  let fuzzy = false;
+  let noteHash: string | undefined;
+
+  const flush = () => {
+    if (current.msgid !== undefined) {
+      sawEntry = true;
+      if (current.msgctxt === undefined && current.msgid === '') {
+        locale = /^Language:[ \t]*(\S+)/m.exec(current.msgstr ?? '')?.[1];
+      } else if (current.msgctxt !== undefined && current.msgstr) {
+        // A translator reviewing the entry clears `fuzzy`, so only fuzzy
+        // entries keep the hash of the older source they were made from
+        entries[current.msgctxt] = {
+          text: current.msgstr,
+          sourceHash: fuzzy
+            ? (noteHash ?? hashSourceText(current.msgid))
+            : hashSourceText(current.msgid),
+        };
+      }
+    }
+    current = {};
+    active = undefined;
+    fuzzy = false;
+    noteHash = undefined;
+  };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line === '') {
+      flush();
+      return;
+    }
+    if (line.startsWith('#')) {
+      if (current.msgstr !== undefined) flush();
+      if (line.startsWith('#,') && /\bfuzzy\b/.test(line)) fuzzy = true;
+      noteHash = HASH_COMMENT.exec(line)?.[1] ?? noteHash;
+      return;
+    }
+
+    const keyword = /^(msgctxt|msgid|msgstr)\s+(".*")$/.exec(line);
+    if (keyword) {
+      const name = keyword[1] as 'msgctxt' | 'msgid' | 'msgstr';
+      if (name !== 'msgstr' && current.msgstr !== undefined) flush();
+      active = name;
+      current[name] = unquote(keyword[2], index + 1);
+    } else if (line.startsWith('"') && active) {
+      current[active] += unquote(line, index + 1);
+    } else if (/^(msgid_plural|msgstr\[\d+\])\s/.test(line)) {
+      // Plural forms are never written by writePo
+      active = undefined;
+    } else if (!line.startsWith('"')) {
+      throw new ParseError(`Invalid PO line: ${line}`, index + 1);
+    }
+  });
+  flush();
+
+  if (!sawEntry) throw new ParseError('Not a PO file: no msgid entries');
+  if (!locale) throw new ParseError('PO file has no Language header');
+  return { locale, entries };
+}
+
+/**
+ * A keyword with its string, split after line breaks the way gettext
+ * tools wrap multi-line messages.
+ */
+function field(keyword: string, text: string): string[] {
+  const parts = text.split(/(?<=\n)/).filter((part) => part !== '');
+  if (parts.length <= 1) return [`${keyword} ${quote(text)}`];
+  return [`${keyword} ""`, ...parts.map(quote)];
+}
+
+function quote(text: string): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+  return `"${escaped}"`;
+}
+
+function unquote(quoted: string, line: number): string {
+  if (!/^"(?:[^"\\]|\\.)*"$/.test(quoted)) {
+    throw new ParseError(`Invalid PO string: ${quoted}`, line);
+  }
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+  return quoted.slice(1, -1).replace(/\\(.)/g, (_, char: string) => escapes[char] ?? char);
+}
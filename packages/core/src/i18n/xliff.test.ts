@@ -0,0 +1,99 @@
+/**
+ * Tests for XLIFF 2.0 translation files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ParseError, parseToStory } from '../core/serializer.js';
+import { hashSourceText } from '../core/strings.js';
+import { parseXliff, writeXliff } from './xliff.js';
+
+const STORY = `version: "1.0"
+meta:
+  title: Fish & Chips
+nodes:
+  hall:
+    type: passage
+    id: hall
+    start: true
+    content: "You have {gold} gold <and> a fish."
+    choices:
+      - text: Leave
+        target: hall
+      - text: Stay
+        target: hall
+`;
+
+describe('writeXliff', () => {
+  const story = parseToStory(STORY);
+  const xliff = writeXliff(story, {
+    locale: 'de',
+    translation: {
+      locale: 'de',
+      entries: {
+        'hall.choices.0': { text: 'Gehen', sourceHash: hashSourceText('Leave') },
+        'hall.choices.1': { text: 'Bleiben', sourceHash: 'abcdef01' },
+      },
+    },
+  });
+
+  it('writes one unit per string named by its key', () => {
+    expect(
+      xliff.startsWith(
+        '<?xml version="1.0" encoding="UTF-8"?>\n' +
+          '<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de">\n' +
+          '  <file id="story" original="Fish &amp; Chips">\n'
+      )
+    ).toBe(true);
+    expect(xliff).toContain(
+      '    <unit id="u1" name="hall.content">\n      <notes>\n' +
+        `        <note category="sg-hash">${hashSourceText('You have {gold} gold <and> a fish.')}</note>\n` +
+        '        <note category="location">hall</note>\n      </notes>\n' +
+        '      <segment state="initial">\n' +
+        '        <source xml:space="preserve">You have {gold} gold &lt;and&gt; a fish.</source>\n' +
+        '      </segment>\n    </unit>\n'
+    );
+  });
+
+  it('marks current translations translated and stale ones initial', () => {
+    expect(xliff).toContain(
+      '<segment state="translated">\n        <source xml:space="preserve">Leave</source>\n' +
+        '        <target xml:space="preserve">Gehen</target>'
+    );
+    expect(xliff).toContain('<note category="sg-hash">abcdef01</note>');
+    expect(xliff).toContain(
+      '<segment state="initial">\n        <source xml:space="preserve">Stay</source>\n' +
+        '        <target xml:space="preserve">Bleiben</target>'
+    );
+  });
+
+  it('reads translations back, keeping the old hash of unreviewed units', () => {
+    const translated = xliff
+      .replace(
+        '&lt;and&gt; a fish.</source>\n',
+        '&lt;and&gt; a fish.</source>\n        <target state="translated">Du hast {gold} Gold &amp; <![CDATA[<einen>]]> Fisch.</target>\n'
+      )
+      .replace(
+        '<segment state="initial">\n        <source xml:space="preserve">You',
+        '<segment state="final">\n        <source xml:space="preserve">You'
+      );
+    expect(parseXliff(translated)).toEqual({
+      locale: 'de',
+      entries: {
+        'hall.content': {
+          text: 'Du hast {gold} Gold & <einen> Fisch.',
+          sourceHash: hashSourceText('You have {gold} gold <and> a fish.'),
+        },
+        'hall.choices.0': { text: 'Gehen', sourceHash: hashSourceText('Leave') },
+        'hall.choices.1': { text: 'Bleiben', sourceHash: 'abcdef01' },
+      },
+    });
+  });
+
+  it('rejects other documents', () => {
+    expect(() => parseXliff('<html></html>')).toThrow(ParseError);
+    expect(() => parseXliff('<xliff version="1.2"></xliff>')).toThrow(
+      'Unsupported XLIFF version 1.2; use 2.0'
+    );
+    expect(() => parseXliff(writeXliff(story))).toThrow('XLIFF file has no trgLang');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * XLIFF 2.0 files for translating stories.
+ *
+ * Each string becomes a `<unit>` named by its translation key, with the
+ * source text, the translation if there is one, and an `sg-hash` note
+ * recording the hash of the source the translation was made from. Units
+ * whose source has changed since are written in the `initial` state, and
+ * read back as stale until a translator marks them translated.
+ */
+
+import type { Story } from '../core/story.js';
+import { ParseError } from '../core/serializer.js';
+import {
+  extractStrings,
+  hashSourceText,
+  type StoryTranslation,
+  type TranslationEntry,
+  type TranslationFileOptions,
+} from '../core/strings.js';
+
+const REVIEWED_STATES = new Set(['translated', 'reviewed', 'final']);
+
+/**
+ * Write the story's strings as an XLIFF 2.0 document.
+ */
+export function writeXliff(story: Story, options: TranslationFileOptions = {}): string {
+  const languages = [
+    `srcLang="${escape(story.meta.language ?? 'en')}"`,
+    ...(options.locale ? [`trgLang="${escape(options.locale)}"`] : []),
+  ];
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" ${languages.join(' ')}>`,
+    `  <file id="story" original="${escape(story.meta.title)}">`,
+  ];
+
+  extractStrings(story).forEach((string, index) => {
+    const entry = options.translation?.entries[string.key];
+    const state = entry && entry.sourceHash === string.hash ? 'translated' : 'initial';
+    lines.push(
+      `    <unit id="u${index + 1}" name="${escape(string.key)}">`,
+      '      <notes>',
+      `        <note category="sg-hash">${entry?.sourceHash ?? string.hash}</note>`,
+      `        <note category="location">${escape(string.nodeId)}</note>`,
+      '      </notes>',
+      `      <segment state="${state}">`,
+      `        <source xml:space="preserve">${escape(string.text)}</source>`,
+      ...(entry ? [`        <target xml:space="preserve">${escape(entry.text)}</target>`] : []),
+      '      </segment>',
+      '    </unit>'
+    );
+  });
+
+  lines.push('  </file>', '</xliff>');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Read a translated XLIFF 2.0 document. Units without a target are left
+ * out; the locale comes from `trgLang`.
+ *
+ * @throws ParseError if the document is not XLIFF 2.0 or has no `trgLang`
+ */
+export function parseXliff(text: string): StoryTranslation {
+  const root = /<xliff\b([^>]*)>/.exec(text);
+  if (!root) throw new ParseError('Not an XLIFF file: no <xliff> element');
+  const rootAttributes = attributes(root[1]);
+  if (!rootAttributes.version?.startsWith('2.')) {
+    throw new ParseError(
+      `Unsupported XLIFF version ${rootAttributes.version ?? '(none)'}; use 2.0`
+    );
+  }
+  const locale = rootAttributes.trgLang;
+  if (!locale) throw new ParseError('XLIFF file has no trgLang');
+
+  const entries: Record<string, TranslationEntry> = {};
+  for (const unit of text.matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)) {
+    const unitAttributes = attributes(unit[1]);
+    const key = unitAttributes.name ?? unitAttributes.id;
+    if (!key) continue;
+
+    let source = '';
+    let target: string | undefined;
+    let reviewed = true;
+    // Tools may split a unit into several segments; join them back up
+    for (const part of unit[2].matchAll(/<(segment|ignorable)\b([^>]*)>([\s\S]*?)<\/\1>/g)) {
+      const partSource = /<source\b[^>]*>([\s\S]*?)<\/source>/.exec(part[3]);
+      const partTarget = /<target\b[^>]*>([\s\S]*?)<\/target>/.exec(part[3]);
+      source += partSource ? content(partSource[1]) : '';
+      if (partTarget) target = (target ?? '') + content(partTarget[1]);
+      if (part[1] === 'segment' && !REVIEWED_STATES.has(attributes(part[2]).state ?? 'initial')) {
+        reviewed = false;
+      }
+    }
+    if (!target) continue;
+
+    const noteHash = /<note\b[^>]*category="sg-hash"[^>]*>\s*([0-9a-f]{8})\s*<\/note>/.exec(
+      unit[2]
+    )?.[1];
+    entries[key] = {
+      text: target,
+      sourceHash: reviewed ? hashSourceText(source) : (noteHash ?? hashSourceText(source)),
+    };
+  }
+  return { locale, entries };
+}
+
+function attributes(text: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+    result[match[1]] = content(match[2]);
+  }
+  return result;
+}
+
+/**
+ * Text of an element: CDATA kept as is, entities decoded and inline
+ * markup dropped.
+ */
+function content(xml: string): string {
+  const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+  return xml.replace(
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<[^>]*>|&(#x[0-9a-fA-F]+|#\d+|\w+);/g,
+    (match, cdata: string | undefined, entity: string | undefined) => {
+      if (cdata !== undefined) return cdata;
+      if (entity === undefined) return '';
+      if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+      if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+      return named[entity] ?? match;
+    }
+  );
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
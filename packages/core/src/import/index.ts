@@ -0,0 +1,4 @@
+export type { ImportIssue, ImportResult, Importer } from './types.js';
+export { addIssue } from './types.js';
+export { tweeImporter } from './twee.js';
+export { yarnImporter } from './yarn.js';
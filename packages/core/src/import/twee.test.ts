@@ -0,0 +1,160 @@
+/**
+ * Tests for the Twee importer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ParseError } from '../core/serializer.js';
+import { StoryDocumentSchema } from '../core/story.js';
+import { tweeImporter } from './twee.js';
+
+const SUGARCUBE = `:: StoryTitle
+The Cellar
+
+:: StoryData
+{
+  "ifid": "D674C58C-DEFA-4F70-B7A2-27742230C0FC",
+  "format": "SugarCube",
+  "format-version": "2.36.1",
+  "start": "Top Stairs"
+}
+
+:: StoryInit
+<<set $gold to 10, $name to "Ann">>
+<<set $bag to ["rope"]>>
+
+:: Story Stylesheet [stylesheet]
+body { color: red; }
+
+:: Top Stairs [dark cold] {"position":"100,200","size":"100,100"}
+<<set $visits += 1>>
+Hello $name, you have <<print $gold>> gold. {curly}
+<<if $gold gte 5 and not visited("Vault")>>
+[[Pay the guard|Vault][$gold -= 5]]
+<<elseif $name is "Ann">>
+You know the guard.
+<<else>>
+[[Leave->Outside]]
+<</if>>
+<<audio "x" play>>
+[[Nowhere]]
+
+:: Vault {"position":"300,200"}
+Gold everywhere.
+<<if $gold > 3>>Still rich.<</if>>
+
+:: Outside
+[[Top Stairs]]
+`;
+
+const HARLOWE = `:: StoryTitle
+Garden
+
+:: StoryData
+{"format": "Harlowe", "format-version": "3.3.8", "start": "Gate"}
+
+:: Setup [startup]
+(set: $keys to 0)(set: $flowers to (a: "rose", "lily"))
+
+:: Gate
+You hold $keys keys. (if: $keys is 2)[A [bright] gate.](else:)[Nothing.]
+(link-goto: "Enter", "Garden Path")
+(click: "x")[Click]
+
+:: Garden Path
+(if: $flowers contains "rose")[Rose!]
+(set: $keys to it + 1)
+[[Back->Gate]]
+`;
+
+describe('tweeImporter', () => {
+  const { document, issues } = tweeImporter.import(SUGARCUBE);
+
+  it('produces a valid story document', () => {
+    expect(tweeImporter.source).toBe('twee');
+    expect(StoryDocumentSchema.safeParse(document).success).toBe(true);
+    expect(document.meta).toEqual({ title: 'The Cellar' });
+    expect(Object.keys(document.nodes)).toEqual([
+      'top_stairs',
+      'top_stairs_enter',
+      'vault',
+      'outside',
+    ]);
+  });
+
+  it('reads initial values from StoryInit and the start passage', () => {
+    expect(document.variables).toEqual({ gold: 10, name: 'Ann', bag: ['rope'], visits: 1 });
+  });
+
+  it('maps passages with tags, positions, macros and links', () => {
+    expect(document.nodes.top_stairs).toEqual({
+      id: 'top_stairs',
+      position: { x: 100, y: 200 },
+      tags: ['dark', 'cold'],
+      type: 'passage',
+      start: true,
+      content:
+        'Hello {name}, you have {gold} gold. {{curly}}\n' +
+        '{if gold >= 5 && !visits("vault")}{else}{if name === "Ann"}\nYou know the guard.\n{/if}{/if}',
+      choices: [
+        {
+          text: 'Pay the guard',
+          target: 'vault',
+          condition: 'gold >= 5 && !visits("vault")',
+          decrement: { gold: 5 },
+        },
+        {
+          text: 'Leave',
+          target: 'outside',
+          condition: '!(gold >= 5 && !visits("vault")) && !(name === "Ann")',
+        },
+      ],
+    });
+    expect(document.nodes.vault).toMatchObject({
+      content: 'Gold everywhere.\n{if gold > 3}Still rich.{/if}',
+      ending: true,
+    });
+  });
+
+  it('runs passage sets in a variable node on the way in', () => {
+    expect(document.nodes.top_stairs_enter).toEqual({
+      id: 'top_stairs_enter',
+      position: { x: 100, y: 100 },
+      type: 'variable',
+      increment: { visits: 1 },
+      next: 'top_stairs',
+    });
+    expect(document.nodes.outside).toEqual({
+      id: 'outside',
+      type: 'choice',
+      choices: [{ text: 'Top Stairs', target: 'top_stairs_enter' }],
+    });
+  });
+
+  it('reports what it could not carry over', () => {
+    expect(issues.map((issue) => [issue.code, issue.nodeId])).toEqual([
+      ['IMP003', undefined],
+      ['IMP001', 'top_stairs'],
+      ['IMP004', 'top_stairs'],
+    ]);
+    expect(issues[1].details).toEqual({ passage: 'Top Stairs', macro: '<<audio "x" play>>' });
+  });
+
+  it('reads Harlowe hooks and macros', () => {
+    const harlowe = tweeImporter.import(HARLOWE);
+    expect(harlowe.document.variables).toEqual({ keys: 0, flowers: ['rose', 'lily'] });
+    expect(harlowe.document.nodes.gate).toMatchObject({
+      content: 'You hold {keys} keys. {if keys === 2}A [bright] gate.{else}Nothing.{/if}\n\nClick',
+      choices: [{ text: 'Enter', target: 'garden_path_enter' }],
+    });
+    expect(harlowe.document.nodes.garden_path).toMatchObject({
+      content: '{if "rose" in flowers}Rose!{/if}',
+      choices: [{ text: 'Back', target: 'gate' }],
+    });
+    expect(harlowe.document.nodes.garden_path_enter).toMatchObject({ increment: { keys: 1 } });
+    expect(harlowe.issues.map((issue) => issue.code)).toEqual(['IMP001']);
+  });
+
+  it('rejects files without passages', () => {
+    expect(() => tweeImporter.import('Just some text')).toThrow(ParseError);
+  });
+});
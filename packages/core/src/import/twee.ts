@@ -0,0 +1,940 @@
+/**
+ * Twee Importer
+ *
+ * Reads a Twee 3 file from Twine (SugarCube 2 or Harlowe 3) into a
+ * StoryDocument:
+ * - each passage becomes a passage node with the passage's tags and its
+ *   `position` metadata; passages holding only links become choice nodes
+ * - `[[links]]` become choices, conditional on any enclosing `<<if>>`
+ * - `<<set>>` with literal values and `+=`/`-=` become mutations: passage
+ *   sets run in a variable node on the way in, link setters on the choice,
+ *   and StoryInit (SugarCube) or `startup` passages (Harlowe) give the
+ *   initial variable values
+ * - `<<if>>`/`<<elseif>>`/`<<else>>`, `<<print>>` and naked `$variables`
+ *   become `{if}` and `{expr}` templates
+ *
+ * Anything else is dropped and reported with the IMP codes in
+ * docs/spec/import.md.
+ */
+
+import { ParseError } from '../core/serializer.js';
+import type { StoryDocument } from '../core/story.js';
+import type { Choice, StoryNode, VariableMutations } from '../core/nodes.js';
+import { CURRENT_FORMAT_VERSION, type Position, type VariableValue } from '../core/types.js';
+import { validateExpression } from '../core/expression-parser.js';
+import { addIssue, type ImportIssue, type ImportResult, type Importer } from './types.js';
+
+/** A passage as written in the Twee source */
+interface TweePassage {
+  name: string;
+  tags: string[];
+  metadata: Record<string, unknown>;
+  text: string;
+}
+
+/** Passage text split into the pieces the importer understands */
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'link'; text: string; target: string; setter?: string }
+  | { kind: 'set'; source: string }
+  | { kind: 'print'; source: string }
+  | { kind: 'if'; condition: string }
+  | { kind: 'elseif'; condition: string }
+  | { kind: 'else' }
+  | { kind: 'endif' }
+  | { kind: 'goto'; target: string; source: string }
+  | { kind: 'macro'; name: string; source: string };
+
+type Format = 'sugarcube' | 'harlowe';
+
+/** Passages that configure the SugarCube UI rather than tell the story */
+const SPECIAL_PASSAGES = new Set([
+  'StoryAuthor',
+  'StoryBanner',
+  'StoryCaption',
+  'StoryDisplayTitle',
+  'StoryInterface',
+  'StoryMenu',
+  'StorySettings',
+  'StorySubtitle',
+  'PassageReady',
+  'PassageDone',
+  'PassageHeader',
+  'PassageFooter',
+]);
+
+/** Tags marking code passages */
+const CODE_TAGS = ['script', 'stylesheet', 'widget', 'header', 'footer', 'debug-startup'];
+
+/** Twine operator words and their expression equivalents */
+const OPERATOR_WORDS: Record<string, string> = {
+  is: '===',
+  isnot: '!==',
+  eq: '===',
+  neq: '!==',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  and: '&&',
+  or: '||',
+  not: '!',
+};
+
+/**
+ * State for one import run.
+ */
+class TweeReader {
+  private issues: ImportIssue[] = [];
+  private ids = new Map<string, string>();
+  private taken = new Set<string>();
+  private format: Format = 'sugarcube';
+
+  constructor(private source: string) {}
+
+  read(): ImportResult {
+    const passages = parsePassages(this.source);
+    const byName = new Map(passages.map((passage) => [passage.name, passage]));
+
+    const title = byName.get('StoryTitle')?.text.trim() || 'Untitled Story';
+    const data = this.readStoryData(byName.get('StoryData'));
+
+    const story: TweePassage[] = [];
+    const init: TweePassage[] = [];
+    for (const passage of passages) {
+      if (passage.name === 'StoryTitle' || passage.name === 'StoryData') continue;
+      if (passage.name === 'StoryInit' || passage.tags.includes('startup')) {
+        init.push(passage);
+      } else if (
+        SPECIAL_PASSAGES.has(passage.name) ||
+        passage.tags.some((t) => CODE_TAGS.includes(t))
+      ) {
+        addIssue(this.issues, {
+          code: 'IMP003',
+          message: `Passage '${passage.name}' holds code or interface markup and was skipped`,
+          details: { passage: passage.name, tags: passage.tags },
+        });
+      } else {
+        story.push(passage);
+      }
+    }
+    for (const passage of story) this.ids.set(passage.name, this.allocate(passage.name));
+
+    const startName =
+      typeof data.start === 'string' && this.ids.has(data.start)
+        ? data.start
+        : this.ids.has('Start')
+          ? 'Start'
+          : story[0]?.name;
+
+    const variables: Record<string, VariableValue> = {};
+    for (const passage of init) {
+      const { mutations } = this.readPassage(passage);
+      applyMutations(variables, mutations);
+    }
+
+    const nodes: Record<string, StoryNode> = {};
+    const entries = new Map<string, string>();
+    for (const passage of story) {
+      const id = this.ids.get(passage.name)!;
+      const { template, choices, mutations, goto } = this.readPassage(passage, id);
+      const content = tidyTemplate(template);
+      const position = readPosition(passage.metadata.position);
+      const base = {
+        id,
+        ...(position ? { position } : {}),
+        ...(passage.tags.length
+          ? { tags: passage.tags.slice(0, 10).map((tag) => tag.slice(0, 64)) }
+          : {}),
+      };
+      const start = passage.name === startName;
+
+      if (goto?.kind === 'goto') {
+        // A passage that only sets variables and moves on is a variable node
+        const next = this.ids.get(goto.target);
+        if (next && !content && !start && choices.length === 0) {
+          nodes[id] = { ...base, type: 'variable', ...mutations, next };
+          continue;
+        }
+        addIssue(this.issues, {
+          code: next ? 'IMP001' : 'IMP004',
+          message: next
+            ? `Goto in '${passage.name}' was dropped; only passages without text or links become variable nodes`
+            : `Goto to missing passage '${goto.target}' in '${passage.name}' was dropped`,
+          nodeId: id,
+          details: { passage: passage.name, macro: goto.source },
+        });
+      }
+
+      if (content || start || choices.length === 0) {
+        nodes[id] = {
+          ...base,
+          type: 'passage',
+          content: content || passage.name,
+          ...(choices.length ? { choices } : { ending: true }),
+          ...(start ? { start: true } : {}),
+        };
+      } else {
+        nodes[id] = { ...base, type: 'choice', choices };
+      }
+
+      if (Object.keys(mutations).length > 0) {
+        // Passage-level sets run on the way in, before the text
+        const entry = this.allocate(`${id}_enter`);
+        entries.set(id, entry);
+        nodes[entry] = {
+          id: entry,
+          ...(position ? { position: { x: position.x, y: position.y - 100 } } : {}),
+          type: 'variable',
+          ...mutations,
+          next: id,
+        };
+        if (start) applyMutations(variables, mutations);
+      }
+    }
+
+    for (const node of Object.values(nodes)) {
+      if (node.type !== 'passage' && node.type !== 'choice') continue;
+      for (const choice of node.choices ?? []) {
+        choice.target = entries.get(choice.target) ?? choice.target;
+      }
+    }
+
+    const document: StoryDocument = {
+      version: CURRENT_FORMAT_VERSION,
+      meta: { title: title.slice(0, 256) },
+      ...(Object.keys(variables).length ? { variables } : {}),
+      nodes,
+    };
+    return { document, issues: this.issues };
+  }
+
+  private readStoryData(passage: TweePassage | undefined): Record<string, unknown> {
+    if (!passage) return {};
+    let data: Record<string, unknown>;
+    try {
+      data = JSON.parse(passage.text) as Record<string, unknown>;
+    } catch (error) {
+      addIssue(this.issues, {
+        code: 'IMP005',
+        message: 'StoryData is not valid JSON; the first passage starts the story',
+        details: { error: (error as Error).message },
+      });
+      return {};
+    }
+    const format = typeof data.format === 'string' ? data.format : 'SugarCube';
+    if (/^harlowe/i.test(format)) {
+      this.format = 'harlowe';
+    } else if (!/^sugarcube/i.test(format)) {
+      addIssue(this.issues, {
+        code: 'IMP005',
+        message: `Story format '${format}' is not supported; macros were read as SugarCube`,
+        details: { format },
+      });
+    }
+    return data;
+  }
+
+  /**
+   * A node ID for a passage name: lowercase, underscores for anything
+   * else, and a numeric suffix when two names collide.
+   */
+  private allocate(name: string): string {
+    let base = name
+      .toLowerCase()
+      .replace(/[^a-z0-9_]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 60);
+    if (!/^[a-z]/.test(base)) base = `p_${base}`.replace(/_+$/, '');
+    let id = base;
+    for (let suffix = 2; this.taken.has(id); suffix++) id = `${base}_${suffix}`;
+    this.taken.add(id);
+    return id;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Passages
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Turn passage text into a template, its choices, and the mutations it
+   * applies unconditionally.
+   */
+  private readPassage(
+    passage: TweePassage,
+    nodeId?: string
+  ): { template: string; choices: Choice[]; mutations: VariableMutations; goto?: Token } {
+    const tokens =
+      this.format === 'harlowe' ? scanHarlowe(passage.text) : scanSugarCube(passage.text);
+    const where = { passage: passage.name };
+    const at = nodeId ? { nodeId } : {};
+
+    let template = '';
+    const choices: Choice[] = [];
+    const mutations: VariableMutations = {};
+    let goto: Token | undefined;
+    // Enclosing <<if>> chains: earlier branch conditions and the current one
+    const frames: Array<{ previous: string[]; current: string | null; depth: number }> = [];
+
+    for (const token of tokens) {
+      switch (token.kind) {
+        case 'text':
+          template += token.value.replace(/\{/g, '{{').replace(/\}/g, '}}');
+          break;
+
+        case 'print': {
+          const expression = this.expression(token.source, passage.name, at);
+          if (expression) template += `{${expression}}`;
+          break;
+        }
+
+        case 'if': {
+          const condition = this.expression(token.condition, passage.name, at) ?? 'false';
+          frames.push({ previous: [], current: condition, depth: 1 });
+          template += `{if ${condition}}`;
+          break;
+        }
+
+        case 'elseif':
+        case 'else': {
+          const frame = frames[frames.length - 1];
+          if (!frame || frame.current === null) break;
+          frame.previous.push(frame.current);
+          if (token.kind === 'else') {
+            frame.current = null;
+            template += '{else}';
+          } else {
+            frame.current = this.expression(token.condition, passage.name, at) ?? 'false';
+            frame.depth++;
+            template += `{else}{if ${frame.current}}`;
+          }
+          break;
+        }
+
+        case 'endif': {
+          const frame = frames.pop();
+          if (frame) template += '{/if}'.repeat(frame.depth);
+          break;
+        }
+
+        case 'link': {
+          const target = this.ids.get(token.target);
+          if (!target) {
+            addIssue(this.issues, {
+              code: 'IMP004',
+              message: `Link to missing passage '${token.target}' in '${passage.name}' was dropped`,
+              ...at,
+              details: { ...where, target: token.target },
+            });
+            break;
+          }
+          const conditions = frames.flatMap((frame) => [
+            ...frame.previous.map((condition) => `!(${condition})`),
+            ...(frame.current === null ? [] : [frame.current]),
+          ]);
+          const choice: Choice = {
+            text: token.text.replace(/\{/g, '{{').replace(/\}/g, '}}').slice(0, 512),
+            target,
+          };
+          if (conditions.length === 1) choice.condition = conditions[0];
+          if (conditions.length > 1) {
+            choice.condition = conditions
+              .map((condition) => (condition.startsWith('!(') ? condition : `(${condition})`))
+              .join(' && ');
+          }
+          if (token.setter) {
+            mergeMutations(choice, this.assignments(token.setter, passage.name, at));
+          }
+          choices.push(choice);
+          break;
+        }
+
+        case 'set':
+          if (frames.length > 0) {
+            addIssue(this.issues, {
+              code: 'IMP001',
+              message: `Conditional set in '${passage.name}' was dropped`,
+              ...at,
+              details: { ...where, macro: token.source },
+            });
+          } else {
+            mergeMutations(mutations, this.assignments(token.source, passage.name, at));
+          }
+          break;
+
+        case 'goto':
+          if (frames.length === 0 && !goto) {
+            goto = token;
+            break;
+          }
+          addIssue(this.issues, {
+            code: 'IMP001',
+            message: `Conditional or repeated goto in '${passage.name}' was dropped`,
+            ...at,
+            details: { ...where, macro: token.source },
+          });
+          break;
+
+        case 'macro':
+          addIssue(this.issues, {
+            code: 'IMP001',
+            message: `Unsupported macro '${token.name}' in '${passage.name}' was dropped`,
+            ...at,
+            details: { ...where, macro: token.source },
+          });
+          break;
+      }
+    }
+    for (const frame of frames.reverse()) template += '{/if}'.repeat(frame.depth);
+
+    return { template, choices, mutations, ...(goto ? { goto } : {}) };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Convert a Twine expression, or report it and return undefined.
+   */
+  private expression(source: string, passage: string, at: { nodeId?: string }): string | undefined {
+    const converted = this.convertExpression(source);
+    if (converted !== undefined && validateExpression(converted).valid) return converted;
+    addIssue(this.issues, {
+      code: 'IMP002',
+      message: `Expression '${source.trim()}' in '${passage}' could not be converted`,
+      ...at,
+      details: { passage, expression: source },
+    });
+    return undefined;
+  }
+
+  private convertExpression(source: string): string | undefined {
+    const tokens = source.match(
+      /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[$_]?[A-Za-z_][\w-]*|\d+(?:\.\d+)?|===|!==|==|!=|<=|>=|&&|\|\||\S/g
+    );
+    if (!tokens) return undefined;
+
+    const output: string[] = [];
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (/^["']/.test(token)) {
+        output.push(JSON.stringify(unquote(token)));
+      } else if (/^[$_][A-Za-z_]/.test(token)) {
+        output.push(variableName(token.slice(1)));
+      } else if (token === 'is' && tokens[index + 1] === 'not') {
+        output.push('!==');
+        index++;
+      } else if (token === 'is' && tokens[index + 1] === 'in') {
+        output.push('in');
+        index++;
+      } else if (token === 'contains' && output.length > 0) {
+        // Harlowe's `a contains b` is `b in a`; only simple operands swap
+        const item = tokens[index + 1] ?? '';
+        if (!/^(?:["']|[$_]?\w)/.test(item)) return undefined;
+        const container = output.pop()!;
+        output.push(
+          /^["']/.test(item)
+            ? JSON.stringify(unquote(item))
+            : item.replace(/^[$_](.*)$/, (_, name: string) => variableName(name)),
+          'in',
+          container
+        );
+        index++;
+      } else if (Object.prototype.hasOwnProperty.call(OPERATOR_WORDS, token)) {
+        output.push(OPERATOR_WORDS[token]);
+      } else if (token === 'visited' && tokens[index + 1] === '(') {
+        // SugarCube's visited(passage) counts visits, as visits() does
+        const name = tokens[index + 2];
+        const id = name && /^["']/.test(name) ? this.ids.get(unquote(name)) : undefined;
+        if (!id || tokens[index + 3] !== ')') return undefined;
+        output.push(`visits(${JSON.stringify(id)})`);
+        index += 3;
+      } else if (token === '==' || token === '!=') {
+        output.push(`${token}=`);
+      } else if (/^[A-Za-z]/.test(token) && !['true', 'false', 'null'].includes(token)) {
+        // Other names are Twine functions or JavaScript
+        return undefined;
+      } else {
+        output.push(token);
+      }
+    }
+    return output.join(' ').replace(/\( /g, '(').replace(/ \)/g, ')').replace(/! /g, '!');
+  }
+
+  /**
+   * Convert `<<set>>` assignments into mutations, reporting the ones that
+   * are not literal values or constant steps.
+   */
+  private assignments(source: string, passage: string, at: { nodeId?: string }): VariableMutations {
+    const mutations: VariableMutations = {};
+    for (const part of splitTopLevel(source, /[,;]/)) {
+      const assignment = part.trim();
+      if (!assignment) continue;
+      const put = /^(.+?)\s+into\s+([$_][A-Za-z_]\w*)$/s.exec(assignment);
+      const match = put
+        ? ['', put[2], 'to', put[1]]
+        : /^([$_][A-Za-z_]\w*)\s*(to|=|\+=|-=)\s*(.+)$/s.exec(assignment);
+      const mutation = match && toMutation(match[1].slice(1), match[2], match[3].trim());
+      if (mutation) {
+        mergeMutations(mutations, mutation);
+      } else {
+        addIssue(this.issues, {
+          code: 'IMP002',
+          message: `Assignment '${assignment}' in '${passage}' could not be converted`,
+          ...at,
+          details: { passage, assignment },
+        });
+      }
+    }
+    return mutations;
+  }
+}
+
+// =============================================================================
+// Twee Source
+// =============================================================================
+
+/**
+ * Split a Twee 3 file into passages.
+ *
+ * @throws ParseError if the file has no passage headers
+ */
+function parsePassages(source: string): TweePassage[] {
+  const passages: TweePassage[] = [];
+  let current: TweePassage | null = null;
+  let lines: string[] = [];
+
+  const finish = () => {
+    if (current) passages.push({ ...current, text: lines.join('\n').replace(/\s+$/, '') });
+  };
+
+  source.split(/\r?\n/).forEach((line, index) => {
+    if (!line.startsWith('::')) {
+      lines.push(line.startsWith('\\::') ? line.slice(1) : line);
+      return;
+    }
+    finish();
+    current = parseHeader(line.slice(2), index);
+    lines = [];
+  });
+  finish();
+
+  if (passages.length === 0) {
+    throw new ParseError('Not a Twee file: no passage headers (lines starting with ::)');
+  }
+  return passages;
+}
+
+/**
+ * Parse `Name [tags] {metadata}` from a passage header.
+ */
+function parseHeader(header: string, line: number): TweePassage {
+  let name = '';
+  let pos = 0;
+  while (pos < header.length && header[pos] !== '[' && header[pos] !== '{') {
+    if (header[pos] === '\\' && pos + 1 < header.length) pos++;
+    name += header[pos++];
+  }
+
+  let tags: string[] = [];
+  if (header[pos] === '[') {
+    const end = header.indexOf(']', pos);
+    tags = header
+      .slice(pos + 1, end === -1 ? undefined : end)
+      .split(/\s+/)
+      .filter(Boolean);
+    pos = end === -1 ? header.length : end + 1;
+  }
+
+  let metadata: Record<string, unknown> = {};
+  const rest = header.slice(pos).trim();
+  if (rest.startsWith('{')) {
+    try {
+      metadata = JSON.parse(rest) as Record<string, unknown>;
+    } catch (_error) {
+      throw new ParseError(`Invalid passage metadata: ${rest}`, line);
+    }
+  }
+  return { name: name.trim(), tags, metadata, text: '' };
+}
+
+function readPosition(value: unknown): Position | undefined {
+  if (typeof value !== 'string') return undefined;
+  const [x, y] = value.split(',').map(Number);
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : undefined;
+}
+
+// =============================================================================
+// Passage Markup
+// =============================================================================
+
+/**
+ * Read a link body: `text|target`, `text->target`, `target<-text` or
+ * just `target`.
+ */
+function readLink(body: string, setter?: string): Token {
+  let text = body;
+  let target = body;
+  const pipe = body.indexOf('|');
+  const arrow = body.lastIndexOf('->');
+  const back = body.indexOf('<-');
+  if (pipe !== -1) {
+    text = body.slice(0, pipe);
+    target = body.slice(pipe + 1);
+  } else if (arrow !== -1) {
+    text = body.slice(0, arrow);
+    target = body.slice(arrow + 2);
+  } else if (back !== -1) {
+    target = body.slice(0, back);
+    text = body.slice(back + 2);
+  }
+  return {
+    kind: 'link',
+    text: text.trim() || target.trim(),
+    target: target.trim(),
+    ...(setter ? { setter } : {}),
+  };
+}
+
+/**
+ * Tokenize SugarCube markup.
+ */
+function scanSugarCube(text: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let plain = '';
+  const flush = () => {
+    if (plain) tokens.push({ kind: 'text', value: plain });
+    plain = '';
+  };
+
+  while (pos < text.length) {
+    const rest = text.slice(pos);
+    const link = /^\[\[([^\]]*)\](?:\[([^\]]*)\])?\]/.exec(rest);
+    const comment = /^(?:\/\*[\s\S]*?\*\/|\/%[\s\S]*?%\/|<!--[\s\S]*?-->)/.exec(rest);
+    const variable = /^(?:\$[A-Za-z_]|_[A-Za-z])\w*/.exec(rest);
+
+    const verbatim = /^(?:"""([\s\S]*?)"""|<nowiki>([\s\S]*?)<\/nowiki>)/.exec(rest);
+
+    if (link) {
+      flush();
+      tokens.push(readLink(link[1], link[2]));
+      pos += link[0].length;
+    } else if (verbatim) {
+      plain += verbatim[1] ?? verbatim[2];
+      pos += verbatim[0].length;
+    } else if (comment) {
+      pos += comment[0].length;
+    } else if (rest.startsWith('<<')) {
+      const end = findClose(text, pos + 2, '>>');
+      if (end === -1) {
+        plain += rest;
+        break;
+      }
+      flush();
+      const body = text.slice(pos + 2, end).trim();
+      const [, name = '', args = ''] = /^(\/?[\w=-]+)\s*([\s\S]*)$/.exec(body) ?? [];
+      tokens.push(sugarCubeMacro(name, args.trim(), `<<${body}>>`));
+      pos = end + 2;
+    } else if (variable && (variable[0][0] === '$' || !/\w/.test(text[pos - 1] ?? ''))) {
+      flush();
+      tokens.push({ kind: 'print', source: variable[0] });
+      pos += variable[0].length;
+    } else {
+      plain += text[pos++];
+    }
+  }
+  flush();
+  return tokens.filter((token) => token.kind !== 'macro' || !token.name.startsWith('/'));
+}
+
+function sugarCubeMacro(name: string, args: string, source: string): Token {
+  switch (name) {
+    case 'set':
+      return { kind: 'set', source: args };
+    case 'print':
+    case '=':
+    case '-':
+      return { kind: 'print', source: args };
+    case 'if':
+      return { kind: 'if', condition: args };
+    case 'elseif':
+      return { kind: 'elseif', condition: args };
+    case 'else':
+      return args.startsWith('if ')
+        ? { kind: 'elseif', condition: args.slice(3) }
+        : { kind: 'else' };
+    case '/if':
+      return { kind: 'endif' };
+    case 'goto': {
+      const target = /^\[\[(.*)\]\]$/s.exec(args)?.[1] ?? unquote(args);
+      return { kind: 'goto', target, source };
+    }
+    default:
+      return { kind: 'macro', name, source };
+  }
+}
+
+/**
+ * Tokenize Harlowe markup: `(macro:)` calls, `[hooks]` attached to
+ * `(if:)`, `(else-if:)` and `(else:)`, links and `$variables`.
+ */
+function scanHarlowe(text: string): Token[] {
+  const tokens: Token[] = [];
+  // Open hooks: if-chain hooks, other changers' hooks, and literal brackets
+  const hooks: Array<'if' | 'hook' | 'text'> = [];
+  let pos = 0;
+  let plain = '';
+  let chained = false;
+  const flush = () => {
+    if (plain) tokens.push({ kind: 'text', value: plain });
+    plain = '';
+  };
+
+  while (pos < text.length) {
+    const rest = text.slice(pos);
+    const link = /^\[\[([\s\S]*?)\]\]/.exec(rest);
+    const macro = /^\(([\w-]+):/.exec(rest);
+    const variable = /^[$_][A-Za-z_]\w*/.exec(rest);
+
+    if (link) {
+      flush();
+      tokens.push(readLink(link[1]));
+      pos += link[0].length;
+    } else if (macro) {
+      const end = findClose(text, pos + 1, ')');
+      if (end === -1) {
+        plain += rest;
+        break;
+      }
+      flush();
+      const name = macro[1].toLowerCase().replace(/-/g, '');
+      const args = text.slice(pos + macro[0].length, end).trim();
+      const source = text.slice(pos, end + 1);
+      pos = end + 1;
+      const hook = text[pos] === '[';
+
+      if ((name === 'if' || name === 'elseif' || name === 'else') && hook) {
+        if (name === 'if') tokens.push({ kind: 'if', condition: args });
+        else if (chained) {
+          tokens.push(name === 'else' ? { kind: 'else' } : { kind: 'elseif', condition: args });
+        } else {
+          tokens.push({ kind: 'macro', name: `${macro[1]}:`, source });
+          hooks.push('hook');
+          pos++;
+          continue;
+        }
+        chained = false;
+        hooks.push('if');
+        pos++;
+      } else if (name === 'set' || name === 'put') {
+        tokens.push({ kind: 'set', source: args });
+      } else if (name === 'print') {
+        tokens.push({ kind: 'print', source: args });
+      } else if (name === 'goto') {
+        tokens.push({ kind: 'goto', target: unquote(args), source });
+      } else if (name === 'linkgoto') {
+        const [label, target] = splitTopLevel(args, /,/).map((arg) => unquote(arg.trim()));
+        tokens.push({ kind: 'link', text: label, target: target ?? label });
+      } else {
+        tokens.push({ kind: 'macro', name: `${macro[1]}:`, source });
+        if (hook) {
+          hooks.push('hook');
+          pos++;
+        }
+      }
+    } else if (rest[0] === '[') {
+      plain += '[';
+      hooks.push('text');
+      pos++;
+    } else if (rest[0] === ']' && hooks.length > 0) {
+      pos++;
+      const kind = hooks.pop();
+      if (kind === 'text') plain += ']';
+      if (kind !== 'if') continue;
+      // An if hook continues into a following (else-if:) or (else:)
+      const next = /^\s*\((?:else-?if|else):/i.exec(text.slice(pos));
+      flush();
+      if (next) {
+        chained = true;
+        pos += next[0].indexOf('(');
+      } else {
+        tokens.push({ kind: 'endif' });
+      }
+    } else if (variable) {
+      flush();
+      tokens.push({ kind: 'print', source: variable[0] });
+      pos += variable[0].length;
+    } else {
+      plain += text[pos++];
+    }
+  }
+  flush();
+  return tokens;
+}
+
+/**
+ * Index of `close` at the top level of `text` from `start`, skipping
+ * quoted strings and nested parentheses; -1 if missing.
+ */
+function findClose(text: string, start: number, close: string): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let pos = start; pos < text.length; pos++) {
+    const char = text[pos];
+    if (quote) {
+      if (char === '\\') pos++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (depth === 0 && text.startsWith(close, pos)) {
+      return pos;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split on separators outside quotes and brackets.
+ */
+function splitTopLevel(text: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let current = '';
+  for (let pos = 0; pos < text.length; pos++) {
+    const char = text[pos];
+    if (quote) {
+      if (char === '\\') current += text[pos++];
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && separator.test(char)) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Collapse blank runs and drop `{if}` blocks left empty by removed links.
+ */
+function tidyTemplate(template: string): string {
+  let tidy = template.replace(/[ \t]+$/gm, '');
+  for (let previous = ''; previous !== tidy; ) {
+    previous = tidy;
+    tidy = tidy
+      .replace(/\{if [^{}]*\}\s*(?:\{else\}\s*)?\{\/if\}/g, '')
+      .replace(/\{else\}\s*\{\/if\}/g, '{/if}')
+      .replace(/(\{if [^{}]*\})\s*\{else\}/g, '$1{else}');
+  }
+  return tidy.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+function unquote(text: string): string {
+  if (!/^(["']).*\1$/s.test(text)) return text;
+  return text.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+function variableName(name: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+  return /^[a-z]/.test(base) ? base : `v_${base}`.replace(/_+/g, '_');
+}
+
+/**
+ * A literal scalar, or a list of them (`[…]` or Harlowe's `(a: …)`).
+ */
+function parseLiteral(text: string): VariableValue | undefined {
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^(["']).*\1$/s.test(text)) return unquote(text);
+  const list = /^\[([\s\S]*)\]$/.exec(text) ?? /^\(a:([\s\S]*)\)$/.exec(text);
+  if (list) {
+    const items = list[1].trim() ? splitTopLevel(list[1], /,/).map((item) => item.trim()) : [];
+    const values = items.map(parseLiteral);
+    if (values.every((value) => value !== undefined && !Array.isArray(value))) {
+      return values as Array<string | number | boolean>;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A single assignment as a mutation: literal `to`, constant `+=`/`-=`,
+ * or `$x to $x + n` (`it + n` in Harlowe).
+ */
+function toMutation(name: string, operator: string, value: string): VariableMutations | null {
+  const variable = variableName(name);
+  const step = (sign: string, amount: number): VariableMutations =>
+    sign === '+' ? { increment: { [variable]: amount } } : { decrement: { [variable]: amount } };
+
+  if (operator === '+=' || operator === '-=') {
+    const amount = parseLiteral(value);
+    return typeof amount === 'number' ? step(operator[0], amount) : null;
+  }
+  const literal = parseLiteral(value);
+  if (literal !== undefined) return { set: { [variable]: literal } };
+
+  const self = new RegExp(`^(?:\\$${name}|it)\\s*([+-])\\s*(\\d+(?:\\.\\d+)?)$`).exec(value);
+  return self ? step(self[1], Number(self[2])) : null;
+}
+
+function mergeMutations(target: VariableMutations, source: VariableMutations): void {
+  for (const key of ['set', 'increment', 'decrement'] as const) {
+    const changes = source[key];
+    if (!changes) continue;
+    const merged: Record<string, VariableValue> = { ...target[key] };
+    for (const [name, value] of Object.entries(changes)) {
+      merged[name] =
+        key !== 'set' && typeof merged[name] === 'number'
+          ? (merged[name] as number) + (value as number)
+          : value;
+    }
+    Object.assign(target, { [key]: merged });
+  }
+}
+
+/**
+ * Apply mutations to initial values, for StoryInit and the start passage.
+ */
+function applyMutations(
+  variables: Record<string, VariableValue>,
+  mutations: VariableMutations
+): void {
+  Object.assign(variables, mutations.set);
+  for (const [name, amount] of Object.entries(mutations.increment ?? {})) {
+    const current = variables[name];
+    variables[name] = (typeof current === 'number' ? current : 0) + amount;
+  }
+  for (const [name, amount] of Object.entries(mutations.decrement ?? {})) {
+    const current = variables[name];
+    variables[name] = (typeof current === 'number' ? current : 0) - amount;
+  }
+}
+
+/**
+ * Importer for Twine's Twee 3 source format (SugarCube 2 and Harlowe 3).
+ */
+export const tweeImporter: Importer = {
+  source: 'twee',
+  import(text: string): ImportResult {
+    return new TweeReader(text).read();
+  },
+};
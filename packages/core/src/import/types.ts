@@ -0,0 +1,22 @@
+import type { StoryDocument } from '../core/story.js';
+
+export interface ImportIssue {
+  code: string;
+  message: string;
+  nodeId?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ImportResult {
+  document: StoryDocument;
+  issues: ImportIssue[];
+}
+
+export interface Importer {
+  source: string;
+  import(text: string): ImportResult;
+}
+
+export function addIssue(list: ImportIssue[], issue: ImportIssue): void {
+  list.push(issue);
+}
@@ -0,0 +1,133 @@
+/**
+ * Tests for the Yarn Spinner importer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ParseError } from '../core/serializer.js';
+import { StoryDocumentSchema } from '../core/story.js';
+import { yarnImporter } from './yarn.js';
+
+const YARN = `// title: The Tavern
+
+title: Start
+tags: intro tavern
+position: 10,20
+---
+<<declare $coins = 3>>
+<<declare $met = false as bool>>
+<<set $coins to $coins + 1>>
+Sally: Hi! You have {$coins} coins. #line:a1
+<<if $met>>
+    Sally: Again?
+<<endif>>
+<<wait 2>>
+-> Buy a drink <<if $coins >= 2>> #line:b2
+    <<set $coins -= 2>>
+    Sally: Here you go.
+-> Leave
+    <<jump Outside>>
+-> Run
+    <<jump Street>>
+-> Ask about \\{rumours\\} #mood:curious
+Sally: Anything else?
+<<jump Outside>>
+===
+
+title: Outside
+position: 200,20
+---
+It is cold. // the door is shut
+<<if visited("Start") and dice(6) > 3>>
+    <<jump Start>>
+<<elseif not $met>>
+    <<jump Outside>>
+<<else>>
+    <<jump Start>>
+<<endif>>
+===
+`;
+
+describe('yarnImporter', () => {
+  const { document, issues } = yarnImporter.import(YARN);
+
+  it('produces a valid document with declared variables', () => {
+    expect(StoryDocumentSchema.safeParse(document).success).toBe(true);
+    expect(document.meta).toEqual({ title: 'The Tavern' });
+    // The start node's own sets are folded into the initial values
+    expect(document.variables).toEqual({ coins: 4, met: false });
+  });
+
+  it('maps nodes to passages with tags, positions and options', () => {
+    expect(document.nodes.start).toEqual({
+      id: 'start',
+      position: { x: 10, y: 20 },
+      tags: ['intro', 'tavern'],
+      type: 'passage',
+      content: 'Sally: Hi! You have {coins} coins.\n\n{if met}Sally: Again?{/if}',
+      choices: [
+        { text: 'Buy a drink', target: 'start_option_enter', condition: 'coins >= 2' },
+        { text: 'Leave', target: 'outside' },
+        { text: 'Ask about {{rumours}}', target: 'start_after' },
+      ],
+      start: true,
+    });
+    expect(document.nodes.start_enter).toEqual({
+      id: 'start_enter',
+      position: { x: 10, y: -80 },
+      type: 'variable',
+      increment: { coins: 1 },
+      next: 'start',
+    });
+  });
+
+  it('gives option bodies and the lines after the options nodes of their own', () => {
+    expect(document.nodes.start_option_enter).toMatchObject({
+      type: 'variable',
+      decrement: { coins: 2 },
+      next: 'start_option',
+    });
+    // Options without a jump fall through to the lines after the options
+    expect(document.nodes.start_option).toMatchObject({
+      content: 'Sally: Here you go.',
+      choices: [{ text: 'Continue', target: 'start_after' }],
+    });
+    expect(document.nodes.start_after).toMatchObject({
+      content: 'Sally: Anything else?',
+      choices: [{ text: 'Continue', target: 'outside' }],
+    });
+  });
+
+  it('turns branching on <<if>> into condition nodes', () => {
+    expect(document.nodes.outside).toMatchObject({
+      content: 'It is cold.',
+      choices: [{ text: 'Continue', target: 'outside_branch' }],
+    });
+    expect(document.nodes.outside_branch).toEqual({
+      id: 'outside_branch',
+      type: 'condition',
+      expression: 'visited("start") && random(1, 6) > 3',
+      ifTrue: 'start_enter',
+      ifFalse: 'outside_branch_2',
+    });
+    expect(document.nodes.outside_branch_2).toMatchObject({
+      expression: '!met',
+      ifTrue: 'outside',
+      ifFalse: 'start_enter',
+    });
+  });
+
+  it('reports what it could not carry over', () => {
+    expect(issues.map((issue) => [issue.code, issue.nodeId])).toEqual([
+      ['IMP001', 'start'],
+      ['IMP004', 'start'],
+      ['IMP001', 'start'],
+    ]);
+    expect(issues[0].message).toBe("Yarn 'wait' in 'Start' is not supported and was dropped");
+    expect(issues[1].message).toBe("Jump to missing node 'Street' in 'Start' was dropped");
+    expect(issues[2].message).toBe("Line tags #mood:curious in 'Start' were dropped");
+  });
+
+  it('rejects files without nodes', () => {
+    expect(() => yarnImporter.import('Just some text')).toThrow(ParseError);
+  });
+});
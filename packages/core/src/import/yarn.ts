@@ -0,0 +1,872 @@
+/**
+ * Yarn Spinner Importer
+ *
+ * Reads a Yarn Spinner 2 `.yarn` file into a StoryDocument:
+ * - each Yarn node becomes a passage node with the node's `tags:` and
+ *   `position:` headers; nodes holding only options become choice nodes
+ * - lines become paragraphs, `{expr}` and `<<if>>` blocks templates
+ * - `->` options become choices, their `<<if>>` guards conditions and the
+ *   `<<set>>`/`<<jump>>` in their bodies mutations and targets; options
+ *   with lines of their own lead through a passage for those lines
+ * - nodes that only `<<set>>` and `<<jump>>` become variable nodes, nodes
+ *   that only branch on `<<if>>` to jumps condition nodes, and the rolls
+ *   the Yarn exporter writes random nodes
+ * - `<<declare>>` gives the initial variable values
+ *
+ * Anything else is dropped and reported with the IMP codes in
+ * docs/spec/import.md.
+ */
+
+import { ParseError } from '../core/serializer.js';
+import type { StoryDocument } from '../core/story.js';
+import type { Choice, StoryNode, VariableMutations } from '../core/nodes.js';
+import { CURRENT_FORMAT_VERSION, type Position, type VariableValue } from '../core/types.js';
+import { validateExpression } from '../core/expression-parser.js';
+import { addIssue, type ImportIssue, type ImportResult, type Importer } from './types.js';
+
+/** A node as written in the Yarn source */
+interface YarnNode {
+  title: string;
+  headers: Record<string, string>;
+  lines: SourceLine[];
+}
+
+interface SourceLine {
+  indent: number;
+  text: string;
+}
+
+/** Node bodies as a tree of statements */
+type Statement =
+  | { kind: 'line'; text: string }
+  | { kind: 'set'; source: string }
+  | { kind: 'jump'; target: string; source: string }
+  | { kind: 'stop' }
+  | { kind: 'if'; branches: Array<{ condition: string | null; body: Statement[] }> }
+  | { kind: 'options'; options: YarnOption[] }
+  | { kind: 'command'; name: string; source: string };
+
+interface YarnOption {
+  text: string;
+  condition?: string;
+  body: Statement[];
+}
+
+/** Yarn operator words and their expression equivalents */
+const OPERATOR_WORDS: Record<string, string> = {
+  is: '===',
+  eq: '===',
+  '==': '===',
+  neq: '!==',
+  '!=': '!==',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  and: '&&',
+  or: '||',
+  not: '!',
+};
+
+/** Functions Yarn and StoryGraph share, including the ones the exporter registers */
+const SHARED_FUNCTIONS = new Set([
+  'floor',
+  'min',
+  'max',
+  'abs',
+  'clamp',
+  'lower',
+  'contains',
+  'len',
+]);
+
+/**
+ * State for one import run.
+ */
+class YarnReader {
+  private issues: ImportIssue[] = [];
+  private ids = new Map<string, string>();
+  private taken = new Set<string>();
+  private nodes: Record<string, StoryNode> = {};
+  private variables: Record<string, VariableValue> = {};
+  private rolls = new Set<string>();
+
+  constructor(private source: string) {}
+
+  read(): ImportResult {
+    const { meta, nodes: yarnNodes } = parseNodes(this.source);
+    for (const node of yarnNodes) this.ids.set(node.title, this.allocate(node.title));
+
+    const start = yarnNodes.find((node) => node.title.toLowerCase() === 'start') ?? yarnNodes[0];
+    const entries = new Map<string, string>();
+    for (const node of yarnNodes) {
+      const id = this.ids.get(node.title)!;
+      const statements = this.declare(parseStatements(node.lines), node.title);
+      const position = readPosition(node.headers.position);
+      const tags = (node.headers.tags ?? '').split(/\s+/).filter(Boolean);
+      const base = {
+        ...(position ? { position } : {}),
+        ...(tags.length ? { tags: tags.slice(0, 10).map((tag) => tag.slice(0, 64)) } : {}),
+      };
+      const entry = this.build(id, statements, node.title, base, node === start);
+      if (entry !== id) entries.set(id, entry);
+    }
+
+    // Jumps into a node run its entry sets first
+    const enter = (target: string) => entries.get(target) ?? target;
+    for (const node of Object.values(this.nodes)) {
+      if (node.type === 'passage' || node.type === 'choice') {
+        for (const choice of node.choices ?? []) choice.target = enter(choice.target);
+      } else if (node.type === 'variable') {
+        if (entries.get(node.next) !== node.id) node.next = enter(node.next);
+      } else if (node.type === 'condition') {
+        node.ifTrue = enter(node.ifTrue);
+        node.ifFalse = enter(node.ifFalse);
+      } else if (node.type === 'random') {
+        for (const branch of node.branches) branch.target = enter(branch.target);
+      }
+    }
+    for (const roll of this.rolls) delete this.variables[roll];
+
+    const document: StoryDocument = {
+      version: CURRENT_FORMAT_VERSION,
+      meta: {
+        title: (meta.title || 'Untitled Story').slice(0, 256),
+        ...(meta.author ? { author: meta.author.slice(0, 256) } : {}),
+      },
+      ...(Object.keys(this.variables).length ? { variables: this.variables } : {}),
+      nodes: this.nodes,
+    };
+    return { document, issues: this.issues };
+  }
+
+  /**
+   * A node ID for a node title: lowercase, underscores for anything
+   * else, and a numeric suffix when two titles collide.
+   */
+  private allocate(name: string): string {
+    let base = name
+      .toLowerCase()
+      .replace(/[^a-z0-9_]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 60);
+    if (!/^[a-z]/.test(base)) base = `n_${base}`.replace(/_+$/, '');
+    let id = base;
+    for (let suffix = 2; this.taken.has(id); suffix++) id = `${base}_${suffix}`;
+    this.taken.add(id);
+    return id;
+  }
+
+  /**
+   * Take `<<declare>>` commands out of a body as initial values.
+   */
+  private declare(statements: Statement[], title: string): Statement[] {
+    return statements.filter((statement) => {
+      if (statement.kind !== 'command' || statement.name !== 'declare') return true;
+      const match = /^<<declare\s+\$(\w+)\s*(?:=|to)\s*(.+?)(?:\s+as\s+\w+)?\s*>>$/.exec(
+        statement.source
+      );
+      const value = match ? parseLiteral(match[2]) : undefined;
+      if (match && value !== undefined) {
+        this.variables[variableName(match[1])] = value;
+      } else {
+        addIssue(this.issues, {
+          code: 'IMP002',
+          message: `Declaration '${statement.source}' in '${title}' could not be converted`,
+          details: { node: title, command: statement.source },
+        });
+      }
+      return false;
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Nodes
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Add the nodes for a body and return the ID to enter them by. `next` is
+   * where the body continues when it ends without a jump, as an option
+   * body continues after its options.
+   */
+  private build(
+    id: string,
+    statements: Statement[],
+    title: string,
+    base: { position?: Position; tags?: string[] },
+    start: boolean,
+    next?: string
+  ): string {
+    const at = { nodeId: id };
+    if (!start && this.buildRandom(id, statements, base)) return id;
+    if (!start && this.buildCondition(id, statements, title, base, next)) return id;
+
+    // Text that then branches on <<if>>: the branching gets a node of its own
+    let split = statements.findIndex((statement) => statement.kind === 'options');
+    const cut = statements.findIndex(
+      (statement, index) =>
+        index > 0 &&
+        (split === -1 || index < split) &&
+        statement.kind === 'if' &&
+        statement.branches.some(({ body }) => hasFlow(body))
+    );
+    let body = statements;
+    if (cut !== -1) {
+      const rest = statements.slice(cut);
+      next = this.build(this.allocate(`${id}_branch`), rest, title, {}, false, next);
+      body = statements.slice(0, cut);
+      split = -1;
+    }
+    const before = split === -1 ? body : body.slice(0, split);
+    const after = split === -1 ? [] : body.slice(split + 1);
+
+    const paragraphs: string[] = [];
+    const mutations: VariableMutations = {};
+    let jump: string | null | undefined;
+    for (const statement of before) {
+      if (jump !== undefined) {
+        this.drop(statement, title, at, 'comes after a jump');
+        continue;
+      }
+      switch (statement.kind) {
+        case 'line':
+          paragraphs.push(this.text(statement.text, title, at));
+          break;
+        case 'if':
+          paragraphs.push(this.conditionalText(statement, title, at));
+          break;
+        case 'set':
+          mergeMutations(mutations, this.assignment(statement.source, title, at));
+          break;
+        case 'jump':
+          jump = this.target(statement.target, title, at) ?? null;
+          break;
+        case 'stop':
+          jump = null;
+          break;
+        default:
+          this.drop(statement, title, at);
+      }
+    }
+    const continueTo = jump === undefined ? next : (jump ?? undefined);
+    const content = paragraphs.filter(Boolean).join('\n\n');
+
+    let choices: Choice[] = [];
+    if (split !== -1) {
+      let fallthrough = next;
+      if (after.length > 0) {
+        fallthrough = this.build(this.allocate(`${id}_after`), after, title, {}, false, next);
+      }
+      const { options } = body[split] as Extract<Statement, { kind: 'options' }>;
+      choices = options.flatMap((option) => this.option(id, option, title, fallthrough) ?? []);
+    } else if (continueTo && content) {
+      choices = [{ text: 'Continue', target: continueTo }];
+    }
+
+    if (!content && split === -1 && !start && continueTo) {
+      // Nothing to read: a node that only sets variables and moves on
+      this.nodes[id] = { id, ...base, type: 'variable', ...mutations, next: continueTo };
+      return id;
+    }
+
+    if (content || start || choices.length === 0) {
+      this.nodes[id] = {
+        id,
+        ...base,
+        type: 'passage',
+        content: content || title,
+        ...(choices.length ? { choices } : { ending: true }),
+        ...(start ? { start: true } : {}),
+      };
+    } else {
+      this.nodes[id] = { id, ...base, type: 'choice', choices };
+    }
+
+    if (Object.keys(mutations).length === 0) return id;
+    // Sets before the text run on the way in
+    const entry = this.allocate(`${id}_enter`);
+    this.nodes[entry] = {
+      id: entry,
+      ...(base.position ? { position: { x: base.position.x, y: base.position.y - 100 } } : {}),
+      type: 'variable',
+      ...mutations,
+      next: id,
+    };
+    if (start) applyMutations(this.variables, mutations);
+    return entry;
+  }
+
+  /**
+   * A choice for an option: guards become its condition, and a body of
+   * sets and a jump its mutations and target. Other bodies get a node of
+   * their own that continues at `fallthrough`.
+   */
+  private option(
+    id: string,
+    option: YarnOption,
+    title: string,
+    fallthrough: string | undefined
+  ): Choice | undefined {
+    const at = { nodeId: id };
+    const choice: Choice = {
+      text: this.text(option.text, title, at).slice(0, 512) || 'Continue',
+      target: '',
+    };
+    if (option.condition !== undefined) {
+      choice.condition = this.expression(option.condition, title, at) ?? 'false';
+    }
+
+    const simple = option.body.every(
+      (statement, index) =>
+        statement.kind === 'set' ||
+        ((statement.kind === 'jump' || statement.kind === 'stop') &&
+          index === option.body.length - 1)
+    );
+    const last = option.body[option.body.length - 1];
+    if (simple) {
+      for (const statement of option.body) {
+        if (statement.kind === 'set') {
+          mergeMutations(choice, this.assignment(statement.source, title, at));
+        }
+      }
+      if (last?.kind === 'jump') {
+        const target = this.target(last.target, title, at);
+        if (!target) return undefined;
+        choice.target = target;
+        return choice;
+      }
+      if (last?.kind !== 'stop' && fallthrough) {
+        choice.target = fallthrough;
+        return choice;
+      }
+      addIssue(this.issues, {
+        code: 'IMP004',
+        message: `Option '${option.text}' in '${title}' ends the dialogue and was dropped`,
+        ...at,
+        details: { node: title, option: option.text },
+      });
+      return undefined;
+    }
+
+    const body = this.allocate(`${id}_option`);
+    choice.target = this.build(body, option.body, title, {}, false, fallthrough);
+    return choice;
+  }
+
+  /**
+   * The roll the Yarn exporter writes for random nodes: a `random()`
+   * draw scaled to the total weight, then an `<<if>>` per threshold.
+   */
+  private buildRandom(
+    id: string,
+    statements: Statement[],
+    base: { position?: Position; tags?: string[] }
+  ): boolean {
+    const [set, branch] = statements;
+    if (statements.length !== 2 || set.kind !== 'set' || branch.kind !== 'if') return false;
+    const roll = /^\$(\w+)\s*(?:to|=)\s*random\(\)\s*\*\s*(\d+(?:\.\d+)?)$/.exec(set.source);
+    if (!roll) return false;
+
+    const total = Number(roll[2]);
+    const branches: Array<{ target: string; weight?: number }> = [];
+    let previous = 0;
+    for (const [index, { condition, body }] of branch.branches.entries()) {
+      const last = index === branch.branches.length - 1;
+      const threshold = last
+        ? condition === null
+          ? total
+          : NaN
+        : Number(
+            new RegExp(`^\\$${roll[1]}\\s*<\\s*(\\d+(?:\\.\\d+)?)$`).exec(condition ?? '')?.[1]
+          );
+      const target =
+        body.length === 1 && body[0].kind === 'jump' ? this.ids.get(body[0].target) : undefined;
+      if (!target || !(threshold > previous)) return false;
+      const weight = threshold - previous;
+      branches.push(weight === 1 ? { target } : { target, weight });
+      previous = threshold;
+    }
+
+    this.rolls.add(variableName(roll[1]));
+    this.nodes[id] = { id, ...base, type: 'random', branches };
+    return true;
+  }
+
+  /**
+   * A body that only branches on `<<if>>` to jumps: one condition node per
+   * test, chained through their `ifFalse`.
+   */
+  private buildCondition(
+    id: string,
+    statements: Statement[],
+    title: string,
+    base: { position?: Position; tags?: string[] },
+    next: string | undefined
+  ): boolean {
+    const [branch, fallback] = statements;
+    if (branch?.kind !== 'if' || statements.length > 2) return false;
+    if (fallback && fallback.kind !== 'jump') return false;
+    const jumps = branch.branches.map(({ body }) =>
+      body.length === 1 && body[0].kind === 'jump' ? body[0] : undefined
+    );
+    if (jumps.some((jump) => !jump)) return false;
+    const hasElse = branch.branches[branch.branches.length - 1].condition === null;
+    if (hasElse && fallback) return false;
+
+    const at = { nodeId: id };
+    const fallbackTitle = hasElse ? jumps[jumps.length - 1]!.target : fallback?.target;
+    if (fallbackTitle === undefined ? !next : !this.ids.has(fallbackTitle)) return false;
+    let otherwise = fallbackTitle === undefined ? next! : this.ids.get(fallbackTitle)!;
+
+    // Tests that jump to missing nodes are dropped
+    const tests = branch.branches.flatMap(({ condition }, index) => {
+      if (condition === null) return [];
+      const target = this.target(jumps[index]!.target, title, at);
+      return target ? [{ condition, target }] : [];
+    });
+    if (tests.length === 0) {
+      this.nodes[id] = { id, ...base, type: 'variable', next: otherwise };
+      return true;
+    }
+
+    const ids = tests.map((_, index) => (index === 0 ? id : this.allocate(`${id}_${index + 1}`)));
+    for (let index = tests.length - 1; index >= 0; index--) {
+      this.nodes[ids[index]] = {
+        id: ids[index],
+        ...(index === 0 ? base : {}),
+        type: 'condition',
+        expression: this.expression(tests[index].condition, title, at) ?? 'false',
+        ifTrue: tests[index].target,
+        ifFalse: otherwise,
+      };
+      otherwise = ids[index];
+    }
+    return true;
+  }
+
+  private target(title: string, node: string, at: { nodeId?: string }): string | undefined {
+    const id = this.ids.get(title);
+    if (id) return id;
+    addIssue(this.issues, {
+      code: 'IMP004',
+      message: `Jump to missing node '${title}' in '${node}' was dropped`,
+      ...at,
+      details: { node, target: title },
+    });
+    return undefined;
+  }
+
+  private drop(
+    statement: Statement,
+    node: string,
+    at: { nodeId?: string },
+    reason = 'is not supported'
+  ): void {
+    const source =
+      statement.kind === 'line'
+        ? statement.text
+        : 'source' in statement
+          ? statement.source
+          : `<<${statement.kind}>>`;
+    const name = statement.kind === 'command' ? `'${statement.name}'` : statement.kind;
+    addIssue(this.issues, {
+      code: 'IMP001',
+      message: `Yarn ${name} in '${node}' ${reason} and was dropped`,
+      ...at,
+      details: { node, command: source },
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Text
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A line as template text: escapes resolved, `{expr}` converted and
+   * trailing `#hashtags` removed (`#line:` IDs silently).
+   */
+  private text(line: string, node: string, at: { nodeId?: string }): string {
+    let template = '';
+    for (let pos = 0; pos < line.length; pos++) {
+      const char = line[pos];
+      if (char === '\\' && pos + 1 < line.length) {
+        template += literal(line[++pos]);
+      } else if (char === '{') {
+        const end = line.indexOf('}', pos);
+        const source = line.slice(pos + 1, end === -1 ? undefined : end);
+        const expression = this.expression(source, node, at);
+        if (expression !== undefined && expression !== '""') template += `{${expression}}`;
+        pos = end === -1 ? line.length : end;
+      } else if (char === '#') {
+        const tags = line.slice(pos).split(/\s+/).filter(Boolean);
+        const dropped = tags.filter((tag) => !tag.startsWith('#line:'));
+        if (dropped.length > 0) {
+          addIssue(this.issues, {
+            code: 'IMP001',
+            message: `Line tags ${dropped.join(' ')} in '${node}' were dropped`,
+            ...at,
+            details: { node, tags: dropped },
+          });
+        }
+        break;
+      } else {
+        template += literal(char);
+      }
+    }
+    return template.trim();
+  }
+
+  /**
+   * An `<<if>>` block of lines as an `{if}` template. Anything but lines
+   * inside it is dropped.
+   */
+  private conditionalText(
+    statement: Extract<Statement, { kind: 'if' }>,
+    node: string,
+    at: { nodeId?: string }
+  ): string {
+    const body = (statements: Statement[]) =>
+      statements
+        .map((inner) => {
+          if (inner.kind === 'line') return this.text(inner.text, node, at);
+          if (inner.kind === 'if') return this.conditionalText(inner, node, at);
+          this.drop(inner, node, at, 'is conditional');
+          return '';
+        })
+        .filter(Boolean)
+        .join('\n\n');
+
+    const bodies = statement.branches.map((branch) => body(branch.body));
+    if (bodies.every((text) => !text)) return '';
+
+    let template = '';
+    let depth = 0;
+    statement.branches.forEach(({ condition }, index) => {
+      if (index > 0) template += '{else}';
+      if (condition !== null) {
+        template += `{if ${this.expression(condition, node, at) ?? 'false'}}`;
+        depth++;
+      }
+      template += bodies[index];
+    });
+    return template + '{/if}'.repeat(depth);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Convert a Yarn expression, or report it and return undefined.
+   */
+  private expression(source: string, node: string, at: { nodeId?: string }): string | undefined {
+    const converted = this.convertExpression(source);
+    if (converted !== undefined && validateExpression(converted).valid) return converted;
+    addIssue(this.issues, {
+      code: 'IMP002',
+      message: `Expression '${source.trim()}' in '${node}' could not be converted`,
+      ...at,
+      details: { node, expression: source },
+    });
+    return undefined;
+  }
+
+  private convertExpression(source: string): string | undefined {
+    const tokens = source.match(
+      /"(?:[^"\\]|\\.)*"|\$?[A-Za-z_]\w*|\d+(?:\.\d+)?|==|!=|<=|>=|&&|\|\||\S/g
+    );
+    if (!tokens) return undefined;
+
+    const output: string[] = [];
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index];
+      const call = tokens[index + 1] === '(';
+      if (token.startsWith('"')) {
+        output.push(JSON.stringify(unquote(token)));
+      } else if (token.startsWith('$')) {
+        output.push(variableName(token.slice(1)));
+      } else if (Object.prototype.hasOwnProperty.call(OPERATOR_WORDS, token)) {
+        output.push(OPERATOR_WORDS[token]);
+      } else if ((token === 'visited' || token === 'visited_count') && call) {
+        const title = tokens[index + 2];
+        const id = title?.startsWith('"') ? this.ids.get(unquote(title)) : undefined;
+        if (!id || tokens[index + 3] !== ')') return undefined;
+        output.push(`${token === 'visited' ? 'visited' : 'visits'}(${JSON.stringify(id)})`);
+        index += 3;
+      } else if (token === 'random_range' && call) {
+        output.push('random');
+      } else if (token === 'dice' && call) {
+        output.push('random', '(', '1', ',');
+        index++;
+      } else if (token === 'random' && call && tokens[index + 2] === ')') {
+        // random() < p is how the Yarn exporter writes chance(p)
+        const p = tokens[index + 4];
+        if (tokens[index + 3] !== '<' || !/^\d/.test(p ?? '')) return undefined;
+        output.push(`chance(${p})`);
+        index += 4;
+      } else if (SHARED_FUNCTIONS.has(token) && call) {
+        output.push(token);
+      } else if (/^[A-Za-z_]/.test(token) && !['true', 'false'].includes(token)) {
+        // Other names are functions the game registers
+        return undefined;
+      } else {
+        output.push(token);
+      }
+    }
+    return output
+      .join(' ')
+      .replace(/ \(/g, '(')
+      .replace(/\( /g, '(')
+      .replace(/ \)/g, ')')
+      .replace(/ ,/g, ',')
+      .replace(/! /g, '!')
+      .replace(/(&&|\|\||[=!]==|[<>]=?|[-+*/%])\(/g, '$1 (');
+  }
+
+  /**
+   * Convert a `<<set>>` assignment into mutations, reporting it unless it
+   * is a literal value or a constant step.
+   */
+  private assignment(source: string, node: string, at: { nodeId?: string }): VariableMutations {
+    const match = /^\$(\w+)\s*(to|=|\+=|-=)\s*(.+)$/s.exec(source.trim());
+    const mutation = match && toMutation(match[1], match[2], match[3].trim());
+    if (mutation) return mutation;
+    addIssue(this.issues, {
+      code: 'IMP002',
+      message: `Assignment '${source.trim()}' in '${node}' could not be converted`,
+      ...at,
+      details: { node, assignment: source },
+    });
+    return {};
+  }
+}
+
+// =============================================================================
+// Yarn Source
+// =============================================================================
+
+/**
+ * Split a Yarn file into nodes, and read `// title:` and `// author:`
+ * comments before the first node as story metadata.
+ *
+ * @throws ParseError if the file has no nodes
+ */
+function parseNodes(source: string): {
+  meta: { title?: string; author?: string };
+  nodes: YarnNode[];
+} {
+  const meta: { title?: string; author?: string } = {};
+  const nodes: YarnNode[] = [];
+  let headers: Record<string, string> = {};
+  let body: SourceLine[] | null = null;
+
+  source.split(/\r?\n/).forEach((raw, index) => {
+    if (body) {
+      if (raw.trim() === '===') {
+        if (!headers.title) throw new ParseError('Yarn node without a title header', index);
+        nodes.push({ title: headers.title, headers, lines: body });
+        headers = {};
+        body = null;
+        return;
+      }
+      const text = stripComment(raw);
+      if (text.trim()) {
+        body.push({ indent: text.length - text.trimStart().length, text: text.trim() });
+      }
+      return;
+    }
+
+    const line = raw.trim();
+    const comment = /^\/\/\s*(title|author):\s*(.+)$/.exec(line);
+    if (comment && nodes.length === 0 && Object.keys(headers).length === 0) {
+      meta[comment[1] as 'title' | 'author'] = comment[2].trim();
+    } else if (line === '---') {
+      body = [];
+    } else {
+      const header = /^([\w-]+)\s*:\s*(.*)$/.exec(line);
+      if (header) headers[header[1]] = header[2].trim();
+    }
+  });
+
+  if (nodes.length === 0) {
+    throw new ParseError('Not a Yarn file: no nodes (title: header, ---, body, ===)');
+  }
+  return { meta, nodes };
+}
+
+/** Remove a `//` comment that is not escaped or inside a string */
+function stripComment(line: string): string {
+  let quote = false;
+  for (let pos = 0; pos < line.length; pos++) {
+    if (line[pos] === '\\') pos++;
+    else if (line[pos] === '"') quote = !quote;
+    else if (!quote && line.startsWith('//', pos)) return line.slice(0, pos).trimEnd();
+  }
+  return line;
+}
+
+function readPosition(value: string | undefined): Position | undefined {
+  if (!value) return undefined;
+  const [x, y] = value.split(',').map(Number);
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : undefined;
+}
+
+/**
+ * Parse body lines into statements. Options own the lines indented under
+ * them; `<<if>>` blocks run to their `<<endif>>`.
+ */
+function parseStatements(lines: SourceLine[]): Statement[] {
+  let pos = 0;
+  const command = (text: string) => /^<<\s*(\w+)\s*(.*?)\s*>>$/s.exec(text);
+
+  const block = (indent: number, inIf: boolean): Statement[] => {
+    const statements: Statement[] = [];
+    while (pos < lines.length) {
+      const { text, indent: lineIndent } = lines[pos];
+      if (lineIndent <= indent) break;
+      const [, name = '', args = ''] = command(text) ?? [];
+      if (inIf && ['elseif', 'else', 'endif'].includes(name)) break;
+
+      if (name === 'if') {
+        pos++;
+        const branches = [{ condition: args as string | null, body: block(indent, true) }];
+        while (pos < lines.length) {
+          const [, next = '', condition = ''] = command(lines[pos].text) ?? [];
+          if (next === 'elseif') {
+            pos++;
+            branches.push({ condition, body: block(indent, true) });
+          } else if (next === 'else') {
+            pos++;
+            branches.push({ condition: null, body: block(indent, true) });
+          } else {
+            if (next === 'endif') pos++;
+            break;
+          }
+        }
+        statements.push({ kind: 'if', branches });
+      } else if (text.startsWith('->')) {
+        const options: YarnOption[] = [];
+        while (pos < lines.length && lines[pos].text.startsWith('->')) {
+          if (lines[pos].indent !== lineIndent) break;
+          const option = lines[pos].text.slice(2).trim();
+          const guard = /^(.*?)\s*<<\s*if\s+(.*?)\s*>>\s*((?:#\S*\s*)*)$/s.exec(option);
+          pos++;
+          options.push({
+            text: guard ? `${guard[1]} ${guard[3]}`.trim() : option,
+            ...(guard ? { condition: guard[2] } : {}),
+            body: block(lineIndent, false),
+          });
+        }
+        statements.push({ kind: 'options', options });
+      } else {
+        pos++;
+        if (name === 'set') statements.push({ kind: 'set', source: args });
+        else if (name === 'jump') statements.push({ kind: 'jump', target: args, source: text });
+        else if (name === 'stop') statements.push({ kind: 'stop' });
+        else if (name) statements.push({ kind: 'command', name, source: text });
+        else statements.push({ kind: 'line', text });
+      }
+    }
+    return statements;
+  };
+
+  return block(-1, false);
+}
+
+/** Whether statements do more than show lines */
+function hasFlow(statements: Statement[]): boolean {
+  return statements.some((statement) =>
+    statement.kind === 'if'
+      ? statement.branches.some(({ body }) => hasFlow(body))
+      : statement.kind !== 'line' && statement.kind !== 'command'
+  );
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+/** A literal character as template text */
+function literal(char: string): string {
+  return char === '{' || char === '}' ? char + char : char;
+}
+
+function unquote(text: string): string {
+  if (!/^".*"$/s.test(text)) return text;
+  return text.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+function variableName(name: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+  return /^[a-z]/.test(base) ? base : `v_${base}`.replace(/_+/g, '_');
+}
+
+function parseLiteral(text: string): VariableValue | undefined {
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (/^".*"$/s.test(text)) return unquote(text);
+  return undefined;
+}
+
+/**
+ * A single assignment as a mutation: a literal, a constant `+=`/`-=`, or
+ * `$x to $x + n`.
+ */
+function toMutation(name: string, operator: string, value: string): VariableMutations | null {
+  const variable = variableName(name);
+  const step = (sign: string, amount: number): VariableMutations =>
+    sign === '+' ? { increment: { [variable]: amount } } : { decrement: { [variable]: amount } };
+
+  if (operator === '+=' || operator === '-=') {
+    const amount = parseLiteral(value);
+    return typeof amount === 'number' ? step(operator[0], amount) : null;
+  }
+  const literalValue = parseLiteral(value);
+  if (literalValue !== undefined) return { set: { [variable]: literalValue } };
+
+  const self = new RegExp(`^\\$${name}\\s*([+-])\\s*(\\d+(?:\\.\\d+)?)$`).exec(value);
+  return self ? step(self[1], Number(self[2])) : null;
+}
+
+function mergeMutations(target: VariableMutations, source: VariableMutations): void {
+  for (const key of ['set', 'increment', 'decrement'] as const) {
+    const changes = source[key];
+    if (!changes) continue;
+    const merged: Record<string, VariableValue> = { ...target[key] };
+    for (const [name, value] of Object.entries(changes)) {
+      merged[name] =
+        key !== 'set' && typeof merged[name] === 'number'
+          ? (merged[name] as number) + (value as number)
+          : value;
+    }
+    Object.assign(target, { [key]: merged });
+  }
+}
+
+/**
+ * Apply mutations to initial values, for the start node.
+ */
+function applyMutations(
+  variables: Record<string, VariableValue>,
+  mutations: VariableMutations
+): void {
+  Object.assign(variables, mutations.set);
+  for (const [name, amount] of Object.entries(mutations.increment ?? {})) {
+    const current = variables[name];
+    variables[name] = (typeof current === 'number' ? current : 0) + amount;
+  }
+  for (const [name, amount] of Object.entries(mutations.decrement ?? {})) {
+    const current = variables[name];
+    variables[name] = (typeof current === 'number' ? current : 0) - amount;
+  }
+}
+
+/**
+ * Importer for Yarn Spinner 2 dialogue files.
+ */
+export const yarnImporter: Importer = {
+  source: 'yarn',
+  import(text: string): ImportResult {
+    return new YarnReader(text).read();
+  },
+};
@@ -6,4 +6,7 @@
 
 export * from './core/index.js';
 export * from './export/index.js';
+export * from './i18n/index.js';
+export * from './import/index.js';
 export * from './runtime/index.js';
+export * from './testing/index.js';
@@ -0,0 +1,116 @@
+/**
+ * Undo History
+ *
+ * Each choice records a compact diff instead of a full snapshot: the
+ * position the run left, and the previous values of only the variables and
+ * visit counts the step changed. Entries are plain JSON, so history can be
+ * carried in snapshots and saves.
+ */
+
+import type { VariableValue } from '../core/types.js';
+import type { RuntimeChoice, RuntimeHistoryEntry, RuntimeState } from './types.js';
+
+/**
+ * Runtime state captured just before a choice is applied.
+ */
+export type HistoryCheckpoint = Omit<RuntimeHistoryEntry, 'choiceId' | 'choiceText'> & {
+  allVariables: Record<string, VariableValue>;
+  allVisited: Record<string, number>;
+};
+
+/**
+ * Capture the state a choice starts from.
+ * Call before the choice's effects are applied.
+ */
+export function takeCheckpoint(state: RuntimeState): HistoryCheckpoint {
+  return {
+    currentFile: state.currentFile,
+    currentNodeId: state.currentNodeId ?? '',
+    offeredChoices: state.offeredChoices.map((c) => ({ ...c })),
+    stack: state.stack.map((f) => ({ ...f })),
+    includeDepth: state.includeDepth,
+    random: { ...state.random },
+    frameRandom: { ...state.frameRandom },
+    variables: {},
+    visited: {},
+    allVariables: { ...state.variables },
+    allVisited: { ...state.visited },
+  };
+}
+
+/**
+ * Diff the state against a checkpoint and append the step to the history,
+ * dropping the oldest entries beyond limits.maxHistory.
+ */
+export function recordHistory(
+  state: RuntimeState,
+  checkpoint: HistoryCheckpoint,
+  choice: RuntimeChoice
+): void {
+  const limit = Math.max(0, state.limits.maxHistory);
+  if (limit === 0) {
+    state.history = [];
+    return;
+  }
+
+  const { allVariables, allVisited, ...position } = checkpoint;
+  const entry: RuntimeHistoryEntry = {
+    ...position,
+    choiceId: choice.id,
+    choiceText: choice.text,
+    variables: {},
+    visited: {},
+  };
+
+  for (const [name, value] of Object.entries(state.variables)) {
+    if (!(name in allVariables)) entry.variables[name] = null;
+    else if (allVariables[name] !== value) entry.variables[name] = allVariables[name];
+  }
+  for (const [key, count] of Object.entries(state.visited)) {
+    const previous = allVisited[key] ?? 0;
+    if (previous !== count) entry.visited[key] = previous;
+  }
+
+  state.history.push(entry);
+  if (state.history.length > limit) {
+    state.history.splice(0, state.history.length - limit);
+  }
+}
+
+/**
+ * Undo one history entry in place.
+ * Entries must be restored newest first.
+ */
+export function restoreHistoryEntry(state: RuntimeState, entry: RuntimeHistoryEntry): void {
+  for (const [name, value] of Object.entries(entry.variables)) {
+    if (value === null) delete state.variables[name];
+    else state.variables[name] = value;
+  }
+  for (const [key, count] of Object.entries(entry.visited)) {
+    if (count === 0) delete state.visited[key];
+    else state.visited[key] = count;
+  }
+
+  state.currentFile = entry.currentFile;
+  state.currentNodeId = entry.currentNodeId;
+  state.offeredChoices = entry.offeredChoices.map((c) => ({ ...c }));
+  state.stack = entry.stack.map((f) => ({ ...f }));
+  state.includeDepth = entry.includeDepth;
+  state.random = { ...entry.random };
+  state.frameRandom = { ...(entry.frameRandom ?? entry.random) };
+}
+
+/**
+ * Deep copy of history entries, e.g. for snapshots.
+ */
+export function copyHistory(history: RuntimeHistoryEntry[]): RuntimeHistoryEntry[] {
+  return history.map((entry) => ({
+    ...entry,
+    offeredChoices: entry.offeredChoices.map((c) => ({ ...c })),
+    stack: entry.stack.map((f) => ({ ...f })),
+    random: { ...entry.random },
+    ...(entry.frameRandom && { frameRandom: { ...entry.frameRandom } }),
+    variables: { ...entry.variables },
+    visited: { ...entry.visited },
+  }));
+}
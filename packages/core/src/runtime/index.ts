@@ -3,7 +3,9 @@ export type {
   RuntimeEvent,
   RuntimeError,
   RuntimeFrame,
+  RuntimeHistoryEntry,
   RuntimeLimits,
+  RuntimeStackFrame,
   RuntimeState,
 } from './types.js';
 export type { RuntimeOptions, RuntimeResult, RuntimeSnapshot, RuntimeSaveData } from './runtime.js';
@@ -12,6 +14,9 @@ export {
   loadRuntimeFromContent,
   start,
   choose,
+  resume,
+  rewind,
+  getHistory,
   snapshot,
   hydrate,
   saveGame,
@@ -19,9 +24,5 @@ export {
   serializeSaveData,
   deserializeSaveData,
 } from './runtime.js';
-export {
-  evaluateExpression,
-  evaluateExpressionValue,
-  validateExpression,
-  ExpressionError,
-} from './expression-parser.js';
+export type { RandomSeed, RandomState } from './random.js';
+export { createRandomState, normalizeSeed, nextRandom, randomInt, pickWeighted } from './random.js';
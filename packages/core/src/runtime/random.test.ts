@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { createRandomState, nextRandom, normalizeSeed, pickWeighted, randomInt } from './random.js';
+
+describe('normalizeSeed', () => {
+  it('truncates numbers to uint32', () => {
+    expect(normalizeSeed(42)).toBe(42);
+    expect(normalizeSeed(-1)).toBe(0xffffffff);
+    expect(normalizeSeed(2 ** 32 + 5)).toBe(5);
+    expect(normalizeSeed(NaN)).toBe(0);
+  });
+
+  it('hashes strings stably', () => {
+    expect(normalizeSeed('')).toBe(0x811c9dc5);
+    expect(normalizeSeed('storygraph')).toBe(normalizeSeed('storygraph'));
+    expect(normalizeSeed('a')).not.toBe(normalizeSeed('b'));
+  });
+});
+
+describe('nextRandom', () => {
+  it('produces a fixed sequence per seed', () => {
+    const rng = createRandomState(1);
+    const sequence = [nextRandom(rng), nextRandom(rng), nextRandom(rng)];
+    expect(sequence).toEqual([0.6270739405881613, 0.002735721180215478, 0.5274470399599522]);
+  });
+
+  it('resumes from a copied state', () => {
+    const rng = createRandomState('resume');
+    nextRandom(rng);
+    const copy = JSON.parse(JSON.stringify(rng));
+    expect(nextRandom(copy)).toBe(nextRandom(rng));
+    expect(copy.seed).toBe(normalizeSeed('resume'));
+  });
+
+  it('stays within [0, 1)', () => {
+    const rng = createRandomState(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = nextRandom(rng);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('randomInt', () => {
+  it('covers the inclusive range', () => {
+    const rng = createRandomState(3);
+    const seen = new Set<number>();
+    for (let i = 0; i < 200; i++) seen.add(randomInt(rng, 1, 6));
+    expect([...seen].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('accepts bounds in either order', () => {
+    const rng = createRandomState(3);
+    const value = randomInt(rng, 10, 8);
+    expect(value).toBeGreaterThanOrEqual(8);
+    expect(value).toBeLessThanOrEqual(10);
+  });
+});
+
+describe('pickWeighted', () => {
+  it('never picks zero-weight entries', () => {
+    const rng = createRandomState(11);
+    for (let i = 0; i < 100; i++) {
+      expect(pickWeighted(rng, [0, 1, 0])).toBe(1);
+    }
+  });
+
+  it('follows the weights roughly', () => {
+    const rng = createRandomState(5);
+    const counts = [0, 0];
+    for (let i = 0; i < 2000; i++) counts[pickWeighted(rng, [3, 1])]++;
+    expect(counts[0] / 2000).toBeGreaterThan(0.7);
+    expect(counts[0] / 2000).toBeLessThan(0.8);
+  });
+});
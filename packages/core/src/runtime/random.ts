@@ -0,0 +1,99 @@
+/**
+ * Seeded Random Numbers
+ *
+ * A small deterministic PRNG (mulberry32) whose whole state is one uint32,
+ * so it can live in RuntimeState, survive saveGame/loadGame as plain JSON
+ * and replay the same sequence bit-for-bit on every platform.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Serializable PRNG state.
+ * `seed` is kept for reference (replays, debugging); `state` advances on every draw.
+ */
+export type RandomState = {
+  seed: number;
+  state: number;
+};
+
+/**
+ * A seed as accepted from options: a number or any string (hashed).
+ */
+export type RandomSeed = number | string;
+
+// =============================================================================
+// Seeding
+// =============================================================================
+
+/**
+ * Normalize a seed to a uint32.
+ * Strings are hashed with FNV-1a; numbers are truncated to 32 bits.
+ */
+export function normalizeSeed(seed: RandomSeed): number {
+  if (typeof seed === 'number') {
+    return Number.isFinite(seed) ? Math.trunc(seed) >>> 0 : 0;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pick a fresh seed for runs that did not ask for one.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Create a PRNG state from a seed.
+ */
+export function createRandomState(seed: RandomSeed): RandomState {
+  const normalized = normalizeSeed(seed);
+  return { seed: normalized, state: normalized };
+}
+
+// =============================================================================
+// Drawing
+// =============================================================================
+
+/**
+ * Draw a float in [0, 1) and advance the state.
+ */
+export function nextRandom(rng: RandomState): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+/**
+ * Draw an integer in [min, max] (inclusive, bounds in either order).
+ */
+export function randomInt(rng: RandomState, min: number, max: number): number {
+  const low = Math.ceil(Math.min(min, max));
+  const high = Math.floor(Math.max(min, max));
+  return low + Math.floor(nextRandom(rng) * (high - low + 1));
+}
+
+/**
+ * Pick an index with probability proportional to its weight.
+ * Always consumes exactly one draw.
+ */
+export function pickWeighted(rng: RandomState, weights: number[]): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let roll = nextRandom(rng) * total;
+  for (let i = 0; i < weights.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return i;
+  }
+  return weights.length - 1;
+}
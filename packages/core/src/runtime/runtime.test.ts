@@ -4,11 +4,30 @@ import {
   createRuntime,
   start,
   choose,
+  resume,
+  rewind,
+  getHistory,
+  snapshot,
+  hydrate,
   saveGame,
   loadGame,
   serializeSaveData,
   deserializeSaveData,
+  type RuntimeResult,
 } from './runtime.js';
+import { createStoryLoader } from '../core/loader.js';
+import { hashSourceText } from '../core/strings.js';
+import type { RuntimeState } from './types.js';
+
+/**
+ * Take the offered choice that leads to `target` (plain or file-qualified).
+ */
+function chooseTarget(rt: RuntimeState, target: string): RuntimeResult {
+  const choice = rt.offeredChoices.find(
+    (c) => c.target === target || c.target.endsWith(`#${target}`)
+  );
+  return choose(rt, choice?.id ?? `not-offered:${target}`);
+}
 
 const BASE_STORY = `version: "1.0"
 meta:
@@ -52,7 +71,7 @@ describe('runtime basic traversal', () => {
   it('advances via choose', () => {
     const rt = createRuntime(parseToStory(BASE_STORY));
     const startFrame = start(rt).frame!;
-    const next = choose(rt, startFrame.choices[0].target);
+    const next = choose(rt, startFrame.choices[0].id);
     expect(next.frame?.nodeId).toBe('a');
     expect(next.frame?.ending).toBe(true);
   });
@@ -125,7 +144,7 @@ describe('runtime variable operations', () => {
   it('applies set/increment order', () => {
     const rt = createRuntime(parseToStory(VARIABLE_STORY));
     start(rt);
-    const frame = choose(rt, 'set_vars').frame!;
+    const frame = chooseTarget(rt, 'set_vars').frame!;
     expect(frame.variables.score).toBe(3);
     expect(frame.nodeId).toBe('pass');
   });
@@ -153,9 +172,9 @@ describe('runtime safety', () => {
     // First choose -> visited[start] = 2
     // Second choose -> visited[start] = 3
     // Third choose -> visited[start] = 4 > maxRepeats, should error
-    choose(rt, 'start'); // visit 2
-    choose(rt, 'start'); // visit 3
-    const res = choose(rt, 'start'); // visit 4 - should exceed limit
+    chooseTarget(rt, 'start'); // visit 2
+    chooseTarget(rt, 'start'); // visit 3
+    const res = chooseTarget(rt, 'start'); // visit 4 - should exceed limit
     expect(res.error?.code).toBe('RT010_STEP_LIMIT');
   });
 });
@@ -213,7 +232,7 @@ describe('runtime fuzz traversal', () => {
       for (let i = 0; i < 50 && !frame.ending; i++) {
         const choice = frame.choices.at(0);
         expect(choice).toBeDefined();
-        const next = choose(rt, choice!.target);
+        const next = choose(rt, choice!.id);
         expect(next.error).toBeUndefined();
         frame = next.frame!;
       }
@@ -277,7 +296,7 @@ describe('runtime save/load game', () => {
     const story = parseToStory(SAVE_STORY);
     const rt = createRuntime(story, { storyId: 'test-story' });
     start(rt);
-    choose(rt, 'north');
+    chooseTarget(rt, 'north');
 
     const saveData = saveGame(rt, { saveName: 'Test Save', playTimeMs: 5000 });
 
@@ -295,7 +314,7 @@ describe('runtime save/load game', () => {
     const story = parseToStory(SAVE_STORY);
     const rt = createRuntime(story, { storyId: 'test-story' });
     start(rt);
-    choose(rt, 'north');
+    chooseTarget(rt, 'north');
 
     const saveData = saveGame(rt);
     const result = loadGame(story, saveData, { storyId: 'test-story' });
@@ -310,8 +329,8 @@ describe('runtime save/load game', () => {
     const story = parseToStory(SAVE_STORY);
     const rt = createRuntime(story);
     start(rt);
-    choose(rt, 'north');
-    choose(rt, 'take_treasure');
+    chooseTarget(rt, 'north');
+    chooseTarget(rt, 'take_treasure');
 
     const saveData = saveGame(rt);
     const json = serializeSaveData(saveData);
@@ -379,7 +398,7 @@ describe('runtime save/load game', () => {
     const story = parseToStory(SAVE_STORY);
     const rt = createRuntime(story);
     start(rt);
-    choose(rt, 'north');
+    chooseTarget(rt, 'north');
 
     // Save at "north" node
     const saveData = saveGame(rt);
@@ -389,7 +408,7 @@ describe('runtime save/load game', () => {
     expect(result.state).toBeDefined();
 
     // Continue from where we left off - choose "Take it"
-    const frame = choose(result.state!, 'take_treasure').frame!;
+    const frame = chooseTarget(result.state!, 'take_treasure').frame!;
     expect(frame.nodeId).toBe('ending');
     expect(frame.variables.inventory).toBe(1);
     expect(frame.ending).toBe(true);
@@ -399,9 +418,9 @@ describe('runtime save/load game', () => {
     const story = parseToStory(SAVE_STORY);
     const rt = createRuntime(story);
     start(rt);
-    choose(rt, 'south'); // visit south
-    choose(rt, 'start'); // back to start (visit 2)
-    choose(rt, 'south'); // visit south again (visit 2)
+    chooseTarget(rt, 'south'); // visit south
+    chooseTarget(rt, 'start'); // back to start (visit 2)
+    chooseTarget(rt, 'south'); // visit south again (visit 2)
 
     const saveData = saveGame(rt);
     const result = loadGame(story, saveData);
@@ -431,3 +450,773 @@ describe('save data serialization', () => {
     expect(parsed.version).toBe('1.0');
   });
 });
+
+// =============================================================================
+// Include Resolution Tests
+// =============================================================================
+
+const INCLUDE_FILES: Record<string, string> = {
+  'stories/main.story': `version: "1.0"
+meta:
+  title: Main
+variables:
+  gold: 1
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Main start
+    choices:
+      - text: Enter chapter
+        target: chapter
+  chapter:
+    type: include
+    id: chapter
+    path: chapters/one.story
+    return: after
+  after:
+    type: passage
+    id: after
+    content: Back in main
+    ending: true
+`,
+  'stories/chapters/one.story': `version: "1.0"
+meta:
+  title: Chapter One
+variables:
+  gold: 99
+  torch: true
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Chapter start
+    choices:
+      - text: Finish chapter
+        target: finish
+  finish:
+    type: variable
+    id: finish
+    increment:
+      gold: 5
+    next: done
+  done:
+    type: passage
+    id: done
+    content: Chapter done
+    ending: true
+`,
+  'stories/chapters/back.story': `version: "1.0"
+meta:
+  title: Back
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Going around
+    choices:
+      - text: Again
+        target: again
+  again:
+    type: include
+    id: again
+    path: ../main.story
+`,
+};
+
+function includeRuntime(files: Record<string, string> = INCLUDE_FILES) {
+  const loader = createStoryLoader((file) => {
+    const content = files[file];
+    if (content === undefined) throw new Error(`File not found: ${file}`);
+    return content;
+  });
+  const story = loader.load('stories/main.story');
+  return createRuntime(story, { loader, storyPath: 'stories/main.story' });
+}
+
+describe('runtime include resolution', () => {
+  it('enters the included file with namespaced node ids', () => {
+    const rt = includeRuntime();
+    start(rt);
+    const frame = chooseTarget(rt, 'chapter').frame!;
+    expect(frame.nodeId).toBe('stories/chapters/one.story#start');
+    expect(frame.choices[0].target).toBe('stories/chapters/one.story#finish');
+    expect(frame.variables.gold).toBe(1);
+    expect(frame.variables.torch).toBe(true);
+    expect(rt.stack).toEqual([{ returnTo: 'after', includeId: 'chapter', file: null }]);
+  });
+
+  it('returns to the including file when the include ends', () => {
+    const rt = includeRuntime();
+    start(rt);
+    const inner = chooseTarget(rt, 'chapter').frame!;
+    const frame = choose(rt, inner.choices[0].id).frame!;
+    expect(frame.nodeId).toBe('after');
+    expect(frame.text).toBe('Chapter done\n\nBack in main');
+    expect(frame.variables.gold).toBe(6);
+    expect(rt.currentFile).toBeNull();
+    expect(rt.visited['start']).toBe(1);
+    expect(rt.visited['stories/chapters/one.story#start']).toBe(1);
+  });
+
+  it('shows the closing text of a chapter whose choices are all hidden', () => {
+    const rt = includeRuntime({
+      ...INCLUDE_FILES,
+      'stories/chapters/one.story': INCLUDE_FILES['stories/chapters/one.story'].replace(
+        '    content: Chapter done\n    ending: true',
+        '    content: Chapter done with {gold} gold\n    choices:\n' +
+          '      - text: Linger\n        target: start\n        condition: gold > 100'
+      ),
+    });
+    start(rt);
+    const inner = chooseTarget(rt, 'chapter').frame!;
+    const frame = choose(rt, inner.choices[0].id).frame!;
+    expect(frame.nodeId).toBe('after');
+    expect(frame.text).toBe('Chapter done with 6 gold\n\nBack in main');
+  });
+
+  it('shows the closing text when an include without a return ends the story', () => {
+    const rt = includeRuntime();
+    rt.story.setNode({ id: 'chapter', type: 'include', path: 'chapters/one.story' });
+    start(rt);
+    const inner = chooseTarget(rt, 'chapter').frame!;
+    const frame = choose(rt, inner.choices[0].id).frame!;
+    expect(frame).toMatchObject({ nodeId: 'chapter', text: 'Chapter done', ending: true });
+  });
+
+  it('keeps file information in saves', () => {
+    const rt = includeRuntime();
+    start(rt);
+    chooseTarget(rt, 'chapter');
+    const save = deserializeSaveData(serializeSaveData(saveGame(rt)));
+    expect(save.snapshot.currentFile).toBe('stories/chapters/one.story');
+    expect(save.snapshot.stack[0].file).toBeNull();
+
+    const fresh = includeRuntime();
+    const loaded = loadGame(fresh.story, save, {
+      loader: fresh.loader,
+      storyPath: fresh.storyPath,
+    });
+    expect(loaded.error).toBeUndefined();
+    const frame = chooseTarget(loaded.state!, 'finish').frame!;
+    expect(frame.nodeId).toBe('after');
+  });
+
+  it('detects include cycles', () => {
+    const rt = includeRuntime();
+    rt.story.setNode({
+      id: 'chapter',
+      type: 'include',
+      path: 'chapters/back.story',
+      return: 'after',
+    });
+    start(rt);
+    chooseTarget(rt, 'chapter');
+    const result = chooseTarget(rt, 'again');
+    expect(result.error?.code).toBe('RT006_INCLUDE_CYCLE');
+    expect(result.error?.nodeId).toBe('stories/chapters/back.story#again');
+  });
+
+  it('reports missing include files', () => {
+    const rt = includeRuntime({
+      ...INCLUDE_FILES,
+      'stories/chapters/one.story': undefined as unknown as string,
+    });
+    start(rt);
+    const result = chooseTarget(rt, 'chapter');
+    expect(result.error?.code).toBe('RT007_INCLUDE_LOAD');
+    expect(result.error?.message).toContain('chapters/one.story');
+  });
+});
+
+const RANDOM_STORY = `version: "1.0"
+meta:
+  title: Dice
+variables:
+  roll: 0
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Roll the dice?
+    choices:
+      - text: Roll
+        target: roll
+      - text: Lucky door
+        target: lucky
+        condition: chance(0.5)
+  roll:
+    type: random
+    id: roll
+    branches:
+      - target: win
+        weight: 1
+        label: six
+      - target: lose
+        weight: 5
+  win:
+    type: passage
+    id: win
+    content: You win
+    choices:
+      - text: Again
+        target: start
+  lose:
+    type: passage
+    id: lose
+    content: You lose
+    choices:
+      - text: Again
+        target: start
+  lucky:
+    type: passage
+    id: lucky
+    content: Lucky you
+    ending: true
+`;
+
+function playRandom(seed: number, rounds: number): string[] {
+  const rt = createRuntime(parseToStory(RANDOM_STORY), { seed });
+  const path: string[] = [];
+  let frame = start(rt).frame!;
+  for (let i = 0; i < rounds; i++) {
+    frame = chooseTarget(rt, 'roll').frame!;
+    path.push(frame.nodeId);
+    frame = chooseTarget(rt, 'start').frame!;
+    path.push(frame.choices.map((c) => c.target).join(','));
+  }
+  return path;
+}
+
+describe('runtime randomness', () => {
+  it('picks random branches and reports them', () => {
+    const rt = createRuntime(parseToStory(RANDOM_STORY), { seed: 1 });
+    start(rt);
+    const frame = chooseTarget(rt, 'roll').frame!;
+    expect(['win', 'lose']).toContain(frame.nodeId);
+    const event = frame.events.find((e) => e.code === 'ev_random');
+    expect(event?.data?.target).toBe(frame.nodeId);
+  });
+
+  it('repeats the same path for the same seed', () => {
+    expect(playRandom(42, 10)).toEqual(playRandom(42, 10));
+    expect(playRandom(42, 10)).not.toEqual(playRandom(43, 10));
+  });
+
+  it('accepts string seeds', () => {
+    const a = createRuntime(parseToStory(RANDOM_STORY), { seed: 'campaign-1' });
+    const b = createRuntime(parseToStory(RANDOM_STORY), { seed: 'campaign-1' });
+    expect(a.random).toEqual(b.random);
+  });
+
+  it('continues the same sequence after save/load', () => {
+    const story = parseToStory(RANDOM_STORY);
+    const original = createRuntime(story, { seed: 7 });
+    start(original);
+    chooseTarget(original, 'roll');
+    chooseTarget(original, 'start');
+
+    const save = deserializeSaveData(serializeSaveData(saveGame(original)));
+    expect(save.snapshot.random).toEqual(original.random);
+    const restored = loadGame(story, save).state!;
+
+    for (let i = 0; i < 5; i++) {
+      expect(chooseTarget(restored, 'roll').frame).toEqual(chooseTarget(original, 'roll').frame);
+      expect(chooseTarget(restored, 'start').frame).toEqual(chooseTarget(original, 'start').frame);
+    }
+  });
+
+  it('reseeds saves made without random state', () => {
+    const story = parseToStory(RANDOM_STORY);
+    const rt = createRuntime(story, { seed: 7 });
+    start(rt);
+    const save = saveGame(rt);
+    delete save.snapshot.random;
+    const restored = loadGame(story, save, { seed: 99 }).state!;
+    expect(restored.random.seed).toBe(99);
+  });
+});
+
+describe('runtime text templates', () => {
+  const TEMPLATE_STORY = `version: "1.0"
+meta:
+  title: Door
+variables:
+  gold: 3
+  has_key: false
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: "Gold: {gold}. {if has_key}You unlock the door.{else}It's locked.{/if}"
+    choices:
+      - text: "Buy a key ({gold} gold)"
+        target: buy
+  buy:
+    type: variable
+    id: buy
+    set:
+      has_key: true
+    next: start
+  broken:
+    type: passage
+    id: broken
+    content: "Oops {gold"
+    ending: true
+`;
+
+  it('renders passage content and choice text', () => {
+    const rt = createRuntime(parseToStory(TEMPLATE_STORY));
+    const frame = start(rt).frame!;
+    expect(frame.text).toBe("Gold: 3. It's locked.");
+    expect(frame.choices[0].text).toBe('Buy a key (3 gold)');
+    expect(chooseTarget(rt, 'buy').frame?.text).toBe('Gold: 3. You unlock the door.');
+  });
+
+  it('shows broken templates verbatim with a warning event', () => {
+    const rt = createRuntime(parseToStory(TEMPLATE_STORY));
+    const frame = start(rt, 'broken').frame!;
+    expect(frame.text).toBe('Oops {gold');
+    expect(frame.events.find((e) => e.code === 'ev_template_error')?.severity).toBe('warning');
+  });
+});
+
+describe('runtime locales', () => {
+  const french = {
+    locale: 'fr',
+    entries: {
+      'start.content': { text: 'Vous vous réveillez.', sourceHash: hashSourceText('You wake up.') },
+      'start.choices.0': { text: 'Prendre le chemin A', sourceHash: hashSourceText('Take path A') },
+      // Made from an older source text, so the English text is shown
+      'start.choices.1': { text: 'Chemin B', sourceHash: hashSourceText('Path B') },
+    },
+  };
+
+  it('shows text from the translation for the locale', () => {
+    const rt = createRuntime(parseToStory(BASE_STORY), {
+      locale: 'fr-CA',
+      translations: [{ locale: 'de', entries: {} }, french],
+    });
+    const frame = start(rt).frame!;
+    expect(frame.text).toBe('Vous vous réveillez.');
+    expect(frame.choices.map((c) => c.text)).toEqual(['Prendre le chemin A', 'Take path B']);
+  });
+
+  it('keeps the source text without a matching translation', () => {
+    const rt = createRuntime(parseToStory(BASE_STORY), { locale: 'es', translations: [french] });
+    expect(start(rt).frame!.text).toBe('You wake up.');
+  });
+
+  it('keeps the locale when hydrating a snapshot', () => {
+    const story = parseToStory(BASE_STORY);
+    const rt = createRuntime(story);
+    start(rt);
+    const restored = hydrate(story, snapshot(rt), { locale: 'fr', translations: [french] });
+    expect(resume(restored).frame!.text).toBe('Vous vous réveillez.');
+  });
+});
+
+describe('runtime choice effects', () => {
+  const SHOP_STORY = `version: "1.0"
+meta:
+  title: Shop
+variables:
+  gold: 10
+  has_sword: false
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: "Gold: {gold}"
+    choices:
+      - text: Buy a sword
+        target: bought
+        set:
+          has_sword: true
+        decrement:
+          gold: 4
+      - text: Leave
+        target: bought
+        condition: "false"
+  bought:
+    type: passage
+    id: bought
+    content: "Gold left: {gold}"
+    ending: true
+`;
+
+  it('applies choice mutations before entering the target', () => {
+    const rt = createRuntime(parseToStory(SHOP_STORY));
+    start(rt);
+    const frame = chooseTarget(rt, 'bought').frame!;
+    expect(frame.text).toBe('Gold left: 6');
+    expect(frame.variables).toMatchObject({ gold: 6, has_sword: true });
+    expect(frame.events[0]).toMatchObject({ code: 'ev_choice_effects', nodeId: 'start' });
+  });
+
+  it('leaves state alone for choices without effects', () => {
+    const rt = createRuntime(parseToStory(BASE_STORY));
+    start(rt);
+    const frame = chooseTarget(rt, 'a').frame!;
+    expect(frame.variables.coins).toBe(1);
+    expect(frame.events.map((e) => e.code)).not.toContain('ev_choice_effects');
+  });
+});
+
+describe('runtime choice validation', () => {
+  const LOCKED_STORY = `version: "1.0"
+meta:
+  title: Vault
+variables:
+  has_key: false
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: A locked vault.
+    choices:
+      - text: Open the vault
+        target: vault
+        condition: has_key
+      - text: Walk away
+        target: away
+  vault:
+    type: passage
+    id: vault
+    content: Treasure!
+    ending: true
+  away:
+    type: passage
+    id: away
+    content: You leave.
+    ending: true
+`;
+
+  it('accepts the id of an offered choice', () => {
+    const rt = createRuntime(parseToStory(LOCKED_STORY));
+    const frame = start(rt).frame!;
+    expect(frame.choices.map((c) => c.id)).toEqual(['1:away']);
+    expect(choose(rt, '1:away').frame?.nodeId).toBe('away');
+  });
+
+  it('rejects choices hidden by conditions', () => {
+    const rt = createRuntime(parseToStory(LOCKED_STORY));
+    start(rt);
+    const result = choose(rt, '0:vault');
+    expect(result.error).toMatchObject({
+      code: 'RT004_INVALID_CHOICE',
+      nodeId: 'start',
+      data: { choiceId: '0:vault', offered: ['1:away'] },
+    });
+    expect(rt.currentNodeId).toBe('start');
+  });
+
+  it('rejects bare node ids and choices from earlier frames', () => {
+    const rt = createRuntime(parseToStory(LOCKED_STORY));
+    start(rt);
+    expect(choose(rt, 'away').error?.code).toBe('RT004_INVALID_CHOICE');
+    choose(rt, '1:away');
+    expect(choose(rt, '1:away').error?.code).toBe('RT004_INVALID_CHOICE');
+  });
+
+  it('keeps offered choices through snapshot and hydrate', () => {
+    const story = parseToStory(LOCKED_STORY);
+    const rt = createRuntime(story);
+    start(rt);
+    const restored = hydrate(story, JSON.parse(JSON.stringify(snapshot(rt))));
+    expect(choose(restored, '0:vault').error?.code).toBe('RT004_INVALID_CHOICE');
+    expect(choose(restored, '1:away').frame?.nodeId).toBe('away');
+  });
+
+  it('rejects forged offered choices that do not match the story', () => {
+    const story = parseToStory(LOCKED_STORY);
+    const rt = createRuntime(story);
+    start(rt);
+    const snap = snapshot(rt);
+    snap.offeredChoices = [{ id: '1:vault', text: 'Forged', target: 'vault' }];
+    const result = choose(hydrate(story, snap), '1:vault');
+    expect(result.error?.code).toBe('RT004_INVALID_CHOICE');
+  });
+
+  it('rejects forged offered choices whose condition does not hold', () => {
+    const story = parseToStory(LOCKED_STORY);
+    const rt = createRuntime(story);
+    start(rt);
+    const snap = snapshot(rt);
+    snap.offeredChoices = [{ id: '0:vault', text: 'Forged', target: 'vault' }];
+    const restored = hydrate(story, snap);
+    expect(choose(restored, '0:vault').error?.code).toBe('RT004_INVALID_CHOICE');
+    expect(restored.currentNodeId).toBe('start');
+    expect(restored.variables).toEqual(rt.variables);
+  });
+
+  it('accepts offered choices gated by chance() and random()', () => {
+    const story = parseToStory(`version: "1.0"
+meta:
+  title: Gamble
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Two doors.
+    choices:
+      - text: Lucky door
+        target: lucky
+        condition: chance(0.5)
+      - text: High door
+        target: high
+        condition: random(1, 6) > 3
+      - text: Walk away
+        target: away
+  lucky:
+    type: passage
+    id: lucky
+    content: Lucky you
+    ending: true
+  high:
+    type: passage
+    id: high
+    content: High roll
+    ending: true
+  away:
+    type: passage
+    id: away
+    content: You leave.
+    ending: true
+`);
+    const taken = new Set<string>();
+    for (let seed = 1; seed <= 40; seed++) {
+      const rt = createRuntime(story, { seed });
+      const { choices } = start(rt).frame!;
+      const restored = hydrate(story, JSON.parse(JSON.stringify(snapshot(rt))));
+      for (const { id, target } of choices) {
+        expect(choose(rt, id).frame?.nodeId).toBe(target);
+        expect(rewind(rt).frame?.choices).toEqual(choices);
+        expect(choose(rt, id).frame?.nodeId).toBe(target);
+        rewind(rt);
+        expect(choose(hydrate(story, snapshot(restored)), id).frame?.nodeId).toBe(target);
+        taken.add(id);
+      }
+
+      const forged = snapshot(restored);
+      forged.offeredChoices = ['0:lucky', '1:high']
+        .filter((id) => !choices.some((choice) => choice.id === id))
+        .map((id) => ({ id, text: 'Forged', target: id.slice(2) }));
+      for (const { id } of forged.offeredChoices) {
+        expect(choose(hydrate(story, forged), id).error?.code).toBe('RT004_INVALID_CHOICE');
+      }
+    }
+    expect([...taken].sort()).toEqual(['0:lucky', '1:high', '2:away']);
+  });
+
+  it('resumes a loaded game without counting a visit', () => {
+    const story = parseToStory(LOCKED_STORY);
+    const rt = createRuntime(story);
+    start(rt);
+    const save = saveGame(rt);
+    delete save.snapshot.offeredChoices;
+    const loaded = loadGame(story, save).state!;
+    const frame = resume(loaded).frame!;
+    expect(frame.nodeId).toBe('start');
+    expect(loaded.visited.start).toBe(1);
+    expect(choose(loaded, '1:away').frame?.nodeId).toBe('away');
+  });
+});
+
+describe('runtime history', () => {
+  it('rewinds variables, visits and position', () => {
+    const rt = createRuntime(parseToStory(SAVE_STORY));
+    start(rt);
+    chooseTarget(rt, 'north');
+    chooseTarget(rt, 'take_treasure');
+    expect(rt.variables.inventory).toBe(1);
+
+    const frame = rewind(rt).frame!;
+    expect(frame.nodeId).toBe('north');
+    expect(frame.choices.map((c) => c.target)).toEqual(['take_treasure', 'ending']);
+    expect(rt.variables.inventory).toBe(0);
+    expect(rt.visited).toEqual({ start: 1, north: 1 });
+
+    expect(rewind(rt).frame?.nodeId).toBe('start');
+    expect(rt.visited).toEqual({ start: 1 });
+    expect(getHistory(rt)).toEqual([]);
+  });
+
+  it('records compact diffs', () => {
+    const rt = createRuntime(parseToStory(SAVE_STORY));
+    start(rt);
+    chooseTarget(rt, 'north');
+    chooseTarget(rt, 'take_treasure');
+
+    const [first, second] = getHistory(rt);
+    expect(first).toMatchObject({ choiceId: '0:north', currentNodeId: 'start', variables: {} });
+    expect(first.visited).toEqual({ north: 0 });
+    expect(second).toMatchObject({ choiceText: 'Take it', currentNodeId: 'north' });
+    expect(second.variables).toEqual({ inventory: 0 });
+    expect(second.visited).toEqual({ take_treasure: 0, ending: 0 });
+  });
+
+  it('rewinds several steps at once and rejects too many', () => {
+    const rt = createRuntime(parseToStory(SAVE_STORY));
+    start(rt);
+    chooseTarget(rt, 'south');
+    chooseTarget(rt, 'start');
+    expect(rt.visited.start).toBe(2);
+
+    expect(rewind(rt, 3).error).toMatchObject({
+      code: 'RT008_NO_HISTORY',
+      data: { steps: 3, available: 2 },
+    });
+    expect(rewind(rt, 2).frame?.nodeId).toBe('start');
+    expect(rt.visited).toEqual({ start: 1 });
+  });
+
+  it('keeps at most maxHistory entries', () => {
+    const rt = createRuntime(parseToStory(SAVE_STORY), { maxHistory: 2 });
+    start(rt);
+    for (let i = 0; i < 3; i++) {
+      chooseTarget(rt, 'south');
+      chooseTarget(rt, 'start');
+    }
+    expect(getHistory(rt).map((e) => e.currentNodeId)).toEqual(['start', 'south']);
+  });
+
+  it('replays the same random paths after a rewind', () => {
+    const rt = createRuntime(parseToStory(RANDOM_STORY), { seed: 7 });
+    start(rt);
+    const first = chooseTarget(rt, 'roll').frame!.nodeId;
+    rewind(rt);
+    expect(chooseTarget(rt, 'roll').frame!.nodeId).toBe(first);
+  });
+
+  it('carries history in snapshots and optionally in saves', () => {
+    const story = parseToStory(SAVE_STORY);
+    const rt = createRuntime(story);
+    start(rt);
+    chooseTarget(rt, 'north');
+
+    const restored = hydrate(story, JSON.parse(JSON.stringify(snapshot(rt))));
+    expect(rewind(restored).frame?.nodeId).toBe('start');
+
+    expect(saveGame(rt).snapshot.history).toBeUndefined();
+    const loaded = loadGame(story, saveGame(rt, { includeHistory: true })).state!;
+    expect(getHistory(loaded)).toHaveLength(1);
+  });
+});
+
+describe('runtime list and map variables', () => {
+  const CAMP_STORY = `version: "1.0"
+meta:
+  title: Camp
+variables:
+  inventory: [rope]
+  trust:
+    alice: 1
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: "Bag: {inventory}"
+    choices:
+      - text: Pack
+        target: pack
+      - text: Light the lamp
+        target: lit
+        condition: '"lamp" in inventory'
+  pack:
+    type: variable
+    id: pack
+    add:
+      inventory: [lamp, rope, tent]
+      trust:
+        bob: 2
+    remove:
+      inventory: tent
+      trust: alice
+    next: start
+  lit:
+    type: passage
+    id: lit
+    content: "{len(inventory)} items, trust {trust}"
+    choices:
+      - text: Drop everything
+        target: start
+        clear: [inventory, trust]
+`;
+
+  it('adds and removes list items and map entries', () => {
+    const rt = createRuntime(parseToStory(CAMP_STORY));
+    expect(start(rt).frame!.choices.map((c) => c.target)).toEqual(['pack']);
+
+    const frame = chooseTarget(rt, 'pack').frame!;
+    expect(frame.text).toBe('Bag: rope, lamp');
+    expect(rt.variables.inventory).toEqual(['rope', 'lamp']);
+    expect(rt.variables.trust).toEqual({ bob: 2 });
+    expect(frame.choices.map((c) => c.target)).toEqual(['pack', 'lit']);
+
+    expect(chooseTarget(rt, 'lit').frame!.text).toBe('2 items, trust bob: 2');
+    chooseTarget(rt, 'start');
+    expect(rt.variables.inventory).toEqual([]);
+    expect(rt.variables.trust).toEqual({});
+  });
+
+  it('never changes story defaults or earlier snapshots', () => {
+    const story = parseToStory(CAMP_STORY);
+    const rt = createRuntime(story);
+    start(rt);
+    const before = snapshot(rt);
+    chooseTarget(rt, 'pack');
+
+    expect(story.variables.get('inventory')).toEqual(['rope']);
+    expect(before.variables.inventory).toEqual(['rope']);
+    expect(getHistory(rt)[0].variables).toEqual({ inventory: ['rope'], trust: { alice: 1 } });
+    rewind(rt);
+    expect(rt.variables.inventory).toEqual(['rope']);
+  });
+
+  it('round-trips collections through saves', () => {
+    const story = parseToStory(CAMP_STORY);
+    const rt = createRuntime(story);
+    start(rt);
+    chooseTarget(rt, 'pack');
+    const loaded = loadGame(story, deserializeSaveData(serializeSaveData(saveGame(rt)))).state!;
+    expect(loaded.variables).toEqual(rt.variables);
+    expect(choose(loaded, '1:lit').frame?.nodeId).toBe('lit');
+  });
+});
+
+describe('runtime visit functions', () => {
+  it('counts visits relative to the current file', () => {
+    const rt = includeRuntime({
+      ...INCLUDE_FILES,
+      'stories/chapters/one.story': INCLUDE_FILES['stories/chapters/one.story'].replace(
+        'content: Chapter start',
+        `content: "Here {visits('start')}x, main {visits('stories/main.story#start')}x, {visited('done')}"`
+      ),
+    });
+    start(rt);
+    expect(chooseTarget(rt, 'chapter').frame!.text).toBe('Here 1x, main 1x, false');
+  });
+
+  it('gates choices on earlier visits', () => {
+    const story = parseToStory(
+      SAVE_STORY.replace(
+        '      - text: Go south\n        target: south',
+        '      - text: Go south\n        target: south\n        condition: "!visited(\'south\')"'
+      )
+    );
+    const rt = createRuntime(story);
+    start(rt);
+    chooseTarget(rt, 'south');
+    expect(chooseTarget(rt, 'start').frame!.choices.map((c) => c.target)).toEqual(['north']);
+  });
+});
@@ -1,35 +1,82 @@
 import type { Story } from '../core/story.js';
 import { parseToStory } from '../core/serializer.js';
-import type { StoryNode, Choice } from '../core/nodes.js';
-import type { VariableName, VariableValue } from '../core/types.js';
+import type { StoryNode, Choice, VariableMutations } from '../core/nodes.js';
+import type {
+  ListValue,
+  MapValue,
+  ScalarValue,
+  VariableName,
+  VariableValue,
+} from '../core/types.js';
 import type {
   RuntimeChoice,
-  RuntimeEvent,
   RuntimeError,
+  RuntimeEvent,
   RuntimeFrame,
+  RuntimeHistoryEntry,
   RuntimeLimits,
+  RuntimeStackFrame,
   RuntimeState,
 } from './types.js';
-import { evaluateExpression } from './expression-parser.js';
+import { evaluateExpression, type ExpressionOptions } from '../core/expression-parser.js';
+import { parseQualifiedNodeId, qualifyNodeId, type StoryLoader } from '../core/loader.js';
+import { TemplateError, renderTemplate } from '../core/template.js';
+import {
+  getTranslationKey,
+  selectTranslation,
+  translateString,
+  type StoryTranslation,
+} from '../core/strings.js';
+import { copyHistory, recordHistory, restoreHistoryEntry, takeCheckpoint } from './history.js';
+import {
+  createRandomState,
+  nextRandom,
+  pickWeighted,
+  randomSeed,
+  type RandomSeed,
+  type RandomState,
+} from './random.js';
 
 const DEFAULT_LIMITS: RuntimeLimits = {
   maxAutoSteps: 500,
   maxIncludeDepth: 8,
   maxRepeats: 200,
+  maxHistory: 100,
 };
 
-export type RuntimeOptions = Partial<RuntimeLimits> & { storyId?: string | undefined };
+export type RuntimeOptions = Partial<RuntimeLimits> & {
+  storyId?: string | undefined;
+  /** Loader used to resolve include nodes against external story files */
+  loader?: StoryLoader | undefined;
+  /** Path of the root story, used as the base for relative include paths */
+  storyPath?: string | undefined;
+  /** PRNG seed; runs with the same seed and choices take the same random paths */
+  seed?: RandomSeed | undefined;
+  /** Locale to show text in; picks the matching entry of `translations` */
+  locale?: string | undefined;
+  /** Translation overlays; text without a current translation stays in the source language */
+  translations?: StoryTranslation[] | undefined;
+};
 
 export function createRuntime(story: Story, options?: RuntimeOptions): RuntimeState {
+  const random = createRandomState(options?.seed ?? randomSeed());
   return {
     storyId: options?.storyId,
     story,
+    storyPath: options?.storyPath,
+    loader: options?.loader,
+    translation: resolveTranslation(options),
+    currentFile: null,
     currentNodeId: null,
+    offeredChoices: [],
     stack: [],
     variables: Object.fromEntries(story.variables.entries()),
     visited: {},
+    random,
+    frameRandom: { ...random },
+    history: [],
     includeDepth: 0,
-    limits: { ...DEFAULT_LIMITS, ...(options ?? {}) },
+    limits: resolveLimits(options),
     events: [],
   };
 }
@@ -47,27 +94,126 @@ export function start(state: RuntimeState, entryId?: string): RuntimeResult {
   if (!startNode) {
     return { error: runtimeError('RT000_NO_START', 'No start node found') };
   }
+  state.currentFile = null;
   state.currentNodeId = startNode;
+  state.history = [];
   return advance(state);
 }
 
-export function choose(state: RuntimeState, targetNodeId: string): RuntimeResult {
-  if (!state.story.hasNode(targetNodeId)) {
-    return { error: runtimeError('RT004_INVALID_CHOICE', `Target node ${targetNodeId} not found`) };
+/**
+ * Take one of the choices offered by the last frame.
+ *
+ * @param choiceId - `RuntimeChoice.id` from the last frame
+ * @returns The next frame, or `RT004_INVALID_CHOICE` if the choice was not offered
+ */
+export function choose(state: RuntimeState, choiceId: string): RuntimeResult {
+  const nodeId = state.currentNodeId
+    ? qualifyNodeId(state.currentFile, state.currentNodeId)
+    : undefined;
+  const offered = state.offeredChoices.find((choice) => choice.id === choiceId);
+  const taken = offered ? findOfferedChoice(state, offered, nodeId) : undefined;
+  if (!offered || !taken) {
+    return {
+      error: runtimeError('RT004_INVALID_CHOICE', `Choice ${choiceId} was not offered`, nodeId, {
+        choiceId,
+        offered: state.offeredChoices.map((choice) => choice.id),
+      }),
+    };
+  }
+
+  const checkpoint = takeCheckpoint(state);
+  const events: RuntimeEvent[] = [];
+  if (hasMutations(taken)) {
+    applyVariableMutations(taken, state.variables);
+    events.push({
+      code: 'ev_choice_effects',
+      message: `choice "${offered.text}" updated variables`,
+      severity: 'info',
+      nodeId,
+    });
+  }
+
+  state.currentNodeId = taken.target;
+  const result = advance(state, events);
+  recordHistory(state, checkpoint, offered);
+  return result;
+}
+
+/**
+ * Rebuild the frame for the current node, e.g. after hydrate() or loadGame().
+ * The current node is not counted as a new visit.
+ */
+export function resume(state: RuntimeState): RuntimeResult {
+  if (!state.currentNodeId) {
+    return { error: runtimeError('RT000_NO_START', 'Nothing to resume') };
   }
-  state.currentNodeId = targetNodeId;
+  const key = qualifyNodeId(state.currentFile, state.currentNodeId);
+  if (state.visited[key]) state.visited[key] -= 1;
   return advance(state);
 }
 
+/**
+ * Undo the last `steps` choices and rebuild the frame they were taken from.
+ * The frame offers the same choices as before, and rebuilding it does not
+ * advance the PRNG, so replaying a choice takes the same random paths.
+ *
+ * @returns The restored frame, or `RT008_NO_HISTORY` if fewer steps are recorded
+ */
+export function rewind(state: RuntimeState, steps = 1): RuntimeResult {
+  const available = state.history.length;
+  if (!Number.isInteger(steps) || steps < 1 || steps > available) {
+    return {
+      error: runtimeError(
+        'RT008_NO_HISTORY',
+        `Cannot rewind ${steps} step(s); ${available} recorded`,
+        undefined,
+        { steps, available }
+      ),
+    };
+  }
+
+  for (const entry of state.history.splice(available - steps).reverse()) {
+    restoreHistoryEntry(state, entry);
+  }
+  // Rebuild the frame, then put back the exact PRNG states and offered choices
+  const random = { ...state.random };
+  const frameRandom = state.frameRandom;
+  const offered = state.offeredChoices;
+  const result = resume(state);
+  state.random = random;
+  state.frameRandom = frameRandom;
+  state.offeredChoices = offered;
+  if (result.frame) result.frame.choices = offered.map((c) => ({ ...c }));
+  return result;
+}
+
+/**
+ * Recorded undo steps, oldest first.
+ */
+export function getHistory(state: RuntimeState): RuntimeHistoryEntry[] {
+  return copyHistory(state.history);
+}
+
 export type RuntimeResult = { frame?: RuntimeFrame; error?: RuntimeError };
 
 export type RuntimeSnapshot = {
+  /** File of currentNodeId; missing in saves made before includes were resolved */
+  currentFile?: string | null | undefined;
   currentNodeId: string | null;
-  stack: Array<{ returnTo?: string | undefined; includeId: string }>;
+  /** Choices of the last frame; missing in older saves (resume() restores them) */
+  offeredChoices?: RuntimeChoice[] | undefined;
+  stack: RuntimeStackFrame[];
   variables: Record<string, VariableValue>;
   visited: Record<string, number>;
+  /** PRNG state; missing in saves made before seeded randomness */
+  random?: RandomState | undefined;
+  /** PRNG state the offered choices' conditions drew from; missing in older saves */
+  frameRandom?: RandomState | undefined;
+  /** Undo history; optional in saves */
+  history?: RuntimeHistoryEntry[] | undefined;
   includeDepth: number;
-  limits: RuntimeLimits;
+  /** Missing limits use the defaults */
+  limits: Partial<RuntimeLimits>;
 };
 
 /**
@@ -98,10 +244,15 @@ export type RuntimeSaveData = {
 
 export function snapshot(state: RuntimeState): RuntimeSnapshot {
   return {
+    currentFile: state.currentFile,
     currentNodeId: state.currentNodeId,
+    offeredChoices: state.offeredChoices.map((c) => ({ ...c })),
     stack: state.stack.map((f) => ({ ...f })),
     variables: { ...state.variables },
     visited: { ...state.visited },
+    random: { ...state.random },
+    frameRandom: { ...state.frameRandom },
+    history: copyHistory(state.history),
     includeDepth: state.includeDepth,
     limits: { ...state.limits },
   };
@@ -112,15 +263,27 @@ export function hydrate(
   snap: RuntimeSnapshot,
   options?: RuntimeOptions
 ): RuntimeState {
+  const limits = resolveLimits(options, snap.limits);
+  const random = snap.random
+    ? { ...snap.random }
+    : createRandomState(options?.seed ?? randomSeed());
   return {
     story,
     storyId: options?.storyId,
+    storyPath: options?.storyPath,
+    loader: options?.loader,
+    translation: resolveTranslation(options),
+    currentFile: snap.currentFile ?? null,
     currentNodeId: snap.currentNodeId,
+    offeredChoices: (snap.offeredChoices ?? []).map((c) => ({ ...c })),
     stack: snap.stack.map((f) => ({ ...f })),
     variables: { ...snap.variables },
     visited: { ...snap.visited },
+    random,
+    frameRandom: { ...(snap.frameRandom ?? random) },
+    history: limits.maxHistory > 0 ? copyHistory(snap.history ?? []).slice(-limits.maxHistory) : [],
     includeDepth: snap.includeDepth,
-    limits: { ...DEFAULT_LIMITS, ...(options ?? {}), ...(snap.limits ?? {}) },
+    limits,
     events: [],
   };
 }
@@ -129,7 +292,7 @@ export function hydrate(
  * Save the current game state to a JSON-serializable format.
  *
  * @param state - The runtime state to save
- * @param options - Optional save metadata
+ * @param options - Optional save metadata; `includeHistory` keeps undo history in the save
  * @returns A RuntimeSaveData object that can be serialized to JSON
  *
  * @example
@@ -140,14 +303,16 @@ export function hydrate(
  */
 export function saveGame(
   state: RuntimeState,
-  options?: { saveName?: string; playTimeMs?: number }
+  options?: { saveName?: string; playTimeMs?: number; includeHistory?: boolean }
 ): RuntimeSaveData {
+  const snap = snapshot(state);
+  if (!options?.includeHistory) delete snap.history;
   return {
     version: '1.0',
     storyId: state.storyId,
     savedAt: new Date().toISOString(),
     saveName: options?.saveName,
-    snapshot: snapshot(state),
+    snapshot: snap,
     metadata: {
       storyTitle: state.story.meta.title,
       currentNodeId: state.currentNodeId ?? undefined,
@@ -170,7 +335,7 @@ export function saveGame(
  * const result = loadGame(story, saveData);
  * if (result.state) {
  *   // Continue playing from saved state
- *   const frame = advance(result.state);
+ *   const frame = resume(result.state);
  * }
  * ```
  */
@@ -199,29 +364,33 @@ export function loadGame(
     };
   }
 
+  const state = hydrate(story, saveData.snapshot, options);
+
   // Validate current node exists in story
-  if (saveData.snapshot.currentNodeId && !story.hasNode(saveData.snapshot.currentNodeId)) {
+  if (
+    state.currentNodeId &&
+    !storyForFile(state, state.currentFile)?.hasNode(state.currentNodeId)
+  ) {
     return {
       error: runtimeError(
         'RT022_MISSING_NODE',
-        `Saved node "${saveData.snapshot.currentNodeId}" not found in story (story may have been modified)`
+        `Saved node "${qualifyNodeId(state.currentFile, state.currentNodeId)}" not found in story (story may have been modified)`
       ),
     };
   }
 
   // Validate stack nodes exist
-  for (const frame of saveData.snapshot.stack) {
-    if (frame.returnTo && !story.hasNode(frame.returnTo)) {
+  for (const frame of state.stack) {
+    if (frame.returnTo && !storyForFile(state, frame.file ?? null)?.hasNode(frame.returnTo)) {
       return {
         error: runtimeError(
           'RT022_MISSING_NODE',
-          `Return node "${frame.returnTo}" not found in story`
+          `Return node "${qualifyNodeId(frame.file ?? null, frame.returnTo)}" not found in story`
         ),
       };
     }
   }
 
-  const state = hydrate(story, saveData.snapshot, options);
   return { state };
 }
 
@@ -251,69 +420,101 @@ export function deserializeSaveData(json: string): RuntimeSaveData {
   return data;
 }
 
-function advance(state: RuntimeState): RuntimeResult {
+/**
+ * Walk from the current node to the next frame and record the choices it
+ * offers, so the following choose() can be checked against them.
+ */
+function advance(state: RuntimeState, events: RuntimeEvent[] = []): RuntimeResult {
+  const result = walk(state, events);
+  state.offeredChoices = result.frame ? result.frame.choices.map((c) => ({ ...c })) : [];
+  return result;
+}
+
+function walk(state: RuntimeState, events: RuntimeEvent[]): RuntimeResult {
   let steps = 0;
   const max = state.limits.maxAutoSteps;
-  state.events = [];
+  state.events = events;
+  // Text of included passages that ended and returned, shown on the next frame
+  const closing: string[] = [];
 
   while (steps++ < max) {
-    const node = state.currentNodeId ? state.story.getNode(state.currentNodeId) : undefined;
-    if (!node)
+    const story = storyForFile(state, state.currentFile);
+    const node = state.currentNodeId ? story?.getNode(state.currentNodeId) : undefined;
+    if (!story || !node)
       return {
         error: runtimeError(
           'RT001_MISSING_NODE',
           'Node not found',
-          state.currentNodeId ?? undefined
+          state.currentNodeId ? qualifyNodeId(state.currentFile, state.currentNodeId) : undefined
         ),
       };
 
-    const visits = (state.visited[node.id] ?? 0) + 1;
-    state.visited[node.id] = visits;
+    const key = qualifyNodeId(state.currentFile, node.id);
+    const visits = (state.visited[key] ?? 0) + 1;
+    state.visited[key] = visits;
     if (visits > state.limits.maxRepeats) {
-      return { error: runtimeError('RT010_STEP_LIMIT', 'Exceeded repeat limit', node.id) };
+      return { error: runtimeError('RT010_STEP_LIMIT', 'Exceeded repeat limit', key) };
     }
 
     switch (node.type) {
       case 'passage': {
-        const frame = buildPassageFrame(state, node);
-        return { frame };
+        const frame = buildPassageFrame(state, node, closing);
+        // A null frame means an include ended and returned to its caller
+        if (!frame) continue;
+        return { frame: withClosingText(frame, closing) };
       }
       case 'choice': {
         const frame = buildChoiceFrame(state, node);
-        return { frame };
+        return { frame: withClosingText(frame, closing) };
       }
       case 'condition': {
-        const branch = evaluateExpression(node.expression, state.variables);
+        const branch = evaluateExpression(
+          node.expression,
+          state.variables,
+          expressionOptions(state)
+        );
         state.events.push({
           code: 'ev_condition',
           message: `condition ${node.expression} -> ${branch}`,
           severity: 'info',
-          nodeId: node.id,
+          nodeId: key,
         });
         state.currentNodeId = branch ? node.ifTrue : node.ifFalse;
         continue;
       }
+      case 'random': {
+        const index = pickWeighted(
+          state.random,
+          node.branches.map((b) => b.weight ?? 1)
+        );
+        const target = node.branches[index].target;
+        state.events.push({
+          code: 'ev_random',
+          message: `random branch ${index} -> ${target}`,
+          severity: 'info',
+          nodeId: key,
+          data: { index, target },
+        });
+        state.currentNodeId = target;
+        continue;
+      }
       case 'variable': {
         applyVariableMutations(node, state.variables);
         state.events.push({
           code: 'ev_variables',
           message: 'variables updated',
           severity: 'info',
-          nodeId: node.id,
+          nodeId: key,
         });
         state.currentNodeId = node.next;
         continue;
       }
       case 'include': {
         if (state.includeDepth >= state.limits.maxIncludeDepth) {
-          return { error: runtimeError('RT001_INCLUDE_DEPTH', 'Include depth exceeded', node.id) };
+          return { error: runtimeError('RT001_INCLUDE_DEPTH', 'Include depth exceeded', key) };
         }
-        state.includeDepth += 1;
-        state.stack.push({ returnTo: node.return, includeId: node.id });
-        const entry = node.entry ?? state.story.getStartNode()?.id;
-        if (!entry)
-          return { error: runtimeError('RT000_NO_START', 'Include missing entry', node.id) };
-        state.currentNodeId = entry;
+        const error = enterInclude(state, story, node);
+        if (error) return { error };
         continue;
       }
       case 'comment': {
@@ -321,12 +522,12 @@ function advance(state: RuntimeState): RuntimeResult {
           code: 'ev_comment',
           message: 'comment skipped',
           severity: 'info',
-          nodeId: node.id,
+          nodeId: key,
         });
-        const next = state.story.getOutgoingEdges(node.id)[0]?.target;
+        const next = story.getOutgoingEdges(node.id)[0]?.target;
         if (!next)
           return {
-            error: runtimeError('RT005_COMMENT_DEADEND', 'Comment has no outgoing edge', node.id),
+            error: runtimeError('RT005_COMMENT_DEADEND', 'Comment has no outgoing edge', key),
           };
         state.currentNodeId = next;
         continue;
@@ -347,24 +548,31 @@ function advance(state: RuntimeState): RuntimeResult {
   return { error: runtimeError('RT010_STEP_LIMIT', 'Exceeded auto-step limit') };
 }
 
+/**
+ * @param closing - Collects the text of a passage that ends an include, since
+ *   the frame shown next belongs to the caller
+ */
 function buildPassageFrame(
   state: RuntimeState,
-  node: Extract<StoryNode, { type: 'passage' }>
-): RuntimeFrame {
-  const choices = (node.choices ?? [])
-    .map((choice, idx) => ({ choice, idx }))
-    .filter(({ choice }) => isChoiceVisible(choice, state.variables, state.events, node.id))
-    .map(({ choice, idx }) => runtimeChoice(choice, idx));
+  node: Extract<StoryNode, { type: 'passage' }>,
+  closing: string[]
+): RuntimeFrame | null {
+  const nodeId = qualifyNodeId(state.currentFile, node.id);
+  state.frameRandom = { ...state.random };
+  const choices = visibleChoices(state, node, nodeId).map(({ choice, idx }) =>
+    runtimeChoice(state, choice, idx, nodeId)
+  );
 
   const ending = choices.length === 0 || node.ending === true;
+  const text = renderText(state, node.content, nodeId, 'content');
   if (ending && state.stack.length > 0) {
-    const frame = popReturn(state);
-    if (frame) return frame;
+    closing.push(text);
+    return popReturn(state);
   }
 
   return {
-    nodeId: node.id,
-    text: node.content,
+    nodeId,
+    text,
     choices,
     ending,
     variables: { ...state.variables },
@@ -372,14 +580,38 @@ function buildPassageFrame(
   };
 }
 
+/**
+ * A passage's choices whose conditions hold, in order. Conditions draw from
+ * the PRNG, so replaying them from the same state gives the same choices.
+ */
+function visibleChoices(
+  state: RuntimeState,
+  node: Extract<StoryNode, { type: 'passage' }>,
+  nodeId: string
+): { choice: Choice; idx: number }[] {
+  return (node.choices ?? [])
+    .map((choice, idx) => ({ choice, idx }))
+    .filter(({ choice }) => isChoiceVisible(choice, state, nodeId));
+}
+
+/**
+ * Put the closing text of included passages before the frame's own text,
+ * as separate paragraphs.
+ */
+function withClosingText(frame: RuntimeFrame, closing: string[]): RuntimeFrame {
+  if (closing.length === 0) return frame;
+  return { ...frame, text: [...closing, frame.text].filter(Boolean).join('\n\n') };
+}
+
 function buildChoiceFrame(
   state: RuntimeState,
   node: Extract<StoryNode, { type: 'choice' }>
 ): RuntimeFrame {
-  const choices = node.choices.map((choice, idx) => runtimeChoice(choice, idx));
+  const nodeId = qualifyNodeId(state.currentFile, node.id);
+  const choices = node.choices.map((choice, idx) => runtimeChoice(state, choice, idx, nodeId));
   return {
-    nodeId: node.id,
-    text: node.prompt ?? '',
+    nodeId,
+    text: renderText(state, node.prompt ?? '', nodeId, 'prompt'),
     choices,
     ending: choices.length === 0,
     variables: { ...state.variables },
@@ -387,23 +619,60 @@ function buildChoiceFrame(
   };
 }
 
-function runtimeChoice(choice: Choice, idx: number): RuntimeChoice {
+function runtimeChoice(
+  state: RuntimeState,
+  choice: Choice,
+  idx: number,
+  nodeId: string
+): RuntimeChoice {
+  const target = qualifyNodeId(state.currentFile, choice.target);
   return {
-    id: `${idx}:${choice.target}`,
-    text: choice.text,
-    target: choice.target,
+    id: choiceId(idx, target),
+    text: renderText(state, choice.text, nodeId, `choices.${idx}`),
+    target,
   };
 }
 
-function isChoiceVisible(
-  choice: Choice,
-  vars: Record<string, VariableValue>,
-  events: RuntimeEvent[],
-  nodeId: string
-): boolean {
+/**
+ * Stable choice ID: position on the node plus qualified target.
+ */
+function choiceId(idx: number, target: string): string {
+  return `${idx}:${target}`;
+}
+
+/**
+ * Render `{...}` templates in display text, translated if the state has a
+ * current translation for the field. Broken templates are shown as written
+ * and reported as a warning event instead of failing the frame.
+ */
+function renderText(state: RuntimeState, source: string, nodeId: string, field: string): string {
+  const text = state.translation
+    ? (translateString(state.translation, getTranslationKey(nodeId, field), source) ?? source)
+    : source;
+  try {
+    return renderTemplate(text, state.variables, expressionOptions(state));
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error;
+    state.events.push({
+      code: 'ev_template_error',
+      message: `template error: ${error.message}`,
+      severity: 'warning',
+      nodeId,
+      data: { position: error.position },
+    });
+    return text;
+  }
+}
+
+function resolveTranslation(options: RuntimeOptions | undefined): StoryTranslation | undefined {
+  if (!options?.locale || !options.translations) return undefined;
+  return selectTranslation(options.translations, options.locale);
+}
+
+function isChoiceVisible(choice: Choice, state: RuntimeState, nodeId: string): boolean {
   if (!choice.condition) return true;
-  const ok = evaluateExpression(choice.condition, vars);
-  events.push({
+  const ok = evaluateExpression(choice.condition, state.variables, expressionOptions(state));
+  state.events.push({
     code: 'ev_choice_condition',
     message: `choice condition ${choice.condition} -> ${ok}`,
     severity: 'info',
@@ -412,40 +681,155 @@ function isChoiceVisible(
   return ok;
 }
 
+/**
+ * Expression context bound to the run's seeded PRNG and visit counts.
+ * Plain node IDs in visited()/visits() refer to the current file;
+ * `path#id` names a node in another file.
+ */
+function expressionOptions(state: RuntimeState): ExpressionOptions {
+  return {
+    random: () => nextRandom(state.random),
+    visits: (id) => {
+      const { file, nodeId } = parseQualifiedNodeId(id);
+      const key =
+        file === undefined
+          ? qualifyNodeId(state.currentFile, nodeId)
+          : qualifyNodeId(file === state.storyPath ? null : file, nodeId);
+      return state.visited[key] ?? 0;
+    },
+  };
+}
+
 // evaluateExpression is now imported from ./expression-parser.js
 // This provides a safe AST-based expression evaluator instead of the
 // previous insecure new Function() implementation
 
+/**
+ * Look up an offered choice on the current node. Offered choices may come
+ * from a client-supplied snapshot, so the ID's index and target must match
+ * the story itself, and a passage must still offer the choice when its
+ * conditions are replayed from the PRNG state the frame drew them with.
+ * Replaying uses copies, so the run's own sequence and events are left alone.
+ */
+function findOfferedChoice(
+  state: RuntimeState,
+  offered: RuntimeChoice,
+  nodeId: string | undefined
+): Choice | undefined {
+  if (!state.currentNodeId || !nodeId) return undefined;
+  const node = storyForFile(state, state.currentFile)?.getNode(state.currentNodeId);
+  if (node?.type !== 'passage' && node?.type !== 'choice') return undefined;
+
+  const index = Number(offered.id.slice(0, offered.id.indexOf(':')));
+  const choice = node.choices?.[index];
+  if (!choice) return undefined;
+  const target = qualifyNodeId(state.currentFile, choice.target);
+  if (offered.id !== choiceId(index, target) || offered.target !== target) return undefined;
+  if (node.type === 'choice') return choice;
+  const replay = { ...state, random: { ...state.frameRandom }, events: [] };
+  return visibleChoices(replay, node, nodeId).some(({ idx }) => idx === index) ? choice : undefined;
+}
+
+function hasMutations(mutations: VariableMutations): boolean {
+  return Boolean(
+    mutations.set ||
+    mutations.increment ||
+    mutations.decrement ||
+    mutations.add ||
+    mutations.remove ||
+    mutations.clear
+  );
+}
+
 function applyVariableMutations(
-  node: Extract<StoryNode, { type: 'variable' }>,
+  mutations: VariableMutations,
   vars: Record<string, VariableValue>
 ): void {
-  if (node.set) {
-    for (const [key, value] of Object.entries(node.set)) {
+  if (mutations.set) {
+    for (const [key, value] of Object.entries(mutations.set)) {
       vars[key as VariableName] = value as VariableValue;
     }
   }
-  if (node.increment) {
-    for (const [key, delta] of Object.entries(node.increment)) {
+  if (mutations.increment) {
+    for (const [key, delta] of Object.entries(mutations.increment)) {
       const current = Number(vars[key as VariableName] ?? 0);
       vars[key as VariableName] = current + Number(delta);
     }
   }
-  if (node.decrement) {
-    for (const [key, delta] of Object.entries(node.decrement)) {
+  if (mutations.decrement) {
+    for (const [key, delta] of Object.entries(mutations.decrement)) {
       const current = Number(vars[key as VariableName] ?? 0);
       vars[key as VariableName] = current - Number(delta);
     }
   }
+  // Lists and maps are replaced, never changed in place, so snapshots,
+  // frames and undo history can share them safely
+  if (mutations.add) {
+    for (const [key, value] of Object.entries(mutations.add)) {
+      const updated = addToCollection(vars[key], value);
+      if (updated !== undefined) vars[key] = updated;
+    }
+  }
+  if (mutations.remove) {
+    for (const [key, value] of Object.entries(mutations.remove)) {
+      const updated = removeFromCollection(vars[key], value);
+      if (updated !== undefined) vars[key] = updated;
+    }
+  }
+  if (mutations.clear) {
+    for (const key of mutations.clear) {
+      const current = vars[key];
+      if (Array.isArray(current)) vars[key] = [];
+      else if (typeof current === 'object') vars[key] = {};
+    }
+  }
+}
+
+/**
+ * Add list items (skipping ones already present) or merge map entries.
+ * Missing variables become a new list or map; other types are left alone.
+ */
+function addToCollection(
+  current: VariableValue | undefined,
+  value: VariableValue
+): ListValue | MapValue | undefined {
+  const isMap = typeof value === 'object' && !Array.isArray(value);
+  if (isMap) {
+    if (current === undefined) return { ...value };
+    if (typeof current !== 'object' || Array.isArray(current)) return undefined;
+    return { ...current, ...value };
+  }
+
+  const list = current ?? [];
+  if (!Array.isArray(list)) return undefined;
+  const items = (Array.isArray(value) ? value : [value]).filter(
+    (item, index, all) => !list.includes(item) && all.indexOf(item) === index
+  );
+  return [...list, ...items];
+}
+
+/**
+ * Remove list items, or map entries by key.
+ */
+function removeFromCollection(
+  current: VariableValue | undefined,
+  value: ScalarValue | ListValue
+): ListValue | MapValue | undefined {
+  const items = Array.isArray(value) ? value : [value];
+  if (Array.isArray(current)) return current.filter((item) => !items.includes(item));
+  if (current === undefined || typeof current !== 'object') return undefined;
+  const keys = new Set(items.map(String));
+  return Object.fromEntries(Object.entries(current).filter(([key]) => !keys.has(key)));
 }
 
 function popReturn(state: RuntimeState): RuntimeFrame | null {
   const frame = state.stack.pop();
   state.includeDepth = Math.max(0, state.includeDepth - 1);
   if (!frame) return null;
+  const includeId = qualifyNodeId(frame.file ?? null, frame.includeId);
   if (!frame.returnTo) {
     return {
-      nodeId: frame.includeId,
+      nodeId: includeId,
       text: '',
       choices: [],
       ending: true,
@@ -456,15 +840,116 @@ function popReturn(state: RuntimeState): RuntimeFrame | null {
           code: 'ev_include_return',
           message: 'include completed',
           severity: 'info',
-          nodeId: frame.includeId,
+          nodeId: includeId,
         },
       ],
     };
   }
+  state.currentFile = frame.file ?? null;
   state.currentNodeId = frame.returnTo;
   return null;
 }
 
-function runtimeError(code: string, message: string, nodeId?: string): RuntimeError {
-  return { code, message, nodeId };
+/**
+ * Enter an include node: resolve and load the referenced file, push a
+ * return frame, and move to the included entry point.
+ *
+ * Without a loader the include stays inside the current story (legacy
+ * behavior, used by hosts that have no access to sibling files).
+ */
+function enterInclude(
+  state: RuntimeState,
+  story: Story,
+  node: Extract<StoryNode, { type: 'include' }>
+): RuntimeError | null {
+  const includeId = qualifyNodeId(state.currentFile, node.id);
+  let file = state.currentFile;
+  let target = story;
+
+  if (state.loader) {
+    const resolved = state.loader.resolve(node.path, state.currentFile ?? state.storyPath ?? null);
+    file = resolved === state.storyPath ? null : resolved;
+
+    const active = new Set<string | null>([
+      ...state.stack.map((frame) => frame.file ?? null),
+      state.currentFile,
+    ]);
+    if (active.has(file)) {
+      return runtimeError(
+        'RT006_INCLUDE_CYCLE',
+        `Include cycle detected at ${node.path}`,
+        includeId,
+        {
+          path: node.path,
+          chain: [...active].map((f) => f ?? state.storyPath ?? '<root>'),
+        }
+      );
+    }
+
+    try {
+      target = file === null ? state.story : state.loader.load(file);
+    } catch (error) {
+      return runtimeError(
+        'RT007_INCLUDE_LOAD',
+        `Cannot load include ${node.path}: ${error instanceof Error ? error.message : String(error)}`,
+        includeId,
+        { path: node.path }
+      );
+    }
+
+    // Included files may declare their own variables; shared state wins
+    for (const [name, value] of target.variables.entries()) {
+      if (!(name in state.variables)) state.variables[name] = value;
+    }
+  }
+
+  const entry = node.entry ?? target.getStartNode()?.id;
+  if (!entry) return runtimeError('RT000_NO_START', 'Include missing entry', includeId);
+
+  state.includeDepth += 1;
+  state.stack.push({ returnTo: node.return, includeId: node.id, file: state.currentFile });
+  state.events.push({
+    code: 'ev_include_enter',
+    message: `include ${node.path}`,
+    severity: 'info',
+    nodeId: includeId,
+    data: { file: file ?? undefined },
+  });
+  state.currentFile = file;
+  state.currentNodeId = entry;
+  return null;
+}
+
+/**
+ * Look up the story a file refers to (null is the root story).
+ * Included files come from the loader cache.
+ */
+function storyForFile(state: RuntimeState, file: string | null): Story | undefined {
+  if (file === null) return state.story;
+  if (!state.loader) return undefined;
+  try {
+    return state.loader.load(file);
+  } catch (_error) {
+    return undefined;
+  }
+}
+
+function resolveLimits(...sources: Array<Partial<RuntimeLimits> | undefined>): RuntimeLimits {
+  const limits = { ...DEFAULT_LIMITS };
+  for (const source of sources) {
+    if (source?.maxAutoSteps !== undefined) limits.maxAutoSteps = source.maxAutoSteps;
+    if (source?.maxIncludeDepth !== undefined) limits.maxIncludeDepth = source.maxIncludeDepth;
+    if (source?.maxRepeats !== undefined) limits.maxRepeats = source.maxRepeats;
+    if (source?.maxHistory !== undefined) limits.maxHistory = source.maxHistory;
+  }
+  return limits;
+}
+
+function runtimeError(
+  code: string,
+  message: string,
+  nodeId?: string,
+  data?: Record<string, unknown>
+): RuntimeError {
+  return { code, message, nodeId, data };
 }
@@ -1,5 +1,8 @@
 import type { VariableValue } from '../core/types.js';
 import type { Story } from '../core/story.js';
+import type { StoryTranslation } from '../core/strings.js';
+import type { StoryLoader } from '../core/loader.js';
+import type { RandomState } from './random.js';
 
 export type RuntimeChoice = {
   id: string;
@@ -35,15 +38,67 @@ export type RuntimeLimits = {
   maxAutoSteps: number;
   maxIncludeDepth: number;
   maxRepeats: number;
+  /** Choices kept for rewind(); 0 disables history */
+  maxHistory: number;
+};
+
+/**
+ * An include call waiting to return.
+ * `file` is the story file that holds the include node and its return
+ * target; null or missing means the root story.
+ */
+export type RuntimeStackFrame = {
+  returnTo?: string | undefined;
+  includeId: string;
+  file?: string | null | undefined;
+};
+
+/**
+ * One step of undo history: where the run stood before a choice, plus the
+ * previous values of only the variables and visit counts the step changed.
+ */
+export type RuntimeHistoryEntry = {
+  /** The choice taken */
+  choiceId: string;
+  choiceText: string;
+  /** Position and choices before the choice */
+  currentFile: string | null;
+  currentNodeId: string;
+  offeredChoices: RuntimeChoice[];
+  stack: RuntimeStackFrame[];
+  includeDepth: number;
+  random: RandomState;
+  /** PRNG state the frame's choice conditions drew from; missing in older saves */
+  frameRandom?: RandomState | undefined;
+  /** Previous values of changed variables; null marks variables the step created */
+  variables: Record<string, VariableValue | null>;
+  /** Previous visit counts of nodes the step entered (0 = never visited) */
+  visited: Record<string, number>;
 };
 
 export type RuntimeState = {
   storyId?: string | undefined;
   story: Story;
+  /** Resolved path of the root story, used to resolve its include paths */
+  storyPath?: string | undefined;
+  /** Loader for included story files; includes stay in the root story without one */
+  loader?: StoryLoader | undefined;
+  /** Translation overlay for the runtime's locale; text is shown untranslated without one */
+  translation?: StoryTranslation | undefined;
+  /** File that currentNodeId belongs to (null for the root story) */
+  currentFile: string | null;
   currentNodeId: string | null;
-  stack: Array<{ returnTo?: string | undefined; includeId: string }>;
+  /** Choices of the last frame; choose() only accepts one of these */
+  offeredChoices: RuntimeChoice[];
+  stack: RuntimeStackFrame[];
   variables: Record<string, VariableValue>;
   visited: Record<string, number>;
+  /** Seeded PRNG behind random(), chance() and random nodes */
+  random: RandomState;
+  /** PRNG state the last frame's choice conditions drew from, so choose() can replay them */
+  frameRandom: RandomState;
+  /** Undo history, oldest first, at most limits.maxHistory entries */
+  history: RuntimeHistoryEntry[];
   includeDepth: number;
   limits: RuntimeLimits;
   events: RuntimeEvent[];
@@ -0,0 +1,180 @@
+/**
+ * Tests for the state-space explorer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from '../core/serializer.js';
+import { exploreStory } from './explore.js';
+
+/** The key can only be taken once the door is open, and the door needs the key */
+const CATCH_22 = parseToStory(`version: "1.0"
+meta:
+  title: Catch-22
+variables:
+  has_key: false
+  door_open: false
+nodes:
+  hall:
+    type: passage
+    id: hall
+    start: true
+    content: A hall and a door.
+    choices:
+      - text: Open the door
+        target: door
+      - text: Take the key from behind the door
+        target: take_key
+        condition: door_open
+  take_key:
+    type: variable
+    id: take_key
+    set:
+      has_key: true
+    next: hall
+  door:
+    type: condition
+    id: door
+    expression: has_key
+    ifTrue: outside
+    ifFalse: locked
+  locked:
+    type: passage
+    id: locked
+    content: Locked.
+    choices:
+      - text: Back
+        target: hall
+  outside:
+    type: passage
+    id: outside
+    content: Free.
+    ending: true
+`);
+
+describe('exploreStory', () => {
+  it('finds what conditions make unreachable, and the soft-locks they cause', () => {
+    const report = exploreStory(CATCH_22);
+    expect(report).toMatchObject({
+      complete: true,
+      states: 2,
+      transitions: 2,
+      depth: 1,
+      coverage: {
+        nodes: { reached: 3, total: 5 },
+        choices: { reached: 2, total: 3 },
+        endings: { reached: 0, total: 1 },
+      },
+      unreachableNodes: ['take_key', 'outside'],
+      unreachableChoices: [{ nodeId: 'hall', index: 1, text: 'Take the key from behind the door' }],
+      unreachableEndings: ['outside'],
+      errors: [],
+    });
+    expect(report.softLocks).toEqual([
+      { nodeId: 'hall', kind: 'no-ending', choices: [], choiceIds: [] },
+      { nodeId: 'locked', kind: 'no-ending', choices: ['Open the door'], choiceIds: ['0:door'] },
+    ]);
+  });
+
+  it('covers a story whose conditions can all be met', () => {
+    const fixed = parseToStory(
+      JSON.stringify({
+        ...CATCH_22.toDocument(),
+        nodes: {
+          ...CATCH_22.toDocument().nodes,
+          locked: {
+            type: 'passage',
+            id: 'locked',
+            content: 'Locked. Something glints behind it.',
+            choices: [
+              { text: 'Back', target: 'hall' },
+              { text: 'Reach through the gap', target: 'open_gap' },
+            ],
+          },
+          open_gap: { type: 'variable', id: 'open_gap', set: { door_open: true }, next: 'hall' },
+        },
+      })
+    );
+    const report = exploreStory(fixed);
+    expect(report.complete).toBe(true);
+    expect(report.unreachableNodes).toEqual([]);
+    expect(report.unreachableChoices).toEqual([]);
+    expect(report.unreachableEndings).toEqual([]);
+    expect(report.softLocks).toEqual([]);
+  });
+
+  it('reports dead ends where every choice is hidden', () => {
+    const story = parseToStory(`version: "1.0"
+meta:
+  title: Dead End
+variables:
+  torch: false
+nodes:
+  cave:
+    type: passage
+    id: cave
+    start: true
+    content: It is dark.
+    choices:
+      - text: Light the torch
+        target: lit
+        condition: torch
+  lit:
+    type: passage
+    id: lit
+    content: Light.
+    ending: true
+`);
+    expect(exploreStory(story).softLocks).toEqual([
+      { nodeId: 'cave', kind: 'dead-end', choices: [], choiceIds: [] },
+    ]);
+  });
+
+  it('samples random branches and stops at the limits', () => {
+    const story = parseToStory(`version: "1.0"
+meta:
+  title: Coin
+variables:
+  flips: 0
+nodes:
+  start:
+    type: passage
+    id: start
+    start: true
+    content: Flip a coin?
+    choices:
+      - text: Flip
+        target: flip
+  flip:
+    type: random
+    id: flip
+    branches:
+      - target: heads
+      - target: tails
+  heads:
+    type: passage
+    id: heads
+    content: Heads.
+    ending: true
+  tails:
+    type: passage
+    id: tails
+    content: Tails.
+    choices:
+      - text: Again
+        target: count
+  count:
+    type: variable
+    id: count
+    increment:
+      flips: 1
+    next: start
+`);
+    const report = exploreStory(story, { maxDepth: 3 });
+    expect(report.unreachableNodes).toEqual([]);
+    expect(report.complete).toBe(false);
+    expect(report.depth).toBe(3);
+    expect(report.softLocks).toEqual([]);
+
+    expect(exploreStory(story, { maxStates: 2 })).toMatchObject({ complete: false, states: 2 });
+  });
+});
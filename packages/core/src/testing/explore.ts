@@ -0,0 +1,303 @@
+/**
+ * State-Space Explorer
+ *
+ * A bounded model checker for stories. Where the validator follows edges
+ * and ignores conditions, the explorer plays every choice of every state
+ * through the runtime, so conditions, variable effects and includes behave
+ * exactly as in play. A state is the current node, the include stack and
+ * the variables (plus visit counts when the story reads them), so each
+ * distinct situation is expanded once.
+ *
+ * From the explored graph it reports what no play can reach, endings that
+ * can never be seen, dead ends where every choice is hidden, and states
+ * from which no ending can be reached any more. Random nodes and random()
+ * are explored by sampling several PRNG states per choice, so rare random
+ * branches may be missed.
+ */
+
+import type { Story } from '../core/story.js';
+import type { StoryNode } from '../core/nodes.js';
+import { createRandomState } from '../runtime/random.js';
+import { parseQualifiedNodeId, qualifyNodeId } from '../core/loader.js';
+import {
+  choose,
+  createRuntime,
+  hydrate,
+  snapshot,
+  start,
+  type RuntimeOptions,
+  type RuntimeResult,
+  type RuntimeSnapshot,
+} from '../runtime/runtime.js';
+import type { RuntimeError, RuntimeFrame } from '../runtime/types.js';
+
+const USES_RANDOM = /\b(random|chance)\s*\(/;
+const USES_VISITS = /\b(visited|visits)\s*\(/;
+
+export interface ExploreOptions extends RuntimeOptions {
+  /** Most choices from the start to expand (default 100) */
+  maxDepth?: number | undefined;
+  /** Most distinct states to explore (default 10000) */
+  maxStates?: number | undefined;
+  /** PRNG states tried per choice when the story uses randomness (default 8) */
+  randomSamples?: number | undefined;
+}
+
+/**
+ * A way into a state: the texts and IDs of the choices taken from the start.
+ */
+export interface ExplorePath {
+  choices: string[];
+  choiceIds: string[];
+}
+
+export interface ExploreChoice {
+  nodeId: string;
+  index: number;
+  text: string;
+}
+
+export interface ExploreSoftLock extends ExplorePath {
+  nodeId: string;
+  /**
+   * `dead-end`: a passage whose choices are all hidden, shown as an ending;
+   * `no-ending`: a state from which no choice sequence reaches an ending
+   */
+  kind: 'dead-end' | 'no-ending';
+}
+
+export interface ExploreFailure extends ExplorePath {
+  error: RuntimeError;
+}
+
+export interface ExploreCoverage {
+  reached: number;
+  total: number;
+}
+
+export interface ExploreReport {
+  /** False when the depth or state limit cut exploration short */
+  complete: boolean;
+  states: number;
+  transitions: number;
+  /** Deepest choice count explored */
+  depth: number;
+  coverage: { nodes: ExploreCoverage; choices: ExploreCoverage; endings: ExploreCoverage };
+  /** Nodes no play enters (comment nodes are not counted) */
+  unreachableNodes: string[];
+  /** Choices never shown in any play */
+  unreachableChoices: ExploreChoice[];
+  /** Ending passages no play reaches */
+  unreachableEndings: string[];
+  /** One per node, with the shortest path found into it */
+  softLocks: ExploreSoftLock[];
+  /** Runtime errors, one per code and node, with the shortest path found */
+  errors: ExploreFailure[];
+}
+
+interface ExploredState extends ExplorePath {
+  snapshot: RuntimeSnapshot;
+  frame: RuntimeFrame;
+  depth: number;
+  successors: number[];
+  /** Not expanded because of the limits; may lead anywhere */
+  truncated: boolean;
+}
+
+/**
+ * Explore every state a story can reach, up to the limits.
+ */
+export function exploreStory(story: Story, options: ExploreOptions = {}): ExploreReport {
+  const maxDepth = options.maxDepth ?? 100;
+  const maxStates = options.maxStates ?? 10_000;
+  const text = JSON.stringify(story.getAllNodes());
+  const randomized =
+    story.getAllNodes().some((node) => node.type === 'random') || USES_RANDOM.test(text);
+  const samples = randomized ? Math.max(1, options.randomSamples ?? 8) : 1;
+  const tracksVisits = USES_VISITS.test(text);
+  const runtimeOptions: RuntimeOptions = { ...options, seed: options.seed ?? 0, maxHistory: 0 };
+
+  const states: ExploredState[] = [];
+  const ids = new Map<string, number>();
+  const reachedNodes = new Set<string>();
+  const shownChoices = new Set<string>();
+  const errors = new Map<string, ExploreFailure>();
+  let transitions = 0;
+  let complete = true;
+
+  const root = createRuntime(story, runtimeOptions);
+  let current = root;
+
+  // Record the result of a step on `current`: the ID of the state it
+  // reached, 'error' for a runtime error, or 'limit' past maxStates
+  const record = (result: RuntimeResult, path: ExplorePath, depth: number) => {
+    for (const [key, count] of Object.entries(current.visited)) {
+      if (count > 0) reachedNodes.add(key);
+    }
+    if (!result.frame) {
+      const error = result.error!;
+      const errorKey = `${error.code} ${error.nodeId ?? ''}`;
+      if (!errors.has(errorKey)) errors.set(errorKey, { error, ...path });
+      return 'error';
+    }
+
+    const key = JSON.stringify([
+      current.currentFile,
+      current.currentNodeId,
+      current.stack,
+      sortKeys(current.variables),
+      tracksVisits ? sortKeys(current.visited) : null,
+    ]);
+    const known = ids.get(key);
+    if (known !== undefined) return known;
+    if (states.length >= maxStates) return 'limit';
+
+    const frame = result.frame;
+    for (const choice of frame.choices) {
+      shownChoices.add(`${frame.nodeId} ${choiceIndex(choice.id)}`);
+    }
+    const id = states.length;
+    ids.set(key, id);
+    states.push({
+      ...path,
+      snapshot: snapshot(current),
+      frame,
+      depth,
+      successors: [],
+      truncated: false,
+    });
+    return id;
+  };
+
+  record(start(root), { choices: [], choiceIds: [] }, 0);
+
+  for (let id = 0; id < states.length; id++) {
+    const state = states[id];
+    if (state.frame.choices.length === 0) continue;
+    if (state.depth >= maxDepth) {
+      state.truncated = true;
+      complete = false;
+      continue;
+    }
+
+    for (const choice of state.frame.choices) {
+      const path = {
+        choices: [...state.choices, choice.text],
+        choiceIds: [...state.choiceIds, choice.id],
+      };
+      for (let sample = 0; sample < samples; sample++) {
+        current = hydrate(story, state.snapshot, runtimeOptions);
+        if (sample > 0) current.random = createRandomState(`${id}:${choice.id}:${sample}`);
+        const next = record(choose(current, choice.id), path, state.depth + 1);
+        transitions++;
+        if (next === 'limit') {
+          state.truncated = true;
+          complete = false;
+        } else if (next !== 'error' && !state.successors.includes(next)) {
+          state.successors.push(next);
+        }
+      }
+    }
+  }
+
+  // Nodes and endings of the root story and of every file play entered
+  const nodes = new Map<string, StoryNode>();
+  const files = new Set<string | null>([null]);
+  for (const key of reachedNodes) files.add(parseQualifiedNodeId(key).file ?? null);
+  for (const file of files) {
+    const fileStory = file === null ? story : root.loader?.load(file);
+    for (const node of fileStory?.getAllNodes() ?? []) {
+      if (node.type !== 'comment') nodes.set(qualifyNodeId(file, node.id), node);
+    }
+  }
+
+  const unreachableChoices: ExploreChoice[] = [];
+  let choiceTotal = 0;
+  for (const [nodeId, node] of nodes) {
+    if (node.type !== 'passage' && node.type !== 'choice') continue;
+    (node.choices ?? []).forEach((choice, index) => {
+      choiceTotal++;
+      if (!shownChoices.has(`${nodeId} ${index}`)) {
+        unreachableChoices.push({ nodeId, index, text: choice.text });
+      }
+    });
+  }
+
+  const endings = [...nodes].filter(([, node]) => isEndingNode(node)).map(([id]) => id);
+  const unreachableNodes = [...nodes.keys()].filter((id) => !reachedNodes.has(id));
+  const unreachableEndings = endings.filter((id) => !reachedNodes.has(id));
+
+  return {
+    complete,
+    states: states.length,
+    transitions,
+    depth: states.reduce((max, state) => Math.max(max, state.depth), 0),
+    coverage: {
+      nodes: { reached: nodes.size - unreachableNodes.length, total: nodes.size },
+      choices: { reached: choiceTotal - unreachableChoices.length, total: choiceTotal },
+      endings: { reached: endings.length - unreachableEndings.length, total: endings.length },
+    },
+    unreachableNodes,
+    unreachableChoices,
+    unreachableEndings,
+    softLocks: findSoftLocks(states, nodes),
+    errors: [...errors.values()],
+  };
+}
+
+/**
+ * Dead ends, and states that can't reach an ending. A state the limits cut
+ * short counts as reaching one, so only certain soft-locks are reported.
+ */
+function findSoftLocks(states: ExploredState[], nodes: Map<string, StoryNode>): ExploreSoftLock[] {
+  const softLocks = new Map<string, ExploreSoftLock>();
+  const predecessors = states.map((): number[] => []);
+  const canEnd = new Set<number>();
+
+  states.forEach((state, id) => {
+    for (const next of state.successors) predecessors[next].push(id);
+    if (state.truncated) canEnd.add(id);
+    if (!state.frame.ending) return;
+    const node = nodes.get(state.frame.nodeId);
+    if (node && !isEndingNode(node)) {
+      if (!softLocks.has(state.frame.nodeId)) {
+        softLocks.set(state.frame.nodeId, lock(state, 'dead-end'));
+      }
+    } else {
+      canEnd.add(id);
+    }
+  });
+
+  const queue = [...canEnd];
+  while (queue.length > 0) {
+    for (const previous of predecessors[queue.shift()!]) {
+      if (canEnd.has(previous)) continue;
+      canEnd.add(previous);
+      queue.push(previous);
+    }
+  }
+
+  // States are in breadth-first order, so the first per node has the shortest path
+  states.forEach((state, id) => {
+    if (canEnd.has(id) || state.frame.ending || softLocks.has(state.frame.nodeId)) return;
+    softLocks.set(state.frame.nodeId, lock(state, 'no-ending'));
+  });
+  return [...softLocks.values()];
+}
+
+function lock(state: ExploredState, kind: ExploreSoftLock['kind']): ExploreSoftLock {
+  return { nodeId: state.frame.nodeId, kind, choices: state.choices, choiceIds: state.choiceIds };
+}
+
+/** Passages meant as endings: flagged, or without choices */
+export function isEndingNode(node: StoryNode): boolean {
+  return node.type === 'passage' && (node.ending === true || !node.choices?.length);
+}
+
+function choiceIndex(choiceId: string): number {
+  return Number(choiceId.slice(0, choiceId.indexOf(':')));
+}
+
+function sortKeys<T>(record: Record<string, T>): Array<[string, T]> {
+  return Object.entries(record).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+}
@@ -0,0 +1,132 @@
+/**
+ * Tests for the story fuzzer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseToStory } from '../core/serializer.js';
+import { fuzzStory } from './fuzz.js';
+import { runStoryTest } from './story-test.js';
+
+/** Wandering choices around a missing cellar and a tower with no way on */
+const MAZE = parseToStory(`version: "1.0"
+meta:
+  title: Maze
+variables:
+  has_rope: false
+nodes:
+  hall:
+    type: passage
+    id: hall
+    start: true
+    content: A hall.
+    choices:
+      - text: Wait
+        target: hall
+      - text: Look around
+        target: look
+      - text: Go north
+        target: north
+  look:
+    type: passage
+    id: look
+    content: Nothing here.
+    choices:
+      - text: Back
+        target: hall
+  north:
+    type: passage
+    id: north
+    content: A yard.
+    choices:
+      - text: Back
+        target: hall
+      - text: Enter the cellar
+        target: cellar
+      - text: Climb the tower
+        target: tower
+      - text: Leave
+        target: gate
+  tower:
+    type: passage
+    id: tower
+    content: The top of the tower.
+    choices:
+      - text: Rope down
+        target: gate
+        condition: has_rope
+  gate:
+    type: passage
+    id: gate
+    content: Out.
+    ending: true
+`);
+
+describe('fuzzStory', () => {
+  it('finds runtime errors and dead ends and shrinks them to minimal choices', () => {
+    const report = fuzzStory(MAZE, { runs: 50, seed: 7 });
+    expect(report.runs).toBe(50);
+    expect(report.endings + report.cutOff + report.failures.length).toBeLessThanOrEqual(50);
+
+    const byCode = Object.fromEntries(report.failures.map((failure) => [failure.code, failure]));
+    expect(Object.keys(byCode).sort()).toEqual(['DEAD_END', 'RT001_MISSING_NODE']);
+    expect(byCode.RT001_MISSING_NODE).toMatchObject({
+      kind: 'error',
+      nodeId: 'cellar',
+      choices: ['Go north', 'Enter the cellar'],
+      test: {
+        name: 'RT001_MISSING_NODE at cellar',
+        steps: [{ choose: 'Go north' }, { choose: 'Enter the cellar' }],
+      },
+    });
+    expect(byCode.DEAD_END).toMatchObject({
+      kind: 'dead-end',
+      nodeId: 'tower',
+      choices: ['Go north', 'Climb the tower'],
+      test: { expect: { ending: false } },
+    });
+    expect(report.failures.every((f) => f.foundAfter >= f.choices.length)).toBe(true);
+    expect(report.failures.reduce((sum, f) => sum + f.occurrences, 0)).toBe(
+      50 - report.endings - report.cutOff
+    );
+
+    // The saved tests reproduce the failures
+    for (const failure of report.failures) {
+      const result = runStoryTest(MAZE, failure.test);
+      expect(result.passed).toBe(false);
+      expect(result.failures[0].path).toBe(failure.kind === 'error' ? 'runtime' : 'ending');
+    }
+  });
+
+  it('repeats the same runs for the same seed', () => {
+    expect(fuzzStory(MAZE, { runs: 20, seed: 'abc' })).toEqual(
+      fuzzStory(MAZE, { runs: 20, seed: 'abc' })
+    );
+  });
+
+  it('stops runs at the choice limit', () => {
+    const loop = parseToStory(`version: "1.0"
+meta:
+  title: Loop
+nodes:
+  a:
+    type: passage
+    id: a
+    start: true
+    content: Round and round.
+    choices:
+      - text: Again
+        target: a
+`);
+    const report = fuzzStory(loop, { runs: 3, maxChoices: 10 });
+    expect(report).toMatchObject({ choices: 30, endings: 0, cutOff: 3, failures: [] });
+
+    const limited = fuzzStory(loop, { runs: 1, maxChoices: 10, maxRepeats: 5 });
+    expect(limited.failures).toMatchObject([
+      {
+        code: 'RT010_STEP_LIMIT',
+        nodeId: 'a',
+        choices: ['Again', 'Again', 'Again', 'Again', 'Again'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Story Fuzzer
+ *
+ * Monkey playthroughs: each run starts the story and takes random visible
+ * choices until it reaches an ending or the choice limit. Runs record
+ * runtime errors (step and repeat limits, missing nodes, include depth) and
+ * dead ends, frames shown as endings at nodes that aren't ending passages
+ * because every choice is hidden.
+ *
+ * Each distinct failure is then shrunk: chunks of its choice sequence are
+ * dropped while replaying still reproduces it, leaving a minimal sequence
+ * that comes as a story test ready to save. Runs are seeded, so the same
+ * seed finds and shrinks the same failures.
+ */
+
+import type { Story } from '../core/story.js';
+import { createRandomState, randomInt, type RandomSeed } from '../runtime/random.js';
+import { parseQualifiedNodeId } from '../core/loader.js';
+import {
+  choose,
+  createRuntime,
+  start,
+  type RuntimeOptions,
+  type RuntimeResult,
+} from '../runtime/runtime.js';
+import type { RuntimeError, RuntimeState } from '../runtime/types.js';
+import { isEndingNode, type ExplorePath } from './explore.js';
+import type { StoryTest, StoryTestStep } from './story-test.js';
+
+export interface FuzzOptions extends RuntimeOptions {
+  /** Playthroughs to run (default 100) */
+  runs?: number | undefined;
+  /** Most choices per run (default 100) */
+  maxChoices?: number | undefined;
+}
+
+export interface FuzzFailure extends ExplorePath {
+  kind: 'error' | 'dead-end';
+  /** Runtime error code, or `DEAD_END` */
+  code: string;
+  message: string;
+  nodeId?: string | undefined;
+  /** Runtime seed that reproduces the failure with the shrunk choices */
+  seed: string;
+  /** Runs that hit this failure */
+  occurrences: number;
+  /** Choices the first run took before failing, before shrinking */
+  foundAfter: number;
+  /** The shrunk choices as a story test that fails until the bug is fixed */
+  test: StoryTest;
+}
+
+export interface FuzzReport {
+  seed: RandomSeed;
+  runs: number;
+  /** Choices taken over all runs */
+  choices: number;
+  /** Runs that reached an ending passage */
+  endings: number;
+  /** Runs stopped at the choice limit */
+  cutOff: number;
+  /** One per code and node, in the order found */
+  failures: FuzzFailure[];
+}
+
+type Outcome =
+  | { kind: 'ending' | 'cut-off' }
+  | { kind: 'error'; error: RuntimeError }
+  | { kind: 'dead-end'; nodeId: string };
+
+type FailedOutcome = Extract<Outcome, { kind: 'error' | 'dead-end' }>;
+
+/**
+ * Play a story with random choices and shrink every failure found.
+ */
+export function fuzzStory(story: Story, options: FuzzOptions = {}): FuzzReport {
+  const seed = options.seed ?? 0;
+  const runs = options.runs ?? 100;
+  const maxChoices = options.maxChoices ?? 100;
+  const found = new Map<string, { outcome: FailedOutcome; path: string[]; run: number }>();
+  const report: FuzzReport = { seed, runs, choices: 0, endings: 0, cutOff: 0, failures: [] };
+  const occurrences = new Map<string, number>();
+
+  for (let run = 0; run < runs; run++) {
+    const picks = createRandomState(`${seed}:${run}:choices`);
+    const state = createRuntime(story, { ...options, seed: `${seed}:${run}`, maxHistory: 0 });
+    const path: string[] = [];
+    let result = start(state);
+    let outcome = classify(state, result);
+
+    while (!outcome) {
+      const choices = result.frame!.choices;
+      if (path.length >= maxChoices) {
+        outcome = { kind: 'cut-off' };
+        break;
+      }
+      const choice = choices[randomInt(picks, 0, choices.length - 1)];
+      path.push(choice.id);
+      result = choose(state, choice.id);
+      outcome = classify(state, result);
+    }
+
+    report.choices += path.length;
+    if (outcome.kind === 'error' || outcome.kind === 'dead-end') {
+      const key = signature(outcome);
+      occurrences.set(key, (occurrences.get(key) ?? 0) + 1);
+      if (!found.has(key)) found.set(key, { outcome, path, run });
+    } else if (outcome.kind === 'ending') {
+      report.endings++;
+    } else {
+      report.cutOff++;
+    }
+  }
+
+  for (const [key, { outcome, path, run }] of found) {
+    const runSeed = `${seed}:${run}`;
+    const reproduce = (candidate: string[]) =>
+      replay(story, { ...options, seed: runSeed, maxHistory: 0 }, candidate, key);
+    const shrunk = shrink(path, reproduce);
+    const replayed = reproduce(shrunk)!;
+
+    const nodeId = outcome.kind === 'error' ? outcome.error.nodeId : outcome.nodeId;
+    const code = outcome.kind === 'error' ? outcome.error.code : 'DEAD_END';
+    const message =
+      outcome.kind === 'error' ? outcome.error.message : 'Every choice here is hidden';
+    const test: StoryTest = {
+      name: `${code}${nodeId ? ` at ${nodeId}` : ''}`,
+      seed: runSeed,
+      steps: replayed.steps,
+      ...(outcome.kind === 'dead-end' ? { expect: { ending: false } } : {}),
+    };
+    report.failures.push({
+      kind: outcome.kind,
+      code,
+      message,
+      nodeId,
+      seed: runSeed,
+      occurrences: occurrences.get(key)!,
+      foundAfter: path.length,
+      choices: replayed.choices,
+      choiceIds: shrunk,
+      test,
+    });
+  }
+  return report;
+}
+
+/**
+ * The failure a step ended in, 'ending' for an ending passage, or undefined
+ * while the run can go on.
+ */
+function classify(state: RuntimeState, result: RuntimeResult): Outcome | undefined {
+  if (!result.frame) return { kind: 'error', error: result.error! };
+  const frame = result.frame;
+  if (!frame.ending) return undefined;
+
+  const { file, nodeId } = parseQualifiedNodeId(frame.nodeId);
+  const node = (file ? state.loader?.load(file) : state.story)?.getNode(nodeId);
+  return node && !isEndingNode(node)
+    ? { kind: 'dead-end', nodeId: frame.nodeId }
+    : { kind: 'ending' };
+}
+
+function signature(outcome: FailedOutcome): string {
+  return outcome.kind === 'error'
+    ? `${outcome.error.code} ${outcome.error.nodeId ?? ''}`
+    : `DEAD_END ${outcome.nodeId}`;
+}
+
+/**
+ * Replay choice IDs from the start. When the failure with the given
+ * signature occurs, returns the choices taken up to it, by text and as
+ * story test steps; undefined when it doesn't occur or a choice isn't
+ * offered.
+ */
+function replay(
+  story: Story,
+  options: RuntimeOptions,
+  choiceIds: string[],
+  key: string
+): { length: number; choices: string[]; steps: StoryTestStep[] } | undefined {
+  const state = createRuntime(story, options);
+  const choices: string[] = [];
+  const steps: StoryTestStep[] = [];
+  let result = start(state);
+
+  for (let length = 0; ; length++) {
+    const outcome = classify(state, result);
+    if (outcome) {
+      const failed = outcome.kind === 'error' || outcome.kind === 'dead-end';
+      return failed && signature(outcome) === key ? { length, choices, steps } : undefined;
+    }
+    if (length === choiceIds.length) return undefined;
+
+    const offered = result.frame!.choices;
+    const choice = offered.find((c) => c.id === choiceIds[length]);
+    if (!choice) return undefined;
+    // Story tests pick the first visible choice with a text; use the ID when that is another
+    const byText = offered.find((c) => c.text === choice.text) === choice;
+    choices.push(choice.text);
+    steps.push({ choose: byText ? choice.text : choice.id });
+    result = choose(state, choice.id);
+  }
+}
+
+/**
+ * Drop ever smaller chunks of choices while the failure still reproduces.
+ */
+function shrink(
+  path: string[],
+  reproduce: (candidate: string[]) => { length: number } | undefined
+): string[] {
+  let best = path;
+  for (let size = Math.floor(best.length / 2); size >= 1; ) {
+    let removed = false;
+    for (let from = 0; from + size <= best.length; ) {
+      const candidate = [...best.slice(0, from), ...best.slice(from + size)];
+      const replayed = reproduce(candidate);
+      if (replayed) {
+        best = candidate.slice(0, replayed.length);
+        removed = true;
+      } else {
+        from += size;
+      }
+    }
+    if (!removed) size = Math.floor(size / 2);
+  }
+  return best;
+}
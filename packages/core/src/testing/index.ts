@@ -0,0 +1,33 @@
+export type {
+  StoryTest,
+  StoryTestExpectation,
+  StoryTestFailure,
+  StoryTestFile,
+  StoryTestResult,
+  StoryTestStep,
+} from './story-test.js';
+export {
+  StoryTestExpectationSchema,
+  StoryTestFileSchema,
+  StoryTestSchema,
+  StoryTestStepSchema,
+  formatStoryTestFailure,
+  parseStoryTestFile,
+  runStoryTest,
+  runStoryTests,
+  serializeStoryTestFile,
+} from './story-test.js';
+export type { StoryTestSuite } from './junit.js';
+export { writeJUnitReport } from './junit.js';
+export type {
+  ExploreChoice,
+  ExploreCoverage,
+  ExploreFailure,
+  ExploreOptions,
+  ExplorePath,
+  ExploreReport,
+  ExploreSoftLock,
+} from './explore.js';
+export { exploreStory } from './explore.js';
+export type { FuzzFailure, FuzzOptions, FuzzReport } from './fuzz.js';
+export { fuzzStory } from './fuzz.js';
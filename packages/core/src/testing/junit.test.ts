@@ -0,0 +1,53 @@
+/**
+ * Tests for JUnit XML reports
+ */
+
+import { describe, it, expect } from 'vitest';
+import { writeJUnitReport } from './junit.js';
+
+describe('writeJUnitReport', () => {
+  it('writes a testsuite per file with failures and load errors', () => {
+    const xml = writeJUnitReport([
+      {
+        name: 'door.test.yaml',
+        results: [
+          { name: 'escapes', passed: true, failures: [], choices: [], durationMs: 2 },
+          {
+            name: 'no <key>',
+            passed: false,
+            failures: [
+              {
+                step: 'expect',
+                path: 'node',
+                message: 'Unexpected node',
+                expected: 'outside',
+                actual: 'locked',
+              },
+            ],
+            choices: ['Open the door'],
+            durationMs: 1.5,
+          },
+        ],
+      },
+      { name: 'broken.test.yaml', results: [], error: 'Invalid story test file' },
+    ]);
+
+    expect(xml).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="storygraph" tests="3" failures="1" errors="1" time="0.004">
+  <testsuite name="door.test.yaml" tests="2" failures="1" errors="0" time="0.004">
+    <testcase name="escapes" classname="door.test.yaml" time="0.002"/>
+    <testcase name="no &lt;key&gt;" classname="door.test.yaml" time="0.002">
+      <failure message="Unexpected node" type="node">expect node: Unexpected node
+- expected: &quot;outside&quot;
++ actual:   &quot;locked&quot;</failure>
+    </testcase>
+  </testsuite>
+  <testsuite name="broken.test.yaml" tests="1" failures="0" errors="1" time="0.000">
+    <testcase name="load" classname="broken.test.yaml" time="0">
+      <error message="Invalid story test file"/>
+    </testcase>
+  </testsuite>
+</testsuites>
+`);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * JUnit XML reports for story tests, the format CI servers read test
+ * results from.
+ */
+
+import { formatStoryTestFailure, type StoryTestResult } from './story-test.js';
+
+/**
+ * The results of one test file.
+ */
+export interface StoryTestSuite {
+  /** Usually the test file path */
+  name: string;
+  results: StoryTestResult[];
+  /** Set when the file or its story could not be loaded, so no test ran */
+  error?: string | undefined;
+}
+
+/**
+ * Write suites as a JUnit XML document: one `<testsuite>` per file and one
+ * `<testcase>` per test. A suite that failed to load gets a single test
+ * case with an `<error>`.
+ */
+export function writeJUnitReport(suites: StoryTestSuite[], name = 'storygraph'): string {
+  const count = (suite: StoryTestSuite) => (suite.error ? 1 : suite.results.length);
+  const failed = (suite: StoryTestSuite) => suite.results.filter((r) => !r.passed).length;
+  const errors = (suite: StoryTestSuite) => (suite.error ? 1 : 0);
+  const time = (suite: StoryTestSuite) => suite.results.reduce((sum, r) => sum + r.durationMs, 0);
+  const sum = (of: (suite: StoryTestSuite) => number) =>
+    suites.reduce((total, suite) => total + of(suite), 0);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escape(name)}" tests="${sum(count)}" failures="${sum(failed)}" errors="${sum(errors)}" time="${seconds(sum(time))}">`,
+  ];
+  for (const suite of suites) {
+    lines.push(
+      `  <testsuite name="${escape(suite.name)}" tests="${count(suite)}" failures="${failed(suite)}" errors="${errors(suite)}" time="${seconds(time(suite))}">`
+    );
+    if (suite.error) {
+      lines.push(
+        `    <testcase name="load" classname="${escape(suite.name)}" time="0">`,
+        `      <error message="${escape(suite.error)}"/>`,
+        '    </testcase>'
+      );
+    }
+    for (const result of suite.results) {
+      const testcase = `<testcase name="${escape(result.name)}" classname="${escape(suite.name)}" time="${seconds(result.durationMs)}"`;
+      if (result.passed) {
+        lines.push(`    ${testcase}/>`);
+        continue;
+      }
+      const details = result.failures.flatMap(formatStoryTestFailure).join('\n');
+      lines.push(
+        `    ${testcase}>`,
+        `      <failure message="${escape(result.failures[0].message)}" type="${escape(result.failures[0].path)}">${escape(details)}</failure>`,
+        '    </testcase>'
+      );
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,178 @@
+/**
+ * Tests for scripted story tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ValidationError, parseToStory } from '../core/serializer.js';
+import { formatStoryTestFailure, parseStoryTestFile, runStoryTest } from './story-test.js';
+
+const STORY = parseToStory(`version: "1.0"
+meta:
+  title: The Locked Door
+variables:
+  has_key: false
+  coins: 0
+nodes:
+  hall:
+    type: passage
+    id: hall
+    start: true
+    content: A hall with an alcove and a heavy door.
+    choices:
+      - text: Search the alcove
+        target: search
+      - text: Open the door
+        target: door
+      - text: Pay the guard
+        target: outside
+        condition: coins >= 5
+  search:
+    type: variable
+    id: search
+    set:
+      has_key: true
+    next: hall
+  door:
+    type: condition
+    id: door
+    expression: has_key
+    ifTrue: outside
+    ifFalse: locked
+  locked:
+    type: passage
+    id: locked
+    content: The door is locked.
+    choices:
+      - text: Back
+        target: hall
+  outside:
+    type: passage
+    id: outside
+    content: The door swings open onto the night.
+    ending: true
+`);
+
+function test(source: string) {
+  return parseStoryTestFile(source).tests[0];
+}
+
+describe('parseStoryTestFile', () => {
+  it('reads YAML and JSON test files', () => {
+    const file = parseStoryTestFile(`story: door.story
+tests:
+  - name: escapes
+    steps:
+      - choose: Search the alcove
+      - expect: { node: hall, variables: { has_key: true } }
+`);
+    expect(file.story).toBe('door.story');
+    expect(file.tests[0].steps).toEqual([
+      { choose: 'Search the alcove' },
+      { expect: { node: 'hall', variables: { has_key: true } } },
+    ]);
+    expect(parseStoryTestFile('{"tests": [{"name": "starts"}]}').tests[0].steps).toEqual([]);
+  });
+
+  it('rejects unknown fields', () => {
+    expect(() => parseStoryTestFile('tests:\n  - name: x\n    steps:\n      - pick: 1\n')).toThrow(
+      ValidationError
+    );
+    expect(() => parseStoryTestFile('tests: []\n')).toThrow('Invalid story test file');
+  });
+});
+
+describe('runStoryTest', () => {
+  it('passes when every step and check holds', () => {
+    const result = runStoryTest(
+      STORY,
+      test(`tests:
+  - name: escapes with the key
+    steps:
+      - expect: { choices: [Search the alcove, Open the door], ending: false }
+      - choose: Search the alcove
+      - expect: { node: hall, variables: { has_key: true } }
+      - choose: 1:door
+    expect: { node: outside, ending: true, text: onto the night }
+`)
+    );
+    expect(result).toMatchObject({
+      name: 'escapes with the key',
+      passed: true,
+      failures: [],
+      choices: ['Search the alcove', 'Open the door'],
+    });
+  });
+
+  it('starts from the given node and variables', () => {
+    const result = runStoryTest(
+      STORY,
+      test(`tests:
+  - name: pays the guard
+    start: { node: hall, variables: { coins: 5 } }
+    steps:
+      - choose: Pay the guard
+    expect: { ending: true }
+`)
+    );
+    expect(result.passed).toBe(true);
+  });
+
+  it('reports every failed check of a step with expected and actual values', () => {
+    const result = runStoryTest(
+      STORY,
+      test(`tests:
+  - name: no key
+    steps:
+      - choose: Open the door
+      - expect: { node: outside, variables: { has_key: true, coins: 0 } }
+      - choose: Back
+`)
+    );
+    expect(result.passed).toBe(false);
+    expect(result.choices).toEqual(['Open the door']);
+    expect(result.failures).toEqual([
+      {
+        step: 'steps[1]',
+        path: 'node',
+        message: 'Unexpected node',
+        expected: 'outside',
+        actual: 'locked',
+      },
+      {
+        step: 'steps[1]',
+        path: 'variables.has_key',
+        message: 'Unexpected value of has_key',
+        expected: true,
+        actual: false,
+      },
+    ]);
+    expect(formatStoryTestFailure(result.failures[0])).toEqual([
+      'steps[1] node: Unexpected node',
+      '- expected: "outside"',
+      '+ actual:   "locked"',
+    ]);
+  });
+
+  it('fails on choices that are not visible and on runtime errors', () => {
+    const hidden = runStoryTest(
+      STORY,
+      test('tests:\n  - name: hidden\n    steps:\n      - choose: Pay the guard\n')
+    );
+    expect(hidden.failures).toEqual([
+      {
+        step: 'steps[0]',
+        path: 'choose',
+        message: 'No visible choice "Pay the guard" at hall',
+        expected: 'Pay the guard',
+        actual: ['Search the alcove', 'Open the door'],
+      },
+    ]);
+
+    const missing = runStoryTest(
+      STORY,
+      test('tests:\n  - name: nowhere\n    start: { node: attic }\n')
+    );
+    expect(missing.failures).toHaveLength(1);
+    expect(missing.failures[0]).toMatchObject({ step: 'start', path: 'runtime' });
+  });
+});
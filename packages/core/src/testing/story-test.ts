@@ -0,0 +1,292 @@
+/**
+ * Story Tests
+ *
+ * Scripted playthroughs that check narrative logic. A test file lists tests;
+ * each test starts the runtime (optionally at a node, with some variables
+ * set), takes choices by text or ID, and checks the frames it reaches: the
+ * node, whether it is an ending, the text, the visible choices and
+ * variable values. Tests are seeded, so random nodes take the same path on
+ * every run.
+ */
+
+import * as yaml from 'js-yaml';
+import { z } from 'zod';
+import type { Story } from '../core/story.js';
+import { VariableValueSchema } from '../core/types.js';
+import { ValidationError, loadYaml, toValidationIssues } from '../core/serializer.js';
+import { choose, createRuntime, start, type RuntimeOptions } from '../runtime/runtime.js';
+import type { RuntimeFrame } from '../runtime/types.js';
+
+// =============================================================================
+// Test File Schema
+// =============================================================================
+
+/**
+ * What a frame must look like. Only the fields given are checked.
+ */
+export const StoryTestExpectationSchema = z
+  .object({
+    /** ID of the node the frame shows (`file#id` inside included files) */
+    node: z.string().min(1).optional(),
+    /** Whether the frame is an ending */
+    ending: z.boolean().optional(),
+    /** Text the frame's text contains */
+    text: z.string().optional(),
+    /** Texts of the visible choices, in order */
+    choices: z.array(z.string()).optional(),
+    /** Values of these variables; others are not checked */
+    variables: z.record(z.string(), VariableValueSchema).optional(),
+  })
+  .strict();
+
+export type StoryTestExpectation = z.infer<typeof StoryTestExpectationSchema>;
+
+/**
+ * One step: take a choice, by its text or its `RuntimeChoice.id`, or check
+ * the current frame.
+ */
+export const StoryTestStepSchema = z.union([
+  z.object({ choose: z.string().min(1) }).strict(),
+  z.object({ expect: StoryTestExpectationSchema }).strict(),
+]);
+
+export type StoryTestStep = z.infer<typeof StoryTestStepSchema>;
+
+export const StoryTestSchema = z
+  .object({
+    name: z.string().min(1).max(256),
+    /** PRNG seed (default 0) */
+    seed: z.union([z.number(), z.string()]).optional(),
+    /** Start state: the node to start at and variables to set first */
+    start: z
+      .object({
+        node: z.string().min(1).optional(),
+        variables: z.record(z.string(), VariableValueSchema).optional(),
+      })
+      .strict()
+      .optional(),
+    steps: z.array(StoryTestStepSchema).default([]),
+    /** Checked after the last step */
+    expect: StoryTestExpectationSchema.optional(),
+  })
+  .strict();
+
+export type StoryTest = z.infer<typeof StoryTestSchema>;
+
+export const StoryTestFileSchema = z
+  .object({
+    /** Story under test, relative to the test file */
+    story: z.string().min(1).optional(),
+    tests: z.array(StoryTestSchema).min(1),
+  })
+  .strict();
+
+export type StoryTestFile = z.infer<typeof StoryTestFileSchema>;
+
+/**
+ * Parse a story test file, YAML or JSON.
+ *
+ * @throws ParseError if the syntax is invalid
+ * @throws ValidationError if the file doesn't match the schema
+ */
+export function parseStoryTestFile(content: string): StoryTestFile {
+  const result = StoryTestFileSchema.safeParse(loadYaml(content));
+  if (!result.success) {
+    throw new ValidationError(
+      `Invalid story test file: ${result.error.issues.length} validation error(s)`,
+      toValidationIssues(result.error)
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Serialize a story test file as YAML, for tools that write tests.
+ */
+export function serializeStoryTestFile(file: StoryTestFile): string {
+  return yaml.dump(file, { noRefs: true, lineWidth: -1 });
+}
+
+// =============================================================================
+// Running Tests
+// =============================================================================
+
+/**
+ * A check that did not hold, or a step that could not be taken.
+ */
+export interface StoryTestFailure {
+  /** Where the test failed: `start`, `steps[N]` or `expect` */
+  step: string;
+  /** What was checked: `node`, `variables.gold`, `choose`, `runtime`... */
+  path: string;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+export interface StoryTestResult {
+  name: string;
+  passed: boolean;
+  /** Empty when passed; a test stops at its first failing step */
+  failures: StoryTestFailure[];
+  /** Texts of the choices taken */
+  choices: string[];
+  durationMs: number;
+}
+
+/**
+ * Run one test against a story. Runtime options such as the include
+ * loader are passed through; the test's seed replaces any given seed.
+ */
+export function runStoryTest(
+  story: Story,
+  test: StoryTest,
+  options: RuntimeOptions = {}
+): StoryTestResult {
+  const started = performance.now();
+  const state = createRuntime(story, { ...options, seed: test.seed ?? 0 });
+  Object.assign(state.variables, test.start?.variables);
+
+  const choices: string[] = [];
+  const failures: StoryTestFailure[] = [];
+  const finish = (): StoryTestResult => ({
+    name: test.name,
+    passed: failures.length === 0,
+    failures,
+    choices,
+    durationMs: performance.now() - started,
+  });
+
+  let result = start(state, test.start?.node);
+  let step = 'start';
+  const steps: Array<[string, StoryTestStep]> = test.steps.map((s, i) => [`steps[${i}]`, s]);
+  if (test.expect) steps.push(['expect', { expect: test.expect }]);
+
+  for (const [label, next] of steps) {
+    if (!result.frame) break;
+    step = label;
+    const frame: RuntimeFrame = result.frame;
+
+    if ('expect' in next) {
+      failures.push(...checkFrame(frame, next.expect, label));
+      if (failures.length > 0) return finish();
+      continue;
+    }
+
+    const choice =
+      frame.choices.find((c) => c.text === next.choose) ??
+      frame.choices.find((c) => c.id === next.choose);
+    if (!choice) {
+      failures.push({
+        step: label,
+        path: 'choose',
+        message: `No visible choice "${next.choose}" at ${frame.nodeId}`,
+        expected: next.choose,
+        actual: frame.choices.map((c) => c.text),
+      });
+      return finish();
+    }
+    choices.push(choice.text);
+    result = choose(state, choice.id);
+  }
+
+  if (result.error) {
+    failures.push({
+      step,
+      path: 'runtime',
+      message: `${result.error.code}: ${result.error.message}`,
+    });
+  }
+  return finish();
+}
+
+/**
+ * Run every test of a file against a story.
+ */
+export function runStoryTests(
+  story: Story,
+  file: StoryTestFile,
+  options: RuntimeOptions = {}
+): StoryTestResult[] {
+  return file.tests.map((test) => runStoryTest(story, test, options));
+}
+
+function checkFrame(
+  frame: RuntimeFrame,
+  expectation: StoryTestExpectation,
+  step: string
+): StoryTestFailure[] {
+  const failures: StoryTestFailure[] = [];
+  const check = (path: string, expected: unknown, actual: unknown, message: string) => {
+    if (!valuesEqual(expected, actual)) failures.push({ step, path, message, expected, actual });
+  };
+
+  if (expectation.node !== undefined) {
+    check('node', expectation.node, frame.nodeId, 'Unexpected node');
+  }
+  if (expectation.ending !== undefined) {
+    check(
+      'ending',
+      expectation.ending,
+      frame.ending,
+      expectation.ending ? 'Expected an ending' : 'Expected the story to go on'
+    );
+  }
+  if (expectation.text !== undefined && !frame.text.includes(expectation.text)) {
+    failures.push({
+      step,
+      path: 'text',
+      message: 'Text does not contain the expected text',
+      expected: expectation.text,
+      actual: frame.text,
+    });
+  }
+  if (expectation.choices !== undefined) {
+    check(
+      'choices',
+      expectation.choices,
+      frame.choices.map((c) => c.text),
+      'Unexpected visible choices'
+    );
+  }
+  for (const [name, value] of Object.entries(expectation.variables ?? {})) {
+    check(`variables.${name}`, value, frame.variables[name], `Unexpected value of ${name}`);
+  }
+  return failures;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => valuesEqual(item, b[index]))
+    );
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const aKeys = Object.keys(a);
+  const bRecord = b as Record<string, unknown>;
+  return (
+    aKeys.length === Object.keys(b).length &&
+    aKeys.every(
+      (key) => key in bRecord && valuesEqual((a as Record<string, unknown>)[key], bRecord[key])
+    )
+  );
+}
+
+/**
+ * A failure as text: the step, what was checked and why, then the expected
+ * and actual values as `-`/`+` lines when there are any.
+ */
+export function formatStoryTestFailure(failure: StoryTestFailure): string[] {
+  const lines = [`${failure.step} ${failure.path}: ${failure.message}`];
+  if ('expected' in failure) lines.push(`- expected: ${formatValue(failure.expected)}`);
+  if ('actual' in failure) lines.push(`+ actual:   ${formatValue(failure.actual)}`);
+  return lines;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(not set)' : JSON.stringify(value);
+}